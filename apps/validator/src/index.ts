@@ -0,0 +1,58 @@
+// Entry point. Configured through the environment:
+//   PORT                 default 8787
+//   VALIDATOR_STORAGE    'memory' (default) or 'sqlite'
+//   VALIDATOR_DB         SQLite file, default validator.db (':memory:' works)
+//   VALIDATOR_KEY_FILE   Ed25519 PKCS#8 PEM, a throwaway key is made if unset
+//   RATE_LIMIT_STORAGE   'memory' (default) or 'redis', shared between
+//                        validator processes
+//   REDIS_URL            default redis://localhost:6379
+//   ALLOWED_ORIGIN       CORS origin of the web app, default '*'
+import { RedisRateLimitStore } from '@repo/security/rate-limit-stores';
+import { createClient } from 'redis';
+
+import { createValidatorServer } from './server';
+import { ResultSigner } from './signer';
+import { MemoryStore, SqliteStore, type ValidatorStore } from './store';
+
+const port = Number(process.env.PORT ?? 8787);
+
+const store: ValidatorStore =
+  process.env.VALIDATOR_STORAGE === 'sqlite'
+    ? await SqliteStore.open(process.env.VALIDATOR_DB ?? 'validator.db')
+    : new MemoryStore();
+
+const keyFile = process.env.VALIDATOR_KEY_FILE;
+if (!keyFile) {
+  console.warn('VALIDATOR_KEY_FILE not set, signing with a throwaway key');
+}
+const signer = keyFile
+  ? ResultSigner.fromFile(keyFile)
+  : ResultSigner.ephemeral();
+
+const redis =
+  process.env.RATE_LIMIT_STORAGE === 'redis'
+    ? await createClient({ url: process.env.REDIS_URL }).connect()
+    : undefined;
+const rateLimitStore = redis ? new RedisRateLimitStore(redis) : undefined;
+
+const server = createValidatorServer({
+  store,
+  signer,
+  rateLimitStore,
+  allowedOrigin: process.env.ALLOWED_ORIGIN,
+});
+
+server.listen(port, () => {
+  console.log(`Validator listening on http://localhost:${port}`);
+  console.log(`Result signing key: ${signer.getPublicKey()}`);
+});
+
+const shutdown = () => {
+  server.close(() => {
+    void Promise.all([store.close(), redis?.quit()]).then(() =>
+      process.exit(0)
+    );
+  });
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
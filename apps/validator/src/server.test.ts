@@ -0,0 +1,410 @@
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+
+import { rollRelicDrop } from '@repo/security/relics';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { createValidatorServer } from './server';
+import { ResultSigner } from './signer';
+import { MemoryStore, type StoredResult } from './store';
+
+describe('validator routes', () => {
+  let server: Server;
+  let baseUrl: string;
+  let signer: ResultSigner;
+  let store: MemoryStore;
+
+  beforeEach(async () => {
+    // Only Date is faked, the HTTP round trips still need real timers
+    vi.useFakeTimers({ toFake: ['Date'] });
+    signer = ResultSigner.ephemeral();
+    store = new MemoryStore();
+    server = createValidatorServer({ store, signer });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const request = async (method: string, path: string, body?: unknown) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  const startSession = async (level = 1) => {
+    const { status, body } = await request('POST', '/sessions', {
+      playerAddress: '0xplayer',
+      level,
+    });
+    expect(status).toBe(201);
+    return body as { sessionId: string; seed: string; startTime: number };
+  };
+
+  // Three kills worth 100 each over a minute, one checkpoint
+  const playSession = async (sessionId: string, startTime: number) => {
+    const actions = [0, 1, 2].map((index) => ({
+      timestamp: startTime + (index + 1) * 10_000,
+      type: 'enemy_killed',
+      data: { points: 100 },
+    }));
+    expect(
+      await request('POST', `/sessions/${sessionId}/actions`, { actions })
+    ).toEqual({ status: 200, body: { recorded: 3 } });
+
+    const checkpoint = {
+      timestamp: startTime + 40_000,
+      level: 1,
+      score: 300,
+      health: 80,
+      position: { x: 100, y: 200 },
+      enemiesKilled: 3,
+      itemsCollected: 0,
+    };
+    expect(
+      await request('POST', `/sessions/${sessionId}/checkpoints`, {
+        checkpoint,
+      })
+    ).toEqual({ status: 200, body: { recorded: 1 } });
+
+    vi.setSystemTime(startTime + 60_000);
+  };
+
+  // The one level cleared, 40 seconds of the minute played
+  const splits = { startLevel: 1, splits: [40_000] };
+
+  it('reports health and the signing key', async () => {
+    expect(await request('GET', '/health')).toEqual({
+      status: 200,
+      body: { ok: true },
+    });
+
+    const { body } = await request('GET', '/public-key');
+    expect(body.publicKey).toBe(signer.getPublicKey());
+    expect(body.algorithm).toBe('ed25519');
+  });
+
+  it('starts a session with a seed', async () => {
+    const { sessionId, seed } = await startSession();
+
+    expect(seed).toMatch(/^[0-9a-f]{32}$/);
+    expect((await store.getSession(sessionId))?.status).toBe('active');
+  });
+
+  it('rejects malformed requests', async () => {
+    expect((await request('POST', '/sessions', { level: 1 })).status).toBe(400);
+
+    const { sessionId } = await startSession();
+    expect(
+      (
+        await request('POST', `/sessions/${sessionId}/actions`, {
+          actions: [{ timestamp: 'soon', type: 'move' }],
+        })
+      ).status
+    ).toBe(400);
+    expect(
+      (
+        await request('POST', `/sessions/${sessionId}/checkpoints`, {
+          checkpoint: { level: 1 },
+        })
+      ).status
+    ).toBe(400);
+    expect(
+      (await request('POST', `/sessions/${sessionId}/validate`, {})).status
+    ).toBe(400);
+    expect(
+      (
+        await request('POST', `/sessions/${sessionId}/validate`, {
+          finalScore: 300,
+          startLevel: 0,
+          splits: [-1],
+        })
+      ).status
+    ).toBe(400);
+  });
+
+  it('returns 404 for unknown sessions and routes', async () => {
+    expect(
+      (await request('POST', '/sessions/missing/actions', { actions: [] }))
+        .status
+    ).toBe(404);
+    expect((await request('GET', '/results/missing')).status).toBe(404);
+    expect((await request('GET', '/nowhere')).status).toBe(404);
+  });
+
+  it('signs a clean run and stores the result', async () => {
+    const { sessionId, startTime } = await startSession();
+    await playSession(sessionId, startTime);
+
+    const { status, body } = await request(
+      'POST',
+      `/sessions/${sessionId}/validate`,
+      { finalScore: 300, ...splits }
+    );
+    const result = body as StoredResult;
+
+    expect(status).toBe(200);
+    expect(result).toMatchObject({
+      sessionId,
+      playerAddress: '0xplayer',
+      score: 300,
+      valid: true,
+      flags: [],
+      ...splits,
+    });
+    expect(signer.verify(result, result.signature!)).toBe(true);
+    // The splits are covered by the signature
+    expect(
+      signer.verify({ ...result, splits: [1_000] }, result.signature!)
+    ).toBe(false);
+
+    expect(await request('GET', `/results/${sessionId}`)).toEqual({
+      status: 200,
+      body: result,
+    });
+    expect(await request('GET', '/players/0xplayer/results')).toEqual({
+      status: 200,
+      body: [result],
+    });
+    expect((await store.getSession(sessionId))?.status).toBe('completed');
+  });
+
+  it('returns the stored verdict when asked again', async () => {
+    const { sessionId, startTime } = await startSession();
+    await playSession(sessionId, startTime);
+
+    const first = await request('POST', `/sessions/${sessionId}/validate`, {
+      finalScore: 300,
+      ...splits,
+    });
+    const second = await request('POST', `/sessions/${sessionId}/validate`, {
+      finalScore: 99_999,
+      ...splits,
+    });
+    expect(second).toEqual(first);
+  });
+
+  it('signs one verdict for concurrent validations', async () => {
+    const { sessionId, startTime } = await startSession();
+    await playSession(sessionId, startTime);
+
+    const [first, second] = await Promise.all(
+      [300, 290].map((finalScore) =>
+        request('POST', `/sessions/${sessionId}/validate`, {
+          finalScore,
+          ...splits,
+        })
+      )
+    );
+    expect(second).toEqual(first);
+    expect(await request('GET', `/results/${sessionId}`)).toEqual(first);
+  });
+
+  it('closes a session once validated', async () => {
+    const { sessionId, startTime } = await startSession();
+    await playSession(sessionId, startTime);
+    await request('POST', `/sessions/${sessionId}/validate`, {
+      finalScore: 300,
+      ...splits,
+    });
+
+    const { status } = await request(
+      'POST',
+      `/sessions/${sessionId}/actions`,
+      { actions: [{ timestamp: Date.now(), type: 'move', data: null }] }
+    );
+    expect(status).toBe(409);
+  });
+
+  it('refuses to sign an empty run', async () => {
+    const { sessionId } = await startSession();
+
+    const { body } = await request('POST', `/sessions/${sessionId}/validate`, {
+      finalScore: 50_000,
+      ...splits,
+    });
+    const result = body as StoredResult;
+
+    expect(result.valid).toBe(false);
+    expect(result.score).toBe(0);
+    expect(result.signature).toBeUndefined();
+    expect(result.flags).toEqual(
+      expect.arrayContaining(['game_too_short', 'no_actions'])
+    );
+    expect((await store.getSession(sessionId))?.status).toBe('invalid');
+  });
+
+  it('refuses to sign splits longer than the session', async () => {
+    const { sessionId, startTime } = await startSession();
+    await playSession(sessionId, startTime);
+
+    const { body } = await request('POST', `/sessions/${sessionId}/validate`, {
+      finalScore: 300,
+      startLevel: 1,
+      splits: [40_000, 30_000],
+    });
+    const result = body as StoredResult;
+
+    expect(result.valid).toBe(false);
+    expect(result.signature).toBeUndefined();
+    expect(result.flags).toContain('splits_too_long');
+  });
+
+  // A run started on level 10 whose first kill is the Shadow Lord, rolled
+  // so that it drops its relic
+  const killShadowLord = async () => {
+    const { sessionId, seed, startTime } = await startSession(10);
+    const roll = Array.from({ length: 500 }, (_, roll) => roll).find(
+      (roll) => rollRelicDrop(seed, 10, roll, 'shadow-lord') !== null
+    )!;
+    const actions = [
+      {
+        timestamp: startTime + 10_000,
+        type: 'enemy_killed',
+        data: { points: 500, roll, boss: 'shadow-lord' },
+      },
+    ];
+    await request('POST', `/sessions/${sessionId}/actions`, { actions });
+    return { sessionId, seed, roll };
+  };
+
+  it('signs relic drops it re-rolled from a recorded kill', async () => {
+    const { sessionId, seed, roll } = await killShadowLord();
+
+    const { status, body } = await request(
+      'POST',
+      `/sessions/${sessionId}/relics`,
+      { level: 10, roll }
+    );
+    expect(status).toBe(200);
+    expect(body).toMatchObject({
+      sessionId,
+      playerAddress: '0xplayer',
+      seed,
+      level: 10,
+      roll,
+      rarity: 'epic',
+    });
+    expect(signer.verifyRelic(body, body.signature)).toBe(true);
+    // Rarity and power are covered by the signature
+    expect(
+      signer.verifyRelic({ ...body, rarity: 'mythic' }, body.signature)
+    ).toBe(false);
+    expect(
+      signer.verifyRelic({ ...body, power: body.power + 1 }, body.signature)
+    ).toBe(false);
+    // A drop signature is no result signature
+    expect(
+      signer.verify(
+        { ...body, score: 0, startLevel: 10, splits: [], issuedAt: 0 },
+        body.signature
+      )
+    ).toBe(false);
+  });
+
+  it('refuses drops no recorded kill made', async () => {
+    const { sessionId, roll } = await killShadowLord();
+
+    const relics = `/sessions/${sessionId}/relics`;
+    expect((await request('POST', relics, { level: 10 })).status).toBe(400);
+    expect(
+      (await request('POST', relics, { level: 10, roll: roll + 1 })).status
+    ).toBe(422);
+    expect((await request('POST', relics, { level: 11, roll })).status).toBe(
+      422
+    );
+    expect(
+      (await request('POST', '/sessions/missing/relics', { level: 10, roll }))
+        .status
+    ).toBe(404);
+  });
+
+  it('refuses drops from runs it refused to sign', async () => {
+    const { sessionId, roll } = await killShadowLord();
+    await request('POST', `/sessions/${sessionId}/validate`, {
+      finalScore: 50_000,
+      startLevel: 10,
+      splits: [],
+    });
+
+    const { status } = await request('POST', `/sessions/${sessionId}/relics`, {
+      level: 10,
+      roll,
+    });
+    expect(status).toBe(409);
+  });
+
+  it('keeps reaction timings on the server', async () => {
+    const { status, body } = await request('POST', '/challenges', {
+      playerAddress: '0xplayer',
+      type: 'timing',
+    });
+    expect(status).toBe(201);
+    expect(body.data).toEqual({ kind: 'reaction', rounds: 3 });
+
+    // Nothing to press before a round has started
+    expect(
+      (await request('POST', `/challenges/${body.id}/presses`)).status
+    ).toBe(409);
+
+    // Press times the client made up don't count
+    const verdict = await request('POST', `/challenges/${body.id}/verify`, {
+      response: [1500, 3300, 5200],
+    });
+    expect(verdict.body.passed).toBe(false);
+  });
+
+  it('checks challenge answers', async () => {
+    expect(
+      (await request('POST', '/challenges', { playerAddress: '0xplayer' }))
+        .status
+    ).toBe(400);
+
+    const { body } = await request('POST', '/challenges', {
+      playerAddress: '0xplayer',
+      type: 'puzzle',
+    });
+    expect(body.data.kind).toBe('sliding_tile');
+    const verdict = await request('POST', `/challenges/${body.id}/verify`, {
+      response: [],
+    });
+    expect(verdict.body).toMatchObject({ passed: false, attempts: 1 });
+  });
+
+  it('asks players with bot-like behavior for a challenge', async () => {
+    const human = await request('POST', '/players/0xplayer/behavior', {
+      mouseMovements: 400,
+      keyPresses: 250,
+      sessionDuration: 600_000,
+      actionsPerMinute: 40,
+      pauseFrequency: 3,
+    });
+    expect(human.body).toEqual({ challengeRequired: false });
+
+    const bot = await request('POST', '/players/0xbot/behavior', {
+      mouseMovements: 0,
+      keyPresses: 0,
+      sessionDuration: 120_000,
+      actionsPerMinute: 600,
+    });
+    expect(bot.body).toEqual({ challengeRequired: true });
+  });
+
+  it('rate limits session starts per player', async () => {
+    for (let i = 0; i < 10; i++) await startSession();
+
+    const response = await fetch(`${baseUrl}/sessions`, {
+      method: 'POST',
+      body: JSON.stringify({ playerAddress: '0xplayer', level: 1 }),
+    });
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).not.toBeNull();
+  });
+});
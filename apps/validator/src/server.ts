@@ -0,0 +1,567 @@
+// HTTP API around the game's anti-cheat checks, so they run somewhere the
+// player can't patch them out
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from 'node:http';
+
+import {
+  BotProtection,
+  type ChallengeType,
+  type UserBehavior,
+} from '@repo/security/bot-protection';
+import {
+  CheatDetector,
+  type CheatDetection,
+  type GameData,
+} from '@repo/security/cheat-detection';
+import type {
+  RateLimitStore,
+} from '@repo/security/rate-limit-stores';
+import {
+  RateLimiter,
+  type RateLimitType,
+} from '@repo/security/rate-limiter';
+import {
+  ServerValidator,
+  type GameAction,
+  type GameCheckpoint,
+} from '@repo/security/server-validation';
+import { relicPower } from '@repo/security/relics';
+import type { RelicDropClaim, ResultSigner } from './signer';
+import type { StoredResult, ValidatorStore } from './store';
+
+export interface ValidatorServerOptions {
+  store: ValidatorStore;
+  signer: ResultSigner;
+  rateLimitStore?: RateLimitStore; // In memory if unset
+  allowedOrigin?: string;
+  maxBodyBytes?: number;
+}
+
+class HttpError extends Error {
+  status: number;
+  retryAfter?: number;
+
+  constructor(status: number, message: string, retryAfter?: number) {
+    super(message);
+    this.status = status;
+    this.retryAfter = retryAfter;
+  }
+}
+
+const actionTypes: GameAction['type'][] = [
+  'move',
+  'attack',
+  'damage_taken',
+  'enemy_killed',
+  'item_collected',
+  'level_complete',
+];
+
+const challengeTypes: ChallengeType[] = ['captcha', 'puzzle', 'timing'];
+
+const behaviorFields: Exclude<keyof UserBehavior, 'clickPatterns'>[] = [
+  'mouseMovements',
+  'keyPresses',
+  'sessionDuration',
+  'actionsPerMinute',
+  'pauseFrequency',
+  'errorRate',
+];
+
+// Verdicts at or above this never get a signature
+const blockedSeverities: CheatDetection['severity'][] = [
+  'likely_cheating',
+  'confirmed_cheating',
+];
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseAction = (value: unknown): Omit<GameAction, 'hash'> => {
+  if (
+    !isRecord(value) ||
+    !isNumber(value.timestamp) ||
+    !actionTypes.includes(value.type as GameAction['type'])
+  ) {
+    throw new HttpError(400, 'Invalid action');
+  }
+  return {
+    timestamp: value.timestamp,
+    type: value.type as GameAction['type'],
+    data: value.data ?? null,
+  };
+};
+
+const parseCheckpoint = (value: unknown): Omit<GameCheckpoint, 'hash'> => {
+  const position = isRecord(value) ? value.position : undefined;
+  if (
+    !isRecord(value) ||
+    !isRecord(position) ||
+    !isNumber(position.x) ||
+    !isNumber(position.y) ||
+    ![
+      value.timestamp,
+      value.level,
+      value.score,
+      value.health,
+      value.enemiesKilled,
+      value.itemsCollected,
+    ].every(isNumber)
+  ) {
+    throw new HttpError(400, 'Invalid checkpoint');
+  }
+  return {
+    timestamp: value.timestamp as number,
+    level: value.level as number,
+    score: value.score as number,
+    health: value.health as number,
+    position: { x: position.x, y: position.y },
+    enemiesKilled: value.enemiesKilled as number,
+    itemsCollected: value.itemsCollected as number,
+  };
+};
+
+// Only the numbers the player's browser counted, anything else is dropped
+const parseBehavior = (value: unknown): Partial<UserBehavior> => {
+  if (!isRecord(value)) throw new HttpError(400, 'Invalid behavior');
+
+  const behavior: Partial<UserBehavior> = {};
+  for (const field of behaviorFields) {
+    const count = value[field];
+    if (isNumber(count)) behavior[field] = count;
+  }
+  if (
+    Array.isArray(value.clickPatterns) &&
+    value.clickPatterns.every(isNumber)
+  ) {
+    behavior.clickPatterns = value.clickPatterns;
+  }
+  return behavior;
+};
+
+// The levels the run cleared and the ms each took. They are signed with the
+// score, so reveal_score only records splits the validator has seen
+const parseSplits = (
+  body: Record<string, unknown>
+): { startLevel: number; splits: number[] } => {
+  const { startLevel, splits } = body;
+  if (
+    !Number.isInteger(startLevel) ||
+    (startLevel as number) < 1 ||
+    !Array.isArray(splits) ||
+    !splits.every((split) => Number.isInteger(split) && split >= 0)
+  ) {
+    throw new HttpError(400, 'startLevel and splits are required');
+  }
+  return { startLevel: startLevel as number, splits: splits as number[] };
+};
+
+// The kill a relic dropped from, numbered per level like the client's rolls
+const parseRelicDrop = (body: unknown): { level: number; roll: number } => {
+  if (
+    !isRecord(body) ||
+    !Number.isInteger(body.level) ||
+    (body.level as number) < 1 ||
+    !Number.isInteger(body.roll) ||
+    (body.roll as number) < 0
+  ) {
+    throw new HttpError(400, 'level and roll are required');
+  }
+  return { level: body.level as number, roll: body.roll as number };
+};
+
+const wait = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+export function createValidatorServer({
+  store,
+  signer,
+  rateLimitStore,
+  allowedOrigin = '*',
+  maxBodyBytes = 1024 * 1024,
+}: ValidatorServerOptions): Server {
+  // Own instances rather than the browser singletons
+  const validator = new ServerValidator();
+  const detector = new CheatDetector();
+  const bots = new BotProtection();
+  const limiter = new RateLimiter(rateLimitStore);
+
+  const limit = async (identifier: string, type: RateLimitType) => {
+    const result = await limiter.consume(identifier, type);
+    if (!result.allowed) {
+      throw new HttpError(429, 'Rate limit exceeded', result.retryAfter);
+    }
+  };
+
+  const readBody = async (req: IncomingMessage): Promise<unknown> => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += (chunk as Buffer).length;
+      if (size > maxBodyBytes) throw new HttpError(413, 'Body too large');
+      chunks.push(chunk as Buffer);
+    }
+    if (size === 0) return {};
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+      throw new HttpError(400, 'Body must be JSON');
+    }
+  };
+
+  const requireSession = (sessionId: string) => {
+    const session = validator.getSession(sessionId);
+    if (!session) throw new HttpError(404, 'Session not found');
+    return session;
+  };
+
+  const startSession = async (body: unknown) => {
+    if (
+      !isRecord(body) ||
+      typeof body.playerAddress !== 'string' ||
+      !body.playerAddress ||
+      !isNumber(body.level)
+    ) {
+      throw new HttpError(400, 'playerAddress and level are required');
+    }
+    await limit(body.playerAddress, 'game_start');
+
+    const { sessionId, seed } = validator.startSession(
+      body.playerAddress,
+      body.level
+    );
+    const session = requireSession(sessionId);
+    await store.saveSession({
+      sessionId,
+      playerAddress: session.playerAddress,
+      level: session.level,
+      seed,
+      startTime: session.startTime,
+      status: session.status,
+    });
+
+    return { sessionId, seed, startTime: session.startTime };
+  };
+
+  const recordActions = async (sessionId: string, body: unknown) => {
+    requireSession(sessionId);
+    await limit(sessionId, 'api_call');
+
+    const actions = isRecord(body) ? body.actions : undefined;
+    if (!Array.isArray(actions)) {
+      throw new HttpError(400, 'actions must be an array');
+    }
+
+    // Stop at the first rejection, later actions would chain onto a gap
+    let recorded = 0;
+    for (const action of actions.map(parseAction)) {
+      const result = await validator.recordAction(sessionId, action);
+      if (!result.success) {
+        throw new HttpError(409, result.message ?? 'Action rejected');
+      }
+      recorded++;
+    }
+    return { recorded };
+  };
+
+  const recordCheckpoint = async (sessionId: string, body: unknown) => {
+    const session = requireSession(sessionId);
+    await limit(sessionId, 'api_call');
+
+    if (session.status !== 'active') {
+      throw new HttpError(409, 'Session not active');
+    }
+    const checkpoint = parseCheckpoint(isRecord(body) ? body.checkpoint : null);
+    const result = await validator.recordCheckpoint(sessionId, checkpoint);
+    if (!result.success) {
+      throw new HttpError(409, result.message ?? 'Checkpoint rejected');
+    }
+    return { recorded: session.checkpoints.length };
+  };
+
+  // Validations in progress. Concurrent requests for a session share one, so
+  // only one verdict is ever signed for it
+  const validations = new Map<string, Promise<StoredResult>>();
+
+  const validate = (sessionId: string, body: unknown) => {
+    let validation = validations.get(sessionId);
+    if (!validation) {
+      validation = runValidation(sessionId, body).finally(() =>
+        validations.delete(sessionId)
+      );
+      validations.set(sessionId, validation);
+    }
+    return validation;
+  };
+
+  const runValidation = async (
+    sessionId: string,
+    body: unknown
+  ): Promise<StoredResult> => {
+    // Asking again returns the same verdict instead of re-running the checks
+    const existing = await store.getResult(sessionId);
+    if (existing) return existing;
+
+    const session = requireSession(sessionId);
+    if (session.status !== 'active') {
+      throw new HttpError(409, 'Session not active');
+    }
+    if (!isRecord(body) || !isNumber(body.finalScore)) {
+      throw new HttpError(400, 'finalScore is required');
+    }
+    const { startLevel, splits } = parseSplits(body);
+    await limit(session.playerAddress, 'score_submit');
+
+    const validation = await validator.validateSession(
+      sessionId,
+      body.finalScore
+    );
+
+    // Telemetry is the client's, but who played and for how long is ours
+    const duration = (session.endTime ?? Date.now()) - session.startTime;
+    let severity: CheatDetection['severity'] = 'clean';
+    let flags = validation.flags;
+    if (isRecord(body.gameData)) {
+      const gameData = {
+        ...(body.gameData as unknown as GameData),
+        sessionId,
+        playerAddress: session.playerAddress,
+        duration,
+        score: body.finalScore,
+      };
+      const detection = detector.analyzeGameData(gameData);
+      severity = detection.severity;
+      flags = [...flags, ...detection.patterns];
+    }
+
+    // Every cleared level was played inside the session
+    const splitsFit =
+      splits.reduce((total, split) => total + split, 0) <= duration;
+    if (!splitsFit) flags = [...flags, 'splits_too_long'];
+
+    const approved =
+      validation.valid && splitsFit && !blockedSeverities.includes(severity);
+    const result: StoredResult = {
+      sessionId,
+      playerAddress: session.playerAddress,
+      score: approved ? validation.score : 0,
+      valid: approved,
+      flags,
+      confidence: validation.confidence,
+      severity,
+      startLevel,
+      splits,
+      issuedAt: Date.now(),
+    };
+    if (approved) result.signature = signer.sign(result);
+
+    await store.saveResult(result);
+    await store.setSessionStatus(
+      sessionId,
+      approved ? 'completed' : 'invalid'
+    );
+    return result;
+  };
+
+  // Sign a relic drop for mint_relic once the kill is on record and its
+  // re-roll drops the same relic. Runs the validator refused mint nothing
+  const signRelicDrop = async (sessionId: string, body: unknown) => {
+    const session = requireSession(sessionId);
+    await limit(session.playerAddress, 'api_call');
+
+    const { level, roll } = parseRelicDrop(body);
+    const result = await store.getResult(sessionId);
+    if (session.status === 'invalid' || result?.valid === false) {
+      throw new HttpError(409, 'Session invalid');
+    }
+    const drop = validator.rerollRelicDrop(sessionId, level, roll);
+    if (!drop) throw new HttpError(422, 'No relic dropped');
+
+    const claim: RelicDropClaim = {
+      sessionId,
+      playerAddress: session.playerAddress,
+      seed: session.seed,
+      level,
+      roll,
+      rarity: drop.relic.rarity,
+      power: relicPower(drop.relic),
+    };
+    return { ...claim, signature: signer.signRelic(claim) };
+  };
+
+  const reportBehavior = async (playerAddress: string, body: unknown) => {
+    await limit(playerAddress, 'api_call');
+    bots.trackBehavior(playerAddress, parseBehavior(body));
+    return { challengeRequired: bots.needsChallenge(playerAddress) };
+  };
+
+  const createChallenge = async (body: unknown) => {
+    if (
+      !isRecord(body) ||
+      typeof body.playerAddress !== 'string' ||
+      !body.playerAddress ||
+      !challengeTypes.includes(body.type as ChallengeType)
+    ) {
+      throw new HttpError(400, 'playerAddress and type are required');
+    }
+    await limit(body.playerAddress, 'api_call');
+    return bots.createChallenge(body.playerAddress, body.type as ChallengeType);
+  };
+
+  // Answers once the rune lights up, so the player learns the delay only
+  // by waiting it out
+  const armReactionRound = async (challengeId: string) => {
+    const delay = bots.armReactionRound(challengeId);
+    if (delay === null) throw new HttpError(409, 'No round to start');
+    await wait(delay);
+    return { lit: true };
+  };
+
+  const pressReaction = (challengeId: string) => {
+    if (!bots.pressReaction(challengeId)) {
+      throw new HttpError(409, 'No round to press');
+    }
+    return { pressed: true };
+  };
+
+  const verifyChallenge = (challengeId: string, body: unknown) => {
+    const response = isRecord(body) ? body.response : undefined;
+    if (
+      typeof response !== 'string' &&
+      !(Array.isArray(response) && response.every(isNumber))
+    ) {
+      throw new HttpError(400, 'response is required');
+    }
+    const responseTime =
+      isRecord(body) && isNumber(body.responseTime) ? body.responseTime : 0;
+    return bots.verifyChallenge(challengeId, response, responseTime);
+  };
+
+  const route = async (
+    method: string,
+    path: string[],
+    req: IncomingMessage
+  ): Promise<[number, unknown]> => {
+    const [resource, id, action] = path;
+
+    if (method === 'GET' && resource === 'health' && !id) {
+      return [200, { ok: true }];
+    }
+
+    if (method === 'GET' && resource === 'public-key' && !id) {
+      return [
+        200,
+        {
+          algorithm: 'ed25519',
+          publicKey: signer.getPublicKey(),
+          message: 'sessionId:playerAddress:score:startLevel:splits:issuedAt',
+          relicMessage:
+            'relic:sessionId:playerAddress:seed:level:roll:rarity:power',
+        },
+      ];
+    }
+
+    if (resource === 'sessions') {
+      if (method === 'POST' && !id) {
+        return [201, await startSession(await readBody(req))];
+      }
+      if (method === 'POST' && id && action === 'actions') {
+        return [200, await recordActions(id, await readBody(req))];
+      }
+      if (method === 'POST' && id && action === 'checkpoints') {
+        return [200, await recordCheckpoint(id, await readBody(req))];
+      }
+      if (method === 'POST' && id && action === 'validate') {
+        return [200, await validate(id, await readBody(req))];
+      }
+      if (method === 'POST' && id && action === 'relics') {
+        return [200, await signRelicDrop(id, await readBody(req))];
+      }
+    }
+
+    if (method === 'POST' && resource === 'challenges') {
+      if (!id) return [201, await createChallenge(await readBody(req))];
+      if (action === 'rounds') return [200, await armReactionRound(id)];
+      if (action === 'presses') return [200, pressReaction(id)];
+      if (action === 'verify') {
+        return [200, await verifyChallenge(id, await readBody(req))];
+      }
+    }
+
+    if (method === 'POST' && resource === 'players' && id) {
+      if (action === 'behavior') {
+        return [200, await reportBehavior(id, await readBody(req))];
+      }
+    }
+
+    if (method === 'GET' && resource === 'results' && id && !action) {
+      const result = await store.getResult(id);
+      if (!result) throw new HttpError(404, 'Result not found');
+      return [200, result];
+    }
+
+    if (method === 'GET' && resource === 'players' && id) {
+      if (action === 'results') {
+        return [200, await store.getPlayerResults(id)];
+      }
+      if (action === 'suspicion') {
+        return [200, validator.getPlayerSuspicion(id)];
+      }
+    }
+
+    throw new HttpError(404, 'Not found');
+  };
+
+  const send = (
+    res: ServerResponse,
+    status: number,
+    payload: unknown,
+    headers: Record<string, string> = {}
+  ) => {
+    res.writeHead(status, {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': allowedOrigin,
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+      ...headers,
+    });
+    res.end(JSON.stringify(payload));
+  };
+
+  return createServer((req, res) => {
+    const method = req.method ?? 'GET';
+    if (method === 'OPTIONS') {
+      send(res, 204, undefined);
+      return;
+    }
+
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    const path = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+
+    route(method, path, req)
+      .then(([status, payload]) => send(res, status, payload))
+      .catch((error: unknown) => {
+        if (error instanceof HttpError) {
+          send(
+            res,
+            error.status,
+            { error: error.message },
+            error.retryAfter
+              ? { 'Retry-After': String(error.retryAfter) }
+              : {}
+          );
+          return;
+        }
+        console.error('Validator request failed:', error);
+        send(res, 500, { error: 'Internal error' });
+      });
+  });
+}
@@ -0,0 +1,109 @@
+// Ed25519 signatures over approved results and relic drops
+import {
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  sign,
+  verify,
+  type KeyObject,
+} from 'node:crypto';
+import { readFileSync } from 'node:fs';
+
+export interface ApprovedResult {
+  sessionId: string;
+  playerAddress: string;
+  score: number;
+  startLevel: number;
+  splits: number[]; // ms per cleared level from startLevel
+  issuedAt: number;
+}
+
+// What actually gets signed, anyone holding the public key can rebuild it
+export const resultMessage = (result: ApprovedResult): string =>
+  [
+    result.sessionId,
+    result.playerAddress,
+    result.score,
+    result.startLevel,
+    result.splits.join(','),
+    result.issuedAt,
+  ].join(':');
+
+// A relic the validator re-rolled from a recorded kill, what mint_relic mints
+export interface RelicDropClaim {
+  sessionId: string;
+  playerAddress: string;
+  seed: string;
+  level: number;
+  roll: number;
+  rarity: string;
+  power: number;
+}
+
+// Prefixed so a drop signature can never pass for a result's
+export const relicMessage = (drop: RelicDropClaim): string =>
+  [
+    'relic',
+    drop.sessionId,
+    drop.playerAddress,
+    drop.seed,
+    drop.level,
+    drop.roll,
+    drop.rarity,
+    drop.power,
+  ].join(':');
+
+export class ResultSigner {
+  private privateKey: KeyObject;
+  private publicKey: KeyObject;
+
+  constructor(privateKey: KeyObject) {
+    this.privateKey = privateKey;
+    this.publicKey = createPublicKey(privateKey);
+  }
+
+  // PKCS#8 PEM, e.g. from `openssl genpkey -algorithm ed25519`
+  static fromFile(path: string): ResultSigner {
+    return new ResultSigner(createPrivateKey(readFileSync(path)));
+  }
+
+  // Signatures won't survive a restart, fine for local runs only
+  static ephemeral(): ResultSigner {
+    return new ResultSigner(generateKeyPairSync('ed25519').privateKey);
+  }
+
+  sign(result: ApprovedResult): string {
+    return this.signMessage(resultMessage(result));
+  }
+
+  verify(result: ApprovedResult, signature: string): boolean {
+    return this.verifyMessage(resultMessage(result), signature);
+  }
+
+  signRelic(drop: RelicDropClaim): string {
+    return this.signMessage(relicMessage(drop));
+  }
+
+  verifyRelic(drop: RelicDropClaim, signature: string): boolean {
+    return this.verifyMessage(relicMessage(drop), signature);
+  }
+
+  // Raw 32-byte key as hex
+  getPublicKey(): string {
+    const { x } = this.publicKey.export({ format: 'jwk' });
+    return Buffer.from(x ?? '', 'base64url').toString('hex');
+  }
+
+  private signMessage(message: string): string {
+    return sign(null, Buffer.from(message), this.privateKey).toString('hex');
+  }
+
+  private verifyMessage(message: string, signature: string): boolean {
+    return verify(
+      null,
+      Buffer.from(message),
+      this.publicKey,
+      Buffer.from(signature, 'hex')
+    );
+  }
+}
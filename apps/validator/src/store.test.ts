@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import {
+  MemoryStore,
+  type SessionRecord,
+  SqliteStore,
+  type StoredResult,
+  type ValidatorStore,
+} from './store';
+
+// node:sqlite needs Node 22.5+, the SQLite suite is skipped before that
+const hasSqlite = await import('node:sqlite').then(
+  () => true,
+  () => false
+);
+
+const session = (sessionId: string): SessionRecord => ({
+  sessionId,
+  playerAddress: '0xplayer',
+  level: 1,
+  seed: 'abc123',
+  startTime: 1000,
+  status: 'active',
+});
+
+const result = (sessionId: string, issuedAt: number): StoredResult => ({
+  sessionId,
+  playerAddress: '0xplayer',
+  score: 1200,
+  valid: true,
+  flags: ['no_checkpoints'],
+  confidence: 0.5,
+  severity: 'clean',
+  startLevel: 1,
+  splits: [42_000, 51_500],
+  issuedAt,
+  signature: 'ab'.repeat(64),
+});
+
+const storeSuite = (
+  name: string,
+  open: () => Promise<ValidatorStore>,
+  skip = false
+) =>
+  describe.skipIf(skip)(name, () => {
+    let store: ValidatorStore;
+
+    beforeEach(async () => {
+      store = await open();
+    });
+
+    afterEach(async () => {
+      await store.close();
+    });
+
+    it('saves and reads sessions', async () => {
+      await store.saveSession(session('s1'));
+      expect(await store.getSession('s1')).toEqual(session('s1'));
+      expect(await store.getSession('missing')).toBeUndefined();
+    });
+
+    it('updates a session status', async () => {
+      await store.saveSession(session('s1'));
+      await store.setSessionStatus('s1', 'completed');
+      expect((await store.getSession('s1'))?.status).toBe('completed');
+    });
+
+    it('keeps stored sessions apart from the saved object', async () => {
+      const record = session('s1');
+      await store.saveSession(record);
+      record.status = 'invalid';
+      expect((await store.getSession('s1'))?.status).toBe('active');
+    });
+
+    it('round-trips results, with and without a signature', async () => {
+      const rejected: StoredResult = {
+        ...result('s2', 2000),
+        valid: false,
+        score: 0,
+        signature: undefined,
+      };
+      await store.saveResult(result('s1', 1000));
+      await store.saveResult(rejected);
+
+      expect(await store.getResult('s1')).toEqual(result('s1', 1000));
+      expect(await store.getResult('s2')).toEqual(rejected);
+      expect(await store.getResult('missing')).toBeUndefined();
+    });
+
+    it('lists a player results newest first', async () => {
+      await store.saveResult(result('s1', 1000));
+      await store.saveResult(result('s2', 3000));
+      await store.saveResult(result('s3', 2000));
+      await store.saveResult({
+        ...result('s4', 4000),
+        playerAddress: '0xother',
+      });
+
+      const results = await store.getPlayerResults('0xplayer');
+      expect(results.map((entry) => entry.sessionId)).toEqual([
+        's2',
+        's3',
+        's1',
+      ]);
+    });
+  });
+
+storeSuite('MemoryStore', async () => new MemoryStore());
+
+storeSuite('SqliteStore', () => SqliteStore.open(':memory:'), !hasSqlite);
@@ -0,0 +1,236 @@
+// Storage for sessions and signed results
+import type { DatabaseSync } from 'node:sqlite';
+
+import type { GameSession } from '@repo/security/server-validation';
+
+export interface SessionRecord {
+  sessionId: string;
+  playerAddress: string;
+  level: number;
+  seed: string;
+  startTime: number;
+  status: GameSession['status'];
+}
+
+export interface StoredResult {
+  sessionId: string;
+  playerAddress: string;
+  score: number;
+  valid: boolean;
+  flags: string[];
+  confidence: number;
+  severity: string; // CheatDetector verdict, 'clean' when none was run
+  startLevel: number;
+  splits: number[]; // ms per cleared level from startLevel
+  issuedAt: number;
+  signature?: string; // Only set for approved results
+}
+
+export interface ValidatorStore {
+  saveSession(session: SessionRecord): Promise<void>;
+  getSession(sessionId: string): Promise<SessionRecord | undefined>;
+  setSessionStatus(
+    sessionId: string,
+    status: SessionRecord['status']
+  ): Promise<void>;
+  saveResult(result: StoredResult): Promise<void>;
+  getResult(sessionId: string): Promise<StoredResult | undefined>;
+  getPlayerResults(playerAddress: string): Promise<StoredResult[]>;
+  close(): Promise<void>;
+}
+
+export class MemoryStore implements ValidatorStore {
+  private sessions = new Map<string, SessionRecord>();
+  private results = new Map<string, StoredResult>();
+
+  async saveSession(session: SessionRecord) {
+    this.sessions.set(session.sessionId, { ...session });
+  }
+
+  async getSession(sessionId: string) {
+    return this.sessions.get(sessionId);
+  }
+
+  async setSessionStatus(sessionId: string, status: SessionRecord['status']) {
+    const session = this.sessions.get(sessionId);
+    if (session) session.status = status;
+  }
+
+  async saveResult(result: StoredResult) {
+    this.results.set(result.sessionId, { ...result });
+  }
+
+  async getResult(sessionId: string) {
+    return this.results.get(sessionId);
+  }
+
+  async getPlayerResults(playerAddress: string) {
+    return Array.from(this.results.values())
+      .filter((result) => result.playerAddress === playerAddress)
+      .sort((a, b) => b.issuedAt - a.issuedAt);
+  }
+
+  async close() {
+    this.sessions.clear();
+    this.results.clear();
+  }
+}
+
+interface ResultRow {
+  session_id: string;
+  player_address: string;
+  score: number;
+  valid: number;
+  flags: string;
+  confidence: number;
+  severity: string;
+  start_level: number;
+  splits: string;
+  issued_at: number;
+  signature: string | null;
+}
+
+interface SessionRow {
+  session_id: string;
+  player_address: string;
+  level: number;
+  seed: string;
+  start_time: number;
+  status: SessionRecord['status'];
+}
+
+const toResult = (row: ResultRow): StoredResult => ({
+  sessionId: row.session_id,
+  playerAddress: row.player_address,
+  score: row.score,
+  valid: row.valid === 1,
+  flags: JSON.parse(row.flags) as string[],
+  confidence: row.confidence,
+  severity: row.severity,
+  startLevel: row.start_level,
+  splits: JSON.parse(row.splits) as number[],
+  issuedAt: row.issued_at,
+  signature: row.signature ?? undefined,
+});
+
+// Backed by node:sqlite (Node 22.5+). Use ':memory:' for a throwaway database
+export class SqliteStore implements ValidatorStore {
+  private db: DatabaseSync;
+
+  private constructor(db: DatabaseSync) {
+    this.db = db;
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        session_id TEXT PRIMARY KEY,
+        player_address TEXT NOT NULL,
+        level INTEGER NOT NULL,
+        seed TEXT NOT NULL,
+        start_time INTEGER NOT NULL,
+        status TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS results (
+        session_id TEXT PRIMARY KEY,
+        player_address TEXT NOT NULL,
+        score INTEGER NOT NULL,
+        valid INTEGER NOT NULL,
+        flags TEXT NOT NULL,
+        confidence REAL NOT NULL,
+        severity TEXT NOT NULL,
+        start_level INTEGER NOT NULL,
+        splits TEXT NOT NULL,
+        issued_at INTEGER NOT NULL,
+        signature TEXT
+      );
+      CREATE INDEX IF NOT EXISTS results_player ON results (player_address);
+    `);
+  }
+
+  // node:sqlite is loaded lazily so memory-only runs work on older Node
+  static async open(path: string): Promise<SqliteStore> {
+    const { DatabaseSync } = await import('node:sqlite');
+    return new SqliteStore(new DatabaseSync(path));
+  }
+
+  async saveSession(session: SessionRecord) {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO sessions
+          (session_id, player_address, level, seed, start_time, status)
+          VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        session.sessionId,
+        session.playerAddress,
+        session.level,
+        session.seed,
+        session.startTime,
+        session.status
+      );
+  }
+
+  async getSession(sessionId: string) {
+    const row = this.db
+      .prepare('SELECT * FROM sessions WHERE session_id = ?')
+      .get(sessionId) as SessionRow | undefined;
+    if (!row) return undefined;
+
+    return {
+      sessionId: row.session_id,
+      playerAddress: row.player_address,
+      level: row.level,
+      seed: row.seed,
+      startTime: row.start_time,
+      status: row.status,
+    };
+  }
+
+  async setSessionStatus(sessionId: string, status: SessionRecord['status']) {
+    this.db
+      .prepare('UPDATE sessions SET status = ? WHERE session_id = ?')
+      .run(status, sessionId);
+  }
+
+  async saveResult(result: StoredResult) {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO results
+          (session_id, player_address, score, valid, flags, confidence,
+            severity, start_level, splits, issued_at, signature)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        result.sessionId,
+        result.playerAddress,
+        result.score,
+        result.valid ? 1 : 0,
+        JSON.stringify(result.flags),
+        result.confidence,
+        result.severity,
+        result.startLevel,
+        JSON.stringify(result.splits),
+        result.issuedAt,
+        result.signature ?? null
+      );
+  }
+
+  async getResult(sessionId: string) {
+    const row = this.db
+      .prepare('SELECT * FROM results WHERE session_id = ?')
+      .get(sessionId) as ResultRow | undefined;
+    return row ? toResult(row) : undefined;
+  }
+
+  async getPlayerResults(playerAddress: string) {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM results WHERE player_address = ?
+          ORDER BY issued_at DESC`
+      )
+      .all(playerAddress) as unknown as ResultRow[];
+    return rows.map(toResult);
+  }
+
+  async close() {
+    this.db.close();
+  }
+}
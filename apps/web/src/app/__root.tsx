@@ -2,6 +2,7 @@ import { Outlet, createRootRoute } from '@tanstack/react-router';
 import { TanStackRouterDevtools } from '@tanstack/router-devtools';
 import { ProviderTree } from '~/providers';
 import { SuiWalletButton } from '~/components/sui-wallet-button';
+import { Toaster } from '~/components/ui/sonner';
 
 import '../styles/globals.css';
 
@@ -17,6 +18,7 @@ const RootComponent = () => {
           <SuiWalletButton />
         </div>
         <Outlet />
+        <Toaster position='top-center' />
       </ProviderTree>
     </>
   );
@@ -0,0 +1,19 @@
+import { createFileRoute } from '@tanstack/react-router';
+import { LoreCodex } from '~/components';
+
+export const CodexComponent = () => {
+  return (
+    <div className='!m-0 !p-0'>
+      <img
+        alt='background'
+        className='absolute h-screen w-full'
+        src='/background.png'
+      />
+      <LoreCodex />
+    </div>
+  );
+};
+
+export const Route = createFileRoute('/codex')({
+  component: CodexComponent,
+});
@@ -1,32 +1,107 @@
 import { createFileRoute } from '@tanstack/react-router';
-import { useEffect, useRef, useCallback, useState } from 'react';
+import { useEffect, useRef, useCallback, useMemo, useState } from 'react';
 
 import { observer } from 'mobx-react-lite';
 import Phaser from 'phaser';
 import { type StoreArgs, useGameActions } from '~/hooks';
 import { useCurrentAccount } from '@mysten/dapp-kit';
+import { toast } from 'sonner';
 
+import { ChallengeDialog } from '~/components/challenge-dialog';
 import { gameState } from '~/components/game/state';
 import { LoadingOverlay } from '~/components/loading-overlay';
+import { loadLoreDiscoveries, saveLoreDiscoveries } from '~/lib/helpers/lore';
+import { relicManager } from '~/lib/helpers/nft-relics';
+import {
+  type PersonalBest,
+  formatDelta,
+  formatSplit,
+  getPersonalBest,
+  getRunSplits,
+} from '~/lib/helpers/splits';
+import { challengeService } from '~/lib/helpers/validator';
+import { eventIndexer } from '~/lib/onechain/indexer';
+import {
+  botProtection,
+  trackKeyPress,
+  trackMouseMovement,
+} from '@repo/security/bot-protection';
 
 import {
   DungeonGameScene,
   GameOverScene,
   HomeScene,
+  PauseScene,
+  type SessionHooks,
+  SkillTreeScene,
 } from '../components/game/scenes';
 
 const GameWrapper = () => {
   const account = useCurrentAccount();
-  const { storeResult } = useGameActions();
+  const { storeResult, startSession, commitScore } = useGameActions();
+
+  // The Phaser game is only created once, so the scene calls through a ref
+  // to always reach the hooks of the latest render
+  const sessionRef = useRef({ startSession, commitScore });
+  sessionRef.current = { startSession, commitScore };
+  const session = useMemo<SessionHooks>(
+    () => ({
+      startSession: (validatorSessionId) =>
+        sessionRef.current.startSession(validatorSessionId),
+      commitScore: (sessionId, commitHash) =>
+        sessionRef.current.commitScore(sessionId, commitHash),
+    }),
+    []
+  );
 
   // Save wallet address to localStorage when connected
   useEffect(() => {
+    relicManager.setOwner(account?.address ?? null);
     if (account) {
       localStorage.setItem('sui_wallet_address', account.address);
       console.log('✅ Wallet saved to localStorage:', account.address);
+      gameState.loreManager.restoreDiscoveries(
+        loadLoreDiscoveries(account.address)
+      );
+      // Discoveries made before the wallet connected now belong to it
+      saveLoreDiscoveries(
+        account.address,
+        gameState.loreManager.getDiscoveredIds()
+      );
     }
   }, [account]);
 
+  // Feed BotProtection while the player is on the game page
+  const openedAt = useRef(Date.now());
+  useEffect(() => {
+    if (!account) return;
+    const onMouseMove = () => trackMouseMovement(account.address);
+    const onKeyDown = () => trackKeyPress(account.address);
+    window.addEventListener('mousemove', onMouseMove);
+    window.addEventListener('keydown', onKeyDown);
+
+    return () => {
+      window.removeEventListener('mousemove', onMouseMove);
+      window.removeEventListener('keydown', onKeyDown);
+    };
+  }, [account]);
+
+  // The challenge dialog answers through this promise
+  const [challengeFor, setChallengeFor] = useState<string | null>(null);
+  const challengeResolver = useRef<((passed: boolean) => void) | null>(null);
+  const requestChallenge = useCallback((address: string) => {
+    challengeResolver.current?.(false);
+    setChallengeFor(address);
+    return new Promise<boolean>((resolve) => {
+      challengeResolver.current = resolve;
+    });
+  }, []);
+  const resolveChallenge = useCallback((passed: boolean) => {
+    challengeResolver.current?.(passed);
+    challengeResolver.current = null;
+    setChallengeFor(null);
+  }, []);
+
   // Create a wrapper function that always gets fresh wallet state
   const storeResultWrapper = useCallback(async (args: any) => {
     console.log('🔄 Store wrapper called, checking fresh wallet state...');
@@ -36,17 +111,38 @@ const GameWrapper = () => {
     if (!currentAddress) {
       throw new Error('Please connect your wallet and refresh the page');
     }
+
+    botProtection.trackBehavior(currentAddress, {
+      sessionDuration: Date.now() - openedAt.current,
+    });
+    // The validator decides when there is one, and runs the challenge
+    const challengeRequired = await challengeService
+      .needsChallenge(currentAddress, botProtection.getBehavior(currentAddress)!)
+      .catch(() => botProtection.needsChallenge(currentAddress));
+    if (challengeRequired && !(await requestChallenge(currentAddress))) {
+      throw new Error('Verification was not completed, score not submitted');
+    }
     
     return storeResult(args);
-  }, [storeResult]);
+  }, [storeResult, requestChallenge]);
 
-  return <GameComponent storeFn={storeResultWrapper} />;
+  return (
+    <>
+      <GameComponent session={session} storeFn={storeResultWrapper} />
+      <ChallengeDialog
+        userAddress={challengeFor}
+        onResolve={resolveChallenge}
+      />
+    </>
+  );
 };
 
 export const GameComponent = ({
   storeFn,
+  session,
 }: {
   storeFn: (args: StoreArgs) => Promise<string>;
+  session?: SessionHooks;
 }) => {
   const gameContainerRef = useRef<HTMLDivElement>(null);
   const phaserGameRef = useRef<Phaser.Game | null>(null);
@@ -57,7 +153,13 @@ export const GameComponent = ({
         width: 800,
         height: 600,
         type: Phaser.AUTO,
-        scene: [HomeScene, DungeonGameScene, new GameOverScene(storeFn)],
+        scene: [
+          HomeScene,
+          new DungeonGameScene(session),
+          SkillTreeScene,
+          PauseScene,
+          new GameOverScene(storeFn, session),
+        ],
         scale: {
           width: '100%',
           height: '100%',
@@ -88,6 +190,7 @@ export const GameComponent = ({
   return (
     <div>
       <GameDetails />
+      <LoreToasts />
       <div ref={gameContainerRef} id='game-container' />
     </div>
   );
@@ -102,13 +205,45 @@ const GameDetails = observer(() => {
     return (
       <>
         <PlayerHealth />
+        <AbilityBar />
         <PlayerScore />
         <RoundTimer />
+        <SplitsOverlay />
         <CurrentRound />
       </>
     );
 });
 
+const LoreToasts = () => {
+  const account = useCurrentAccount();
+
+  // Discoveries are queued by the game, pick them up and announce them
+  useEffect(() => {
+    const interval = setInterval(() => {
+      const discoveries = gameState.loreManager.getNewDiscoveries();
+      if (discoveries.length === 0) return;
+
+      discoveries.forEach((entry) => {
+        toast(`📜 Lore discovered: ${entry.title}`, {
+          description: 'Read it in the Codex',
+        });
+      });
+      if (account) {
+        saveLoreDiscoveries(
+          account.address,
+          gameState.loreManager.getDiscoveredIds()
+        );
+      }
+    }, 500);
+
+    return () => {
+      clearInterval(interval);
+    };
+  }, [account]);
+
+  return null;
+};
+
 const RoundTimer = observer(() => {
   const currentRound = gameState.times.find((t) => t.round === gameState.level);
 
@@ -118,7 +253,9 @@ const RoundTimer = observer(() => {
   useEffect(() => {
     if (currentRound) {
       const interval = setInterval(() => {
-        setTime(Date.now() - currentRound.start);
+        // Hold still while paused, start moves forward again on resume
+        const now = gameState.pausedAt ?? Date.now();
+        setTime(now - currentRound.start);
       }, 100);
 
       return () => {
@@ -136,6 +273,101 @@ const RoundTimer = observer(() => {
   );
 });
 
+// LiveSplit style splits, compared against the player's best recorded times
+const SplitsOverlay = observer(() => {
+  const account = useCurrentAccount();
+  const [best, setBest] = useState<PersonalBest | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!account) return;
+    const loadBest = async () => {
+      const runs = await eventIndexer.getSplits(account.address);
+      setBest(getPersonalBest(runs));
+    };
+
+    loadBest()
+      .then(() => eventIndexer.sync())
+      .then(loadBest)
+      .catch((error: unknown) => {
+        console.error('Failed to load personal best splits:', error);
+      });
+  }, [account]);
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setNow(gameState.pausedAt ?? Date.now());
+    }, 100);
+
+    return () => {
+      clearInterval(interval);
+    };
+  }, []);
+
+  const run = getRunSplits(gameState.times, gameState.level);
+  const current = gameState.times.find((t) => t.round === gameState.level);
+  const rows: { level: number; time: number; split: number }[] = [];
+  let total = 0;
+  run.splits.forEach((split, index) => {
+    total += split;
+    rows.push({ level: run.startLevel + index, time: total, split });
+  });
+  if (current && current.end === undefined) {
+    const split = now - current.start;
+    rows.push({ level: gameState.level, time: total + split, split });
+  }
+
+  // Full runs compare totals, a run continued from deeper compares segments
+  const fromStart = (rows[0]?.level ?? gameState.level) === 1;
+
+  return (
+    <div className='absolute top-44 right-4 w-56 rounded-lg border-2 border-yellow-500 bg-black/70 p-2 font-mono text-sm'>
+      {rows.slice(-6).map((row) => {
+        const isLive = row.level === gameState.level;
+        const target = fromStart
+          ? best?.through.get(row.level)
+          : best?.segments.get(row.level);
+        const delta =
+          target === undefined
+            ? null
+            : (fromStart ? row.time : row.split) - target;
+        const isGold =
+          !isLive && row.split < (best?.segments.get(row.level) ?? Infinity);
+        const deltaColor = isGold
+          ? 'text-yellow-300'
+          : delta !== null && delta < 0
+            ? 'text-green-400'
+            : 'text-red-400';
+
+        return (
+          <div
+            key={row.level}
+            className={`flex justify-between ${isLive ? 'text-white' : 'text-gray-300'}`}
+          >
+            <span>Lv {row.level}</span>
+            <span className={deltaColor}>
+              {delta === null || (isLive && delta < 0)
+                ? ''
+                : formatDelta(delta)}
+            </span>
+            <span>{formatSplit(fromStart ? row.time : row.split)}</span>
+          </div>
+        );
+      })}
+      {best && fromStart && (
+        <div className='mt-1 flex justify-between border-t border-gray-600 pt-1 text-xs text-gray-400'>
+          <span>PB through Lv {gameState.level}</span>
+          <span>
+            {best.through.has(gameState.level)
+              ? formatSplit(best.through.get(gameState.level)!)
+              : '-'}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+});
+
 const PlayerHealth = observer(() => {
   const totalLives = Array.from({ length: gameState.totalLives }, (_, i) => i);
 
@@ -154,13 +386,62 @@ const PlayerHealth = observer(() => {
       <div className='flex h-2 w-[200px] items-center justify-start rounded-[6px] bg-accent'>
         <div
           className='h-2 rounded-[5px] bg-red-500'
-          style={{ width: `${String(gameState.playerHealth)}%` }}
+          style={{
+            width: `${String((gameState.playerHealth / gameState.maxPlayerHealth) * 100)}%`,
+          }}
+        />
+      </div>
+      <div className='flex h-2 w-[200px] items-center justify-start rounded-[6px] bg-accent'>
+        <div
+          className='h-2 rounded-[5px] bg-blue-500'
+          style={{
+            width: `${String((gameState.playerMana / gameState.maxPlayerMana) * 100)}%`,
+          }}
         />
       </div>
     </div>
   );
 });
 
+const AbilityBar = observer(() => {
+  const abilities = gameState.weaponManager.getEquippedAbilities();
+
+  return (
+    <div className='absolute bottom-4 left-1/2 flex -translate-x-1/2 flex-row gap-2'>
+      {abilities.map((ability, slot) => {
+        const cooldown = gameState.abilityCooldowns.get(ability.id);
+        const remaining = cooldown?.remaining ?? 0;
+        const progress = cooldown ? remaining / cooldown.duration : 0;
+        const noMana = gameState.playerMana < ability.manaCost;
+
+        return (
+          <div
+            key={ability.id}
+            className='relative flex h-14 w-14 flex-col items-center justify-center overflow-hidden rounded-lg border-2 border-yellow-500 bg-black/70'
+            title={`${ability.name}: ${ability.description}`}
+          >
+            <div
+              className='absolute bottom-0 left-0 w-full bg-gray-900/80'
+              style={{ height: `${String(progress * 100)}%` }}
+            />
+            <div className='absolute top-0 left-1 text-xs text-gray-300'>
+              {slot + 1}
+            </div>
+            <div className={noMana ? 'text-2xl opacity-40' : 'text-2xl'}>
+              {ability.icon}
+            </div>
+            <div className='z-10 text-[10px] text-blue-300'>
+              {remaining > 0
+                ? `${(remaining / 1000).toFixed(1)}s`
+                : `${String(ability.manaCost)} MP`}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+});
+
 const PlayerScore = observer(() => {
   return (
     <div className='absolute top-4 right-4 flex flex-col gap-2 bg-black/70 p-4 rounded-lg border-2 border-yellow-500'>
@@ -1,79 +1,104 @@
 import { createFileRoute } from '@tanstack/react-router';
-import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit';
+import { useCurrentAccount } from '@mysten/dapp-kit';
 import { useState, useEffect } from 'react';
+import {
+  type LeaderboardReward,
+  type LeaderboardSeason,
+  type LeaderboardType,
+  leaderboardManager,
+} from '~/lib/helpers/leaderboards';
+import { formatSplit } from '~/lib/helpers/splits';
+import { eventIndexer } from '~/lib/onechain/indexer';
 
-interface LeaderboardEntry {
-  address: string;
-  score: number;
-  timestamp: number;
-  round: number;
-}
+const tabs: { type: LeaderboardType; label: string; scoreLabel: string }[] = [
+  { type: 'global', label: 'All Time', scoreLabel: 'Score' },
+  { type: 'weekly', label: 'Weekly', scoreLabel: 'Score' },
+  { type: 'monthly', label: 'Monthly', scoreLabel: 'Score' },
+  { type: 'guild', label: 'Guilds', scoreLabel: 'Score' },
+  { type: 'boss_kills', label: 'Boss Kills', scoreLabel: 'Bosses' },
+  { type: 'speed_run', label: 'Speed Run', scoreLabel: 'Time' },
+];
 
-const GAME_PACKAGE_ID = '0x3d16067dbdb2afe434f636d860fd02400ef57421def3b89ee424f9c3b354ec45';
+const shortAddress = (address: string) =>
+  `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const formatRemaining = (ms: number) => {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(total / 86400);
+  const hours = Math.floor((total % 86400) / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = total % 60;
+  return `${days}d ${hours}h ${minutes}m ${seconds}s`;
+};
+
+// Consecutive ranks paying the same reward collapse into one tier, e.g. 6-10
+const groupRewardTiers = (rewards: LeaderboardReward[]) => {
+  const tiers: { from: number; to: number; reward: LeaderboardReward }[] = [];
+  rewards.forEach((reward) => {
+    const last = tiers[tiers.length - 1];
+    if (
+      last &&
+      last.to === reward.rank - 1 &&
+      last.reward.dgnReward === reward.dgnReward &&
+      !last.reward.nftReward &&
+      !reward.nftReward
+    ) {
+      last.to = reward.rank;
+    } else {
+      tiers.push({ from: reward.rank, to: reward.rank, reward });
+    }
+  });
+  return tiers;
+};
+
+const SeasonCountdown = ({ season }: { season: LeaderboardSeason }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  return (
+    <div className="mb-6 flex flex-wrap items-center justify-between gap-4 rounded-lg border border-purple-500 bg-purple-500/10 p-4">
+      <div>
+        <div className="text-sm text-gray-400">Season ends in</div>
+        <div className="font-mono text-2xl text-white">
+          {formatRemaining(season.endTime - now)}
+        </div>
+      </div>
+      <div className="text-right">
+        <div className="text-sm text-gray-400">Prize pool</div>
+        <div className="text-2xl font-bold text-yellow-300">
+          {season.totalPrizePool.toLocaleString()} DGN
+        </div>
+      </div>
+    </div>
+  );
+};
 
 export const LeaderboardComponent = () => {
   const account = useCurrentAccount();
-  const suiClient = useSuiClient();
-  const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
-  const [userRank, setUserRank] = useState<number>(0);
+  const [type, setType] = useState<LeaderboardType>('global');
+  // The manager is rebuilt in place, bumping this re-renders from it
+  const [, setVersion] = useState(0);
   const [loading, setLoading] = useState(true);
+  // Speed runs: deepest full clear overall, or one level / levels 1-N
+  const [speedRunView, setSpeedRunView] = useState('overall');
 
   useEffect(() => {
-    // Load leaderboard from OneChain blockchain events
+    // Show what's already indexed, then catch up with OneChain
     const loadLeaderboard = async () => {
       try {
-        setLoading(true);
-        console.log("📊 Fetching leaderboard from OneChain...");
-        
-        // Query all GameCompleted events
-        const events = await suiClient.queryEvents({
-          query: {
-            MoveEventType: `${GAME_PACKAGE_ID}::shadow_stake_saga_game::GameCompleted`
-          },
-          limit: 50,
-          order: 'descending'
-        });
-
-        console.log("📊 Found events:", events);
-
-        // Group by player and keep highest score
-        const playerScores = new Map<string, LeaderboardEntry>();
-        
-        events.data.forEach((event: any) => {
-          const player = event.parsedJson?.player;
-          const score = Number(event.parsedJson?.score || 0);
-          const round = Number(event.parsedJson?.level || 0);
-          // timestamp from event is in seconds, convert to milliseconds
-          // or use event.timestampMs which is already in milliseconds
-          const timestamp = event.timestampMs ? Number(event.timestampMs) : Number(event.parsedJson?.timestamp || 0) * 1000;
-
-          if (player) {
-            const existing = playerScores.get(player);
-            if (!existing || score > existing.score) {
-              playerScores.set(player, {
-                address: player,
-                score,
-                round,
-                timestamp
-              });
-            }
-          }
-        });
-
-        // Convert to array and sort by score
-        const sorted = Array.from(playerScores.values())
-          .sort((a, b) => b.score - a.score)
-          .slice(0, 100); // Top 100
-
-        setLeaderboard(sorted);
-
-        // Find user's rank
-        if (account) {
-          const rank = sorted.findIndex(entry => entry.address === account.address) + 1;
-          setUserRank(rank);
+        await leaderboardManager.loadFromIndex();
+        setVersion((v) => v + 1);
+        if (leaderboardManager.getLeaderboard('global').length > 0) {
+          setLoading(false);
         }
 
-        console.log("📊 Leaderboard loaded:", sorted.length, "players");
+        await eventIndexer.sync();
+        await leaderboardManager.loadFromIndex();
+        setVersion((v) => v + 1);
       } catch (error) {
         console.error("❌ Failed to load leaderboard:", error);
       } finally {
@@ -85,7 +110,35 @@ export const LeaderboardComponent = () => {
     // Refresh every 30 seconds
     const interval = setInterval(loadLeaderboard, 30000);
     return () => clearInterval(interval);
-  }, [account, suiClient]);
+  }, []);
+
+  const address = account?.address;
+  const [scope, level] = speedRunView.split(':') as [
+    'overall' | 'level' | 'through',
+    string | undefined,
+  ];
+  const board = {
+    entries: leaderboardManager.getLeaderboard(type, 100),
+    userEntry: address ? leaderboardManager.getUserRank(address, type) : null,
+    context: address
+      ? leaderboardManager.getLeaderboardContext(address, type, 3)
+      : [],
+    season: leaderboardManager.getActiveSeason(type),
+    tiers: groupRewardTiers(leaderboardManager.getRewardTiers(type)),
+  };
+
+  // Per-level speed-run views are ranked on the fly, not kept as a board
+  if (type === 'speed_run' && scope !== 'overall') {
+    const entries = leaderboardManager.getSpeedRunBoard(Number(level), scope);
+    const userEntry = entries.find((e) => e.address === address) ?? null;
+    board.entries = entries;
+    board.userEntry = userEntry;
+    board.context = userEntry
+      ? entries.slice(Math.max(0, userEntry.rank - 4), userEntry.rank + 3)
+      : [];
+  }
+
+  const tab = tabs.find((t) => t.type === type)!;
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-purple-900 to-black p-8">
@@ -94,13 +147,85 @@ export const LeaderboardComponent = () => {
         <div className="text-center mb-8">
           <h1 className="text-6xl font-bold text-yellow-400 mb-4">🏆 LEADERBOARD 🏆</h1>
           <p className="text-xl text-gray-300">Top Players - Shadow Stake Saga</p>
-          {account && userRank > 0 && (
+          {board.userEntry && (
             <div className="mt-4 text-2xl text-green-400">
-              Your Rank: #{userRank}
+              Your Rank: #{board.userEntry.rank}
             </div>
           )}
         </div>
 
+        {/* Tabs */}
+        <div className="mb-6 flex flex-wrap justify-center gap-2">
+          {tabs.map((t) => (
+            <button
+              key={t.type}
+              type="button"
+              onClick={() => setType(t.type)}
+              className={`rounded-lg px-4 py-2 font-bold transition-colors ${
+                t.type === type
+                  ? 'bg-yellow-500 text-black'
+                  : 'bg-black/50 text-gray-300 hover:bg-yellow-500/20'
+              }`}
+            >
+              {t.label}
+            </button>
+          ))}
+        </div>
+
+        {board.season && <SeasonCountdown season={board.season} />}
+
+        {type === 'speed_run' && (
+          <div className="mb-6 flex justify-center">
+            <select
+              value={speedRunView}
+              onChange={(e) => setSpeedRunView(e.target.value)}
+              className="rounded-lg border border-yellow-500 bg-black/70 px-4 py-2 text-white"
+            >
+              <option value="overall">Deepest clear</option>
+              {Array.from(
+                { length: leaderboardManager.getSpeedRunDepth() },
+                (_, i) => i + 1
+              ).map((n) => [
+                <option key={`level-${n}`} value={`level:${n}`}>
+                  Level {n}
+                </option>,
+                n > 1 && (
+                  <option key={`through-${n}`} value={`through:${n}`}>
+                    Levels 1-{n}
+                  </option>
+                ),
+              ])}
+            </select>
+          </div>
+        )}
+
+        {/* Players around me */}
+        {board.context.length > 0 && (
+          <div className="mb-6 rounded-lg border border-green-500 bg-black/50 p-4">
+            <div className="mb-2 text-lg font-bold text-green-400">Around You</div>
+            {board.context.map((entry) => (
+              <div
+                key={entry.address}
+                className={`flex justify-between px-2 py-1 ${
+                  entry.address === account?.address ? 'rounded bg-green-500/20' : ''
+                }`}
+              >
+                <span className="text-white">
+                  #{entry.rank}{' '}
+                  <span className="font-mono text-sm text-gray-300">
+                    {shortAddress(entry.address)}
+                  </span>
+                </span>
+                <span className="font-bold text-yellow-300">
+                  {entry.time !== undefined
+                    ? formatSplit(entry.time)
+                    : entry.score.toLocaleString()}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Leaderboard Table */}
         <div className="bg-black/50 rounded-lg border-2 border-yellow-500 overflow-hidden">
           <table className="w-full">
@@ -108,7 +233,7 @@ export const LeaderboardComponent = () => {
               <tr>
                 <th className="p-4 text-left text-yellow-400">Rank</th>
                 <th className="p-4 text-left text-yellow-400">Player</th>
-                <th className="p-4 text-right text-yellow-400">Score</th>
+                <th className="p-4 text-right text-yellow-400">{tab.scoreLabel}</th>
                 <th className="p-4 text-right text-yellow-400">Round</th>
                 <th className="p-4 text-right text-yellow-400">Date</th>
               </tr>
@@ -123,16 +248,16 @@ export const LeaderboardComponent = () => {
                     </div>
                   </td>
                 </tr>
-              ) : leaderboard.length === 0 ? (
+              ) : board.entries.length === 0 ? (
                 <tr>
                   <td colSpan={5} className="p-8 text-center text-gray-400">
-                    No scores yet. Be the first to play!
+                    No runs on this board yet. Be the first to play!
                   </td>
                 </tr>
               ) : (
-                leaderboard.map((entry, index) => (
+                board.entries.map((entry, index) => (
                   <tr
-                    key={`${entry.address}-${entry.timestamp}`}
+                    key={entry.address}
                     className={`border-t border-gray-700 hover:bg-yellow-500/10 ${
                       account && entry.address === account.address ? 'bg-green-500/20' : ''
                     }`}
@@ -142,24 +267,29 @@ export const LeaderboardComponent = () => {
                         {index === 0 && <span className="text-3xl">🥇</span>}
                         {index === 1 && <span className="text-3xl">🥈</span>}
                         {index === 2 && <span className="text-3xl">🥉</span>}
-                        <span className="text-xl font-bold text-white">#{index + 1}</span>
+                        <span className="text-xl font-bold text-white">#{entry.rank}</span>
                       </div>
                     </td>
                     <td className="p-4">
                       <div className="font-mono text-sm text-gray-300">
-                        {entry.address.slice(0, 6)}...{entry.address.slice(-4)}
+                        {shortAddress(entry.address)}
                       </div>
+                      {entry.guildName && (
+                        <div className="text-xs text-purple-300">{entry.guildName}</div>
+                      )}
                     </td>
                     <td className="p-4 text-right">
                       <span className="text-2xl font-bold text-yellow-300">
-                        {entry.score.toLocaleString()}
+                        {entry.time !== undefined
+                          ? formatSplit(entry.time)
+                          : entry.score.toLocaleString()}
                       </span>
                     </td>
                     <td className="p-4 text-right text-gray-300">
-                      Round {entry.round}
+                      Round {entry.level}
                     </td>
                     <td className="p-4 text-right text-gray-400 text-sm">
-                      {new Date(entry.timestamp).toLocaleDateString()}
+                      {new Date(entry.lastUpdated).toLocaleDateString()}
                     </td>
                   </tr>
                 ))
@@ -168,6 +298,28 @@ export const LeaderboardComponent = () => {
           </table>
         </div>
 
+        {/* Reward tiers */}
+        <div className="mt-8 rounded-lg border border-yellow-500 bg-black/50 p-4">
+          <div className="mb-2 text-lg font-bold text-yellow-400">Rewards</div>
+          <div className="grid grid-cols-1 gap-2 md:grid-cols-3">
+            {board.tiers.map(({ from, to, reward }) => (
+              <div key={from} className="rounded bg-yellow-500/10 px-3 py-2">
+                <div className="font-bold text-white">
+                  {reward.title ?? (from === to ? `Rank ${from}` : `Ranks ${from}-${to}`)}
+                </div>
+                <div className="text-sm text-yellow-300">
+                  {reward.dgnReward.toLocaleString()} DGN +{' '}
+                  {reward.sttReward.toLocaleString()} STT
+                  {from !== to && ' each'}
+                </div>
+                {reward.nftReward && (
+                  <div className="text-xs text-purple-300">+ {reward.nftReward} NFT</div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+
         {/* Info */}
         <div className="mt-8 text-center text-gray-400">
           <p>🔗 Scores are stored on OneChain blockchain</p>
@@ -0,0 +1,19 @@
+import { createFileRoute } from '@tanstack/react-router';
+import { Marketplace } from '~/components';
+
+export const MarketComponent = () => {
+  return (
+    <div className='!m-0 !p-0'>
+      <img
+        alt='background'
+        className='absolute h-screen w-full'
+        src='/background.png'
+      />
+      <Marketplace />
+    </div>
+  );
+};
+
+export const Route = createFileRoute('/market')({
+  component: MarketComponent,
+});
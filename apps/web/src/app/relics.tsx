@@ -0,0 +1,19 @@
+import { createFileRoute } from '@tanstack/react-router';
+import { RelicInventory } from '~/components';
+
+export const RelicsComponent = () => {
+  return (
+    <div className='!m-0 !p-0'>
+      <img
+        alt='background'
+        className='absolute h-screen w-full'
+        src='/background.png'
+      />
+      <RelicInventory />
+    </div>
+  );
+};
+
+export const Route = createFileRoute('/relics')({
+  component: RelicsComponent,
+});
@@ -0,0 +1,354 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import Phaser from 'phaser';
+import {
+  type ChallengeData,
+  type ChallengeResponse,
+  type ChallengeType,
+  type ChallengeView,
+  slide,
+} from '@repo/security/bot-protection';
+import { challengeService } from '~/lib/helpers/validator';
+
+import { ReactionScene } from './game/scenes/reaction';
+import { Button } from './ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { Input } from './ui/input';
+
+const challengeTypes: ChallengeType[] = ['captcha', 'puzzle', 'timing'];
+
+const descriptions: Record<ChallengeData['kind'], string> = {
+  arithmetic: 'Solve the sum.',
+  image_grid: 'Select every matching tile.',
+  sliding_tile: 'Slide the tiles into order, 1 to 8 with the gap last.',
+  reaction: 'Click the moment the rune glows, three times.',
+};
+
+interface ChallengeDialogProps {
+  userAddress: string | null; // Open while set
+  onResolve: (passed: boolean) => void;
+}
+
+// Shown before a score is submitted when BotProtection isn't sure the
+// player is human
+export const ChallengeDialog = ({
+  userAddress,
+  onResolve,
+}: ChallengeDialogProps) => {
+  const [challenge, setChallenge] = useState<ChallengeView | null>(null);
+  const [shownAt, setShownAt] = useState(0);
+  const [attempts, setAttempts] = useState(0);
+  const [message, setMessage] = useState<string | null>(null);
+  const [verifying, setVerifying] = useState(false);
+
+  const newChallenge = useCallback(async () => {
+    if (!userAddress) return;
+    const type = challengeTypes[
+      Math.floor(Math.random() * challengeTypes.length)
+    ]!;
+    try {
+      const next = await challengeService.createChallenge(userAddress, type);
+      setChallenge(next);
+      setShownAt(Date.now());
+      setAttempts(0);
+      setMessage(null);
+    } catch (error) {
+      console.error('Failed to create a challenge:', error);
+      setChallenge(null);
+      setMessage('Could not load a challenge, try another.');
+    }
+  }, [userAddress]);
+
+  useEffect(() => {
+    if (userAddress) {
+      void newChallenge();
+    } else {
+      setChallenge(null);
+    }
+  }, [userAddress, newChallenge]);
+
+  const submit = async (response: ChallengeResponse) => {
+    if (!challenge || verifying) return;
+    setVerifying(true);
+    const result = await challengeService
+      .verifyChallenge(challenge.id, response, Date.now() - shownAt)
+      .catch((error: unknown) => {
+        console.error('Failed to verify the challenge:', error);
+        return null;
+      });
+    setVerifying(false);
+
+    if (!result) {
+      setMessage('Could not check the answer, try again.');
+      return;
+    }
+
+    if (result.passed) {
+      onResolve(true);
+      return;
+    }
+
+    setAttempts(result.attempts);
+    if (result.attempts >= challenge.maxAttempts) {
+      await newChallenge();
+      setMessage('Out of attempts, here is a new challenge.');
+    } else {
+      setMessage(
+        `Not quite, ${String(challenge.maxAttempts - result.attempts)} attempts left.`
+      );
+    }
+  };
+
+  return (
+    <Dialog
+      open={!!userAddress}
+      onOpenChange={(open) => {
+        if (!open) onResolve(false);
+      }}
+    >
+      <DialogContent className='border-yellow-500 bg-[#0b171d] text-white'>
+        <DialogHeader>
+          <DialogTitle className='font-golondrina text-3xl'>
+            Prove you are human
+          </DialogTitle>
+          <DialogDescription>
+            {challenge
+              ? descriptions[challenge.data.kind]
+              : 'Preparing a challenge...'}
+          </DialogDescription>
+        </DialogHeader>
+        {challenge && (
+          <ChallengeBody
+            // Remount on a new challenge or attempt so local state resets
+            key={`${challenge.id}-${String(attempts)}`}
+            challengeId={challenge.id}
+            data={challenge.data}
+            disabled={verifying || attempts >= challenge.maxAttempts}
+            onSubmit={(response) => void submit(response)}
+          />
+        )}
+        {message && <div className='text-sm text-red-400'>{message}</div>}
+        <div className='flex justify-between'>
+          <Button
+            variant='ghost'
+            size='sm'
+            onClick={() => void newChallenge()}
+          >
+            Try another
+          </Button>
+          <Button variant='outline' size='sm' onClick={() => onResolve(false)}>
+            Cancel submission
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+interface ChallengeBodyProps<T extends ChallengeData = ChallengeData> {
+  challengeId: string;
+  data: T;
+  disabled: boolean;
+  onSubmit: (response: ChallengeResponse) => void;
+}
+
+const ChallengeBody = ({ data, ...props }: ChallengeBodyProps) => {
+  switch (data.kind) {
+    case 'arithmetic':
+      return <ArithmeticChallenge data={data} {...props} />;
+    case 'image_grid':
+      return <ImageGridChallenge data={data} {...props} />;
+    case 'sliding_tile':
+      return <SlidingTileChallenge data={data} {...props} />;
+    case 'reaction':
+      return <ReactionChallenge data={data} {...props} />;
+  }
+};
+
+type Props<K extends ChallengeData['kind']> = ChallengeBodyProps<
+  Extract<ChallengeData, { kind: K }>
+>;
+
+const ArithmeticChallenge = ({
+  data,
+  disabled,
+  onSubmit,
+}: Props<'arithmetic'>) => {
+  const [answer, setAnswer] = useState('');
+
+  return (
+    <form
+      className='flex flex-col gap-3'
+      onSubmit={(event) => {
+        event.preventDefault();
+        onSubmit(answer);
+      }}
+    >
+      <div className='text-center text-2xl'>{data.question}</div>
+      <Input
+        autoFocus
+        inputMode='numeric'
+        value={answer}
+        onChange={(event) => setAnswer(event.target.value)}
+      />
+      <Button type='submit' disabled={disabled || !answer.trim()}>
+        Submit
+      </Button>
+    </form>
+  );
+};
+
+const ImageGridChallenge = ({
+  data,
+  disabled,
+  onSubmit,
+}: Props<'image_grid'>) => {
+  const [selected, setSelected] = useState<number[]>([]);
+
+  const toggle = (cell: number) => {
+    setSelected((current) =>
+      current.includes(cell)
+        ? current.filter((c) => c !== cell)
+        : [...current, cell]
+    );
+  };
+
+  return (
+    <div className='flex flex-col gap-3'>
+      <div className='text-center'>
+        Select every {data.targetName} {data.target}
+      </div>
+      <div className='mx-auto grid grid-cols-3 gap-2'>
+        {data.cells.map((symbol, cell) => (
+          <button
+            key={`cell-${String(cell)}`}
+            type='button'
+            className={`h-16 w-16 rounded-lg border-2 text-3xl ${
+              selected.includes(cell)
+                ? 'border-yellow-400 bg-yellow-900/50'
+                : 'border-gray-600 bg-black/40'
+            }`}
+            onClick={() => toggle(cell)}
+          >
+            {symbol}
+          </button>
+        ))}
+      </div>
+      <Button
+        disabled={disabled || selected.length === 0}
+        onClick={() => onSubmit(selected)}
+      >
+        Submit
+      </Button>
+    </div>
+  );
+};
+
+const SlidingTileChallenge = ({
+  data,
+  disabled,
+  onSubmit,
+}: Props<'sliding_tile'>) => {
+  const [tiles, setTiles] = useState(data.tiles);
+  const [moves, setMoves] = useState<number[]>([]);
+
+  const move = (cell: number) => {
+    const next = slide(tiles, cell, data.size);
+    if (!next) return;
+    setTiles(next);
+    setMoves((current) => [...current, cell]);
+  };
+
+  return (
+    <div className='flex flex-col gap-3'>
+      <div
+        className='mx-auto grid gap-1'
+        style={{ gridTemplateColumns: `repeat(${String(data.size)}, 4rem)` }}
+      >
+        {tiles.map((tile, cell) =>
+          tile === 0 ? (
+            <div key='gap' className='h-16 w-16' />
+          ) : (
+            <button
+              key={`tile-${String(tile)}`}
+              type='button'
+              className='font-golondrina h-16 w-16 rounded-lg border-2 border-yellow-600 bg-[#7c2d12] text-3xl'
+              onClick={() => move(cell)}
+            >
+              {tile}
+            </button>
+          )
+        )}
+      </div>
+      <div className='text-center text-sm text-gray-400'>
+        {moves.length} moves
+      </div>
+      <div className='flex gap-2'>
+        <Button
+          className='flex-1'
+          variant='outline'
+          onClick={() => {
+            setTiles(data.tiles);
+            setMoves([]);
+          }}
+        >
+          Reset
+        </Button>
+        <Button
+          className='flex-1'
+          disabled={disabled || moves.length === 0}
+          onClick={() => onSubmit(moves)}
+        >
+          Submit
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+// Runs ReactionScene in a small Phaser game of its own, with the rounds
+// timed by challengeService
+const ReactionChallenge = ({
+  challengeId,
+  data,
+  onSubmit,
+}: Props<'reaction'>) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const submitRef = useRef(onSubmit);
+  submitRef.current = onSubmit;
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const game = new Phaser.Game({
+      type: Phaser.AUTO,
+      width: 400,
+      height: 220,
+      parent: containerRef.current,
+      scene: [
+        new ReactionScene(
+          data.rounds,
+          {
+            arm: () => challengeService.armReactionRound(challengeId),
+            press: () => challengeService.pressReaction(challengeId),
+          },
+          () => {
+            submitRef.current([]);
+          }
+        ),
+      ],
+    });
+
+    return () => {
+      game.destroy(true);
+    };
+  }, [challengeId, data]);
+
+  return <div ref={containerRef} className='mx-auto' />;
+};
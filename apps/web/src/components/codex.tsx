@@ -0,0 +1,78 @@
+import { useCurrentAccount } from '@mysten/dapp-kit';
+import { useMemo } from 'react';
+import {
+  LoreManager,
+  type LoreEntry,
+  loadLoreDiscoveries,
+  loreEntries,
+} from '~/lib/helpers/lore';
+
+const sections: { type: LoreEntry['type']; title: string }[] = [
+  { type: 'story', title: 'Story' },
+  { type: 'enemy', title: 'Bestiary' },
+  { type: 'location', title: 'Locations' },
+  { type: 'item', title: 'Items' },
+];
+
+export const LoreCodex = () => {
+  const account = useCurrentAccount();
+
+  const manager = useMemo(() => {
+    const lore = new LoreManager();
+    if (account) lore.restoreDiscoveries(loadLoreDiscoveries(account.address));
+    return lore;
+  }, [account]);
+
+  if (!account) {
+    return (
+      <div className='absolute top-24 right-1/2 mx-auto w-full max-w-screen-xl translate-x-1/2 rounded-xl bg-[#0b171dd0] px-8 py-6'>
+        <div className='font-golondrina text-4xl text-center text-red-400'>
+          Please connect your OneChain wallet to view the codex
+        </div>
+      </div>
+    );
+  }
+
+  const discovered = manager.getDiscoveredEntries();
+
+  return (
+    <div className='absolute top-24 right-1/2 mx-auto max-h-[80vh] w-full max-w-screen-xl translate-x-1/2 overflow-y-auto rounded-xl bg-[#0b171dd0] px-8 py-6'>
+      <div className='font-golondrina text-7xl mb-2'>Lore Codex</div>
+      <div className='text-yellow-400 mb-6'>
+        {manager.getCompletionPercentage()}% complete
+      </div>
+      {sections.map((section) => {
+        const total = loreEntries.filter((e) => e.type === section.type);
+        const entries = discovered.filter((e) => e.type === section.type);
+
+        return (
+          <div key={section.type} className='mb-8'>
+            <div className='font-golondrina text-4xl mb-2'>
+              {section.title}{' '}
+              <span className='text-xl text-gray-400'>
+                ({entries.length}/{total.length})
+              </span>
+            </div>
+            {entries.length === 0 ? (
+              <div className='text-gray-500'>
+                Nothing discovered yet. Venture deeper.
+              </div>
+            ) : (
+              <div className='flex flex-col gap-4'>
+                {entries.map((entry) => (
+                  <div
+                    key={entry.id}
+                    className='rounded-lg border border-yellow-900/60 bg-black/40 p-4'
+                  >
+                    <div className='text-xl text-yellow-300'>{entry.title}</div>
+                    <div className='text-gray-300'>{entry.content}</div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
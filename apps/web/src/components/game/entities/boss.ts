@@ -1,5 +1,9 @@
 import type { BossType } from '~/lib/helpers/boss';
+import { enemies } from '~/lib/helpers/game';
+import { telemetryCollector } from '~/lib/helpers/telemetry';
+
 import type { Room } from '@mikewesthad/dungeon';
+import { createLevelRandom, type SeededRandom } from '@repo/security/random';
 import Phaser from 'phaser';
 
 import type { DungeonGameScene } from '../scenes';
@@ -8,7 +12,12 @@ import { HealthBar } from './healthbar';
 
 type SoundTypes = 'dead' | 'attack' | 'special';
 
+const BASE_TINT = 0xff0000;
+const RAGE_TINT = 0xff4400;
+const SHIELD_TINT = 0x4444ff;
+
 export class Boss {
+  private scene: DungeonGameScene;
   public sprite: Phaser.Types.Physics.Arcade.SpriteWithDynamicBody | undefined;
   public health: number;
   public maxHealth: number;
@@ -22,6 +31,9 @@ export class Boss {
   public currentPhase: number;
   public isEnraged: boolean;
   public shieldActive: boolean;
+  public frozenUntil: number;
+  // Teleports and summons draw from the run seed so replays rebuild the fight
+  private random: SeededRandom;
 
   constructor(
     scene: DungeonGameScene,
@@ -30,6 +42,7 @@ export class Boss {
     type: BossType,
     room: Room
   ) {
+    this.scene = scene;
     this.isHidden = true;
     this.room = room;
     this.health = type.maxHealth;
@@ -40,12 +53,17 @@ export class Boss {
     this.currentPhase = 0;
     this.isEnraged = false;
     this.shieldActive = false;
+    this.frozenUntil = 0;
+    this.random = createLevelRandom(gameState.seed, gameState.level, 'boss');
 
-    this.sprite = scene.physics.add.sprite(x, y, this.bossType.key, 0);
-    this.sprite.setScale(5); // Bosses are bigger
-    this.sprite.setTint(0xff0000); // Red tint for bosses
+    this.sprite = scene.physics.add.sprite(x, y, this.bossType.spriteKey, 0);
+    // Bosses are bigger, the large enemy sheets are already twice the size
+    const largeSprites = ['shadow-beast', 'elemental-wraith', 'necromancer'];
+    const isLarge = largeSprites.includes(this.bossType.spriteKey);
+    this.sprite.setScale(isLarge ? 3 : 5);
+    this.sprite.setTint(BASE_TINT); // Red tint for bosses
 
-    this.healthBar = new HealthBar(scene, this.sprite, 150);
+    this.healthBar = new HealthBar(scene, this.sprite, type.maxHealth);
     this.healthBar.updateHealthBar();
 
     this.sprite.setVisible(false);
@@ -97,32 +115,44 @@ export class Boss {
   }
 
   private shouldTeleport(scene: DungeonGameScene): boolean {
-    const timeSinceLastSpecial = scene.time.now - this.lastSpecialTime;
-    return timeSinceLastSpecial > 5000 && Math.random() < 0.3;
+    // Every phase shortens the time between teleports
+    const cooldown = 5000 / (this.currentPhase + 1);
+    const timeSinceLastSpecial = scene.now - this.lastSpecialTime;
+    return timeSinceLastSpecial > cooldown && this.random.next() < 0.3;
   }
 
   private teleportNearPlayer(scene: DungeonGameScene): void {
     if (!this.sprite) return;
 
-    const angle = Math.random() * Math.PI * 2;
-    const distance = 100 + Math.random() * 50;
+    const angle = this.random.next() * Math.PI * 2;
+    const distance = 100 + this.random.next() * 50;
     const newX = scene.player.sprite.x + Math.cos(angle) * distance;
     const newY = scene.player.sprite.y + Math.sin(angle) * distance;
 
-    this.sprite.setPosition(newX, newY);
-    this.lastSpecialTime = scene.time.now;
+    // Stay inside the boss room so the boss never lands in a wall
+    const map = scene.tilemap;
+    const left = map.tileToWorldX(this.room.left + 1) ?? newX;
+    const right = map.tileToWorldX(this.room.right - 1) ?? newX;
+    const top = map.tileToWorldY(this.room.top + 1) ?? newY;
+    const bottom = map.tileToWorldY(this.room.bottom - 1) ?? newY;
+
+    this.sprite.setPosition(
+      Phaser.Math.Clamp(newX, left, right),
+      Phaser.Math.Clamp(newY, top, bottom)
+    );
+    this.lastSpecialTime = scene.now;
     this.sounds.special.play();
   }
 
   public attack(scene: DungeonGameScene): void {
-    if (!this.sprite) return;
+    if (!this.sprite || this.isFrozen(scene)) return;
     const player = scene.player;
 
     const attackCooldown = this.isEnraged
       ? this.bossType.attackCooldown * 0.7
       : this.bossType.attackCooldown;
 
-    if (scene.time.now - this.lastAttackTime > attackCooldown) {
+    if (scene.now - this.lastAttackTime > attackCooldown) {
       const distance = Phaser.Math.Distance.Between(
         this.sprite.x,
         this.sprite.y,
@@ -137,7 +167,7 @@ export class Boss {
             ? this.bossType.dps * 1.5
             : this.bossType.dps;
           player.onHitByEnemy(scene, damage);
-          this.lastAttackTime = scene.time.now;
+          this.lastAttackTime = scene.now;
 
           // Special ability: summon minions
           if (this.bossType.specialAbility === 'summon') {
@@ -148,41 +178,49 @@ export class Boss {
     }
   }
 
-  private summonMinions(scene: DungeonGameScene): void {
+  private summonMinions(scene: DungeonGameScene, force = false): void {
     if (!this.sprite) return;
-    const timeSinceLastSpecial = scene.time.now - this.lastSpecialTime;
-    if (timeSinceLastSpecial < 10000) return; // Cooldown
+    const timeSinceLastSpecial = scene.now - this.lastSpecialTime;
+    if (!force && timeSinceLastSpecial < 10000) return; // Cooldown
 
-    // Summon 2-3 skeleton minions
-    const count = 2 + Math.floor(Math.random() * 2);
+    const minionType = enemies.find((enemy) => enemy.key === 'skeleton');
+    if (!minionType) return;
+
+    // Summon 2-3 skeleton minions around the boss
+    const count = this.random.between(2, 3);
     for (let i = 0; i < count; i++) {
       const angle = (Math.PI * 2 * i) / count;
       const distance = 80;
       const x = this.sprite.x + Math.cos(angle) * distance;
       const y = this.sprite.y + Math.sin(angle) * distance;
-
-      // Add minion to scene (simplified - would need proper Enemy creation)
-      // scene.spawnEnemy(x, y, 'skeleton');
+      scene.spawnEnemy(x, y, minionType, this.room);
     }
 
-    this.lastSpecialTime = scene.time.now;
+    this.lastSpecialTime = scene.now;
     this.sounds.special.play();
   }
 
-  public onHitByPlayer(scene: Phaser.Scene): void {
+  public onHitByPlayer(scene: DungeonGameScene, damage = 30): void {
+    this.takeDamage(damage);
+  }
+
+  public takeDamage(damage: number): void {
+    if (!this.sprite) return;
+
     if (this.shieldActive) {
-      // Shield absorbs damage
+      // Shield absorbs the whole hit and then breaks
       this.shieldActive = false;
+      this.restoreTint();
       return;
     }
 
-    const damage = 30;
+    telemetryCollector.recordDamageDealt(Math.min(damage, this.health));
     this.health -= damage;
-    this.lastAttackTime = scene.time.now;
+    this.lastAttackTime = this.scene.now;
     this.healthBar.takeDamage(damage);
 
     // Check for phase transitions
-    this.checkPhaseTransition(scene);
+    this.checkPhaseTransition();
 
     if (this.health <= 0) {
       this.sounds.dead.play();
@@ -190,40 +228,77 @@ export class Boss {
     }
   }
 
-  private checkPhaseTransition(scene: Phaser.Scene): void {
+  private checkPhaseTransition(): void {
     const healthPercent = (this.health / this.maxHealth) * 100;
 
     for (let i = 0; i < this.bossType.phaseThresholds.length; i++) {
       const threshold = this.bossType.phaseThresholds[i]!;
       if (healthPercent <= threshold && this.currentPhase === i) {
         this.currentPhase = i + 1;
-        this.triggerPhaseChange(scene);
+        this.triggerPhaseChange();
         break;
       }
     }
   }
 
-  private triggerPhaseChange(scene: Phaser.Scene): void {
+  private triggerPhaseChange(): void {
+    if (!this.sprite || this.health <= 0) return;
     this.sounds.special.play();
 
     switch (this.bossType.specialAbility) {
       case 'rage':
         this.isEnraged = true;
-        if (this.sprite) this.sprite.setTint(0xff4400); // Orange tint
+        this.sprite.setTint(RAGE_TINT);
         break;
       case 'shield':
         this.shieldActive = true;
-        if (this.sprite) this.sprite.setTint(0x4444ff); // Blue tint
+        this.sprite.setTint(SHIELD_TINT);
         break;
       case 'summon':
-        // Summon more minions on phase change
+        this.summonMinions(this.scene, true);
         break;
       case 'teleport':
-        // Increase teleport frequency
+        // Blink away immediately, later teleports come faster (see shouldTeleport)
+        this.teleportNearPlayer(this.scene);
         break;
     }
   }
 
+  private restoreTint(): void {
+    if (!this.sprite) return;
+    if (this.shieldActive) this.sprite.setTint(SHIELD_TINT);
+    else if (this.isEnraged) this.sprite.setTint(RAGE_TINT);
+    else this.sprite.setTint(BASE_TINT);
+  }
+
+  public isFrozen(scene: DungeonGameScene): boolean {
+    return scene.now < this.frozenUntil;
+  }
+
+  // Bosses shrug off freezes twice as fast as regular enemies
+  public applyFreeze(scene: DungeonGameScene, duration: number): void {
+    if (!this.sprite) return;
+    this.frozenUntil = scene.now + duration / 2;
+    this.sprite.setVelocity(0, 0);
+    this.sprite.setTint(0x88ccff);
+    scene.after(duration / 2, () => {
+      if (!this.isFrozen(scene)) this.restoreTint();
+    });
+  }
+
+  public applyBurn(
+    scene: DungeonGameScene,
+    damagePerSecond: number,
+    duration: number
+  ): void {
+    if (!this.sprite) return;
+    for (let second = 1; second <= Math.max(duration / 1000, 1); second++) {
+      scene.after(second * 1000, () => {
+        this.takeDamage(damagePerSecond);
+      });
+    }
+  }
+
   hasLineOfSightToPlayer(
     player: Phaser.Physics.Arcade.Sprite,
     tilemapLayer: Phaser.Tilemaps.TilemapLayer
@@ -259,25 +334,44 @@ export class Boss {
       }
     }
 
+    // The boss sleeps until the player walks into its room
+    if (this.isHidden) return;
+
+    this.healthBar.updateHealthBarPosition();
+    if (this.isFrozen(scene)) {
+      this.sprite.setVelocity(0, 0);
+      this.sprite.anims.stop();
+      return;
+    }
+
     this.moveTowardPlayer(scene);
     this.attack(scene);
-    this.healthBar.updateHealthBarPosition();
 
-    // Animation logic (simplified)
     const velocityX = this.sprite.body.velocity.x;
     const velocityY = this.sprite.body.velocity.y;
-
-    if (Math.abs(velocityX) > Math.abs(velocityY)) {
-      this.sprite.setFlipX(velocityX < 0);
+    const key = this.bossType.spriteKey;
+
+    if (velocityX < 0) {
+      this.sprite.anims.play(`move-left-${key}`, true);
+    } else if (velocityX > 0) {
+      this.sprite.anims.play(`move-right-${key}`, true);
+    } else if (velocityY < 0) {
+      this.sprite.anims.play(`move-up-${key}`, true);
+    } else if (velocityY > 0) {
+      this.sprite.anims.play(`move-down-${key}`, true);
+    } else {
+      this.sprite.anims.stop();
     }
   }
 
   destroy() {
     if (this.sprite) {
+      const { x, y } = this.sprite;
       gameState.incrementScore(this.bossType.pointsOnKill);
       gameState.trackBossDefeat(this.bossType.key);
       this.sprite.destroy();
       this.sprite = undefined;
+      this.scene.onBossDefeated(this, x, y);
     }
     this.healthBar.destroy();
   }
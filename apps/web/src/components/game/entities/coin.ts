@@ -1,4 +1,5 @@
 import type { CoinType } from '~/lib/helpers/game';
+import { telemetryCollector } from '~/lib/helpers/telemetry';
 
 import type { Room } from '@mikewesthad/dungeon';
 
@@ -37,6 +38,7 @@ export class Coin {
   pickup() {
     this.sprite.destroy();
     gameState.addCoin(this.type);
+    telemetryCollector.recordPickup(this.type.points);
     this.sounds.pickup.play();
     gameState.incrementHealth(this.type.healthRegeneration);
   }
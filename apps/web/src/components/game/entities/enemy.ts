@@ -1,4 +1,5 @@
 import type { EnemyType } from '~/lib/helpers/game';
+import { telemetryCollector } from '~/lib/helpers/telemetry';
 
 import type { Room } from '@mikewesthad/dungeon';
 import Phaser from 'phaser';
@@ -18,6 +19,8 @@ export class Enemy {
   public room: Room;
   public isHidden: boolean;
   public sounds: Record<SoundTypes, Phaser.Sound.BaseSound>;
+  public frozenUntil: number;
+  private scene: DungeonGameScene;
 
   constructor(
     scene: DungeonGameScene,
@@ -27,9 +30,11 @@ export class Enemy {
     room: Room
   ) {
     this.isHidden = true;
+    this.scene = scene;
     this.room = room;
     this.health = type.maxHealth;
     this.lastAttackTime = 0;
+    this.frozenUntil = 0;
     this.enemyType = type;
 
     this.sprite = scene.physics.add.sprite(x, y, this.enemyType.key, 0);
@@ -87,9 +92,9 @@ export class Enemy {
   }
 
   public attack(scene: DungeonGameScene): void {
-    if (!this.sprite) return;
+    if (!this.sprite || this.isFrozen(scene)) return;
     const player = scene.player;
-    if (scene.time.now - this.lastAttackTime > this.enemyType.attackCooldown) {
+    if (scene.now - this.lastAttackTime > this.enemyType.attackCooldown) {
       const distance = Phaser.Math.Distance.Between(
         this.sprite.x,
         this.sprite.y,
@@ -100,24 +105,60 @@ export class Enemy {
         if (this.hasLineOfSightToPlayer(player.sprite, scene.groundLayer)) {
           this.sounds.attack.play();
           player.onHitByEnemy(scene, this.enemyType.dps);
-          this.lastAttackTime = scene.time.now;
+          this.lastAttackTime = scene.now;
         }
       }
     }
   }
 
-  public onHitByPlayer(scene: Phaser.Scene): void {
-    const damage = 30.075; // Increased by 0.25% from original 30
+  public onHitByPlayer(scene: DungeonGameScene, damage = 30.075): void {
     this.takeDamage(damage);
   }
 
   public takeDamage(damage: number): void {
+    // Delayed hits can land after the enemy already died
+    if (!this.sprite) return;
+    telemetryCollector.recordDamageDealt(Math.min(damage, this.health));
     this.health -= damage;
     this.healthBar.takeDamage(damage);
     if (this.health <= 0) {
+      const { x, y } = this.sprite;
       this.sounds.dead.play();
       this.destroy();
+      this.scene.onEnemyDefeated(this, x, y);
+    }
+  }
+
+  public isFrozen(scene: DungeonGameScene): boolean {
+    return scene.now < this.frozenUntil;
+  }
+
+  public applyFreeze(scene: DungeonGameScene, duration: number): void {
+    if (!this.sprite) return;
+    this.frozenUntil = scene.now + duration;
+    this.sprite.setVelocity(0, 0);
+    this.sprite.setTint(0x88ccff);
+    scene.after(duration, () => {
+      if (!this.isFrozen(scene)) this.sprite?.clearTint();
+    });
+  }
+
+  // Burn deals damagePerSecond once a second for the duration
+  public applyBurn(
+    scene: DungeonGameScene,
+    damagePerSecond: number,
+    duration: number
+  ): void {
+    if (!this.sprite) return;
+    this.sprite.setTint(0xff8800);
+    for (let second = 1; second <= Math.max(duration / 1000, 1); second++) {
+      scene.after(second * 1000, () => {
+        this.takeDamage(damagePerSecond);
+      });
     }
+    scene.after(duration, () => {
+      if (!this.isFrozen(scene)) this.sprite?.clearTint();
+    });
   }
 
   hasLineOfSightToPlayer(
@@ -155,9 +196,15 @@ export class Enemy {
       }
     }
 
+    this.healthBar.updateHealthBarPosition();
+    if (this.isFrozen(scene)) {
+      this.sprite.setVelocity(0, 0);
+      this.sprite.anims.stop();
+      return;
+    }
+
     this.moveTowardPlayer(scene);
     this.attack(scene);
-    this.healthBar.updateHealthBarPosition();
 
     const velocityX = this.sprite.body.velocity.x;
     const velocityY = this.sprite.body.velocity.y;
@@ -0,0 +1,112 @@
+import type { Hazard } from '~/lib/helpers/hazards';
+
+import type { Room } from '@mikewesthad/dungeon';
+import type Phaser from 'phaser';
+
+import { gameState } from '../state';
+
+const colors: Record<string, { fill: number; alpha: number }> = {
+  spikes: { fill: 0x9ca3af, alpha: 0.9 },
+  arrows: { fill: 0x78350f, alpha: 0.8 },
+  'dark-overlay': { fill: 0x000000, alpha: 0.5 },
+  'purple-mist': { fill: 0x9333ea, alpha: 0.35 },
+  'green-cloud': { fill: 0x22c55e, alpha: 0.3 },
+  flames: { fill: 0xf97316, alpha: 0.6 },
+};
+
+export class HazardZone {
+  public id: string;
+  public hazard: Hazard;
+  public room: Room;
+  public graphics: Phaser.GameObjects.Graphics | undefined;
+  private tween?: Phaser.Tweens.Tween;
+
+  constructor(
+    scene: Phaser.Scene,
+    id: string,
+    x: number,
+    y: number,
+    hazard: Hazard,
+    room: Room
+  ) {
+    this.id = id;
+    this.hazard = hazard;
+    this.room = room;
+
+    const graphics = scene.add.graphics({ x, y });
+    this.graphics = graphics;
+    this.draw(graphics);
+    graphics.setVisible(false);
+
+    // Gas and fire hazards pulse so they read as active areas
+    if (hazard.duration) {
+      this.tween = scene.tweens.add({
+        targets: graphics,
+        alpha: 0.5,
+        duration: hazard.visualEffect === 'flames' ? 200 : 1200,
+        yoyo: true,
+        repeat: -1,
+      });
+    }
+  }
+
+  private draw(graphics: Phaser.GameObjects.Graphics) {
+    const radius = this.hazard.triggerRadius;
+    const { fill, alpha } = colors[this.hazard.visualEffect] ?? {
+      fill: 0xffffff,
+      alpha: 0.3,
+    };
+
+    switch (this.hazard.visualEffect) {
+      case 'spikes': {
+        // Small cluster of spikes covering the trigger area
+        graphics.fillStyle(fill, alpha);
+        const step = radius / 2;
+        for (let dx = -step; dx <= step; dx += step) {
+          for (let dy = -step; dy <= step; dy += step) {
+            graphics.fillTriangle(dx - 5, dy + 5, dx + 5, dy + 5, dx, dy - 7);
+          }
+        }
+        break;
+      }
+      case 'arrows': {
+        // Pressure plate with arrow slits
+        graphics.fillStyle(fill, alpha);
+        graphics.fillRect(-radius / 2, -radius / 2, radius, radius);
+        graphics.lineStyle(2, 0x1c1917, 1);
+        for (let i = -1; i <= 1; i++) {
+          const offset = (i * radius) / 4;
+          graphics.lineBetween(-radius / 3, offset, radius / 3, offset);
+        }
+        break;
+      }
+      case 'flames': {
+        graphics.fillStyle(fill, alpha);
+        graphics.fillCircle(0, 0, radius);
+        graphics.fillStyle(0xfde047, 0.8);
+        graphics.fillCircle(0, 0, radius / 2);
+        break;
+      }
+      default: {
+        graphics.fillStyle(fill, alpha);
+        graphics.fillCircle(0, 0, radius);
+      }
+    }
+  }
+
+  update(activeRoom: Room) {
+    if (!this.graphics) return;
+    // Traps are removed from the manager once they fire
+    if (!gameState.hazardManager.hasHazard(this.id)) {
+      this.destroy();
+      return;
+    }
+    this.graphics.setVisible(activeRoom === this.room);
+  }
+
+  destroy() {
+    this.tween?.stop();
+    this.graphics?.destroy();
+    this.graphics = undefined;
+  }
+}
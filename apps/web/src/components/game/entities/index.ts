@@ -3,3 +3,6 @@ export { Coin } from './coin';
 export { Enemy } from './enemy';
 export { Boss } from './boss';
 export { HealthBar } from './healthbar';
+export { HazardZone } from './hazard';
+export { WeaponPickup } from './weapon-pickup';
+export { RelicPickup } from './relic-pickup';
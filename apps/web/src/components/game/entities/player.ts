@@ -1,24 +1,65 @@
+import { emptyInput, type PlayerInput } from '~/lib/helpers/replay';
+import {
+  type BindableAction,
+  settingsManager,
+} from '~/lib/helpers/settings';
+import { telemetryCollector } from '~/lib/helpers/telemetry';
+import type { AbilityEffect, WeaponSpecial } from '~/lib/helpers/weapons';
+
 import Phaser from 'phaser';
 
 import { type DungeonGameScene } from '../scenes';
 import { gameState } from '../state';
+import { type Boss } from './boss';
 import { type Enemy } from './enemy';
 
 type SoundTypes = 'walk' | 'attack' | 'dead';
 
+const FIREBALL_FLIGHT_MS = 300;
+// How far past the target a piercing hit carries, and how far off the line
+// from the player through the target an enemy may stand and still be hit
+const PIERCE_REACH = 160;
+const PIERCE_WIDTH = 24;
+// Two presses of the same direction this close together start a dash
+const DASH_TAP_WINDOW_MS = 250;
+const DASH_MS = 150;
+const DASH_COOLDOWN_MS = 1000;
+const DASH_SPEED_MULTIPLIER = 3;
+const PHASE_SHIFT_DISTANCE = 150;
+const BODY_MARGIN = 18; // Half the scaled player body
+
+type Direction = 'up' | 'down' | 'left' | 'right';
+
+const directionVectors: Record<Direction, { x: number; y: number }> = {
+  up: { x: 0, y: -1 },
+  down: { x: 0, y: 1 },
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 },
+};
+
 export class Player {
-  public scene: Phaser.Scene;
+  public scene: DungeonGameScene;
   public sprite: Phaser.Types.Physics.Arcade.SpriteWithDynamicBody;
   public attackCooldown: number;
   public lastAttackTime: number;
+  public lastSpecialTime: number;
   public cycloneAttackCooldown: number;
   public lastCycloneAttackTime: number;
   public sounds: Record<SoundTypes, Phaser.Sound.BaseSound>;
   public isWalking: boolean;
-
-  constructor(scene: Phaser.Scene, x: number, y: number) {
+  public facing: { x: number; y: number };
+  public damageBuff: { multiplier: number; until: number };
+  private buffAura?: Phaser.GameObjects.Arc;
+  private swapHeld = false;
+  private heldDirections = new Set<Direction>();
+  private lastTap?: { direction: Direction; at: number };
+  private lastDashTime = -Infinity;
+  private dash?: { x: number; y: number; until: number };
+
+  constructor(scene: DungeonGameScene, x: number, y: number) {
     this.attackCooldown = 2000; // Normal attack cooldown in milliseconds
     this.lastAttackTime = 0;
+    this.lastSpecialTime = -Infinity;
     this.cycloneAttackCooldown = 7000; // Cyclone attack cooldown: 7 seconds
     this.lastCycloneAttackTime = 0;
 
@@ -40,6 +81,8 @@ export class Player {
     };
 
     this.isWalking = false;
+    this.facing = { x: 1, y: 0 };
+    this.damageBuff = { multiplier: 1, until: 0 };
 
     this.scene.input.keyboard?.createCursorKeys();
   }
@@ -95,37 +138,415 @@ export class Player {
     this.sprite.body.moves = false;
   }
 
-  public attack(enemies: Enemy[], currentTime: number): void {
-    for (const enemy of enemies) {
-      if (!enemy.sprite) continue;
-      if (currentTime - this.lastAttackTime > this.attackCooldown) {
-        const distance = Phaser.Math.Distance.Between(
+  public attack(enemies: (Enemy | Boss)[], currentTime: number): void {
+    const weapon = gameState.weaponManager.getCurrentWeapon();
+    const damage = weapon.damage * this.getDamageMultiplier(currentTime);
+    this.attackCooldown =
+      weapon.attackSpeed * gameState.skillManager.getTotalEffect('cooldown');
+    if (currentTime - this.lastAttackTime <= this.attackCooldown) return;
+
+    // Swing at the closest target within reach of the equipped weapon
+    const inRange = enemies
+      .filter((enemy) => enemy.sprite)
+      .map((enemy) => ({
+        enemy,
+        distance: Phaser.Math.Distance.Between(
           this.sprite.x,
           this.sprite.y,
+          enemy.sprite!.x,
+          enemy.sprite!.y
+        ),
+      }))
+      .filter(({ distance }) => distance < weapon.range)
+      .sort((a, b) => a.distance - b.distance)
+      .map(({ enemy }) => enemy);
+
+    const target = inRange[0];
+    if (!target) return;
+
+    gameState.setAttacking(true);
+    this.lastAttackTime = currentTime;
+    telemetryCollector.recordAction();
+    this.sounds.attack.play();
+
+    const special =
+      weapon.special &&
+      currentTime - this.lastSpecialTime >= weapon.special.cooldown
+        ? weapon.special
+        : undefined;
+    if (special) this.lastSpecialTime = currentTime;
+
+    this.scene.after(1000, () => {
+      gameState.setAttacking(false);
+      target.onHitByPlayer(this.scene, damage);
+      // Whirlwind Strike lands the full swing on everything else in reach
+      if (gameState.skillManager.hasSkill('whirlwind')) {
+        for (const enemy of inRange.slice(1)) {
+          enemy.onHitByPlayer(this.scene, damage);
+        }
+      }
+      if (special) {
+        this.applySpecial(special, damage, target, inRange.slice(1));
+      }
+    });
+  }
+
+  private applySpecial(
+    special: WeaponSpecial,
+    damage: number,
+    target: Enemy | Boss,
+    others: (Enemy | Boss)[]
+  ) {
+    switch (special.effect) {
+      case 'cleave':
+        // value is the share of the hit dealt to everything else in reach
+        for (const enemy of others) {
+          enemy.takeDamage(damage * special.value);
+        }
+        break;
+      case 'pierce': {
+        // value is how many enemies behind the target are also hit
+        const behind = this.getTargetsBehind(target);
+        for (const enemy of behind.slice(0, special.value)) {
+          enemy.takeDamage(damage);
+        }
+        break;
+      }
+      case 'burn':
+        // value is damage per second
+        target.applyBurn(this.scene, special.value, 3000);
+        break;
+      case 'freeze':
+        // value is the freeze duration in ms
+        target.applyFreeze(this.scene, special.value);
+        break;
+      case 'lifesteal':
+        gameState.incrementHealth(damage * special.value);
+        break;
+    }
+  }
+
+  // Enemies on the far side of the target along the line of the swing,
+  // nearest first
+  private getTargetsBehind(target: Enemy | Boss): (Enemy | Boss)[] {
+    if (!target.sprite) return [];
+    const dx = target.sprite.x - this.sprite.x;
+    const dy = target.sprite.y - this.sprite.y;
+    const length = Math.hypot(dx, dy);
+    if (length === 0) return [];
+    const dirX = dx / length;
+    const dirY = dy / length;
+
+    return this.getTargets(this.scene)
+      .filter((enemy) => enemy !== target && enemy.sprite)
+      .map((enemy) => {
+        const offsetX = enemy.sprite!.x - target.sprite!.x;
+        const offsetY = enemy.sprite!.y - target.sprite!.y;
+        return {
+          enemy,
+          along: offsetX * dirX + offsetY * dirY,
+          across: Math.abs(offsetX * dirY - offsetY * dirX),
+        };
+      })
+      .filter(
+        ({ along, across }) =>
+          along > 0 && along <= PIERCE_REACH && across <= PIERCE_WIDTH
+      )
+      .sort((a, b) => a.along - b.along)
+      .map(({ enemy }) => enemy);
+  }
+
+  // Skill bonuses plus an active Battle Cry
+  getDamageMultiplier(currentTime: number): number {
+    const buff =
+      currentTime < this.damageBuff.until ? this.damageBuff.multiplier : 1;
+    return gameState.skillManager.getTotalEffect('damage') * buff;
+  }
+
+  private getTargets(scene: DungeonGameScene): (Enemy | Boss)[] {
+    return scene.boss ? [...scene.enemies, scene.boss] : scene.enemies;
+  }
+
+  // Cast the ability in the given hotbar slot (0-3)
+  public castAbility(scene: DungeonGameScene, slot: number): void {
+    const ability = gameState.weaponManager.getEquippedAbilities()[slot];
+    if (!ability) return;
+
+    const now = scene.now;
+    if (!gameState.isAbilityReady(ability.id)) return;
+    if (gameState.playerMana < ability.manaCost) return;
+
+    gameState.decrementMana(ability.manaCost);
+    telemetryCollector.recordAction();
+    gameState.startAbilityCooldown(ability.id, ability.cooldown);
+
+    const { effect } = ability;
+    switch (effect.type) {
+      case 'damage':
+        this.castFireball(scene, effect);
+        break;
+      case 'heal':
+        gameState.incrementHealth(effect.value);
+        this.pulse(scene, 0x22c55e, 60);
+        break;
+      case 'teleport':
+        this.shadowStep(scene, effect.value);
+        break;
+      case 'buff':
+        this.damageBuff = {
+          multiplier: effect.value,
+          until: now + (effect.duration ?? 0),
+        };
+        this.buffAura?.destroy();
+        this.buffAura = scene.add
+          .circle(this.sprite.x, this.sprite.y, 30, 0xf59e0b, 0.25)
+          .setDepth(4);
+        break;
+      case 'debuff':
+        this.castIceNova(scene, effect);
+        break;
+    }
+    this.sounds.attack.play();
+  }
+
+  // Fly at the nearest target, or straight ahead, and explode on arrival
+  private castFireball(scene: DungeonGameScene, effect: AbilityEffect) {
+    const range = 200;
+    const radius = effect.radius ?? 0;
+    const target = this.getTargets(scene)
+      .filter((enemy) => enemy.sprite)
+      .map((enemy) => ({
+        sprite: enemy.sprite!,
+        distance: Phaser.Math.Distance.Between(
+          this.sprite.x,
+          this.sprite.y,
+          enemy.sprite!.x,
+          enemy.sprite!.y
+        ),
+      }))
+      .filter(({ distance }) => distance <= range)
+      .sort((a, b) => a.distance - b.distance)[0];
+
+    const toX = target?.sprite.x ?? this.sprite.x + this.facing.x * range;
+    const toY = target?.sprite.y ?? this.sprite.y + this.facing.y * range;
+
+    const fireball = scene.add
+      .circle(this.sprite.x, this.sprite.y, 8, 0xf97316)
+      .setDepth(5);
+    scene.tweens.add({
+      targets: fireball,
+      x: toX,
+      y: toY,
+      duration: FIREBALL_FLIGHT_MS,
+      onComplete: () => {
+        fireball.destroy();
+        const explosion = scene.add
+          .circle(toX, toY, radius, 0xf97316, 0.4)
+          .setDepth(5);
+        scene.tweens.add({
+          targets: explosion,
+          alpha: 0,
+          scale: 1.3,
+          duration: 400,
+          onComplete: () => {
+            explosion.destroy();
+          },
+        });
+      },
+    });
+
+    // The tween is only the visual, damage lands on game time
+    scene.after(FIREBALL_FLIGHT_MS, () => {
+      const multiplier = this.getDamageMultiplier(scene.now);
+      const damage = effect.value * multiplier;
+      for (const enemy of this.getTargets(scene)) {
+        if (!enemy.sprite) continue;
+        const distance = Phaser.Math.Distance.Between(
+          toX,
+          toY,
           enemy.sprite.x,
           enemy.sprite.y
         );
-        if (distance < 50) {
-          gameState.setAttacking(true);
-          this.lastAttackTime = currentTime;
-          this.sounds.attack.play();
-
-          this.scene.time.delayedCall(1000, () => {
-            gameState.setAttacking(false);
-            enemy.onHitByPlayer(this.scene);
-          });
-        }
+        if (distance <= radius) enemy.takeDamage(damage);
       }
+    });
+  }
+
+  // Blink in the facing direction, stopping short of walls. The cursor is not
+  // part of the recorded input, so aiming it would break replays
+  private shadowStep(scene: DungeonGameScene, distance: number) {
+    const step = 8;
+
+    let x = this.sprite.x;
+    let y = this.sprite.y;
+    for (let travelled = step; travelled <= distance; travelled += step) {
+      const ahead = travelled + BODY_MARGIN;
+      if (
+        this.isBlocked(
+          scene,
+          this.sprite.x + this.facing.x * ahead,
+          this.sprite.y + this.facing.y * ahead
+        )
+      ) {
+        break;
+      }
+      x = this.sprite.x + this.facing.x * travelled;
+      y = this.sprite.y + this.facing.y * travelled;
+    }
+
+    this.pulse(scene, 0x9333ea, 30);
+    this.sprite.setPosition(x, y);
+    telemetryCollector.markDiscontinuity();
+  }
+
+  private isBlocked(scene: DungeonGameScene, x: number, y: number) {
+    return [scene.groundLayer, scene.stuffLayer].some(
+      (layer) => layer.getTileAtWorldXY(x, y)?.collides
+    );
+  }
+
+  // Somewhere the whole body fits on open floor
+  private canStand(scene: DungeonGameScene, x: number, y: number) {
+    const corners: [number, number][] = [
+      [0, 0],
+      [-BODY_MARGIN, 0],
+      [BODY_MARGIN, 0],
+      [0, -BODY_MARGIN],
+      [0, BODY_MARGIN],
+    ];
+    return corners.every(
+      ([dx, dy]) =>
+        scene.groundLayer.getTileAtWorldXY(x + dx, y + dy) !== null &&
+        !this.isBlocked(scene, x + dx, y + dy)
+    );
+  }
+
+  // Edge-detect the direction inputs and report a second press of the same
+  // direction within the tap window. Runs on game time so replays agree
+  private checkDoubleTap(now: number, input: PlayerInput): Direction | null {
+    let tapped: Direction | null = null;
+    for (const direction of Object.keys(directionVectors) as Direction[]) {
+      if (!input[direction]) {
+        this.heldDirections.delete(direction);
+        continue;
+      }
+      if (this.heldDirections.has(direction)) continue;
+      this.heldDirections.add(direction);
+
+      if (
+        this.lastTap?.direction === direction &&
+        now - this.lastTap.at <= DASH_TAP_WINDOW_MS
+      ) {
+        tapped = direction;
+        this.lastTap = undefined;
+      } else {
+        this.lastTap = { direction, at: now };
+      }
+    }
+    return tapped;
+  }
+
+  private startDash(scene: DungeonGameScene, direction: Direction) {
+    if (!gameState.skillManager.hasSkill('dash')) return;
+    if (scene.now - this.lastDashTime < DASH_COOLDOWN_MS) return;
+    this.lastDashTime = scene.now;
+    telemetryCollector.recordAction();
+
+    const vector = directionVectors[direction];
+    this.facing = { ...vector };
+    if (gameState.skillManager.hasSkill('phase-shift')) {
+      this.phaseShift(scene, vector);
+      return;
+    }
+
+    // The burst is faster than walking could ever be, so keep it out of the
+    // speed samples
+    telemetryCollector.markDiscontinuity();
+    this.dash = { ...vector, until: scene.now + DASH_MS };
+    this.pulse(scene, 0xe5e7eb, 20);
+  }
+
+  // Phase Shift turns the dash into a blink that ignores walls and enemies,
+  // landing on the furthest open floor in range
+  private phaseShift(
+    scene: DungeonGameScene,
+    vector: { x: number; y: number }
+  ) {
+    const step = 8;
+    for (
+      let distance = PHASE_SHIFT_DISTANCE;
+      distance >= step;
+      distance -= step
+    ) {
+      const x = this.sprite.x + vector.x * distance;
+      const y = this.sprite.y + vector.y * distance;
+      if (!this.canStand(scene, x, y)) continue;
+
+      this.pulse(scene, 0x6366f1, 30);
+      this.sprite.setPosition(x, y);
+      telemetryCollector.markDiscontinuity();
+      return;
+    }
+  }
+
+  private castIceNova(scene: DungeonGameScene, effect: AbilityEffect) {
+    const radius = effect.radius ?? 0;
+    const nova = scene.add
+      .circle(this.sprite.x, this.sprite.y, 10, 0x88ccff, 0.4)
+      .setDepth(5);
+    scene.tweens.add({
+      targets: nova,
+      scale: radius / 10,
+      alpha: 0,
+      duration: 500,
+      onComplete: () => {
+        nova.destroy();
+      },
+    });
+
+    for (const enemy of this.getTargets(scene)) {
+      if (!enemy.sprite) continue;
+      const distance = Phaser.Math.Distance.Between(
+        this.sprite.x,
+        this.sprite.y,
+        enemy.sprite.x,
+        enemy.sprite.y
+      );
+      if (distance <= radius) enemy.applyFreeze(scene, effect.value);
     }
   }
 
-  public cycloneAttack(enemies: Enemy[], currentTime: number): void {
+  // Expanding ring around the player's current position
+  private pulse(scene: DungeonGameScene, color: number, radius: number) {
+    const ring = scene.add
+      .circle(this.sprite.x, this.sprite.y, radius, color, 0.4)
+      .setDepth(5);
+    scene.tweens.add({
+      targets: ring,
+      alpha: 0,
+      scale: 1.5,
+      duration: 500,
+      onComplete: () => {
+        ring.destroy();
+      },
+    });
+  }
+
+  public cycloneAttack(
+    enemies: Enemy[],
+    currentTime: number,
+    boss?: Boss
+  ): void {
     // Check cooldown
-    if (currentTime - this.lastCycloneAttackTime < this.cycloneAttackCooldown) {
+    const cooldown =
+      this.cycloneAttackCooldown *
+      gameState.skillManager.getTotalEffect('cooldown');
+    if (currentTime - this.lastCycloneAttackTime < cooldown) {
       return; // Still on cooldown
     }
 
     this.lastCycloneAttackTime = currentTime;
+    telemetryCollector.recordAction();
 
     // Create cyclone visual effect
     const cyclone = this.scene.add.circle(
@@ -171,10 +592,62 @@ export class Player {
       }
     }
 
+    // Bosses only take a fraction of their health from the cyclone
+    if (boss?.sprite) {
+      const distance = Phaser.Math.Distance.Between(
+        this.sprite.x,
+        this.sprite.y,
+        boss.sprite.x,
+        boss.sprite.y
+      );
+      if (distance <= 100) {
+        boss.takeDamage(boss.maxHealth * 0.1);
+        enemiesHit++;
+      }
+    }
+
     console.log(`Cyclone attack hit ${enemiesHit} enemies!`);
   }
 
-  update(scene: DungeonGameScene) {
+  // Current keyboard state, read once per tick so it can be recorded for replays
+  readKeyboard(): PlayerInput {
+    const keyboard = this.scene.input.keyboard;
+    if (!keyboard) return emptyInput();
+
+    // Arrow keys always move, everything else follows the player's bindings
+    const keys = keyboard.createCursorKeys();
+    const bound = keyboard.addKeys(settingsManager.getBindings()) as Record<
+      BindableAction,
+      Phaser.Input.Keyboard.Key
+    >;
+    const modifiers = keyboard.addKeys({
+      ctrl: Phaser.Input.Keyboard.KeyCodes.CTRL,
+      shift: Phaser.Input.Keyboard.KeyCodes.SHIFT,
+    }) as {
+      ctrl: Phaser.Input.Keyboard.Key;
+      shift: Phaser.Input.Keyboard.Key;
+    };
+
+    return {
+      up: keys.up.isDown || bound.up.isDown,
+      down: keys.down.isDown || bound.down.isDown,
+      left: keys.left.isDown || bound.left.isDown,
+      right: keys.right.isDown || bound.right.isDown,
+      space: bound.attack.isDown,
+      ctrl: modifiers.ctrl.isDown,
+      shift: modifiers.shift.isDown,
+      ability1: bound.ability1.isDown,
+      ability2: bound.ability2.isDown,
+      ability3: bound.ability3.isDown,
+      ability4: bound.ability4.isDown,
+      swapWeapon: bound.swapWeapon.isDown,
+    };
+  }
+
+  update(scene: DungeonGameScene, input: PlayerInput) {
+    this.updateBuffAura(scene.now);
+    const tapped = this.checkDoubleTap(scene.now, input);
+
     // Priority => Death > Attack > Hurt > Walk > Idle
     if (gameState.isDying) {
       this.sprite.anims.play('death', true);
@@ -192,43 +665,49 @@ export class Player {
       return;
     }
 
-    const keys = this.scene.input.keyboard?.createCursorKeys();
-    const wasd = this.scene.input.keyboard?.addKeys({
-      w: Phaser.Input.Keyboard.KeyCodes.W,
-      s: Phaser.Input.Keyboard.KeyCodes.S,
-      a: Phaser.Input.Keyboard.KeyCodes.A,
-      d: Phaser.Input.Keyboard.KeyCodes.D,
-    }) as {
-      w: Phaser.Input.Keyboard.Key;
-      s: Phaser.Input.Keyboard.Key;
-      a: Phaser.Input.Keyboard.Key;
-      d: Phaser.Input.Keyboard.Key;
-    };
-    const spaceKey = this.scene.input.keyboard?.addKeys({
-      space: Phaser.Input.Keyboard.KeyCodes.SPACE,
-      ctrl: Phaser.Input.Keyboard.KeyCodes.CTRL,
-      shift: Phaser.Input.Keyboard.KeyCodes.SHIFT,
-    }) as {
-      space: Phaser.Input.Keyboard.Key;
-      ctrl: Phaser.Input.Keyboard.Key;
-      shift: Phaser.Input.Keyboard.Key;
-    };
-    const speed = 300;
+    const speed = 300 * gameState.skillManager.getTotalEffect('speed');
 
     let moving = false;
 
-    if (!keys) return;
     // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- could be
     if (!this.sprite.body) return;
 
+    if (tapped) this.startDash(scene, tapped);
+    if (this.dash) {
+      if (scene.now < this.dash.until) {
+        const dashSpeed = speed * DASH_SPEED_MULTIPLIER;
+        this.sprite.body.setVelocity(
+          this.dash.x * dashSpeed,
+          this.dash.y * dashSpeed
+        );
+        this.sprite.anims.play('walk', true);
+        return;
+      }
+      this.dash = undefined;
+      telemetryCollector.markDiscontinuity();
+    }
+
     // Check for Ctrl+Shift+Space (Cyclone Attack)
-    if (spaceKey.ctrl.isDown && spaceKey.shift.isDown && spaceKey.space.isDown) {
-      this.cycloneAttack(scene.enemies, scene.time.now);
+    if (input.ctrl && input.shift && input.space) {
+      this.cycloneAttack(scene.enemies, scene.now, scene.boss);
     }
     // Regular Space attack
-    else if (spaceKey.space.isDown) {
-      this.attack(scene.enemies, scene.time.now);
+    else if (input.space) {
+      this.attack(this.getTargets(scene), scene.now);
+    }
+
+    // Swap once per press, holding the key doesn't keep cycling
+    if (input.swapWeapon && !this.swapHeld) {
+      const weapon = gameState.weaponManager.cycleWeapon();
+      scene.showMessage(`Equipped ${weapon.icon} ${weapon.name}`);
     }
+    this.swapHeld = input.swapWeapon;
+
+    [input.ability1, input.ability2, input.ability3, input.ability4].forEach(
+      (pressed, slot) => {
+        if (pressed) this.castAbility(scene, slot);
+      }
+    );
 
     this.sprite.body.setVelocity(0);
 
@@ -239,40 +718,37 @@ export class Player {
     };
 
     // Horizontal movement
-    if (keys.left.isDown || wasd.a.isDown) {
+    if (input.left) {
       this.sprite.body.setVelocityX(-speed);
       this.sprite.setFlipX(true);
       walkAnim();
-    } else if (keys.right.isDown || wasd.d.isDown) {
+    } else if (input.right) {
       this.sprite.body.setVelocityX(speed);
       this.sprite.setFlipX(false);
       walkAnim();
     }
 
     // Vertical movement
-    if (keys.up.isDown || wasd.w.isDown) {
+    if (input.up) {
       this.sprite.body.setVelocityY(-speed);
       walkAnim();
-    } else if (keys.down.isDown || wasd.s.isDown) {
+    } else if (input.down) {
       this.sprite.body.setVelocityY(speed);
       walkAnim();
     }
 
     // Normalize and scale the velocity so that sprite can't move faster along a diagonal
     this.sprite.body.velocity.normalize().scale(speed);
+    const { x: vx, y: vy } = this.sprite.body.velocity;
+    if (vx !== 0 || vy !== 0) {
+      this.facing = { x: vx / speed, y: vy / speed };
+    }
 
     // Update the animation last and give left/right animations precedence over up/down animations
-    if (
-      keys.left.isDown ||
-      keys.right.isDown ||
-      keys.down.isDown ||
-      wasd.a.isDown ||
-      wasd.d.isDown ||
-      wasd.s.isDown
-    ) {
+    if (input.left || input.right || input.down) {
       scene.startRound();
       walkAnim();
-    } else if (keys.up.isDown || wasd.w.isDown) {
+    } else if (input.up) {
       walkAnim();
     } else {
       this.sprite.anims.stop();
@@ -290,40 +766,97 @@ export class Player {
     }
   }
 
+  private updateBuffAura(currentTime: number) {
+    if (!this.buffAura) return;
+    if (currentTime >= this.damageBuff.until) {
+      this.buffAura.destroy();
+      this.buffAura = undefined;
+      return;
+    }
+    this.buffAura.setPosition(this.sprite.x, this.sprite.y);
+  }
+
   onHitByEnemy(scene: DungeonGameScene, dps: number) {
     // Decrement health FIRST
+    telemetryCollector.recordDamageTaken(Math.min(dps, gameState.getHealth()));
     gameState.decrementHealth(dps);
-    
-    const isDead = gameState.getHealth() <= 0;
-    if (isDead) {
-      this.sounds.dead.play();
-      gameState.setDying(true);
-      this.scene.time.delayedCall(1000, () => {
-        gameState.setDying(false);
-        gameState.decreaseLives();
-        if (gameState.totalLives <= 0) {
-          scene.coins = [];
-          scene.enemies = [];
-          gameState.activeScene = 'game-over';
-          scene.scene.start('GameOverScene');
-        } else {
-          // Reset health to full when respawning
-          gameState.incrementHealth(100);
-          scene.player.sprite.anims.play('idle', true);
-          const x = scene.tilemap.tileToWorldX(scene.startRoom.centerX);
-          const y = scene.tilemap.tileToWorldY(scene.startRoom.centerY);
-          if (!x || !y) return;
-          scene.player.sprite.setPosition(x, y);
-        }
-      });
+
+    if (gameState.getHealth() <= 0 && !this.useSecondWind(scene)) {
+      this.die(scene);
     } else {
       gameState.setHurting(true);
-      this.scene.time.delayedCall(1000, () => {
+      this.scene.after(1000, () => {
         gameState.setHurting(false);
       });
     }
   }
 
+  // Hazards skip the hurt animation, which would lock movement while a
+  // damage-over-time effect is ticking
+  onHazardDamage(scene: DungeonGameScene, damage: number) {
+    if (gameState.isDying) return;
+    telemetryCollector.recordDamageTaken(
+      Math.min(damage, gameState.getHealth())
+    );
+    gameState.decrementHealth(damage);
+
+    if (gameState.getHealth() <= 0 && !this.useSecondWind(scene)) {
+      this.die(scene);
+    } else {
+      this.sprite.setTint(0xff6666);
+      this.scene.after(150, () => {
+        this.sprite.clearTint();
+      });
+    }
+  }
+
+  // Second Wind turns the first lethal hit of each life into a close call
+  private useSecondWind(scene: DungeonGameScene): boolean {
+    if (!gameState.skillManager.hasSkill('second-wind')) return false;
+    if (gameState.secondWindUsed) return false;
+
+    gameState.useSecondWind();
+    gameState.incrementHealth(1);
+    this.pulse(scene, 0xfacc15, 40);
+    scene.showMessage('Second Wind!');
+    return true;
+  }
+
+  private die(scene: DungeonGameScene) {
+    this.sounds.dead.play();
+    gameState.setDying(true);
+    telemetryCollector.recordDeath();
+    this.scene.after(1000, () => {
+      gameState.setDying(false);
+      gameState.decreaseLives();
+      if (gameState.totalLives <= 0) {
+        scene.coins = [];
+        scene.enemies = [];
+        scene.hazards = [];
+        scene.weaponPickups = [];
+        scene.relicPickups = [];
+        scene.boss = undefined;
+        if (scene.replayPlayer) {
+          scene.finishReplay();
+          return;
+        }
+        gameState.activeScene = 'game-over';
+        scene.scene.start('GameOverScene');
+      } else {
+        // Reset health to full when respawning
+        gameState.incrementHealth(gameState.maxPlayerHealth);
+        gameState.incrementMana(gameState.maxPlayerMana);
+        gameState.hazardManager.clearStatusEffects();
+        scene.player.sprite.anims.play('idle', true);
+        const x = scene.tilemap.tileToWorldX(scene.startRoom.centerX);
+        const y = scene.tilemap.tileToWorldY(scene.startRoom.centerY);
+        if (!x || !y) return;
+        scene.player.sprite.setPosition(x, y);
+        telemetryCollector.markDiscontinuity();
+      }
+    });
+  }
+
   destroy() {
     this.sprite.destroy();
   }
@@ -0,0 +1,99 @@
+import { relicIcons, relicManager } from '~/lib/helpers/nft-relics';
+import { telemetryCollector } from '~/lib/helpers/telemetry';
+
+import type { Room } from '@mikewesthad/dungeon';
+import type { Relic } from '@repo/security/relics';
+import type Phaser from 'phaser';
+
+import type { DungeonGameScene } from '../scenes';
+
+const rarityColors: Record<Relic['rarity'], number> = {
+  rare: 0x3b82f6,
+  epic: 0xa855f7,
+  legendary: 0xf59e0b,
+  mythic: 0xef4444,
+};
+
+// A relic dropped by a kill. Collecting it only adds it to the inventory,
+// minting happens outside the run
+export class RelicPickup {
+  public sprite: Phaser.GameObjects.Text | undefined;
+  private glow: Phaser.GameObjects.Arc;
+  public relic: Relic;
+  public room: Room;
+
+  constructor(
+    scene: Phaser.Scene,
+    x: number,
+    y: number,
+    relic: Relic,
+    room: Room
+  ) {
+    this.relic = relic;
+    this.room = room;
+
+    this.glow = scene.add.circle(x, y, 26, rarityColors[relic.rarity], 0.4);
+    this.sprite = scene.add
+      .text(x, y, relicIcons[relic.type], { fontSize: '32px' })
+      .setOrigin(0.5);
+    scene.physics.add.existing(this.sprite, true);
+
+    // Pop out of the body, then pulse until collected
+    this.sprite.setScale(0);
+    scene.tweens.add({
+      targets: this.sprite,
+      scale: 1,
+      duration: 400,
+      ease: 'Back.easeOut',
+    });
+    scene.tweens.add({
+      targets: this.glow,
+      scale: 1.5,
+      alpha: 0.1,
+      duration: 600,
+      yoyo: true,
+      repeat: -1,
+    });
+  }
+
+  pickup(scene: DungeonGameScene) {
+    const sprite = this.sprite;
+    if (!sprite) return;
+    this.sprite = undefined;
+    telemetryCollector.recordPickup();
+    // A replay shows the run's drops, they were collected when it was played
+    if (!scene.replayPlayer) relicManager.collectRelic(this.relic);
+    scene.showMessage(
+      `Relic found: ${relicIcons[this.relic.type]} ${this.relic.name}`
+    );
+
+    // Float up and fade out rather than vanish
+    if (sprite.body) scene.physics.world.disable(sprite);
+    scene.tweens.killTweensOf(this.glow);
+    scene.tweens.add({
+      targets: [sprite, this.glow],
+      y: sprite.y - 48,
+      scale: 1.8,
+      alpha: 0,
+      duration: 700,
+      ease: 'Cubic.easeOut',
+      onComplete: () => {
+        sprite.destroy();
+        this.glow.destroy();
+      },
+    });
+  }
+
+  update(activeRoom: Room) {
+    if (!this.sprite) return;
+    const visible = activeRoom === this.room;
+    this.sprite.setVisible(visible);
+    this.glow.setVisible(visible);
+  }
+
+  destroy() {
+    this.sprite?.destroy();
+    this.sprite = undefined;
+    this.glow.destroy();
+  }
+}
@@ -0,0 +1,89 @@
+import { keyName, settingsManager } from '~/lib/helpers/settings';
+import { telemetryCollector } from '~/lib/helpers/telemetry';
+import type { Weapon } from '~/lib/helpers/weapons';
+
+import type { Room } from '@mikewesthad/dungeon';
+import type Phaser from 'phaser';
+
+import type { DungeonGameScene } from '../scenes';
+import { gameState } from '../state';
+
+const rarityColors: Record<Weapon['rarity'], number> = {
+  common: 0xd4d4d4,
+  rare: 0x3b82f6,
+  epic: 0xa855f7,
+  legendary: 0xf59e0b,
+};
+
+// Damage per second, used to decide whether a pickup beats the current weapon
+const weaponDps = (weapon: Weapon) => weapon.damage / weapon.attackSpeed;
+
+export class WeaponPickup {
+  public sprite: Phaser.GameObjects.Text | undefined;
+  private glow: Phaser.GameObjects.Arc;
+  public weapon: Weapon;
+  public room: Room;
+
+  constructor(
+    scene: Phaser.Scene,
+    x: number,
+    y: number,
+    weapon: Weapon,
+    room: Room
+  ) {
+    this.weapon = weapon;
+    this.room = room;
+
+    this.glow = scene.add.circle(x, y, 22, rarityColors[weapon.rarity], 0.35);
+    this.sprite = scene.add
+      .text(x, y, weapon.icon, { fontSize: '28px' })
+      .setOrigin(0.5);
+    scene.physics.add.existing(this.sprite, true);
+
+    scene.tweens.add({
+      targets: this.glow,
+      scale: 1.3,
+      alpha: 0.15,
+      duration: 800,
+      yoyo: true,
+      repeat: -1,
+    });
+
+    this.glow.setVisible(false);
+    this.sprite.setVisible(false);
+  }
+
+  pickup(scene: DungeonGameScene) {
+    if (!this.sprite) return;
+    this.destroy();
+    telemetryCollector.recordPickup();
+
+    const manager = gameState.weaponManager;
+    const current = manager.getCurrentWeapon();
+    manager.unlockWeapon(this.weapon.id);
+
+    if (weaponDps(this.weapon) > weaponDps(current)) {
+      manager.equipWeapon(this.weapon.id);
+      scene.showMessage(`Equipped ${this.weapon.icon} ${this.weapon.name}`);
+    } else {
+      const swapKey = keyName(settingsManager.getBindings().swapWeapon);
+      scene.showMessage(
+        `Found ${this.weapon.icon} ${this.weapon.name}, ` +
+          `press ${swapKey} to swap weapons`
+      );
+    }
+  }
+
+  update(activeRoom: Room) {
+    if (!this.sprite) return;
+    const visible = activeRoom === this.room;
+    this.sprite.setVisible(visible);
+    this.glow.setVisible(visible);
+  }
+
+  destroy() {
+    this.sprite?.destroy();
+    this.sprite = undefined;
+    this.glow.destroy();
+  }
+}
@@ -1,17 +1,66 @@
-import { generateDungeon } from '~/lib/helpers/game';
+import { getBossForLevel } from '~/lib/helpers/boss';
+import { type EnemyType } from '~/lib/helpers/game';
+import {
+  type Replay,
+  ReplayPlayer,
+  replayRecorder,
+  takeSnapshot,
+  TICK_MS,
+  TICKS_PER_SECOND,
+} from '~/lib/helpers/replay';
 
 import * as Actions from '~/lib/game/actions';
+import {
+  clearRun,
+  type SaveGame,
+  saveRun,
+  serializeGameState,
+} from '~/lib/game/save';
+import { relicManager } from '~/lib/helpers/nft-relics';
+import { settingsManager } from '~/lib/helpers/settings';
+import {
+  SAMPLE_INTERVAL_MS,
+  telemetryCollector,
+} from '~/lib/helpers/telemetry';
+import { validatorClient } from '~/lib/helpers/validator';
 
 import type Dungeon from '@mikewesthad/dungeon';
 import type { Room } from '@mikewesthad/dungeon';
+import { generateDungeon } from '@repo/security/dungeon';
 import Phaser from 'phaser';
 
-import { type Coin, type Enemy, Player } from '../entities';
+import {
+  Boss,
+  type Coin,
+  Enemy,
+  type HazardZone,
+  Player,
+  RelicPickup,
+  type WeaponPickup,
+} from '../entities';
 import { gameState } from '../state';
 import type { TilemapVisibility } from '../tilemap-visibility';
 
 type SoundTypes = 'soundtrack';
-   
+
+const MANA_REGEN_PER_SECOND = 4;
+
+interface SceneData {
+  replay?: Replay;
+}
+
+// Wallet actions for the run's on-chain GameSession, see useGameActions.
+// Progress is only written when the run ends, see GameOverScene, so the
+// player signs once per run instead of once per level
+export interface SessionHooks {
+  // Resolves with the new GameSession and the wallet that opened it, bound
+  // to the validator session that seeded the run
+  startSession: (
+    validatorSessionId: string | null
+  ) => Promise<{ sessionId: string; owner: string }>;
+  commitScore: (sessionId: string, commitHash: string) => Promise<string>;
+}
+
 export class DungeonGameScene extends Phaser.Scene {
   public dungeon!: Dungeon;
   public startRoom!: Room;
@@ -22,27 +71,97 @@ export class DungeonGameScene extends Phaser.Scene {
   public tilemapVisibility!: TilemapVisibility;
   public coins: Coin[] = [];
   public enemies: Enemy[] = [];
+  public hazards: HazardZone[] = [];
+  public weaponPickups: WeaponPickup[] = [];
+  public relicPickups: RelicPickup[] = [];
+  private relicRolls = 0; // Kills on this level so far
+  public boss?: Boss;
+  private lastBossGateHint = 0;
   public sounds!: Record<SoundTypes, Phaser.Sound.BaseSound>;
+  public replayPlayer?: ReplayPlayer;
+  private checkpoint?: SaveGame;
+  private session?: SessionHooks;
+  private startingSession = false;
+  // Game time advances one fixed tick per physics step, so a replay plays out
+  // the same however fast frames are drawn. See now and after()
+  private ticks = 0;
+  private timers: { at: number; callback: () => void }[] = [];
 
-  constructor() {
+  constructor(session?: SessionHooks) {
     super({ key: 'GameScene' });
+    this.session = session;
   }
 
-  init() {
+  // Phaser hands the previous data back on restart(), so a replay stays
+  // active across level changes until the scene is started with new data
+  init(data: SceneData) {
+    if (data.replay) {
+      if (this.replayPlayer?.replay !== data.replay) {
+        this.replayPlayer = new ReplayPlayer(data.replay);
+        gameState.reset();
+        gameState.setSeed(data.replay.seed);
+        gameState.level = data.replay.startLevel;
+        gameState.activeScene = 'game';
+        telemetryCollector.stop();
+      }
+    } else {
+      this.replayPlayer = undefined;
+      if (!replayRecorder.isRecording(gameState.seed)) {
+        replayRecorder.start(
+          gameState.seed,
+          gameState.level,
+          takeSnapshot(gameState)
+        );
+      }
+      if (!telemetryCollector.isCollecting(gameState.seed)) {
+        const stats = gameState.getSessionStats();
+        telemetryCollector.start(gameState.seed, {
+          score: stats.score,
+          kills: stats.enemiesKilled,
+          itemsCollected: stats.itemsCollected,
+        });
+      }
+      if (gameState.validatorSession) {
+        validatorClient.attach(gameState.validatorSession);
+      }
+    }
+
     const level = gameState.level;
-    this.dungeon = generateDungeon(level);
+    this.dungeon = generateDungeon(level, gameState.seed);
+    this.relicRolls = 0;
   }
 
   preload() {
     Actions.preload(this);
   }
 
+  // Milliseconds of game time since the level started. Anything that
+  // changes gameState times itself against this rather than scene.time
+  get now(): number {
+    return this.ticks * TICK_MS;
+  }
+
+  // Run callback once `delay` ms of game time have passed
+  after(delay: number, callback: () => void) {
+    this.timers.push({ at: this.now + delay, callback });
+  }
+
   create() {
+    this.ticks = 0;
+    this.timers = [];
+    this.physics.world.on(
+      Phaser.Physics.Arcade.Events.WORLD_STEP,
+      this.tick,
+      this
+    );
+
     this.sounds = {
       soundtrack: this.sound.add('soundtrack', { loop: true }),
     };
 
-    this.sounds.soundtrack.play({ volume: 0.4 });
+    this.sounds.soundtrack.play({
+      volume: settingsManager.getSoundtrackVolume(),
+    });
     Actions.createAnimations(this);
     const args = Actions.createMap(this);
     this.player = new Player(this, args.startX, args.startY);
@@ -67,15 +186,42 @@ export class DungeonGameScene extends Phaser.Scene {
     );
     this.enemies.push(...enemies);
 
+    this.weaponPickups = Actions.placeWeaponDrops.call(
+      this,
+      args.chestRooms,
+      args.map
+    );
+    this.weaponPickups.forEach((pickup) => {
+      if (!pickup.sprite) return;
+      this.physics.add.overlap(this.player.sprite, pickup.sprite, () => {
+        pickup.pickup(this);
+      });
+    });
+
+    // Hazards from a previous level or run must not linger in the manager
+    gameState.hazardManager.clearHazards();
+    this.hazards = Actions.placeHazards.call(this, args.otherRooms, args.map);
+
+    // Each level is a new map, positions on the last one don't carry over
+    telemetryCollector.markDiscontinuity();
+    this.time.addEvent({
+      delay: SAMPLE_INTERVAL_MS,
+      loop: true,
+      callback: () => {
+        telemetryCollector.samplePosition(
+          this.player.sprite.x,
+          this.player.sprite.y
+        );
+      },
+    });
+
     for (const enemy of this.enemies) {
-      if (!enemy.sprite) continue;
-      this.physics.add.collider(
-        this.player.sprite,
-        enemy.sprite,
-        () => this.onPlayerEnemyCollision(this.player, enemy),
-        undefined,
-        this
-      );
+      this.addEnemyCollider(enemy);
+    }
+
+    this.boss = undefined;
+    if (args.bossRoom) {
+      this.spawnBoss(args.bossRoom);
     }
 
     const camera = this.cameras.main;
@@ -83,27 +229,201 @@ export class DungeonGameScene extends Phaser.Scene {
     camera.setBounds(0, 0, args.mapWidth, args.mapHeight);
     camera.startFollow(this.player.sprite);
 
+    // Checkpoint at the start of every level, a resumed run restarts the level
+    // from its seed, so saving mid-level would let coins be collected twice
+    if (!this.replayPlayer) {
+      this.checkpoint = serializeGameState(gameState);
+      void saveRun(this.checkpoint);
+      this.startSession();
+    }
+
     // ESC key pauses the game instead of ending it
     this.input.keyboard?.on('keydown-ESC', () => {
-      this.scene.pause();
-      // You can add a pause menu here later
-      console.log('Game paused. Press ESC again to resume.');
-      
-      // Resume on next ESC press
-      const resumeHandler = () => {
-        this.scene.resume();
-        this.input.keyboard?.off('keydown-ESC', resumeHandler);
-        console.log('Game resumed.');
-      };
-      this.input.keyboard?.once('keydown-ESC', resumeHandler);
+      this.pauseGame();
     });
   }
 
-  private onPlayerEnemyCollision(player: Player, enemy: Enemy) {
+  // Opens the on-chain session the first time a run reaches the dungeon. A
+  // resumed run keeps the session it was saved with
+  private startSession() {
+    if (!this.session || gameState.sessionId || this.startingSession) return;
+
+    this.startingSession = true;
+    this.session
+      .startSession(gameState.validatorSession?.sessionId ?? null)
+      .then(({ sessionId, owner }) => {
+        gameState.setSessionId(sessionId, owner);
+        if (this.checkpoint) {
+          this.checkpoint.sessionId = sessionId;
+          this.checkpoint.owner = owner;
+          void saveRun(this.checkpoint);
+        }
+      })
+      .catch((error: unknown) => {
+        // The run still plays, its score is stored without a session
+        console.error('Failed to start game session:', error);
+      })
+      .finally(() => {
+        this.startingSession = false;
+      });
+  }
+
+  pauseGame() {
+    if (this.scene.isPaused() || gameState.isDying) return;
+    gameState.pauseRound();
+    this.player.sounds.walk.stop();
+    this.player.isWalking = false;
+    this.scene.pause();
+    this.scene.launch('PauseScene', { canSave: !this.replayPlayer });
+  }
+
+  resumeGame() {
+    gameState.resumeRound();
+    this.scene.resume();
+  }
+
+  setSoundtrackVolume(volume: number) {
+    settingsManager.setSoundtrackVolume(volume);
+    const soundtrack = this.sounds.soundtrack;
+    if ('setVolume' in soundtrack) {
+      (soundtrack as Phaser.Sound.WebAudioSound).setVolume(
+        settingsManager.getSoundtrackVolume()
+      );
+    }
+  }
+
+  // Writes the checkpoint taken when this level started, see create()
+  async saveAndQuit() {
+    if (this.checkpoint) await saveRun(this.checkpoint);
+    this.sounds.soundtrack.stop();
+    gameState.reset();
+    window.location.href = '/';
+  }
+
+  abandonRun() {
+    if (this.replayPlayer) {
+      this.finishReplay();
+      return;
+    }
+    this.sounds.soundtrack.stop();
+    gameState.resumeRound();
+    this.endRound();
+    void clearRun();
+    this.coins = [];
+    this.enemies = [];
+    this.hazards = [];
+    this.weaponPickups = [];
+    this.relicPickups = [];
+    this.boss = undefined;
+    gameState.activeScene = 'game-over';
+    this.scene.start('GameOverScene');
+  }
+
+  private onPlayerEnemyCollision(player: Player, enemy: Enemy | Boss) {
     // Enemy Attacks Player
     enemy.attack(this);
   }
 
+  private addEnemyCollider(enemy: Enemy) {
+    if (!enemy.sprite) return;
+    this.physics.add.collider(
+      this.player.sprite,
+      enemy.sprite,
+      () => this.onPlayerEnemyCollision(this.player, enemy),
+      undefined,
+      this
+    );
+  }
+
+  // Used by bosses to summon minions mid-fight
+  spawnEnemy(x: number, y: number, type: EnemyType, room: Room) {
+    const enemy = new Enemy(this, x, y, type, room);
+    this.enemies.push(enemy);
+    this.addEnemyCollider(enemy);
+    return enemy;
+  }
+
+  private spawnBoss(room: Room) {
+    const x = this.tilemap.tileToWorldX(room.centerX);
+    const y = this.tilemap.tileToWorldY(room.centerY);
+    if (x === null || y === null) return;
+
+    const boss = new Boss(this, x, y, getBossForLevel(gameState.level), room);
+    if (!boss.sprite) return;
+    this.boss = boss;
+
+    this.physics.add.collider(boss.sprite, this.groundLayer);
+    this.physics.add.collider(boss.sprite, this.stuffLayer);
+    this.physics.add.collider(
+      this.player.sprite,
+      boss.sprite,
+      () => this.onPlayerEnemyCollision(this.player, boss),
+      undefined,
+      this
+    );
+  }
+
+  onEnemyDefeated(enemy: Enemy, x: number, y: number) {
+    this.onKill(enemy.enemyType.pointsOnKill, x, y, enemy.room);
+  }
+
+  onBossDefeated(boss: Boss, x: number, y: number) {
+    this.showMessage(`${boss.bossType.key} defeated! The stairs are open.`);
+    this.onKill(boss.bossType.pointsOnKill, x, y, boss.room, boss.bossType.key);
+  }
+
+  // Every kill rolls for a relic, seeded like the rest of the loot so a
+  // replay drops what the run did. The validator gets the roll with the kill
+  // and re-rolls it before signing a mint. Relics never touch gameState,
+  // picking one up in a replay only shows it
+  private onKill(
+    points: number,
+    x: number,
+    y: number,
+    room: Room,
+    bossType?: string
+  ) {
+    const roll = this.relicRolls++;
+    telemetryCollector.recordKill(points, roll, bossType);
+    const relic = relicManager.checkRelicDrop(
+      gameState.seed,
+      gameState.level,
+      roll,
+      bossType,
+      gameState.validatorSession?.sessionId
+    );
+    if (!relic) return;
+
+    const pickup = new RelicPickup(this, x, y, relic, room);
+    this.relicPickups.push(pickup);
+    this.physics.add.overlap(this.player.sprite, pickup.sprite!, () => {
+      pickup.pickup(this);
+    });
+  }
+
+  showBossGateHint() {
+    // The stairs callback fires every frame the player stands on them
+    if (this.time.now - this.lastBossGateHint < 3000) return;
+    this.lastBossGateHint = this.time.now;
+    this.showMessage('Defeat the boss to descend!');
+  }
+
+  showMessage(message: string) {
+    const { width, height } = this.scale;
+    const text = this.add
+      .text(width / 2, height / 4, message, {
+        fontSize: '24px',
+        color: '#ffd700',
+        align: 'center',
+      })
+      .setOrigin(0.5)
+      .setScrollFactor(0)
+      .setDepth(10);
+    this.time.delayedCall(2500, () => {
+      text.destroy();
+    });
+  }
+
   startRound() {
     const existing = gameState.times.find((t) => t.round === gameState.level);
     if (existing) return;
@@ -117,8 +437,53 @@ export class DungeonGameScene extends Phaser.Scene {
     }
   }
 
-  update() {
-    this.player.update(this);
+  finishReplay() {
+    this.sounds.soundtrack.stop();
+    this.replayPlayer = undefined;
+    gameState.reset();
+    this.scene.start('HomeScene');
+  }
+
+  // Damage over time from poison, corruption and fire, skill regeneration
+  // and mana regeneration tick once a second
+  private secondTick() {
+    const tickDamage = gameState.hazardManager.updateStatusEffects(this.now);
+    if (tickDamage > 0) {
+      this.player.onHazardDamage(this, tickDamage);
+    }
+
+    const regen = gameState.skillManager.getRegenPerSecond();
+    if (regen > 0 && !gameState.isDying) {
+      gameState.incrementHealth(regen);
+    }
+    gameState.incrementMana(MANA_REGEN_PER_SECOND);
+  }
+
+  private tick() {
+    this.ticks++;
+    const due = this.timers.filter((timer) => timer.at <= this.now);
+    if (due.length > 0) {
+      this.timers = this.timers.filter((timer) => timer.at > this.now);
+      due.forEach((timer) => timer.callback());
+    }
+    if (this.ticks % TICKS_PER_SECOND === 0) this.secondTick();
+    gameState.tickAbilityCooldowns(TICK_MS);
+
+    const input = this.replayPlayer
+      ? this.replayPlayer.nextInput()
+      : this.player.readKeyboard();
+
+    this.player.update(this, input);
+
+    const trapDamage = gameState.hazardManager.checkPlayerCollision(
+      this.player.sprite.x,
+      this.player.sprite.y,
+      this.now
+    );
+    if (trapDamage > 0) {
+      this.player.onHazardDamage(this, trapDamage);
+    }
+
     const playerTileX = this.groundLayer.worldToTileX(this.player.sprite.x);
     const playerTileY = this.groundLayer.worldToTileY(this.player.sprite.y);
     const playerRoom = this.dungeon.getRoomAt(playerTileX, playerTileY);
@@ -130,6 +495,32 @@ export class DungeonGameScene extends Phaser.Scene {
       this.enemies.forEach((enemy) => {
         enemy.update(this, playerRoom);
       });
+      this.hazards.forEach((hazard) => {
+        hazard.update(playerRoom);
+      });
+      this.weaponPickups.forEach((pickup) => {
+        pickup.update(playerRoom);
+      });
+      this.relicPickups.forEach((pickup) => {
+        pickup.update(playerRoom);
+      });
+      this.boss?.update(this, playerRoom);
+    }
+
+    const snapshot = takeSnapshot(gameState);
+    if (this.replayPlayer) {
+      const wasInSync = this.replayPlayer.divergedAt === null;
+      const mismatch = this.replayPlayer.endTick(snapshot);
+      if (mismatch && wasInSync) {
+        this.showMessage(
+          `Replay out of sync from tick ${String(this.replayPlayer.divergedAt)}`
+        );
+      }
+      if (this.replayPlayer.isFinished()) {
+        this.finishReplay();
+      }
+    } else {
+      replayRecorder.recordTick(input, snapshot);
     }
   }
 }
@@ -1,14 +1,146 @@
+import {
+  type CheatDetection,
+  cheatDetector,
+} from '@repo/security/cheat-detection';
+import {
+  commitRevealScheme,
+  prepareScoreCommitment,
+} from '@repo/security/commit-reveal';
 import Phaser from 'phaser';
 import { type StoreArgs } from '~/hooks';
+import { clearRun } from '~/lib/game/save';
+import { replayRecorder, serializeReplay } from '~/lib/helpers/replay';
+import { getRunSplits } from '~/lib/helpers/splits';
+import { telemetryCollector } from '~/lib/helpers/telemetry';
+import {
+  type ValidatorResult,
+  validatorClient,
+} from '~/lib/helpers/validator';
+import { type ScoreReveal } from '~/lib/onechain/client';
 
 import { gameState } from '../state';
+import { type SessionHooks } from './dungeon';
+
+interface PendingCommit extends ScoreReveal {
+  localId: string; // CommitRevealScheme entry tracking the reveal window
+}
+
+// Runs the detector rates this badly are held back from submission
+const heldSeverities: CheatDetection['severity'][] = [
+  'likely_cheating',
+  'confirmed_cheating',
+];
 
 export class GameOverScene extends Phaser.Scene {
   private storeFn: (args: StoreArgs) => Promise<string>;
+  private session?: SessionHooks;
+  private pendingCommit?: Promise<PendingCommit | null>;
+  private verdict: Promise<ValidatorResult | null> = Promise.resolve(null);
+  private held = false;
+  // One submission at a time, a second click would reveal the same
+  // commitment again
+  private storing = false;
 
-  constructor(storeFn: (args: StoreArgs) => Promise<string>) {
+  constructor(
+    storeFn: (args: StoreArgs) => Promise<string>,
+    session?: SessionHooks
+  ) {
     super({ key: 'GameOverScene' });
     this.storeFn = storeFn;
+    this.session = session;
+  }
+
+  // Time actually played, falling back to time since the run started when no
+  // round was ever started
+  private getDuration(): number {
+    const now = Date.now();
+    const played = gameState.times.reduce(
+      (total, time) => total + (time.end ?? now) - time.start,
+      0
+    );
+    return played > 0 ? played : now - gameState.sessionStartTime;
+  }
+
+  // Feeds the run's telemetry to the CheatDetector and the validator, once
+  // per run
+  private analyzeRun(): CheatDetection {
+    const gameData = telemetryCollector.getGameData({
+      sessionId: gameState.sessionId ?? gameState.seed,
+      playerAddress: localStorage.getItem('sui_wallet_address') ?? '',
+      score: gameState.score,
+      duration: this.getDuration(),
+    });
+    telemetryCollector.stop();
+    this.verdict = validatorClient.validate(
+      gameState.getRunProgress(),
+      gameData,
+      getRunSplits(gameState.times, gameState.level)
+    );
+
+    return cheatDetector.analyzeGameData(gameData);
+  }
+
+  // Phase 1 of submitting the score: commit its hash as soon as the run ends,
+  // the store button reveals it within the reveal window
+  private async commitScore(): Promise<PendingCommit | null> {
+    const sessionId = gameState.sessionId;
+    if (!this.session || !sessionId) return null;
+
+    // reveal_score only takes a score the validator signed, so that is the
+    // score committed. Without one the run is stored unverified
+    const verdict = await this.verdict;
+    if (!verdict?.valid || !verdict.signature) return null;
+
+    try {
+      const score = verdict.score;
+      const sessionData = JSON.stringify({
+        sessionId,
+        seed: gameState.seed,
+        ...gameState.getSessionStats(),
+      });
+      const { commitHash, nonce } = await prepareScoreCommitment(
+        score,
+        sessionData
+      );
+
+      // Tracked locally first, so the local deadline never outlives the
+      // on-chain one
+      const local = commitRevealScheme.commit(
+        localStorage.getItem('sui_wallet_address') ?? '',
+        commitHash
+      );
+      const commitmentId = await this.session.commitScore(
+        sessionId,
+        commitHash
+      );
+
+      return {
+        localId: local.commitmentId!,
+        commitmentId,
+        score,
+        nonce,
+        sessionData,
+        startLevel: verdict.startLevel,
+        splits: verdict.splits,
+        issuedAt: verdict.issuedAt,
+        signature: verdict.signature,
+      };
+    } catch (error) {
+      console.error('Failed to commit score:', error);
+      return null;
+    }
+  }
+
+  // The pending commitment, committed again if its window has passed
+  private async getReveal(): Promise<PendingCommit | null> {
+    const pending = await this.pendingCommit;
+    if (!pending) return null;
+
+    const local = commitRevealScheme.getCommitment(pending.localId);
+    if (local && Date.now() <= local.revealDeadline) return pending;
+
+    this.pendingCommit = this.commitScore();
+    return this.pendingCommit;
   }
 
   preload() {
@@ -21,6 +153,14 @@ export class GameOverScene extends Phaser.Scene {
   }
 
   create() {
+    // The run is over, there is nothing left to continue
+    void clearRun();
+    const detection = this.analyzeRun();
+    this.held = heldSeverities.includes(detection.severity);
+    this.pendingCommit = this.held
+      ? Promise.resolve(null)
+      : this.commitScore();
+
     const { width, height } = this.scale;
     this.add.image(width / 2, height / 2, 'background').setScale(1);
 
@@ -51,7 +191,34 @@ export class GameOverScene extends Phaser.Scene {
       this.scene.start('HomeScene');
     });
 
+    const hold = () => {
+      this.held = true;
+      storeButton.setTint(0x808080);
+      this.add
+        .text(
+          width / 2,
+          height / 2 + 340,
+          'This run was flagged for review, its score cannot be submitted.',
+          {
+            fontSize: '18px',
+            color: '#ff6666',
+            align: 'center',
+          }
+        )
+        .setOrigin(0.5)
+        .setDepth(1);
+    };
+    if (this.held) {
+      hold();
+    } else {
+      void this.verdict.then((verdict) => {
+        if (verdict && !verdict.valid && this.scene.isActive()) hold();
+      });
+    }
+
     storeButton.on('pointerdown', async () => {
+      if (this.held || this.storing) return;
+      this.storing = true;
       try {
         storeButton.setTint(0x808080);
         const id = crypto.randomUUID();
@@ -61,17 +228,33 @@ export class GameOverScene extends Phaser.Scene {
           round: BigInt(index),
         }));
         
+        // Phase 2: reveal the committed score along with the run's stats
+        const pending = await this.getReveal();
+
         // Save to blockchain ONLY - no localStorage
         const txHash = await this.storeFn({
           id,
           totalScore: BigInt(gameState.score),
           times,
+          sessionId: gameState.sessionId,
+          validatorSessionId: gameState.validatorSession?.sessionId ?? null,
+          stats: gameState.getSessionStats(),
+          reveal: pending ?? undefined,
         });
 
+        if (pending) {
+          await commitRevealScheme.reveal(
+            pending.localId,
+            pending.score,
+            pending.nonce,
+            pending.sessionData
+          );
+        }
+
         const text = this.add.text(
           width / 2,
           height / 2 + 400,
-          `🎉 Congrats! Earned ${gameState.score} $SSS Tokens!\n✅ Saved to OneChain: ${txHash.slice(0, 10)}...`,
+          `🎉 Congrats! Earned ${pending?.score ?? gameState.score} $SSS Tokens!\n✅ Saved to OneChain: ${txHash.slice(0, 10)}...`,
           {
             fontSize: '20px',
             color: '#00ff00',
@@ -90,7 +273,9 @@ export class GameOverScene extends Phaser.Scene {
         const text = this.add.text(
           width / 2,
           height / 2 + 400,
-          'Please connect to Metamask to store the points and collect reward',
+          error instanceof Error
+            ? error.message
+            : 'Please connect to Metamask to store the points and collect reward',
           {
             fontSize: '24px',
             color: '#fff',
@@ -101,6 +286,8 @@ export class GameOverScene extends Phaser.Scene {
           text.destroy();
         });
         storeButton.clearTint();
+      } finally {
+        this.storing = false;
       }
     });
 
@@ -108,5 +295,36 @@ export class GameOverScene extends Phaser.Scene {
       gameState.reset();
       window.location.href = '/';
     });
+
+    const replay = replayRecorder.getReplay();
+    if (replay) {
+      const replayStyle = { fontSize: '20px', color: '#ffffff' };
+      const watchReplay = this.add
+        .text(width / 2 - 90, height / 2 + 290, 'Watch Replay', replayStyle)
+        .setOrigin(0.5)
+        .setInteractive()
+        .setDepth(1);
+      const saveReplay = this.add
+        .text(width / 2 + 90, height / 2 + 290, 'Save Replay', replayStyle)
+        .setOrigin(0.5)
+        .setInteractive()
+        .setDepth(1);
+
+      watchReplay.on('pointerdown', () => {
+        this.scene.start('GameScene', { replay });
+      });
+
+      saveReplay.on('pointerdown', () => {
+        const blob = new Blob([serializeReplay(replay)], {
+          type: 'application/json',
+        });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `replay-${replay.seed}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+      });
+    }
   }
 }
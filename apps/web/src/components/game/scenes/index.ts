@@ -1,3 +1,6 @@
 export * from './dungeon';
 export * from './game-over';
+export * from './pause';
 export * from './start';
+export * from './skill-tree';
+export * from './reaction';
@@ -0,0 +1,196 @@
+import {
+  bindableActions,
+  keyName,
+  settingsManager,
+} from '~/lib/helpers/settings';
+
+import Phaser from 'phaser';
+
+import { type DungeonGameScene } from './dungeon';
+
+interface PauseData {
+  canSave?: boolean; // Replays have nothing to save
+}
+
+const buttonStyle = {
+  fontSize: '28px',
+  color: '#ffffff',
+  backgroundColor: '#7c2d12',
+  padding: { x: 24, y: 8 },
+};
+
+export class PauseScene extends Phaser.Scene {
+  private canSave = true;
+  private items: Phaser.GameObjects.GameObject[] = [];
+  private awaitingKey = false;
+
+  constructor() {
+    super({ key: 'PauseScene' });
+  }
+
+  init(data: PauseData) {
+    this.canSave = data.canSave ?? true;
+    this.awaitingKey = false;
+  }
+
+  private get dungeon(): DungeonGameScene {
+    return this.scene.get('GameScene') as DungeonGameScene;
+  }
+
+  create() {
+    const { width, height } = this.scale;
+    this.add.rectangle(0, 0, width, height, 0x000000, 0.7).setOrigin(0);
+
+    this.input.keyboard?.on('keydown-ESC', () => {
+      if (!this.awaitingKey) this.resume();
+    });
+
+    this.showMain();
+  }
+
+  private clear() {
+    this.items.forEach((item) => {
+      item.destroy();
+    });
+    this.items = [];
+  }
+
+  private addText(
+    y: number,
+    text: string,
+    style: Phaser.Types.GameObjects.Text.TextStyle = buttonStyle
+  ) {
+    const item = this.add.text(this.scale.width / 2, y, text, style);
+    item.setOrigin(0.5);
+    this.items.push(item);
+    return item;
+  }
+
+  private addButton(y: number, label: string, onClick: () => void) {
+    const button = this.addText(y, label).setInteractive({
+      useHandCursor: true,
+    });
+    button.on('pointerdown', onClick);
+    return button;
+  }
+
+  private showMain() {
+    this.clear();
+    const { height } = this.scale;
+    const top = height / 2 - 160;
+
+    this.addText(top, 'Paused', { fontSize: '48px', color: '#ffd700' });
+    this.addButton(top + 90, 'Resume', () => {
+      this.resume();
+    });
+    this.addButton(top + 160, 'Settings', () => {
+      this.showSettings();
+    });
+    if (this.canSave) {
+      this.addButton(top + 230, 'Save & Quit', () => {
+        this.addText(top + 370, 'Saving...', {
+          fontSize: '20px',
+          color: '#ffffff',
+        });
+        void this.dungeon.saveAndQuit();
+      });
+    }
+    this.addButton(top + 300, 'Abandon Run', () => {
+      this.showConfirmAbandon();
+    });
+  }
+
+  private showConfirmAbandon() {
+    this.clear();
+    const { height } = this.scale;
+
+    this.addText(
+      height / 2 - 60,
+      'Abandon this run?\nYour saved progress will be lost.',
+      { fontSize: '24px', color: '#ffffff', align: 'center' }
+    );
+    this.addButton(height / 2 + 30, 'Abandon', () => {
+      this.scene.stop();
+      this.dungeon.abandonRun();
+    });
+    this.addButton(height / 2 + 100, 'Back', () => {
+      this.showMain();
+    });
+  }
+
+  private showSettings() {
+    this.clear();
+    const { width } = this.scale;
+    const top = 80;
+    const volume = Math.round(settingsManager.getSoundtrackVolume() * 100);
+
+    this.addText(top, 'Settings', { fontSize: '40px', color: '#ffd700' });
+
+    this.addText(top + 60, `Music volume: ${String(volume)}%`, {
+      fontSize: '22px',
+      color: '#ffffff',
+    });
+    const changeVolume = (delta: number) => {
+      this.dungeon.setSoundtrackVolume(
+        settingsManager.getSoundtrackVolume() + delta
+      );
+      this.showSettings();
+    };
+    const smallButton = { ...buttonStyle, fontSize: '22px' };
+    const down = this.addText(top + 60, '-', smallButton);
+    down.setX(width / 2 - 180).setInteractive({ useHandCursor: true });
+    down.on('pointerdown', () => {
+      changeVolume(-0.1);
+    });
+    const up = this.addText(top + 60, '+', smallButton);
+    up.setX(width / 2 + 180).setInteractive({ useHandCursor: true });
+    up.on('pointerdown', () => {
+      changeVolume(0.1);
+    });
+
+    this.addText(top + 110, 'Click a binding, then press the new key', {
+      fontSize: '16px',
+      color: '#9ca3af',
+    });
+
+    const bindings = settingsManager.getBindings();
+    bindableActions.forEach(({ action, label }, index) => {
+      const row = this.addText(
+        top + 150 + index * 30,
+        `${label}: ${keyName(bindings[action])}`,
+        { fontSize: '20px', color: '#ffffff' }
+      ).setInteractive({ useHandCursor: true });
+
+      row.on('pointerdown', () => {
+        if (this.awaitingKey) return;
+        this.awaitingKey = true;
+        row.setText(`${label}: press a key...`).setColor('#ffd700');
+        this.input.keyboard?.once('keydown', (event: KeyboardEvent) => {
+          // ESC stays reserved for the pause menu itself. Its own handler runs
+          // right after this one, so only stop waiting on the next frame
+          if (event.keyCode !== Phaser.Input.Keyboard.KeyCodes.ESC) {
+            settingsManager.setBinding(action, event.keyCode);
+          }
+          this.time.delayedCall(0, () => {
+            this.awaitingKey = false;
+          });
+          this.showSettings();
+        });
+      });
+    });
+
+    const bottom = top + 160 + bindableActions.length * 30;
+    this.addButton(bottom, 'Reset Keys', () => {
+      settingsManager.resetBindings();
+      this.showSettings();
+    });
+    this.addButton(bottom + 60, 'Back', () => {
+      this.showMain();
+    });
+  }
+
+  private resume() {
+    this.scene.stop();
+    this.dungeon.resumeGame();
+  }
+}
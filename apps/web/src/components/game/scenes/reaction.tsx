@@ -0,0 +1,95 @@
+import Phaser from 'phaser';
+
+// Where the rounds are timed, the scene only shows them
+export interface ReactionRounds {
+  arm: () => Promise<boolean>; // Resolves when the rune lights up
+  press: () => Promise<boolean>;
+}
+
+// Bot-protection timing challenge: click as soon as the rune lights up.
+// Lighting up and pressing go through ReactionRounds, so the delays and
+// reaction times are never known or measured here
+export class ReactionScene extends Phaser.Scene {
+  private rounds: number;
+  private timing: ReactionRounds;
+  private onComplete: () => void;
+  private presses = 0;
+  private lit = false;
+  private done = false;
+  private rune!: Phaser.GameObjects.Arc;
+  private label!: Phaser.GameObjects.Text;
+
+  constructor(rounds: number, timing: ReactionRounds, onComplete: () => void) {
+    super({ key: 'ReactionScene' });
+    this.rounds = rounds;
+    this.timing = timing;
+    this.onComplete = onComplete;
+  }
+
+  create() {
+    const { width, height } = this.scale;
+    this.add.rectangle(0, 0, width, height, 0x0b171d).setOrigin(0);
+
+    this.rune = this.add.circle(width / 2, height / 2 - 10, 40, 0x374151);
+    this.rune.setStrokeStyle(4, 0x7c2d12);
+    this.label = this.add
+      .text(width / 2, height - 24, 'Click when the rune glows', {
+        fontSize: '18px',
+        color: '#ffffff',
+      })
+      .setOrigin(0.5);
+
+    this.input.on('pointerdown', () => {
+      this.press();
+    });
+
+    this.nextRound();
+  }
+
+  private nextRound() {
+    if (this.presses >= this.rounds) {
+      this.finish('Done!');
+      return;
+    }
+
+    void this.timing.arm().then((armed) => {
+      if (this.done) return;
+      if (!armed) {
+        this.finish('The challenge ran out');
+        return;
+      }
+      this.lit = true;
+      this.rune.setFillStyle(0xfacc15);
+    });
+  }
+
+  private press() {
+    if (this.done) return;
+    const early = !this.lit;
+    this.presses++;
+    this.lit = false;
+    this.rune.setFillStyle(0x374151);
+
+    // Clicking ahead of the rune ends the attempt, it will be rejected. The
+    // press has to be in before the next round starts or the attempt ends
+    const pressed = this.timing.press();
+    if (early) {
+      this.done = true;
+      void pressed.then(() => this.finish('Too early!'));
+      return;
+    }
+
+    if (this.presses < this.rounds) {
+      this.label.setText(
+        `Round ${String(this.presses + 1)} of ${String(this.rounds)}`
+      );
+    }
+    void pressed.then(() => this.nextRound());
+  }
+
+  private finish(message: string) {
+    this.done = true;
+    this.label.setText(message);
+    this.onComplete();
+  }
+}
@@ -0,0 +1,226 @@
+import { replayRecorder } from '~/lib/helpers/replay';
+import type { Skill } from '~/lib/helpers/skills';
+import { abilities } from '~/lib/helpers/weapons';
+
+import Phaser from 'phaser';
+
+import { gameState } from '../state';
+
+const COLUMN_WIDTH = 220;
+const NODE_HEIGHT = 120;
+const ABILITY_SIZE = 64;
+
+// Each root skill starts a branch, its dependents are listed below it
+const getBranches = (skills: Skill[]): Skill[][] => {
+  const dependentOf = (id: string) =>
+    skills.find((skill) => skill.prerequisite === id);
+
+  return skills
+    .filter((skill) => !skill.prerequisite)
+    .map((root) => {
+      const branch = [root];
+      let next = dependentOf(root.id);
+      while (next) {
+        branch.push(next);
+        next = dependentOf(next.id);
+      }
+      return branch;
+    });
+};
+
+export class SkillTreeScene extends Phaser.Scene {
+  private nodes: Phaser.GameObjects.Container[] = [];
+  private abilityNodes: Phaser.GameObjects.Container[] = [];
+  private pointsText!: Phaser.GameObjects.Text;
+
+  constructor() {
+    super({ key: 'SkillTreeScene' });
+  }
+
+  preload() {
+    this.load.image('background', '/background.png');
+  }
+
+  create() {
+    const { width, height } = this.scale;
+    this.add.image(width / 2, height / 2, 'background').setScale(1);
+
+    this.add
+      .text(width / 2, 60, `Level ${String(gameState.level - 1)} cleared!`, {
+        fontSize: '36px',
+        color: '#ffd700',
+        fontFamily: 'Arial',
+      })
+      .setOrigin(0.5)
+      .setDepth(1);
+
+    this.pointsText = this.add
+      .text(width / 2, 110, '', {
+        fontSize: '20px',
+        color: '#ffffff',
+        fontFamily: 'Arial',
+      })
+      .setOrigin(0.5)
+      .setDepth(1);
+
+    const continueButton = this.add
+      .text(width / 2, height - 60, 'Descend', {
+        fontSize: '28px',
+        color: '#ffffff',
+        backgroundColor: '#7c2d12',
+        padding: { x: 24, y: 10 },
+      })
+      .setOrigin(0.5)
+      .setInteractive()
+      .setDepth(1);
+
+    continueButton.on('pointerdown', () => {
+      gameState.activeScene = 'game';
+      this.scene.start('GameScene');
+    });
+
+    this.add
+      .text(width / 2, height - 190, 'Hotbar: click to equip or remove', {
+        fontSize: '16px',
+        color: '#9ca3af',
+        fontFamily: 'Arial',
+      })
+      .setOrigin(0.5)
+      .setDepth(1);
+
+    this.renderTree();
+    this.renderAbilities();
+  }
+
+  // Four of the abilities fit on the hotbar, the rest wait here
+  private renderAbilities() {
+    this.abilityNodes.forEach((node) => {
+      node.destroy();
+    });
+    this.abilityNodes = [];
+
+    const { width, height } = this.scale;
+    const manager = gameState.weaponManager;
+    const equipped = manager.getEquippedAbilities();
+    const gap = ABILITY_SIZE + 16;
+    const startX = width / 2 - ((abilities.length - 1) * gap) / 2;
+
+    abilities.forEach((ability, index) => {
+      const slot = equipped.findIndex((a) => a.id === ability.id);
+      const background = this.add
+        .rectangle(0, 0, ABILITY_SIZE, ABILITY_SIZE, 0x000000, 0.7)
+        .setStrokeStyle(2, slot >= 0 ? 0xeab308 : 0x4b5563)
+        .setInteractive({ useHandCursor: true });
+      const slotLabel = slot >= 0 ? String(slot + 1) : '-';
+      const label = this.add
+        .text(0, 0, `${ability.icon}\n${slotLabel}`, {
+          fontSize: '18px',
+          color: '#ffffff',
+          align: 'center',
+        })
+        .setOrigin(0.5);
+      const name = this.add
+        .text(0, ABILITY_SIZE / 2 + 10, ability.name, {
+          fontSize: '11px',
+          color: slot >= 0 ? '#ffffff' : '#9ca3af',
+        })
+        .setOrigin(0.5);
+
+      background.on('pointerdown', () => {
+        if (slot >= 0) {
+          manager.unequipAbility(ability.id);
+        } else if (!manager.equipAbility(ability)) {
+          return; // Hotbar is full
+        }
+        replayRecorder.recordLoadout(
+          gameState.level,
+          manager.getEquippedAbilities().map((a) => a.id)
+        );
+        this.renderAbilities();
+      });
+
+      this.abilityNodes.push(
+        this.add
+          .container(startX + index * gap, height - 140, [
+            background,
+            label,
+            name,
+          ])
+          .setDepth(1)
+      );
+    });
+  }
+
+  private renderTree() {
+    this.nodes.forEach((node) => {
+      node.destroy();
+    });
+    this.nodes = [];
+
+    const { width } = this.scale;
+    const manager = gameState.skillManager;
+    const skills = manager.getAllSkills();
+    const branches = getBranches(skills);
+    const startX = width / 2 - ((branches.length - 1) * COLUMN_WIDTH) / 2;
+
+    this.pointsText.setText(
+      `Skill points: ${String(manager.getAvailablePoints())}`
+    );
+
+    branches.forEach((branch, column) => {
+      branch.forEach((skill, row) => {
+        const x = startX + column * COLUMN_WIDTH;
+        const y = 200 + row * NODE_HEIGHT;
+        this.nodes.push(this.createNode(skill, skills, x, y));
+      });
+    });
+  }
+
+  private createNode(skill: Skill, skills: Skill[], x: number, y: number) {
+    const manager = gameState.skillManager;
+    const maxed = skill.currentLevel >= skill.maxLevel;
+    const canUpgrade = manager.canUpgrade(skill.id);
+
+    let fill = 0x1f2937;
+    if (maxed) fill = 0x065f46;
+    else if (canUpgrade) fill = 0x7c2d12;
+
+    const background = this.add
+      .rectangle(0, 0, COLUMN_WIDTH - 20, NODE_HEIGHT - 16, fill, 0.9)
+      .setStrokeStyle(2, canUpgrade ? 0xffd700 : 0x4b5563);
+
+    const prerequisite = skills.find((s) => s.id === skill.prerequisite);
+    const lines = [
+      `${skill.icon} ${skill.name} (${String(skill.currentLevel)}/${String(skill.maxLevel)})`,
+      skill.description,
+      maxed ? 'Maxed' : `Cost: ${String(skill.cost)}`,
+    ];
+    if (prerequisite) {
+      const met = prerequisite.currentLevel > 0 ? ' ✓' : '';
+      lines.push(`Requires ${prerequisite.name}${met}`);
+    }
+
+    const label = this.add
+      .text(0, 0, lines.join('\n'), {
+        fontSize: '13px',
+        color: canUpgrade || maxed ? '#ffffff' : '#9ca3af',
+        align: 'center',
+        wordWrap: { width: COLUMN_WIDTH - 32 },
+      })
+      .setOrigin(0.5);
+
+    const node = this.add.container(x, y, [background, label]).setDepth(1);
+
+    if (canUpgrade) {
+      background.setInteractive({ useHandCursor: true });
+      background.on('pointerdown', () => {
+        if (gameState.upgradeSkill(skill.id)) {
+          replayRecorder.recordUpgrade(gameState.level, skill.id);
+          this.renderTree();
+        }
+      });
+    }
+
+    return node;
+  }
+}
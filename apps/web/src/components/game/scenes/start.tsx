@@ -1,8 +1,12 @@
+import { validatorClient } from '~/lib/helpers/validator';
+
 import Phaser from 'phaser';
 
 import { gameState } from '../state';
 
 export class HomeScene extends Phaser.Scene {
+  private starting = false;
+
   constructor() {
     super({ key: 'HomeScene' });
   }
@@ -14,6 +18,12 @@ export class HomeScene extends Phaser.Scene {
   }
 
   create() {
+    // A run restored from a save skips the title screen
+    if (gameState.activeScene === 'game') {
+      this.scene.start('GameScene', {});
+      return;
+    }
+
     const { width, height } = this.scale;
     this.add.image(width / 2, height / 2, 'background').setScale(1);
 
@@ -55,8 +65,43 @@ Good luck!
 
     // Add button functionality
     startButton.on('pointerdown', () => {
-      gameState.activeScene = 'game';
-      this.scene.start('GameScene');
+      if (this.starting) return;
+      this.starting = true;
+      startButton.setTint(0x808080);
+      void this.openValidatorSession().then(() => {
+        this.starting = false;
+        this.startRun();
+      });
+    });
+  }
+
+  // The validator picks the seed of a new run, so it can tell the dungeon
+  // apart from one the player chose
+  private async openValidatorSession() {
+    const playerAddress = localStorage.getItem('sui_wallet_address');
+    if (!validatorClient.enabled || !playerAddress) return;
+
+    try {
+      const { session, seed } = await validatorClient.startSession(
+        playerAddress,
+        gameState.level
+      );
+      gameState.setSeed(seed);
+      gameState.setValidatorSession(session);
+    } catch (error) {
+      // The run still plays on its local seed, its score is stored unverified
+      console.error('Failed to start validator session:', error);
+    }
+  }
+
+  private startRun() {
+    gameState.activeScene = 'game';
+    // Entering the first level, later levels are covered by incrementLevel
+    gameState.loreManager.checkUnlocks({
+      type: 'level',
+      value: gameState.level,
     });
+    // Explicit empty data clears a replay left over from a previous start
+    this.scene.start('GameScene', {});
   }
 }
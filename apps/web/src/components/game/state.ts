@@ -4,23 +4,37 @@ import { WeaponManager } from '~/lib/helpers/weapons';
 import { HazardManager } from '~/lib/helpers/hazards';
 import { LoreManager } from '~/lib/helpers/lore';
 import { aiBehaviorManager } from '~/lib/helpers/ai-behavior';
+import type { ValidatorSession } from '~/lib/helpers/validator';
 
+import { createSeed } from '@repo/security/random';
 import { makeAutoObservable } from 'mobx';
 
+const BASE_MAX_HEALTH = 100;
+
 export class GameState {
   public level = 1;
   public score = 0;
-  public playerHealth = 100;
-  public maxPlayerHealth = 100;
+  public playerHealth = BASE_MAX_HEALTH;
+  public maxPlayerHealth = BASE_MAX_HEALTH;
   public playerMana = 100;
   public maxPlayerMana = 100;
   public isAttacking = false;
   public isHurting = false;
   public isDying = false;
   public totalLives = 3;
+  public secondWindUsed = false; // Second Wind saves the player once per life
+  // start is pushed forward by every pause, so end - start is time played
   public times: { round: number; start: number; end?: number }[] = [];
-  public activeScene: 'home' | 'game' | 'game-over';
-  
+  public pausedAt: number | null = null;
+  // Game-time cooldowns per ability id. The scene ticks them down, so they
+  // hold still while paused and carry over from one level to the next
+  public abilityCooldowns = new Map<
+    string,
+    { duration: number; remaining: number }
+  >();
+  public activeScene: 'home' | 'game' | 'skill-tree' | 'game-over';
+  public seed: string; // Dungeon seed for the whole run, see generateDungeon
+
   // New gameplay systems
   public skillManager: SkillManager;
   public weaponManager: WeaponManager;
@@ -29,10 +43,16 @@ export class GameState {
   public sessionStartTime: number;
   public enemiesKilled: Map<string, number>; // Track kills per enemy type
   public bossesDefeated: Set<string>;
+  public itemsCollected = 0;
+  public sessionId: string | null = null; // On-chain GameSession for this run
+  public sessionOwner: string | null = null; // Wallet that opened sessionId
+  // Validator session that seeded the run, opened by the same wallet
+  public validatorSession: ValidatorSession | null = null;
 
   constructor() {
     makeAutoObservable(this);
     this.activeScene = 'home';
+    this.seed = createSeed();
     this.skillManager = new SkillManager();
     this.weaponManager = new WeaponManager();
     this.hazardManager = new HazardManager();
@@ -42,12 +62,27 @@ export class GameState {
     this.bossesDefeated = new Set();
   }
 
+  // Adopt a seed minted elsewhere, e.g. by ServerValidator.startSession
+  public setSeed(seed: string) {
+    this.seed = seed;
+  }
+
+  public setValidatorSession(session: ValidatorSession | null) {
+    this.validatorSession = session;
+  }
+
   public incrementLevel() {
     this.level++;
+    this.loreManager.checkUnlocks({ type: 'level', value: this.level });
   }
 
   public decreaseLives() {
     this.totalLives--;
+    this.secondWindUsed = false;
+  }
+
+  public useSecondWind() {
+    this.secondWindUsed = true;
   }
 
   public increaseLives() {
@@ -75,21 +110,40 @@ export class GameState {
   }
 
   incrementHealth(amount: number) {
-    this.playerHealth = Math.min(this.playerHealth + amount, 100);
+    this.playerHealth = Math.min(
+      this.playerHealth + amount,
+      this.maxPlayerHealth
+    );
   }
 
   public addCoin(type: CoinType) {
-    this.score += type.points;
+    this.itemsCollected++;
+    this.incrementScore(type.points);
+    this.loreManager.checkUnlocks({ type: 'item_found', value: type.key });
   }
 
   public incrementScore(points: number) {
+    const previous = this.score;
     this.score += points;
-    // Award skill points based on score milestones
-    if (this.score % 1000 === 0) {
-      this.skillManager.addPoints(100);
+    // Award skill points for every 1000 score milestone crossed
+    const milestones =
+      Math.floor(this.score / 1000) - Math.floor(previous / 1000);
+    if (milestones > 0) {
+      this.skillManager.addPoints(100 * milestones);
     }
   }
 
+  public upgradeSkill(skillId: string): boolean {
+    if (!this.skillManager.upgradeSkill(skillId)) return false;
+
+    // Raising max health also heals by the amount gained
+    const maxHealth = BASE_MAX_HEALTH + this.skillManager.getMaxHealthBonus();
+    const gained = maxHealth - this.maxPlayerHealth;
+    this.maxPlayerHealth = maxHealth;
+    this.incrementHealth(gained);
+    return true;
+  }
+
   public trackEnemyKill(enemyType: string) {
     const current = this.enemiesKilled.get(enemyType) || 0;
     this.enemiesKilled.set(enemyType, current + 1);
@@ -120,23 +174,87 @@ export class GameState {
     this.playerMana = Math.min(this.playerMana + amount, this.maxPlayerMana);
   }
 
+  public setSessionId(sessionId: string | null, owner: string | null) {
+    this.sessionId = sessionId;
+    this.sessionOwner = sessionId ? owner : null;
+  }
+
+  // Progress as recorded in the on-chain GameSession
+  public getSessionStats() {
+    let enemiesKilled = 0;
+    this.enemiesKilled.forEach((count) => {
+      enemiesKilled += count;
+    });
+    return {
+      score: this.score,
+      level: this.level,
+      enemiesKilled,
+      bossesDefeated: this.bossesDefeated.size,
+      itemsCollected: this.itemsCollected,
+    };
+  }
+
+  // Progress as reported to the validator, see ValidatorClient.checkpoint
+  public getRunProgress() {
+    return { ...this.getSessionStats(), health: this.playerHealth };
+  }
+
+  public pauseRound() {
+    this.pausedAt ??= Date.now();
+  }
+
+  public resumeRound() {
+    if (this.pausedAt === null) return;
+    const pausedFor = Date.now() - this.pausedAt;
+    this.pausedAt = null;
+
+    const current = this.times.find(
+      (t) => t.round === this.level && t.end === undefined
+    );
+    if (current) current.start += pausedFor;
+  }
+
+  public startAbilityCooldown(abilityId: string, duration: number) {
+    this.abilityCooldowns.set(abilityId, { duration, remaining: duration });
+  }
+
+  public isAbilityReady(abilityId: string): boolean {
+    return !this.abilityCooldowns.has(abilityId);
+  }
+
+  public tickAbilityCooldowns(elapsed: number) {
+    this.abilityCooldowns.forEach((cooldown, abilityId) => {
+      cooldown.remaining -= elapsed;
+      if (cooldown.remaining <= 0) this.abilityCooldowns.delete(abilityId);
+    });
+  }
+
   public reset() {
     this.level = 1;
     this.score = 0;
-    this.playerHealth = 100;
-    this.maxPlayerHealth = 100;
+    this.playerHealth = BASE_MAX_HEALTH;
+    this.maxPlayerHealth = BASE_MAX_HEALTH;
     this.playerMana = 100;
     this.maxPlayerMana = 100;
     this.isAttacking = false;
     this.isHurting = false;
     this.isDying = false;
     this.totalLives = 3;
+    this.secondWindUsed = false;
     this.times = [];
+    this.pausedAt = null;
+    this.abilityCooldowns.clear();
     this.activeScene = 'home';
+    this.seed = createSeed();
     this.sessionStartTime = Date.now();
     this.enemiesKilled.clear();
     this.bossesDefeated.clear();
+    this.itemsCollected = 0;
+    this.sessionId = null;
+    this.sessionOwner = null;
+    this.validatorSession = null;
     this.skillManager.reset();
+    this.weaponManager.reset();
     this.hazardManager.clearHazards();
     aiBehaviorManager.reset();
   }
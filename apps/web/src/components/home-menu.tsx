@@ -1,6 +1,8 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { cn } from '~/lib/utils';
 import { useCurrentAccount } from '@mysten/dapp-kit';
+import { gameState } from '~/components/game/state';
+import { loadRun, restoreGameState, type SaveGame } from '~/lib/game/save';
 
 // import { useLogout, useUser } from '@account-kit/react';
 import { useNavigate } from '@tanstack/react-router';
@@ -13,8 +15,32 @@ export const HomeMenu = () => {
   const navigate = useNavigate();
   const account = useCurrentAccount();
   const isConnected = !!account;
+  const [save, setSave] = useState<SaveGame | null>(null);
+
+  useEffect(() => {
+    void loadRun().then(setSave);
+  }, []);
+
+  const continueItem = save
+    ? [
+        {
+          name: `Continue (Round ${String(save.level)})`,
+          key: 'continue',
+          onClick: () => {
+            if (!account) {
+              alert('Please connect your OneChain wallet first!');
+              return;
+            }
+            restoreGameState(gameState, save, account.address);
+            gameState.activeScene = 'game';
+            navigate({ to: '/game' });
+          },
+        },
+      ]
+    : [];
 
   const items = [
+    ...continueItem,
     {
       name: 'Play',
       key: 'play',
@@ -23,6 +49,8 @@ export const HomeMenu = () => {
           alert('Please connect your OneChain wallet first!');
           return;
         }
+        // Always a fresh run, Continue picks up the saved one
+        gameState.reset();
         navigate({ to: '/game' });
       },
     },
@@ -44,6 +72,39 @@ export const HomeMenu = () => {
         navigate({ to: '/profile' });
       },
     },
+    {
+      name: 'Codex',
+      key: 'codex',
+      onClick: () => {
+        if (!isConnected) {
+          alert('Please connect your OneChain wallet first!');
+          return;
+        }
+        navigate({ to: '/codex' });
+      },
+    },
+    {
+      name: 'Market',
+      key: 'market',
+      onClick: () => {
+        if (!isConnected) {
+          alert('Please connect your OneChain wallet first!');
+          return;
+        }
+        navigate({ to: '/market' });
+      },
+    },
+    {
+      name: 'Relics',
+      key: 'relics',
+      onClick: () => {
+        if (!isConnected) {
+          alert('Please connect your OneChain wallet first!');
+          return;
+        }
+        navigate({ to: '/relics' });
+      },
+    },
     {
       name: 'Stake',
       key: 'stake',
@@ -1,4 +1,7 @@
+export * from './codex';
 export * from './home-menu';
 export * from './loading-overlay';
+export * from './marketplace';
 export * from './profile';
+export * from './relics';
 export { StakingPage } from './staking';
@@ -0,0 +1,1353 @@
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  useCurrentAccount,
+  useSignAndExecuteTransaction,
+} from '@mysten/dapp-kit';
+import { useCallback, useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { toast } from 'sonner';
+import { z } from 'zod';
+import {
+  type ListingMode,
+  type MarketplaceAction,
+  type MarketplaceItem,
+  type MarketplaceListing,
+  formatPrice,
+  marketplaceManager,
+  parsePrice,
+  tradedCurrencies,
+} from '~/lib/helpers/marketplace';
+import {
+  type MarketCurrency,
+  type MarketItemKind,
+  marketCurrencies,
+} from '~/lib/onechain/marketplace';
+
+import { Button } from './ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from './ui/form';
+import { Input } from './ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table';
+
+type Tab = 'browse' | 'listings' | 'offers' | 'purchases';
+
+const tabs: { key: Tab; label: string }[] = [
+  { key: 'browse', label: 'Browse' },
+  { key: 'listings', label: 'My Listings' },
+  { key: 'offers', label: 'My Offers' },
+  { key: 'purchases', label: 'My Purchases' },
+];
+
+const itemTypes: { value: MarketItemKind; label: string }[] = [
+  { value: 'weapon', label: 'Weapons' },
+  { value: 'armor', label: 'Armor' },
+  { value: 'relic', label: 'Relics' },
+  { value: 'trophy', label: 'Boss Trophies' },
+];
+
+const saleModes: { value: ListingMode['kind']; label: string }[] = [
+  { value: 'fixed', label: 'Buy now' },
+  { value: 'english', label: 'Auction' },
+  { value: 'dutch', label: 'Dutch auction' },
+];
+
+const saleLabel = (kind: ListingMode['kind']) =>
+  saleModes.find((m) => m.value === kind)!.label;
+
+const rarities: MarketplaceItem['rarity'][] = [
+  'common',
+  'rare',
+  'epic',
+  'legendary',
+  'mythic',
+];
+
+const rarityColors: Record<MarketplaceItem['rarity'], string> = {
+  common: 'text-gray-300',
+  rare: 'text-blue-400',
+  epic: 'text-purple-400',
+  legendary: 'text-yellow-400',
+  mythic: 'text-red-400',
+};
+
+const shortAddress = (address: string) =>
+  `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const formatRemaining = (until?: number) => {
+  if (!until) return '-';
+  const hours = Math.floor((until - Date.now()) / 3600000);
+  if (hours < 0) return 'Expired';
+  return hours >= 24 ? `${Math.floor(hours / 24)}d` : `${hours}h`;
+};
+
+const amountField = z
+  .string()
+  .refine((value) => (parsePrice(value) ?? BigInt(0)) > BigInt(0), {
+    message: 'Enter an amount above 0',
+  });
+
+const offerSchema = z.object({
+  amount: amountField,
+  message: z.string().max(140),
+  durationHours: z.coerce.number().int().min(1).max(720),
+});
+
+const bidSchema = z.object({
+  amount: amountField,
+});
+
+const listSchema = z.object({
+  itemId: z.string().min(1, 'Pick an item'),
+  mode: z.enum(['fixed', 'english', 'dutch']),
+  currency: z.enum(marketCurrencies), // Auctions are in DGN
+  price: amountField, // Fixed price, or where an auction starts
+  reservePrice: z.string(), // English reserve, Dutch end price
+  minIncrement: z.string(),
+  duration: z.coerce.number().int().min(1).max(720), // Days when fixed
+  extensionMinutes: z.coerce.number().int().min(0).max(60),
+});
+
+// The leading bid of an English auction
+const leadingBid = (listing: MarketplaceListing) =>
+  listing.mode.kind === 'english'
+    ? listing.mode.bids[listing.mode.bids.length - 1]
+    : undefined;
+
+interface Filters {
+  itemType: string;
+  mode: string;
+  currency: string;
+  rarity: string;
+  minPrice: string;
+  maxPrice: string;
+  query: string;
+}
+
+const noFilters: Filters = {
+  itemType: 'all',
+  mode: 'all',
+  currency: 'all',
+  rarity: 'all',
+  minPrice: '',
+  maxPrice: '',
+  query: '',
+};
+
+export const Marketplace = () => {
+  const account = useCurrentAccount();
+  const { mutateAsync: signAndExecuteTransaction } =
+    useSignAndExecuteTransaction();
+  const [tab, setTab] = useState<Tab>('browse');
+  const [filters, setFilters] = useState<Filters>(noFilters);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [listing, setListing] = useState(false);
+  const [pending, setPending] = useState(false);
+  // English auctions that have ended but not been settled
+  const [ended, setEnded] = useState<MarketplaceListing[]>([]);
+  // The manager updates in place, bumping this re-renders from it
+  const [, setVersion] = useState(0);
+
+  const refresh = useCallback(async () => {
+    setEnded(await marketplaceManager.sweep());
+    setVersion((v) => v + 1);
+  }, []);
+
+  useEffect(
+    () =>
+      marketplaceManager.startSweep((auctions) => {
+        setEnded(auctions);
+        setVersion((v) => v + 1);
+      }),
+    []
+  );
+
+  // Sign what the manager built, then pick the result up from the chain
+  const execute = async (build: () => Promise<MarketplaceAction>) => {
+    setPending(true);
+    try {
+      const action = await build();
+      if (!action.success || !action.transaction) {
+        toast.error(action.message);
+        return false;
+      }
+      await signAndExecuteTransaction({ transaction: action.transaction });
+      toast.success('Transaction confirmed');
+      await refresh();
+      return true;
+    } catch (error) {
+      console.error('Marketplace transaction failed:', error);
+      toast.error(
+        error instanceof Error ? error.message : 'Transaction failed'
+      );
+      return false;
+    } finally {
+      setPending(false);
+    }
+  };
+
+  if (!account) {
+    return (
+      <div className='absolute top-24 right-1/2 mx-auto w-full max-w-screen-xl translate-x-1/2 rounded-xl bg-[#0b171dd0] px-8 py-6'>
+        <div className='font-golondrina text-4xl text-center text-red-400'>
+          Please connect your OneChain wallet to use the market
+        </div>
+      </div>
+    );
+  }
+
+  const address = account.address;
+  // Amounts only add up within one currency, DGN unless filtered to another
+  const statsCurrency =
+    filters.currency === 'all' ? 'DGN' : (filters.currency as MarketCurrency);
+  const stats = marketplaceManager.getMarketplaceStats(statsCurrency);
+  // Looked up without getListing so re-renders don't count as views
+  const selected = [
+    ...marketplaceManager.getActiveListings(),
+    ...marketplaceManager.getUserListings(address),
+  ].find((l) => l.id === selectedId);
+
+  // Ended auctions this wallet sold or leads, it's up to them to settle
+  const toSettle = ended.filter(
+    (auction) =>
+      auction.seller === address || leadingBid(auction)?.bidder === address
+  );
+
+  const openListing = (id: string) => {
+    marketplaceManager.getListing(id); // Counts the view
+    setSelectedId(id);
+  };
+
+  return (
+    <div className='absolute top-24 right-1/2 mx-auto max-h-[80vh] w-full max-w-screen-xl translate-x-1/2 overflow-y-auto rounded-xl bg-[#0b171dd0] px-8 py-6'>
+      <div className='mb-4 flex items-center justify-between'>
+        <div className='font-golondrina text-7xl'>Market</div>
+        <Button onClick={() => setListing(true)}>List an item</Button>
+      </div>
+
+      <div className='mb-6 grid grid-cols-2 gap-4 md:grid-cols-4'>
+        <Stat
+          label='Volume'
+          value={`${formatPrice(stats.totalVolume, statsCurrency)} ${statsCurrency}`}
+        />
+        <Stat
+          label='Floor price'
+          value={
+            stats.floorPrice === null
+              ? '-'
+              : `${formatPrice(stats.floorPrice, statsCurrency)} ${statsCurrency}`
+          }
+        />
+        <Stat label='Active listings' value={String(stats.activeListings)} />
+        <Stat
+          label={statsCurrency === 'DGN' ? 'Burned in fees' : 'Fees'}
+          value={`${formatPrice(stats.totalFees, statsCurrency)} ${statsCurrency}`}
+        />
+      </div>
+
+      {toSettle.length > 0 && (
+        <div className='mb-4 rounded-lg border border-orange-400 bg-orange-950/40 p-4'>
+          <div className='mb-2 font-bold text-orange-300'>
+            Auctions waiting to be settled
+          </div>
+          {toSettle.map((auction) => (
+            <div
+              key={auction.id}
+              className='flex items-center justify-between gap-2 py-1'
+            >
+              <span>
+                {auction.itemData?.name ?? shortAddress(auction.id)}:{' '}
+                <SettleNote auction={auction} address={address} />
+              </span>
+              <Button
+                size='sm'
+                disabled={pending}
+                onClick={() =>
+                  void execute(() =>
+                    marketplaceManager.settleAuction(address, auction.id)
+                  )
+                }
+              >
+                Settle
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className='mb-4 flex gap-2'>
+        {tabs.map((t) => (
+          <button
+            key={t.key}
+            type='button'
+            className={`rounded-lg px-4 py-2 font-bold transition-colors ${
+              tab === t.key
+                ? 'bg-yellow-500 text-black'
+                : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+            }`}
+            onClick={() => setTab(t.key)}
+          >
+            {t.label}
+          </button>
+        ))}
+      </div>
+
+      {tab === 'browse' && (
+        <BrowseTab
+          filters={filters}
+          onFiltersChange={setFilters}
+          onOpen={openListing}
+        />
+      )}
+      {tab === 'listings' && (
+        <ListingTable
+          listings={marketplaceManager.getUserListings(address)}
+          showStatus
+          empty="You haven't listed anything yet."
+          onOpen={openListing}
+        />
+      )}
+      {tab === 'offers' && (
+        <OffersTab
+          address={address}
+          pending={pending}
+          onWithdraw={(offerId) =>
+            void execute(() =>
+              marketplaceManager.withdrawOffer(address, offerId)
+            )
+          }
+        />
+      )}
+      {tab === 'purchases' && (
+        <TradeTable
+          trades={marketplaceManager.getUserPurchases(address)}
+          empty='No purchases yet.'
+        />
+      )}
+
+      {selected && (
+        <ListingDialog
+          listing={selected}
+          address={address}
+          pending={pending}
+          execute={execute}
+          onClose={() => setSelectedId(null)}
+        />
+      )}
+      <ListItemDialog
+        open={listing}
+        address={address}
+        pending={pending}
+        execute={execute}
+        onClose={() => setListing(false)}
+      />
+    </div>
+  );
+};
+
+const SettleNote = ({
+  auction,
+  address,
+}: {
+  auction: MarketplaceListing;
+  address: string;
+}) => {
+  const bid = leadingBid(auction);
+  const reserveMet =
+    auction.mode.kind === 'english' &&
+    bid !== undefined &&
+    bid.amount >= auction.mode.reservePrice;
+
+  if (auction.seller === address) {
+    return reserveMet
+      ? `sold for ${formatPrice(bid.amount)} DGN`
+      : 'ended unsold, settle to get the item back';
+  }
+  return reserveMet
+    ? 'you won, settle to claim the item'
+    : 'reserve not met, settle to get your bid back';
+};
+
+const Stat = ({ label, value }: { label: string; value: string }) => (
+  <div className='rounded-lg border border-yellow-500 bg-black/40 p-4'>
+    <div className='text-sm text-gray-400'>{label}</div>
+    <div className='text-2xl font-bold text-yellow-300'>{value}</div>
+  </div>
+);
+
+const FilterSelect = ({
+  value,
+  placeholder,
+  options,
+  onChange,
+}: {
+  value: string;
+  placeholder: string;
+  options: { value: string; label: string }[];
+  onChange: (value: string) => void;
+}) => (
+  <Select value={value} onValueChange={onChange}>
+    <SelectTrigger className='w-40'>
+      <SelectValue placeholder={placeholder} />
+    </SelectTrigger>
+    <SelectContent>
+      <SelectItem value='all'>{placeholder}</SelectItem>
+      {options.map((option) => (
+        <SelectItem key={option.value} value={option.value}>
+          {option.label}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+const BrowseTab = ({
+  filters,
+  onFiltersChange,
+  onOpen,
+}: {
+  filters: Filters;
+  onFiltersChange: (filters: Filters) => void;
+  onOpen: (listingId: string) => void;
+}) => {
+  const set = (key: keyof Filters) => (value: string) =>
+    onFiltersChange({ ...filters, [key]: value });
+
+  const matching = new Set(
+    marketplaceManager.searchListings(filters.query).map((l) => l.id)
+  );
+  const listings = marketplaceManager
+    .getActiveListings({
+      itemType:
+        filters.itemType === 'all'
+          ? undefined
+          : (filters.itemType as MarketItemKind),
+      mode:
+        filters.mode === 'all'
+          ? undefined
+          : (filters.mode as ListingMode['kind']),
+      currency:
+        filters.currency === 'all'
+          ? undefined
+          : (filters.currency as MarketCurrency),
+      rarity: filters.rarity === 'all' ? undefined : filters.rarity,
+      minPrice: parsePrice(filters.minPrice) ?? undefined,
+      maxPrice: parsePrice(filters.maxPrice) ?? undefined,
+    })
+    .filter((l) => !filters.query || matching.has(l.id))
+    .sort((a, b) => {
+      const diff =
+        marketplaceManager.currentPrice(a) - marketplaceManager.currentPrice(b);
+      return diff < 0 ? -1 : diff > 0 ? 1 : 0;
+    });
+
+  return (
+    <>
+      <div className='mb-4 flex flex-wrap items-center gap-2'>
+        <Input
+          className='w-56'
+          placeholder='Search items'
+          value={filters.query}
+          onChange={(event) => set('query')(event.target.value)}
+        />
+        <FilterSelect
+          value={filters.itemType}
+          placeholder='All items'
+          options={itemTypes}
+          onChange={set('itemType')}
+        />
+        <FilterSelect
+          value={filters.mode}
+          placeholder='Any sale type'
+          options={saleModes}
+          onChange={set('mode')}
+        />
+        <FilterSelect
+          value={filters.currency}
+          placeholder='Any currency'
+          options={marketCurrencies.map((c) => ({ value: c, label: c }))}
+          onChange={set('currency')}
+        />
+        <FilterSelect
+          value={filters.rarity}
+          placeholder='Any rarity'
+          options={rarities.map((r) => ({
+            value: r,
+            label: r[0]!.toUpperCase() + r.slice(1),
+          }))}
+          onChange={set('rarity')}
+        />
+        <Input
+          className='w-28'
+          placeholder='Min price'
+          inputMode='decimal'
+          value={filters.minPrice}
+          onChange={(event) => set('minPrice')(event.target.value)}
+        />
+        <Input
+          className='w-28'
+          placeholder='Max price'
+          inputMode='decimal'
+          value={filters.maxPrice}
+          onChange={(event) => set('maxPrice')(event.target.value)}
+        />
+        <Button variant='ghost' onClick={() => onFiltersChange(noFilters)}>
+          Clear
+        </Button>
+      </div>
+
+      <ListingTable
+        listings={listings}
+        empty='No listings match these filters.'
+        onOpen={onOpen}
+      />
+
+      <div className='font-golondrina mt-8 mb-2 text-4xl'>Recent trades</div>
+      <TradeTable
+        trades={marketplaceManager.getRecentTrades()}
+        empty='No trades yet.'
+      />
+    </>
+  );
+};
+
+const ListingTable = ({
+  listings,
+  showStatus = false,
+  empty,
+  onOpen,
+}: {
+  listings: MarketplaceListing[];
+  showStatus?: boolean;
+  empty: string;
+  onOpen: (listingId: string) => void;
+}) => {
+  if (listings.length === 0) {
+    return <div className='py-8 text-center text-gray-500'>{empty}</div>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Item</TableHead>
+          <TableHead>Type</TableHead>
+          <TableHead>Rarity</TableHead>
+          <TableHead>Sale</TableHead>
+          <TableHead className='text-right'>Price</TableHead>
+          <TableHead>Offers / Bids</TableHead>
+          <TableHead>{showStatus ? 'Status' : 'Ends in'}</TableHead>
+          <TableHead>Seller</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {listings.map((listing) => {
+          const rarity = listing.itemData?.rarity;
+          const offers = marketplaceManager
+            .getListingOffers(listing.id)
+            .filter((o) => o.status === 'pending');
+
+          return (
+            <TableRow
+              key={listing.id}
+              className='cursor-pointer'
+              onClick={() => onOpen(listing.id)}
+            >
+              <TableCell className='font-bold'>
+                {listing.itemData?.name ?? 'Loading...'}
+              </TableCell>
+              <TableCell className='capitalize'>{listing.itemType}</TableCell>
+              <TableCell
+                className={`capitalize ${rarity ? rarityColors[rarity] : ''}`}
+              >
+                {rarity ?? '-'}
+              </TableCell>
+              <TableCell>{saleLabel(listing.mode.kind)}</TableCell>
+              <TableCell className='text-right font-mono'>
+                {formatPrice(
+                  marketplaceManager.currentPrice(listing),
+                  listing.currency
+                )}{' '}
+                {listing.currency}
+              </TableCell>
+              <TableCell>
+                {listing.mode.kind === 'english'
+                  ? `${listing.mode.bids.length} bids`
+                  : offers.length}
+              </TableCell>
+              <TableCell className='capitalize'>
+                {showStatus
+                  ? listing.status
+                  : formatRemaining(listing.expiresAt)}
+              </TableCell>
+              <TableCell className='font-mono'>
+                {shortAddress(listing.seller)}
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+};
+
+const TradeTable = ({
+  trades,
+  empty,
+}: {
+  trades: ReturnType<typeof marketplaceManager.getRecentTrades>;
+  empty: string;
+}) => {
+  if (trades.length === 0) {
+    return <div className='py-8 text-center text-gray-500'>{empty}</div>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Date</TableHead>
+          <TableHead>Buyer</TableHead>
+          <TableHead>Seller</TableHead>
+          <TableHead className='text-right'>Price</TableHead>
+          <TableHead className='text-right'>Fee</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {trades.map((trade) => (
+          <TableRow key={trade.id}>
+            <TableCell>{new Date(trade.timestamp).toLocaleString()}</TableCell>
+            <TableCell className='font-mono'>
+              {shortAddress(trade.buyer)}
+            </TableCell>
+            <TableCell className='font-mono'>
+              {shortAddress(trade.seller)}
+            </TableCell>
+            <TableCell className='text-right font-mono'>
+              {formatPrice(trade.price, trade.currency)} {trade.currency}
+            </TableCell>
+            <TableCell className='text-right font-mono text-orange-400'>
+              {formatPrice(trade.fee, trade.currency)}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+const OffersTab = ({
+  address,
+  pending,
+  onWithdraw,
+}: {
+  address: string;
+  pending: boolean;
+  onWithdraw: (offerId: string) => void;
+}) => {
+  const offers = marketplaceManager.getUserOffers(address);
+  if (offers.length === 0) {
+    return (
+      <div className='py-8 text-center text-gray-500'>
+        You haven't made any offers yet.
+      </div>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Item</TableHead>
+          <TableHead className='text-right'>Offered</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead>Ends in</TableHead>
+          <TableHead />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {offers.map((offer) => {
+          const listing = marketplaceManager
+            .getActiveListings()
+            .find((l) => l.id === offer.listingId);
+          // Still holding the coins on chain until withdrawn
+          const open =
+            offer.status === 'pending' || offer.status === 'expired';
+
+          return (
+            <TableRow key={offer.id}>
+              <TableCell className='font-bold'>
+                {listing?.itemData?.name ?? shortAddress(offer.listingId)}
+              </TableCell>
+              <TableCell className='text-right font-mono'>
+                {formatPrice(offer.amount, offer.currency)} {offer.currency}
+              </TableCell>
+              <TableCell className='capitalize'>{offer.status}</TableCell>
+              <TableCell>{formatRemaining(offer.expiresAt)}</TableCell>
+              <TableCell className='text-right'>
+                {open && (
+                  <Button
+                    size='sm'
+                    variant='outline'
+                    disabled={pending}
+                    onClick={() => onWithdraw(offer.id)}
+                  >
+                    Withdraw
+                  </Button>
+                )}
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+};
+
+type Execute = (build: () => Promise<MarketplaceAction>) => Promise<boolean>;
+
+const ListingDialog = ({
+  listing,
+  address,
+  pending,
+  execute,
+  onClose,
+}: {
+  listing: MarketplaceListing;
+  address: string;
+  pending: boolean;
+  execute: Execute;
+  onClose: () => void;
+}) => {
+  const isSeller = listing.seller === address;
+  const isOpen = listing.status === 'active';
+  const { mode } = listing;
+  const offers = marketplaceManager.getListingOffers(listing.id);
+  const price = marketplaceManager.currentPrice(listing);
+  const fee = (price * BigInt(5)) / BigInt(100);
+  const minimumBid = marketplaceManager.minimumBid(listing);
+  const bids = mode.kind === 'english' ? [...mode.bids].reverse() : [];
+  const priceLabel =
+    mode.kind === 'dutch'
+      ? 'Current price'
+      : mode.kind === 'english'
+        ? bids.length
+          ? 'Leading bid'
+          : 'Opening bid'
+        : 'Price';
+
+  const bidForm = useForm<z.infer<typeof bidSchema>>({
+    resolver: zodResolver(bidSchema),
+    defaultValues: { amount: formatPrice(minimumBid).replace(/,/g, '') },
+  });
+
+  const placeBid = bidForm.handleSubmit(async (values) => {
+    const done = await execute(() =>
+      marketplaceManager.placeBid(
+        address,
+        listing.id,
+        parsePrice(values.amount)!
+      )
+    );
+    if (done) bidForm.reset({ amount: '' });
+  });
+
+  const form = useForm<z.infer<typeof offerSchema>>({
+    resolver: zodResolver(offerSchema),
+    defaultValues: { amount: '', message: '', durationHours: 24 },
+  });
+
+  const makeOffer = form.handleSubmit(async (values) => {
+    const done = await execute(() =>
+      marketplaceManager.makeOffer(
+        address,
+        listing.id,
+        parsePrice(values.amount, listing.currency)!,
+        listing.currency,
+        values.message || undefined,
+        values.durationHours
+      )
+    );
+    if (done) form.reset();
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className='max-h-[90vh] overflow-y-auto border-yellow-500 bg-[#0b171d] text-white'>
+        <DialogHeader>
+          <DialogTitle className='font-golondrina text-4xl'>
+            {listing.itemData?.name ?? 'Listing'}
+          </DialogTitle>
+          <DialogDescription>
+            {listing.itemData?.description}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className='grid grid-cols-2 gap-2 text-sm'>
+          <div className='text-gray-400'>Rarity</div>
+          <div
+            className={`capitalize ${
+              listing.itemData ? rarityColors[listing.itemData.rarity] : ''
+            }`}
+          >
+            {listing.itemData?.rarity ?? '-'}
+          </div>
+          <div className='text-gray-400'>{priceLabel}</div>
+          <div className='font-mono text-yellow-300'>
+            {formatPrice(price, listing.currency)} {listing.currency}
+          </div>
+          {mode.kind === 'english' && (
+            <>
+              <div className='text-gray-400'>Reserve</div>
+              <div className='font-mono'>
+                {formatPrice(mode.reservePrice)}{' '}
+                {bids[0] && bids[0].amount >= mode.reservePrice
+                  ? '(met)'
+                  : '(not met)'}
+              </div>
+              <div className='text-gray-400'>Next bid from</div>
+              <div className='font-mono'>{formatPrice(minimumBid)}</div>
+            </>
+          )}
+          {mode.kind === 'dutch' && (
+            <>
+              <div className='text-gray-400'>Falls to</div>
+              <div className='font-mono'>
+                {formatPrice(mode.endPrice)} from{' '}
+                {formatPrice(mode.startPrice)}
+              </div>
+            </>
+          )}
+          <div className='text-gray-400'>
+            {listing.currency === 'DGN' ? 'Burned' : 'Fee'} on sale (5%)
+          </div>
+          <div className='font-mono'>{formatPrice(fee, listing.currency)}</div>
+          <div className='text-gray-400'>Seller</div>
+          <div className='font-mono'>{shortAddress(listing.seller)}</div>
+          <div className='text-gray-400'>Status</div>
+          <div className='capitalize'>
+            {isOpen
+              ? `Ends in ${formatRemaining(listing.expiresAt)}`
+              : listing.status}
+          </div>
+        </div>
+
+        {!isSeller && isOpen && mode.kind !== 'english' && (
+          <Button
+            disabled={pending}
+            onClick={async () => {
+              const done = await execute(() =>
+                marketplaceManager.buyItem(address, listing.id)
+              );
+              if (done) onClose();
+            }}
+          >
+            Buy for {formatPrice(price, listing.currency)} {listing.currency}
+          </Button>
+        )}
+
+        {!isSeller && isOpen && mode.kind === 'english' && (
+          <Form {...bidForm}>
+            <form
+              className='flex items-end gap-2'
+              onSubmit={(event) => void placeBid(event)}
+            >
+              <FormField
+                control={bidForm.control}
+                name='amount'
+                render={({ field }) => (
+                  <FormItem className='flex-1'>
+                    <FormLabel>Your bid (DGN)</FormLabel>
+                    <FormControl>
+                      <Input inputMode='decimal' {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type='submit' disabled={pending}>
+                Bid
+              </Button>
+            </form>
+          </Form>
+        )}
+
+        {mode.kind === 'english' && listing.status === 'expired' && (
+          <Button
+            disabled={pending}
+            onClick={async () => {
+              const done = await execute(() =>
+                marketplaceManager.settleAuction(address, listing.id)
+              );
+              if (done) onClose();
+            }}
+          >
+            Settle auction
+          </Button>
+        )}
+
+        {!isSeller && isOpen && mode.kind === 'fixed' && (
+          <>
+            <Form {...form}>
+              <form
+                className='flex flex-col gap-3 border-t border-gray-700 pt-4'
+                onSubmit={(event) => void makeOffer(event)}
+              >
+                <div className='font-bold'>Make an offer</div>
+                <FormField
+                  control={form.control}
+                  name='amount'
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Amount ({listing.currency})</FormLabel>
+                      <FormControl>
+                        <Input inputMode='decimal' {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name='message'
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Message</FormLabel>
+                      <FormControl>
+                        <Input placeholder='Optional' {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name='durationHours'
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Valid for (hours)</FormLabel>
+                      <FormControl>
+                        <Input type='number' {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type='submit' variant='outline' disabled={pending}>
+                  Offer
+                </Button>
+              </form>
+            </Form>
+          </>
+        )}
+
+        {bids.length > 0 && (
+          <div className='border-t border-gray-700 pt-4'>
+            <div className='mb-2 font-bold'>Bids</div>
+            {bids.map((bid) => (
+              <div
+                key={`${bid.bidder}:${bid.timestamp}`}
+                className='flex items-center justify-between gap-2 py-1 text-sm'
+              >
+                <span>
+                  <span className='font-mono'>
+                    {formatPrice(bid.amount)} DGN
+                  </span>{' '}
+                  <span className='text-gray-400'>
+                    from {shortAddress(bid.bidder)}
+                  </span>
+                </span>
+                <span className='text-gray-400'>
+                  {bid.refunded
+                    ? 'Refunded'
+                    : new Date(bid.timestamp).toLocaleString()}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {offers.length > 0 && (
+          <div className='border-t border-gray-700 pt-4'>
+            <div className='mb-2 font-bold'>Offers</div>
+            {offers.map((offer) => (
+              <div
+                key={offer.id}
+                className='flex items-center justify-between gap-2 py-1 text-sm'
+              >
+                <div>
+                  <span className='font-mono'>
+                    {formatPrice(offer.amount, offer.currency)} {offer.currency}
+                  </span>{' '}
+                  <span className='text-gray-400'>
+                    from {shortAddress(offer.buyer)}
+                  </span>
+                  {offer.message && (
+                    <div className='text-gray-500'>"{offer.message}"</div>
+                  )}
+                </div>
+                {isSeller && isOpen && offer.status === 'pending' ? (
+                  <div className='flex gap-1'>
+                    <Button
+                      size='sm'
+                      disabled={pending}
+                      onClick={async () => {
+                        const done = await execute(() =>
+                          marketplaceManager.acceptOffer(address, offer.id)
+                        );
+                        if (done) onClose();
+                      }}
+                    >
+                      Accept
+                    </Button>
+                    <Button
+                      size='sm'
+                      variant='outline'
+                      disabled={pending}
+                      onClick={() =>
+                        void execute(() =>
+                          marketplaceManager.rejectOffer(address, offer.id)
+                        )
+                      }
+                    >
+                      Reject
+                    </Button>
+                  </div>
+                ) : (
+                  <span className='capitalize text-gray-400'>
+                    {offer.status}
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {isSeller &&
+          (isOpen || listing.status === 'expired') &&
+          bids.length === 0 && (
+            <Button
+              variant='destructive'
+              disabled={pending}
+              onClick={async () => {
+                const done = await execute(() =>
+                  marketplaceManager.cancelListing(address, listing.id)
+                );
+                if (done) onClose();
+              }}
+            >
+              {isOpen ? 'Cancel listing' : 'Reclaim item'}
+            </Button>
+          )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const ListItemDialog = ({
+  open,
+  address,
+  pending,
+  execute,
+  onClose,
+}: {
+  open: boolean;
+  address: string;
+  pending: boolean;
+  execute: Execute;
+  onClose: () => void;
+}) => {
+  const [owned, setOwned] = useState<
+    Awaited<ReturnType<typeof marketplaceManager.getOwnedItems>>
+  >([]);
+
+  useEffect(() => {
+    if (!open) return;
+    marketplaceManager
+      .getOwnedItems(address)
+      .then(setOwned)
+      .catch((error: unknown) => {
+        console.error('Failed to load owned items:', error);
+      });
+  }, [open, address]);
+
+  const form = useForm<z.infer<typeof listSchema>>({
+    resolver: zodResolver(listSchema),
+    defaultValues: {
+      itemId: '',
+      mode: 'fixed',
+      currency: 'DGN',
+      price: '',
+      reservePrice: '',
+      minIncrement: '',
+      duration: 7,
+      extensionMinutes: 10,
+    },
+  });
+  const mode = form.watch('mode');
+  const currency = form.watch('currency');
+
+  const submit = form.handleSubmit(async (values) => {
+    const entry = owned.find(({ item }) => item.id === values.itemId);
+    if (!entry) return;
+
+    // The manager explains anything left empty or out of order
+    const price = parsePrice(values.price, values.currency)!;
+    const second = parsePrice(values.reservePrice) ?? BigInt(0);
+    const done = await execute(() => {
+      switch (values.mode) {
+        case 'fixed':
+          return marketplaceManager.createListing(
+            address,
+            entry.itemType,
+            entry.item.id,
+            price,
+            values.currency,
+            values.duration
+          );
+        case 'english':
+          return marketplaceManager.createEnglishAuction(
+            address,
+            entry.itemType,
+            entry.item.id,
+            price,
+            second || price,
+            parsePrice(values.minIncrement) ?? BigInt(0),
+            values.duration,
+            values.extensionMinutes
+          );
+        case 'dutch':
+          return marketplaceManager.createDutchAuction(
+            address,
+            entry.itemType,
+            entry.item.id,
+            price,
+            second,
+            values.duration
+          );
+      }
+    });
+    if (done) {
+      form.reset();
+      onClose();
+    }
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className='border-yellow-500 bg-[#0b171d] text-white'>
+        <DialogHeader>
+          <DialogTitle className='font-golondrina text-4xl'>
+            List an item
+          </DialogTitle>
+          <DialogDescription>
+            The item is held in escrow until it sells or you cancel. 5% of the
+            sale price is taken, and burned for DGN. Auctions are in DGN and
+            can't be cancelled once bid on.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            className='flex flex-col gap-3'
+            onSubmit={(event) => void submit(event)}
+          >
+            <FormField
+              control={form.control}
+              name='itemId'
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Item</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue
+                          placeholder={
+                            owned.length ? 'Pick an item' : 'No NFTs in wallet'
+                          }
+                        />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {owned.map(({ itemType, item }) => (
+                        <SelectItem key={item.id} value={item.id}>
+                          {item.name} ({itemType}, {item.rarity})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name='mode'
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Sale type</FormLabel>
+                  <Select
+                    value={field.value}
+                    onValueChange={(value) => {
+                      field.onChange(value);
+                      form.setValue('duration', value === 'fixed' ? 7 : 24);
+                      if (value !== 'fixed') form.setValue('currency', 'DGN');
+                    }}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {saleModes.map((m) => (
+                        <SelectItem key={m.value} value={m.value}>
+                          {m.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {mode === 'fixed' && (
+              <FormField
+                control={form.control}
+                name='currency'
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Currency</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {tradedCurrencies.map((c) => (
+                          <SelectItem key={c} value={c}>
+                            {c}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            <FormField
+              control={form.control}
+              name='price'
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    {mode === 'fixed' ? 'Price' : 'Starting price'} ({currency})
+                  </FormLabel>
+                  <FormControl>
+                    <Input inputMode='decimal' {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {mode !== 'fixed' && (
+              <FormField
+                control={form.control}
+                name='reservePrice'
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      {mode === 'english'
+                        ? 'Reserve price (DGN, optional)'
+                        : 'Ending price (DGN)'}
+                    </FormLabel>
+                    <FormControl>
+                      <Input inputMode='decimal' {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            {mode === 'english' && (
+              <>
+                <FormField
+                  control={form.control}
+                  name='minIncrement'
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Minimum increment (DGN)</FormLabel>
+                      <FormControl>
+                        <Input inputMode='decimal' {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name='extensionMinutes'
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Extend on late bids (minutes)</FormLabel>
+                      <FormControl>
+                        <Input type='number' {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </>
+            )}
+            <FormField
+              control={form.control}
+              name='duration'
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    Duration ({mode === 'fixed' ? 'days' : 'hours'})
+                  </FormLabel>
+                  <FormControl>
+                    <Input type='number' {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type='submit' disabled={pending}>
+              List
+            </Button>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,36 +1,38 @@
 import { useCurrentAccount } from '@mysten/dapp-kit';
 import { ProfileTable } from './profile-table';
 import { useState, useEffect } from 'react';
+import { eventIndexer } from '~/lib/onechain/indexer';
 
 export const ProfileDetails = () => {
   const account = useCurrentAccount();
   const [profileData, setProfileData] = useState<any[]>([]);
 
   useEffect(() => {
-    if (account) {
-      // Load profile data from localStorage
-      const stored = localStorage.getItem('shadow_stake_saga_leaderboard');
-      if (stored) {
-        const allScores = JSON.parse(stored);
-        // Filter scores for this user
-        const userScores = allScores.filter(
-          (entry: any) => entry.address === account.address
-        );
-        
-        // Convert to profile format
-        const formattedData = userScores.map((entry: any, index: number) => ({
+    if (!account) return;
+
+    // Show what's already indexed, then again once synced with OneChain
+    const showGames = async () => {
+      const games = await eventIndexer.getCompletedGames(account.address);
+      setProfileData(
+        games.map((game) => ({
+          id: game.id,
           record: {
-            id: `game-${index}`,
-            timestamp: BigInt(entry.timestamp),
-            totalRounds: BigInt(entry.round),
-            totalScore: BigInt(entry.score),
+            id: game.txDigest,
+            timestamp: BigInt(game.timestamp),
+            totalRounds: BigInt(game.level),
+            totalScore: BigInt(game.score),
           },
           times: [],
-        }));
-        
-        setProfileData(formattedData);
-      }
-    }
+        }))
+      );
+    };
+
+    showGames()
+      .then(() => eventIndexer.sync())
+      .then(showGames)
+      .catch((error: unknown) => {
+        console.error('Failed to load profile games:', error);
+      });
   }, [account]);
 
   if (!account) {
@@ -0,0 +1,250 @@
+import { useCurrentAccount } from '@mysten/dapp-kit';
+import type { Relic } from '@repo/security/relics';
+import { type ReactNode, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { useRelicActions } from '~/hooks';
+import {
+  FUSION_POWER_BONUS,
+  MAX_FUSION_RELICS,
+  MIN_FUSION_RELICS,
+  relicIcons,
+  relicManager,
+} from '~/lib/helpers/nft-relics';
+
+import { Button } from './ui/button';
+
+const rarityColors: Record<Relic['rarity'], { border: string; text: string }> =
+  {
+    rare: { border: 'border-blue-400', text: 'text-blue-400' },
+    epic: { border: 'border-purple-400', text: 'text-purple-400' },
+    legendary: { border: 'border-yellow-400', text: 'text-yellow-400' },
+    mythic: { border: 'border-red-400', text: 'text-red-400' },
+  };
+
+const statLabels: [keyof Relic['stats'], string][] = [
+  ['damage', 'Damage'],
+  ['defense', 'Defense'],
+  ['health', 'Health'],
+  ['speed', 'Speed'],
+  ['critChance', 'Crit %'],
+];
+
+const RelicCard = ({
+  relic,
+  children,
+}: {
+  relic: Relic;
+  children?: ReactNode;
+}) => (
+  <div
+    className={`flex flex-col gap-2 rounded-lg border bg-black/40 p-4 ${
+      rarityColors[relic.rarity].border
+    }`}
+  >
+    <div className='flex items-center gap-3'>
+      <span className='text-4xl'>{relicIcons[relic.type]}</span>
+      <div>
+        <div className='text-xl text-yellow-300'>{relic.name}</div>
+        <div className={`text-sm capitalize ${rarityColors[relic.rarity].text}`}>
+          {relic.rarity} {relic.type}
+        </div>
+      </div>
+    </div>
+    <div className='text-sm text-gray-300'>{relic.metadata.description}</div>
+    <div className='flex flex-wrap gap-x-4 text-sm'>
+      {statLabels.map(([key, label]) =>
+        relic.stats[key] ? (
+          <span key={key}>
+            {label} <span className='text-green-400'>+{relic.stats[key]}</span>
+          </span>
+        ) : null
+      )}
+    </div>
+    {relic.stats.specialEffect && (
+      <div className='text-sm italic text-orange-300'>
+        {relic.stats.specialEffect}
+      </div>
+    )}
+    {relic.lineage && (
+      <div className='text-xs text-cyan-300'>
+        Fused from {relic.lineage.length} relics
+      </div>
+    )}
+    <div className='text-xs text-gray-500'>
+      Found on level {relic.origin.level}
+      {relic.origin.bossType ? ` from ${relic.origin.bossType}` : ''},{' '}
+      {new Date(relic.origin.timestamp).toLocaleDateString()}
+    </div>
+    {children}
+  </div>
+);
+
+export const RelicInventory = () => {
+  const account = useCurrentAccount();
+  const { mintRelic, isMinting, fuseRelics, isFusing } = useRelicActions();
+  const [mintingId, setMintingId] = useState<string | null>(null);
+  const [fusionIds, setFusionIds] = useState<string[]>([]);
+  // The manager updates in place, bumping this re-renders from it
+  const [, setVersion] = useState(0);
+
+  // Show the connected wallet's collection
+  useEffect(() => {
+    relicManager.setOwner(account?.address ?? null);
+    setVersion((v) => v + 1);
+  }, [account]);
+
+  if (!account) {
+    return (
+      <div className='absolute top-24 right-1/2 mx-auto w-full max-w-screen-xl translate-x-1/2 rounded-xl bg-[#0b171dd0] px-8 py-6'>
+        <div className='font-golondrina text-4xl text-center text-red-400'>
+          Please connect your OneChain wallet to view your relics
+        </div>
+      </div>
+    );
+  }
+
+  const mint = async (relic: Relic) => {
+    setMintingId(relic.id);
+    try {
+      const objectId = await mintRelic(relic.id);
+      toast.success(`${relic.name} minted as ${objectId.slice(0, 10)}...`);
+    } catch (error) {
+      console.error('Failed to mint relic:', error);
+      toast.error(error instanceof Error ? error.message : 'Mint failed');
+    } finally {
+      setMintingId(null);
+      setVersion((v) => v + 1);
+    }
+  };
+
+  const toggleFusion = (relicId: string) => {
+    setFusionIds((ids) =>
+      ids.includes(relicId)
+        ? ids.filter((id) => id !== relicId)
+        : ids.length < MAX_FUSION_RELICS
+          ? [...ids, relicId]
+          : ids
+    );
+  };
+
+  const fuse = async () => {
+    try {
+      const fused = await fuseRelics(fusionIds);
+      toast.success(`${fused.name} forged with ${fused.power} power`);
+      setFusionIds([]);
+    } catch (error) {
+      console.error('Failed to fuse relics:', error);
+      toast.error(error instanceof Error ? error.message : 'Fusion failed');
+    } finally {
+      setVersion((v) => v + 1);
+    }
+  };
+
+  const stats = relicManager.getCollectionStats();
+  const unminted = relicManager.getUnmintedRelics();
+  const minted = relicManager
+    .getCollectedRelics()
+    .filter((relic) => relic.isMinted && relic.owner === account.address);
+  const fusion = relicManager.previewFusion(fusionIds);
+  const fusionCost = relicManager.getFusionCost(fusionIds.length);
+
+  return (
+    <div className='absolute top-24 right-1/2 mx-auto max-h-[80vh] w-full max-w-screen-xl translate-x-1/2 overflow-y-auto rounded-xl bg-[#0b171dd0] px-8 py-6'>
+      <div className='font-golondrina text-7xl mb-2'>Relics</div>
+      <div className='text-yellow-400 mb-6'>
+        {stats.total} found, {stats.minted} minted. Relics drop from enemies
+        and bosses deep in the dungeon.
+      </div>
+
+      <div className='font-golondrina text-4xl mb-2'>Unminted</div>
+      {unminted.length === 0 ? (
+        <div className='mb-8 text-gray-500'>
+          No relics waiting to be minted. Venture deeper.
+        </div>
+      ) : (
+        <div className='mb-8 grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3'>
+          {unminted.map((relic) => (
+            <RelicCard key={relic.id} relic={relic}>
+              <Button
+                disabled={isMinting || !relic.origin.drop}
+                onClick={() => void mint(relic)}
+              >
+                {mintingId === relic.id
+                  ? 'Minting...'
+                  : `Mint for ${relicManager.getMintCost(relic)} DGN`}
+              </Button>
+              <div className='text-xs text-gray-500'>
+                {relic.origin.drop
+                  ? 'The DGN is burned when the relic is minted'
+                  : 'Found in a run the validator never saw, it cannot be minted'}
+              </div>
+            </RelicCard>
+          ))}
+        </div>
+      )}
+
+      <div className='font-golondrina text-4xl mb-2'>Fusion Workshop</div>
+      <div className='mb-8 flex flex-col gap-4 rounded-lg border border-cyan-700 bg-black/30 p-4 md:flex-row'>
+        <div className='flex-1 text-sm text-gray-300'>
+          <p className='mb-2'>
+            Pick {MIN_FUSION_RELICS} to {MAX_FUSION_RELICS} minted relics
+            below. Fusing burns them and the DGN fee, and mints one relic
+            stronger than the best of them: its power plus half of the
+            others' and {FUSION_POWER_BONUS} for each extra relic. It takes
+            the highest rarity among them, one step up when two share it,
+            and keeps a record of its parents.
+          </p>
+          <p className='text-yellow-400'>
+            {fusionIds.length} selected
+            {fusionIds.length >= MIN_FUSION_RELICS &&
+              `, costs ${fusionCost} DGN`}
+          </p>
+        </div>
+        <div className='flex-1'>
+          {fusion ? (
+            <RelicCard relic={fusion}>
+              <div className='text-sm'>
+                Power{' '}
+                <span className='text-green-400'>
+                  {relicManager.getPower(fusion)}
+                </span>
+              </div>
+              <Button disabled={isFusing} onClick={() => void fuse()}>
+                {isFusing ? 'Fusing...' : `Fuse for ${fusionCost} DGN`}
+              </Button>
+            </RelicCard>
+          ) : (
+            <div className='flex h-full items-center justify-center text-gray-500'>
+              The fused relic is previewed here before you sign
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className='font-golondrina text-4xl mb-2'>Minted</div>
+      {minted.length === 0 ? (
+        <div className='text-gray-500'>Nothing minted yet.</div>
+      ) : (
+        <div className='grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3'>
+          {minted.map((relic) => (
+            <RelicCard key={relic.id} relic={relic}>
+              <div className='font-mono text-xs text-gray-400'>
+                NFT {relic.objectId?.slice(0, 10)}...
+                {relic.objectId?.slice(-6)}
+              </div>
+              <Button
+                disabled={isFusing}
+                variant={fusionIds.includes(relic.id) ? 'default' : 'outline'}
+                onClick={() => toggleFusion(relic.id)}
+              >
+                {fusionIds.includes(relic.id)
+                  ? 'Remove from fusion'
+                  : 'Add to fusion'}
+              </Button>
+            </RelicCard>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1 +1,2 @@
 export * from './use-game-actions';
+export * from './use-relic-actions';
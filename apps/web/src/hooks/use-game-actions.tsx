@@ -1,22 +1,41 @@
-import { useCurrentAccount, useSignAndExecuteTransaction, useSuiClient } from '@mysten/dapp-kit';
+import { useCurrentAccount, useSignAndExecuteTransaction } from '@mysten/dapp-kit';
 // @ts-ignore - Type declarations may be missing in this version
 import { Transaction } from '@mysten/sui/transactions';
 import { useState } from 'react';
 // @ts-ignore - Type declarations may be missing in this version
 import { bcs } from '@mysten/sui/bcs';
+import { checkRateLimit } from '@repo/security/rate-limiter';
+import {
+  CONTRACTS,
+  type ScoreReveal,
+  type SessionStats,
+  addCommitScoreCall,
+  addCreateProfileCall,
+  addRevealScoreCall,
+  addStartGameCall,
+  addUpdateSessionCall,
+  findGameRegistryId,
+  findPlayerProfileId,
+  getCreatedObjectId,
+  onechainClient,
+} from '~/lib/onechain/client';
+import { eventIndexer } from '~/lib/onechain/indexer';
 
 export interface StoreArgs {
   id: string;
   totalScore: bigint;
   times: { startTime: bigint; endTime: bigint; round: bigint }[];
+  sessionId?: string | null; // Completes the on-chain session when present
+  validatorSessionId?: string | null; // Set when the validator seeded the run
+  stats?: SessionStats;
+  reveal?: ScoreReveal; // Opens the score committed at game over
 }
 
 // OneChain Package ID - DEPLOYED!
-const GAME_PACKAGE_ID = '0x3d16067dbdb2afe434f636d860fd02400ef57421def3b89ee424f9c3b354ec45';
+const GAME_PACKAGE_ID = CONTRACTS.GAME_PACKAGE;
 
 export const useGameActions = () => {
   const account = useCurrentAccount();
-  const suiClient = useSuiClient();
   const { mutateAsync: signAndExecuteTransaction } = useSignAndExecuteTransaction();
   const [isMinting, setIsMinting] = useState(false);
   const [isLoadingClient, setIsLoadingClient] = useState(false);
@@ -24,40 +43,24 @@ export const useGameActions = () => {
   const address = account?.address;
   const isDisconnected = !account;
 
-  // Fetch profile data from OneChain blockchain by querying events
+  // Fetch profile data from the local index of OneChain game events
   const getProfileData = async () => {
     if (!address) return undefined;
     
     try {
-      console.log("📊 Fetching game events for:", address);
-      
-      // Query GameCompleted events for this player
-      const events = await suiClient.queryEvents({
-        query: {
-          MoveEventType: `${GAME_PACKAGE_ID}::shadow_stake_saga_game::GameCompleted`
+      await eventIndexer.sync();
+
+      const games = await eventIndexer.getCompletedGames(address);
+      const playerGames = games.map((game) => ({
+        id: game.id,
+        record: {
+          id: game.txDigest,
+          timestamp: BigInt(game.timestamp),
+          totalRounds: BigInt(game.level),
+          totalScore: BigInt(game.score),
         },
-        limit: 50,
-        order: 'descending'
-      });
-      
-      console.log("📊 Found events:", events);
-      
-      // Filter events for this player and format them
-      const playerGames = events.data
-        .filter((event: any) => event.parsedJson?.player === address)
-        .map((event: any, index: number) => ({
-          id: `game-${index}`,
-          record: {
-            id: event.id.txDigest,
-            // Use event.timestampMs which is in milliseconds
-            timestamp: BigInt(event.timestampMs || (event.parsedJson.timestamp * 1000) || 0),
-            totalRounds: BigInt(event.parsedJson.level || 0),
-            totalScore: BigInt(event.parsedJson.score || 0),
-          },
-          times: [] // Events don't store round times
-        }));
-      
-      console.log("📊 Player games:", playerGames);
+        times: [] // Events don't store round times
+      }));
       return playerGames;
     } catch (error) {
       console.error('Error fetching profile data:', error);
@@ -65,6 +68,62 @@ export const useGameActions = () => {
     }
   };
 
+  // Open a GameSession for a new run, creating the player's profile in the
+  // same transaction the first time they play. Returns the session object id
+  const startSession = async (validatorSessionId: string | null) => {
+    if (!address) throw new Error("Wallet not connected");
+
+    const registryId = await findGameRegistryId();
+    const profileId = await findPlayerProfileId(address);
+
+    const tx = new Transaction();
+    if (!profileId) addCreateProfileCall(tx);
+    addStartGameCall(tx, registryId, validatorSessionId);
+    tx.setGasBudget(10000000);
+    tx.setSender(address);
+
+    const result = await signAndExecuteTransaction({
+      transaction: tx,
+      chain: 'onechain:testnet',
+    });
+    const { objectChanges } = await onechainClient.waitForTransaction({
+      digest: result.digest,
+      options: { showObjectChanges: true },
+    });
+
+    const sessionId = getCreatedObjectId(objectChanges, 'GameSession');
+    if (!sessionId) throw new Error("Game session was not created");
+
+    console.log("🎮 Game session started:", sessionId);
+    return { sessionId, owner: address };
+  };
+
+  // Commit the hash of a finished run's score, returns the ScoreCommitment
+  // object that storeResult reveals
+  const commitScore = async (sessionId: string, commitHash: string) => {
+    if (!address) throw new Error("Wallet not connected");
+
+    const tx = new Transaction();
+    addCommitScoreCall(tx, sessionId, commitHash);
+    tx.setGasBudget(10000000);
+    tx.setSender(address);
+
+    const result = await signAndExecuteTransaction({
+      transaction: tx,
+      chain: 'onechain:testnet',
+    });
+    const { objectChanges } = await onechainClient.waitForTransaction({
+      digest: result.digest,
+      options: { showObjectChanges: true },
+    });
+
+    const commitmentId = getCreatedObjectId(objectChanges, 'ScoreCommitment');
+    if (!commitmentId) throw new Error("Score commitment was not created");
+
+    console.log("🔒 Score committed:", commitmentId);
+    return commitmentId;
+  };
+
   // Always return the storeResult function, but check wallet inside it
   const storeResult = async (args: StoreArgs) => {
     console.log("🔍 Checking wallet connection...");
@@ -78,6 +137,9 @@ export const useGameActions = () => {
       console.error("Address:", address);
       throw new Error("Wallet not connected - please refresh the page and try again");
     }
+
+    const limit = await checkRateLimit(address, 'score_submit');
+    if (!limit.proceed) throw new Error(limit.error);
     
     console.log("💾 Storing score to OneChain:", args.totalScore);
     console.log("📦 Package ID:", GAME_PACKAGE_ID);
@@ -91,16 +153,44 @@ export const useGameActions = () => {
       // Simple approach - use string which SDK will convert to vector<u8>
       const timestamp = Math.floor(Date.now() / 1000);
       
-      // Call Move function to store game score on OneChain
-      tx.moveCall({
-        target: `${GAME_PACKAGE_ID}::shadow_stake_saga_game::store_score`,
-        arguments: [
-          tx.pure.string(args.id),
-          tx.pure.u64(Number(args.totalScore)),
-          tx.pure.u64(args.times.length),
-          tx.pure.u64(timestamp),
-        ],
-      });
+      const profileId =
+        args.sessionId && args.reveal
+          ? await findPlayerProfileId(address)
+          : null;
+
+      if (args.sessionId && args.stats && args.reveal && profileId) {
+        // Final stats go into the session, then the reveal checks the score
+        // against its commitment and folds the run into the profile and the
+        // registry leaderboard
+        const registryId = await findGameRegistryId();
+        addUpdateSessionCall(tx, args.sessionId, args.stats);
+        addRevealScoreCall(
+          tx,
+          profileId,
+          registryId,
+          args.sessionId,
+          args.reveal
+        );
+      } else if (args.validatorSessionId) {
+        // The validator played along but there is no signed score to reveal,
+        // storing it unverified would let any run skip the validator
+        throw new Error(
+          'This run has no validator-signed score to submit, it was not saved'
+        );
+      } else {
+        // Only runs the validator never saw (e.g. with no validator
+        // configured) are stored unverified
+        // Call Move function to store game score on OneChain
+        tx.moveCall({
+          target: `${GAME_PACKAGE_ID}::shadow_stake_saga_game::store_score`,
+          arguments: [
+            tx.pure.string(args.id),
+            tx.pure.u64(Number(args.totalScore)),
+            tx.pure.u64(args.times.length),
+            tx.pure.u64(timestamp),
+          ],
+        });
+      }
 
       // Set gas budget and sender
       tx.setGasBudget(10000000); // 0.01 OCT
@@ -108,7 +198,7 @@ export const useGameActions = () => {
 
       console.log("📝 Transaction created, waiting for signature...");
       console.log("🔍 Transaction details:", {
-        target: `${GAME_PACKAGE_ID}::shadow_stake_saga_game::store_score`,
+        sessionId: args.sessionId,
         gameId: args.id,
         score: Number(args.totalScore),
         rounds: args.times.length,
@@ -168,6 +258,8 @@ export const useGameActions = () => {
 
   return { 
     storeResult, 
+    startSession,
+    commitScore,
     isMinting, 
     isLoadingClient, 
     isDisconnected, 
@@ -0,0 +1,154 @@
+import {
+  useCurrentAccount,
+  useSignAndExecuteTransaction,
+} from '@mysten/dapp-kit';
+import { Transaction } from '@mysten/sui/transactions';
+import { useState } from 'react';
+import { checkRateLimit } from '@repo/security/rate-limiter';
+import { relicManager } from '~/lib/helpers/nft-relics';
+import { tokenBurnManager } from '~/lib/helpers/tokenomics';
+import { validatorClient } from '~/lib/helpers/validator';
+import {
+  DGN_DECIMALS,
+  addFuseRelicsCall,
+  addMintRelicCall,
+  findGameRegistryId,
+  getCreatedObjectId,
+  onechainClient,
+} from '~/lib/onechain/client';
+import { addDgnPayment } from '~/lib/onechain/marketplace';
+
+const DGN_UNIT = BigInt(10) ** BigInt(DGN_DECIMALS);
+
+export const useRelicActions = () => {
+  const account = useCurrentAccount();
+  const { mutateAsync: signAndExecuteTransaction } =
+    useSignAndExecuteTransaction();
+  const [isMinting, setIsMinting] = useState(false);
+  const [isFusing, setIsFusing] = useState(false);
+
+  // mint_relic burns the relic's DGN cost itself, so a failed mint never
+  // costs anything. It only mints drops the validator signed, so relics from
+  // runs without a validator session stay local. Returns the new Relic
+  // object id
+  const mintRelic = async (relicId: string) => {
+    const address = account?.address;
+    if (!address) throw new Error('Wallet not connected');
+
+    const relic = relicManager.getRelic(relicId);
+    if (!relic) throw new Error('Relic not found');
+    if (relic.isMinted) throw new Error('Relic is already minted');
+    const drop = relic.origin.drop;
+    if (!drop) throw new Error('Only relics from validated runs can be minted');
+
+    const limit = await checkRateLimit(address, 'transaction');
+    if (!limit.proceed) throw new Error(limit.error);
+
+    setIsMinting(true);
+    try {
+      const signed = await validatorClient.signRelicDrop(drop.sessionId, {
+        level: relic.origin.level,
+        roll: drop.roll,
+      });
+      const registryId = await findGameRegistryId();
+
+      const cost = relicManager.getMintCost(relic);
+      const tx = new Transaction();
+      const payment = await addDgnPayment(tx, address, cost * DGN_UNIT);
+      if (!payment) throw new Error(`Minting needs ${cost} DGN`);
+
+      addMintRelicCall(
+        tx,
+        registryId,
+        payment,
+        relic.name,
+        relic.metadata.description,
+        new URL(relic.metadata.image, window.location.origin).href,
+        signed
+      );
+      tx.setGasBudget(10000000);
+      tx.setSender(address);
+
+      const result = await signAndExecuteTransaction({
+        transaction: tx,
+        chain: 'onechain:testnet',
+      });
+      const { objectChanges } = await onechainClient.waitForTransaction({
+        digest: result.digest,
+        options: { showObjectChanges: true },
+      });
+
+      const objectId = getCreatedObjectId(objectChanges, 'Relic', 'nft_items');
+      if (!objectId) throw new Error('Relic was not minted');
+
+      relicManager.markAsMinted(relic.id, objectId, address);
+      tokenBurnManager.recordBurn('nft_mint', cost, result.digest);
+      return objectId;
+    } finally {
+      setIsMinting(false);
+    }
+  };
+
+  // Fuse minted relics on chain. fuse_relics consumes the parent NFTs and
+  // burns the fee, so the local collection only follows a confirmed fusion
+  const fuseRelics = async (relicIds: string[]) => {
+    const address = account?.address;
+    if (!address) throw new Error('Wallet not connected');
+
+    const preview = relicManager.previewFusion(relicIds);
+    if (!preview) throw new Error('Pick two to five relics to fuse');
+
+    const objectIds = relicIds.map((id) => {
+      const relic = relicManager.getRelic(id);
+      if (!relic?.objectId || relic.owner !== address) {
+        throw new Error('Only relics you have minted can be fused');
+      }
+      return relic.objectId;
+    });
+
+    const limit = await checkRateLimit(address, 'transaction');
+    if (!limit.proceed) throw new Error(limit.error);
+
+    setIsFusing(true);
+    try {
+      const cost = relicManager.getFusionCost(relicIds.length);
+      const tx = new Transaction();
+      const payment = await addDgnPayment(tx, address, cost * DGN_UNIT);
+      if (!payment) throw new Error(`Fusing needs ${cost} DGN`);
+
+      addFuseRelicsCall(
+        tx,
+        objectIds,
+        payment,
+        preview.name,
+        preview.metadata.description,
+        new URL(preview.metadata.image, window.location.origin).href
+      );
+      tx.setGasBudget(10000000);
+      tx.setSender(address);
+
+      const result = await signAndExecuteTransaction({
+        transaction: tx,
+        chain: 'onechain:testnet',
+      });
+      const { objectChanges } = await onechainClient.waitForTransaction({
+        digest: result.digest,
+        options: { showObjectChanges: true },
+      });
+
+      const objectId = getCreatedObjectId(objectChanges, 'Relic', 'nft_items');
+      if (!objectId) throw new Error('Fused relic was not minted');
+
+      const fused = relicManager.fuseRelics(relicIds, {
+        objectId,
+        owner: address,
+      });
+      tokenBurnManager.recordBurn('relic_fusion', cost, result.digest);
+      return fused!;
+    } finally {
+      setIsFusing(false);
+    }
+  };
+
+  return { mintRelic, isMinting, fuseRelics, isFusing };
+};
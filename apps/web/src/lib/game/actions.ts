@@ -2,19 +2,29 @@
 
 /* eslint-disable @typescript-eslint/no-non-null-assertion -- safe */
 import { type Room } from '@mikewesthad/dungeon';
+import { createLevelRandom } from '@repo/security/random';
 import Phaser from 'phaser';
 
-import { Coin, Enemy } from '~/components/game/entities';
+import {
+  Coin,
+  Enemy,
+  HazardZone,
+  WeaponPickup,
+} from '~/components/game/entities';
 import { type DungeonGameScene } from '~/components/game/scenes';
 import { gameState } from '~/components/game/state';
 import { TilemapVisibility } from '~/components/game/tilemap-visibility';
 
+import { isBossLevel } from '../helpers/boss';
 import {
   coins,
   enemies,
   pickRandomCoin,
   pickRandomEnemy,
 } from '../helpers/game';
+import { hazardTypes } from '../helpers/hazards';
+import { telemetryCollector } from '../helpers/telemetry';
+import { WeaponManager } from '../helpers/weapons';
 import { TILES } from './tile-mappings';
 
 export const preload = (scene: Phaser.Scene) => {
@@ -204,27 +214,40 @@ export const createMap = (scene: DungeonGameScene) => {
   //  - The starting room (index = 0)
   //  - A random room to be designated as the end room (with stairs and nothing else)
   //  - An array of 90% of the remaining rooms, for placing random stuff (leaving 10% empty)
+  // All of this is drawn from the seeded layout stream so the run can be rebuilt
+  const random = createLevelRandom(gameState.seed, gameState.level, 'layout');
   const rooms = dungeon.rooms.slice();
   const startRoom = rooms.shift();
-  const endRoom = Phaser.Utils.Array.RemoveRandomElement(rooms) as Room;
-  const otherRooms = Phaser.Utils.Array.Shuffle(rooms).slice(
-    0,
-    rooms.length * 0.9
-  );
+  const endRoom = random.removeRandom(rooms) as Room;
+
+  // Boss levels reserve the largest remaining room as the boss arena
+  let bossRoom: Room | undefined;
+  if (isBossLevel(gameState.level) && rooms.length > 0) {
+    bossRoom = rooms.reduce((largest, room) =>
+      room.width * room.height > largest.width * largest.height
+        ? room
+        : largest
+    );
+    rooms.splice(rooms.indexOf(bossRoom), 1);
+  }
+
+  const otherRooms = random.shuffle(rooms).slice(0, rooms.length * 0.9);
 
   // Place the stairs
   stuffLayer.putTileAt(TILES.STAIRS, endRoom.centerX, endRoom.centerY);
 
   // Place stuff in the 90% "otherRooms"
+  const chestRooms: Room[] = [];
   otherRooms.forEach((room) => {
-    const rand = Math.random();
+    const rand = random.next();
     if (rand <= 0.25) {
       // 25% chance of chest
       stuffLayer.putTileAt(TILES.CHEST, room.centerX, room.centerY);
+      chestRooms.push(room);
     } else if (rand <= 0.5) {
       // 50% chance of a pot anywhere in the room... except don't block a door!
-      const x = Phaser.Math.Between(room.left + 2, room.right - 2);
-      const y = Phaser.Math.Between(room.top + 2, room.bottom - 2);
+      const x = random.between(room.left + 2, room.right - 2);
+      const y = random.between(room.top + 2, room.bottom - 2);
       stuffLayer.weightedRandomize(TILES.POT, x, y, 1, 1);
     } else {
       // 25% of either 2 or 4 towers, depending on the room size
@@ -247,18 +270,44 @@ export const createMap = (scene: DungeonGameScene) => {
   stuffLayer.setTileIndexCallback(
     TILES.STAIRS,
     () => {
+      // The exit stays sealed until the level's boss is dead
+      if (scene.boss?.sprite) {
+        scene.showBossGateHint();
+        return;
+      }
       stuffLayer.setTileIndexCallback(TILES.STAIRS, () => true, {});
       scene.endRound();
+      telemetryCollector.recordLevelComplete(gameState.getRunProgress());
       scene.player.freeze();
       const cam = scene.cameras.main;
       cam.fade(250, 0, 0, 0);
       cam.once('camerafadeoutcomplete', () => {
         gameState.incrementLevel();
+        gameState.hazardManager.clearHazards();
         scene.player.destroy();
         scene.enemies = [];
         scene.coins = [];
-
-        scene.scene.restart();
+        scene.hazards = [];
+        scene.weaponPickups = [];
+        scene.relicPickups = [];
+        scene.boss = undefined;
+
+        // Replays re-apply the recorded purchases instead of showing the screen
+        if (scene.replayPlayer) {
+          scene.replayPlayer
+            .upgradesFor(gameState.level)
+            .forEach((skillId) => {
+              gameState.upgradeSkill(skillId);
+            });
+          const loadout = scene.replayPlayer.loadoutFor(gameState.level);
+          if (loadout) gameState.weaponManager.setAbilities(loadout);
+          scene.scene.restart();
+          return;
+        }
+
+        scene.sounds.soundtrack.stop();
+        gameState.activeScene = 'skill-tree';
+        scene.scene.start('SkillTreeScene');
       });
     },
     {}
@@ -276,6 +325,8 @@ export const createMap = (scene: DungeonGameScene) => {
   return {
     map,
     otherRooms,
+    chestRooms,
+    bossRoom,
     tileset,
     startX: x,
     startY: y,
@@ -292,20 +343,21 @@ export function placeCoins(
   stuffLayer: Phaser.Tilemaps.TilemapLayer
 ) {
   // Place Coins
+  const random = createLevelRandom(gameState.seed, gameState.level, 'coins');
   const coins: Coin[] = [];
   this.dungeon.rooms.forEach((room) => {
     const maxCoinsPerRoom = (room.width * room.height) / 50; // 1% of the tiles in the room
-    const coinsInRoom = Phaser.Math.Between(1, maxCoinsPerRoom);
+    const coinsInRoom = random.between(1, maxCoinsPerRoom);
     for (let i = 0; i < coinsInRoom; i++) {
-      const x = Phaser.Math.Between(room.left + 2, room.right - 2);
-      const y = Phaser.Math.Between(room.top + 2, room.bottom - 2);
+      const x = random.between(room.left + 2, room.right - 2);
+      const y = random.between(room.top + 2, room.bottom - 2);
       const xWorld = map.tileToWorldX(x)!;
       const yWorld = map.tileToWorldY(y)!;
       const existing = stuffLayer.getTileAtWorldXY(
         xWorld,
         yWorld
       ) as Phaser.Tilemaps.Tile | null;
-      const c = pickRandomCoin();
+      const c = pickRandomCoin(random.next);
       if (!existing) {
         const coin = new Coin(this, xWorld, yWorld, c, room);
         coins.push(coin);
@@ -323,23 +375,24 @@ export function placeEnemies(
   stuffLayer: Phaser.Tilemaps.TilemapLayer
 ) {
   // Place enemies
+  const random = createLevelRandom(gameState.seed, gameState.level, 'enemies');
   const enemies: Enemy[] = [];
   rooms.forEach((room) => {
     const totalTiles = room.width * room.height;
     // TODO: make this more interesting like boss enemies on higher levels...
 
     const maxEnemiesPerRoom = totalTiles / 100; // 1% of the tiles in the room
-    const enemiesInRoom = Phaser.Math.Between(1, maxEnemiesPerRoom);
+    const enemiesInRoom = random.between(1, maxEnemiesPerRoom);
     for (let i = 0; i < enemiesInRoom; i++) {
-      const x = Phaser.Math.Between(room.left + 2, room.right - 2);
-      const y = Phaser.Math.Between(room.top + 2, room.bottom - 2);
+      const x = random.between(room.left + 2, room.right - 2);
+      const y = random.between(room.top + 2, room.bottom - 2);
       const xWorld = map.tileToWorldX(x)!;
       const yWorld = map.tileToWorldY(y)!;
       const existing = stuffLayer.getTileAtWorldXY(
         xWorld,
         yWorld
       ) as Phaser.Tilemaps.Tile | null;
-      const c = pickRandomEnemy();
+      const c = pickRandomEnemy(random.next);
       if (!existing) {
         const enemy = new Enemy(this, xWorld, yWorld, c, room);
         enemies.push(enemy);
@@ -350,6 +403,69 @@ export function placeEnemies(
   return enemies;
 }
 
+export function placeHazards(
+  this: DungeonGameScene,
+  rooms: Room[],
+  map: Phaser.Tilemaps.Tilemap
+) {
+  // Place hazards inside the walls of each room, scaled by level
+  const random = createLevelRandom(gameState.seed, gameState.level, 'hazards');
+  const hazards: HazardZone[] = [];
+  rooms.forEach((room) => {
+    const roomX = map.tileToWorldX(room.left + 1)!;
+    const roomY = map.tileToWorldY(room.top + 1)!;
+    const roomWidth = (room.width - 2) * map.tileWidth;
+    const roomHeight = (room.height - 2) * map.tileHeight;
+
+    const generated = gameState.hazardManager.generateRoomHazards(
+      roomX,
+      roomY,
+      roomWidth,
+      roomHeight,
+      gameState.level,
+      random.next
+    );
+    for (const { id, x, y, type } of generated) {
+      const hazard = hazardTypes[type];
+      if (!hazard) continue;
+      gameState.hazardManager.spawnHazard(id, x, y, type);
+      hazards.push(new HazardZone(this, id, x, y, hazard, room));
+    }
+  });
+
+  return hazards;
+}
+
+export function placeWeaponDrops(
+  this: DungeonGameScene,
+  rooms: Room[],
+  map: Phaser.Tilemaps.Tilemap
+) {
+  // Each chest may have a weapon lying in front of it
+  const random = createLevelRandom(gameState.seed, gameState.level, 'loot');
+  const pickups: WeaponPickup[] = [];
+  rooms.forEach((room) => {
+    const weapon = WeaponManager.getRandomWeaponDrop(
+      gameState.level,
+      random.next
+    );
+    if (!weapon) return;
+    const xWorld = map.tileToWorldX(room.centerX)!;
+    const yWorld = map.tileToWorldY(room.centerY + 1)!;
+    pickups.push(
+      new WeaponPickup(
+        this,
+        xWorld + map.tileWidth / 2,
+        yWorld + map.tileHeight / 2,
+        weapon,
+        room
+      )
+    );
+  });
+
+  return pickups;
+}
+
 export function createAnimations(scene: DungeonGameScene) {
   const anims = scene.anims;
   enemies.forEach((enemy) => {
@@ -1,5 +1,7 @@
 import Phaser from 'phaser';
 
+import { TICKS_PER_SECOND } from '../helpers/replay';
+
 export const config = (
   init: (this: Phaser.Scene, data: object) => void,
   preload: (this: Phaser.Scene) => void,
@@ -26,6 +28,9 @@ export const config = (
       default: 'arcade',
       arcade: {
         gravity: { y: 0, x: 1 },
+        // The dungeon scene ticks on every physics step, see DungeonGameScene
+        fixedStep: true,
+        fps: TICKS_PER_SECOND,
       },
     },
   };
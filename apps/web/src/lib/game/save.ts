@@ -0,0 +1,211 @@
+// Save format for an in-progress run, stored through MobileOptimizationManager
+import { type GameState } from '~/components/game/state';
+import { type ValidatorSession } from '~/lib/helpers/validator';
+
+import { mobileOptimization } from '../onechain/mobile';
+
+export const SAVE_VERSION = 4;
+
+export interface SaveGame {
+  version: number;
+  savedAt: number;
+  seed: string;
+  level: number;
+  score: number;
+  totalLives: number;
+  playerHealth: number;
+  maxPlayerHealth: number;
+  playerMana: number;
+  maxPlayerMana: number;
+  times: { round: number; start: number; end?: number }[];
+  skills: { levels: Record<string, number>; availablePoints: number };
+  weapons: { current: string; unlocked: string[]; abilities: string[] };
+  lore: string[];
+  enemiesKilled: [string, number][];
+  bossesDefeated: string[];
+  itemsCollected: number;
+  sessionId: string | null;
+  owner: string | null; // Wallet that opened sessionId
+  validatorSession: ValidatorSession | null; // Opened by owner as well
+}
+
+type Migration = (save: Record<string, unknown>) => Record<string, unknown>;
+
+// migrations[n] upgrades a version n save to version n + 1. Bump SAVE_VERSION
+// and add an entry here whenever the format changes
+const migrations: Record<number, Migration> = {
+  // v2 tracks the on-chain GameSession, older runs never opened one
+  1: (save) => ({ ...save, itemsCollected: 0, sessionId: null }),
+  // v3 records which wallet opened the session. Unknown for older saves, so
+  // their session is dropped rather than handed to whoever continues
+  2: (save) => ({ ...save, sessionId: null, owner: null }),
+  // v4 keeps the validator session that seeded the run
+  3: (save) => ({ ...save, validatorSession: null }),
+};
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isValidatorSession = (value: unknown): value is ValidatorSession =>
+  isRecord(value) &&
+  typeof value.sessionId === 'string' &&
+  isNumber(value.clockOffset);
+
+// Everything restoreGameState reads, a save that fails this is treated as
+// no save at all
+const isSaveGame = (save: Record<string, unknown>): boolean => {
+  const { times, skills, weapons, enemiesKilled } = save;
+
+  return (
+    isNumber(save.savedAt) &&
+    typeof save.seed === 'string' &&
+    isNumber(save.level) &&
+    isNumber(save.score) &&
+    isNumber(save.totalLives) &&
+    isNumber(save.playerHealth) &&
+    isNumber(save.maxPlayerHealth) &&
+    isNumber(save.playerMana) &&
+    isNumber(save.maxPlayerMana) &&
+    Array.isArray(times) &&
+    times.every(
+      (time) =>
+        isRecord(time) &&
+        isNumber(time.round) &&
+        isNumber(time.start) &&
+        (time.end === undefined || isNumber(time.end))
+    ) &&
+    isRecord(skills) &&
+    isRecord(skills.levels) &&
+    Object.values(skills.levels).every(isNumber) &&
+    isNumber(skills.availablePoints) &&
+    isRecord(weapons) &&
+    typeof weapons.current === 'string' &&
+    isStringArray(weapons.unlocked) &&
+    isStringArray(weapons.abilities) &&
+    isStringArray(save.lore) &&
+    Array.isArray(enemiesKilled) &&
+    enemiesKilled.every(
+      (entry) =>
+        Array.isArray(entry) &&
+        entry.length === 2 &&
+        typeof entry[0] === 'string' &&
+        isNumber(entry[1])
+    ) &&
+    isStringArray(save.bossesDefeated) &&
+    isNumber(save.itemsCollected) &&
+    (save.sessionId === null || typeof save.sessionId === 'string') &&
+    (save.owner === null || typeof save.owner === 'string') &&
+    (save.validatorSession === null ||
+      isValidatorSession(save.validatorSession))
+  );
+};
+
+export const serializeGameState = (state: GameState): SaveGame => {
+  const weaponManager = state.weaponManager;
+
+  return {
+    version: SAVE_VERSION,
+    savedAt: Date.now(),
+    seed: state.seed,
+    level: state.level,
+    score: state.score,
+    totalLives: state.totalLives,
+    playerHealth: state.playerHealth,
+    maxPlayerHealth: state.maxPlayerHealth,
+    playerMana: state.playerMana,
+    maxPlayerMana: state.maxPlayerMana,
+    times: state.times.map((time) => ({ ...time })),
+    skills: {
+      levels: state.skillManager.getSkillLevels(),
+      availablePoints: state.skillManager.getAvailablePoints(),
+    },
+    weapons: {
+      current: weaponManager.getCurrentWeapon().id,
+      unlocked: weaponManager.getUnlockedWeapons().map((w) => w.id),
+      abilities: weaponManager.getEquippedAbilities().map((a) => a.id),
+    },
+    lore: state.loreManager.getDiscoveredIds(),
+    enemiesKilled: Array.from(state.enemiesKilled.entries()),
+    bossesDefeated: Array.from(state.bossesDefeated),
+    itemsCollected: state.itemsCollected,
+    sessionId: state.sessionId,
+    owner: state.sessionOwner,
+    validatorSession: state.validatorSession,
+  };
+};
+
+// Bring a stored save up to SAVE_VERSION. Returns null for anything that
+// can't be read, including saves from a newer client
+export const migrateSave = (raw: unknown): SaveGame | null => {
+  if (!raw || typeof raw !== 'object') return null;
+
+  let save = raw as Record<string, unknown>;
+  let version = typeof save.version === 'number' ? save.version : 0;
+  if (version > SAVE_VERSION) return null;
+
+  while (version < SAVE_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) return null;
+    save = migrate(save);
+    version++;
+  }
+
+  if (!isSaveGame(save)) return null;
+  return { ...save, version } as unknown as SaveGame;
+};
+
+// The sessions are only carried over for the wallet that opened them, anyone
+// else continuing the run starts a new one
+export const restoreGameState = (
+  state: GameState,
+  save: SaveGame,
+  owner: string
+) => {
+  state.reset();
+  state.setSeed(save.seed);
+  state.level = save.level;
+  state.score = save.score;
+  state.totalLives = save.totalLives;
+  state.maxPlayerHealth = save.maxPlayerHealth;
+  state.playerHealth = save.playerHealth;
+  state.maxPlayerMana = save.maxPlayerMana;
+  state.playerMana = save.playerMana;
+  state.times = save.times.map((time) => ({ ...time }));
+  state.skillManager.restore(save.skills.levels, save.skills.availablePoints);
+  state.weaponManager.restore(
+    save.weapons.current,
+    save.weapons.unlocked,
+    save.weapons.abilities
+  );
+  // Lore belongs to the wallet, so anything found since the save is kept
+  state.loreManager.restoreDiscoveries(save.lore);
+  save.enemiesKilled.forEach(([type, count]) => {
+    state.enemiesKilled.set(type, count);
+  });
+  save.bossesDefeated.forEach((boss) => {
+    state.bossesDefeated.add(boss);
+  });
+  state.itemsCollected = save.itemsCollected;
+  if (save.owner === owner) {
+    state.setSessionId(save.sessionId, owner);
+    state.setValidatorSession(save.validatorSession);
+  }
+};
+
+export const saveRun = (save: SaveGame): Promise<boolean> => {
+  return mobileOptimization.saveGameState(save);
+};
+
+export const loadRun = async (): Promise<SaveGame | null> => {
+  return migrateSave(await mobileOptimization.loadGameState());
+};
+
+export const clearRun = (): Promise<boolean> => {
+  return mobileOptimization.clearGameState();
+};
@@ -18,6 +18,7 @@ export interface GhostRun {
   };
   difficulty: 'normal' | 'hard' | 'nightmare' | 'hell';
   isSuccessful: boolean;
+  replay?: string; // Serialized input log, see serializeReplay
 }
 
 export interface GhostAction {
@@ -1,6 +1,7 @@
 // Boss enemy types for procedural boss fights every 5 levels
 export interface BossType {
   key: string;
+  spriteKey: string; // Enemy spritesheet the boss is drawn with
   maxHealth: number;
   dps: number;
   movementSpeed: number;
@@ -15,6 +16,7 @@ export interface BossType {
 export const bosses: BossType[] = [
   {
     key: 'skeleton-king',
+    spriteKey: 'skeleton',
     maxHealth: 500,
     dps: 15,
     movementSpeed: 80,
@@ -27,6 +29,7 @@ export const bosses: BossType[] = [
   },
   {
     key: 'shadow-lord',
+    spriteKey: 'shadow-beast',
     maxHealth: 800,
     dps: 20,
     movementSpeed: 120,
@@ -39,6 +42,7 @@ export const bosses: BossType[] = [
   },
   {
     key: 'elemental-titan',
+    spriteKey: 'elemental-wraith',
     maxHealth: 1000,
     dps: 25,
     movementSpeed: 60,
@@ -51,6 +55,7 @@ export const bosses: BossType[] = [
   },
   {
     key: 'necro-overlord',
+    spriteKey: 'necromancer',
     maxHealth: 1200,
     dps: 18,
     movementSpeed: 50,
@@ -1,23 +1,4 @@
-import Dungeon from '@mikewesthad/dungeon';
-
-const mapWidth = (level: number) => 50 + level ** 2 + 10 * level; // 50 61 74 89 106 125
-const mapHeight = (level: number) => 50 + level ** 2 + 10 * level; // 50 61 74 89 106 125
-const doorPadding = 4;
-const roomConfig = () => {
-  return {
-    width: { min: 7, max: 15, onlyOdd: true },
-    height: { min: 7, max: 15, onlyOdd: true },
-  };
-};
-
-export const generateDungeon = (level: number): Dungeon => {
-  return new Dungeon({
-    width: mapWidth(level),
-    height: mapHeight(level),
-    doorPadding,
-    rooms: roomConfig(),
-  });
-};
+import type { RandomFn } from '@repo/security/random';
 
 export interface CoinType {
   key: string;
@@ -59,10 +40,10 @@ export const coins: CoinType[] = [
   },
 ];
 
-export const pickRandomCoin = () => {
+export const pickRandomCoin = (random: RandomFn = Math.random) => {
   // Pick random coin based on weight, more weight = more likely to be picked
   const totalWeight = coins.reduce((acc, coin) => acc + coin.weight, 0);
-  const rand = Math.random() * totalWeight;
+  const rand = random() * totalWeight;
   let runningWeight = 0;
   for (const coin of coins) {
     runningWeight += coin.weight;
@@ -145,10 +126,12 @@ export const enemies: EnemyType[] = [
   },
 ];
 
-export const pickRandomEnemy = (): EnemyType => {
+export const pickRandomEnemy = (
+  random: RandomFn = Math.random
+): EnemyType => {
   // Pick random enemy based on weight, more weight = more likely to be picked
   const totalWeight = enemies.reduce((acc, enemy) => acc + enemy.weight, 0);
-  const rand = Math.random() * totalWeight;
+  const rand = random() * totalWeight;
   let runningWeight = 0;
   for (const enemy of enemies) {
     runningWeight += enemy.weight;
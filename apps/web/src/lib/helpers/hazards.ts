@@ -1,5 +1,7 @@
 // Environmental hazards system for dungeon variety
 
+import type { RandomFn } from '@repo/security/random';
+
 export interface Hazard {
   type: 'trap' | 'darkness' | 'corruption' | 'poison' | 'fire';
   damage: number;
@@ -119,6 +121,19 @@ export class HazardManager {
     return Array.from(this.activeHazards.values());
   }
 
+  // One-shot traps are removed once triggered
+  hasHazard(id: string): boolean {
+    return this.activeHazards.has(id);
+  }
+
+  hasStatusEffects(): boolean {
+    return this.statusEffects.size > 0;
+  }
+
+  clearStatusEffects() {
+    this.statusEffects.clear();
+  }
+
   clearHazards() {
     this.activeHazards.clear();
     this.statusEffects.clear();
@@ -130,7 +145,8 @@ export class HazardManager {
     roomY: number,
     roomWidth: number,
     roomHeight: number,
-    level: number
+    level: number,
+    random: RandomFn = Math.random
   ): Array<{ id: string; x: number; y: number; type: string }> {
     const hazards: Array<{ id: string; x: number; y: number; type: string }> = [];
     const hazardCount = Math.min(Math.floor(level / 2) + 1, 5);
@@ -139,9 +155,9 @@ export class HazardManager {
 
     for (let i = 0; i < hazardCount; i++) {
       const hazardType =
-        availableHazards[Math.floor(Math.random() * availableHazards.length)];
-      const x = roomX + Math.random() * roomWidth;
-      const y = roomY + Math.random() * roomHeight;
+        availableHazards[Math.floor(random() * availableHazards.length)];
+      const x = roomX + random() * roomWidth;
+      const y = roomY + random() * roomHeight;
       const id = `hazard-${roomX}-${roomY}-${i}`;
 
       hazards.push({ id, x, y, type: hazardType! });
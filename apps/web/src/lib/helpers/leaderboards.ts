@@ -1,4 +1,12 @@
 // Shared Leaderboards with Rewards System
+import {
+  type IndexedAchievement,
+  type IndexedGame,
+  type IndexedSplits,
+  eventIndexer,
+} from '../onechain/indexer';
+import { guildManager } from './guilds';
+import { getPersonalBest } from './splits';
 
 export interface LeaderboardEntry {
   rank: number;
@@ -13,6 +21,7 @@ export interface LeaderboardEntry {
   lastUpdated: number;
   streak: number; // Consecutive days played
   achievements: string[];
+  time?: number; // ms, speed-run boards only
 }
 
 export interface LeaderboardReward {
@@ -30,8 +39,7 @@ export type LeaderboardType =
   | 'monthly'
   | 'guild'
   | 'boss_kills'
-  | 'speed_run'
-  | 'hardcore';
+  | 'speed_run';
 
 export interface LeaderboardSeason {
   id: string;
@@ -48,11 +56,13 @@ export class LeaderboardManager {
   private leaderboards: Map<LeaderboardType, LeaderboardEntry[]>;
   private seasons: Map<string, LeaderboardSeason>;
   private userEntries: Map<string, Map<LeaderboardType, LeaderboardEntry>>;
+  private speedRuns: IndexedSplits[];
 
   constructor() {
     this.leaderboards = new Map();
     this.seasons = new Map();
     this.userEntries = new Map();
+    this.speedRuns = [];
 
     // Initialize leaderboard types
     const types: LeaderboardType[] = [
@@ -62,7 +72,6 @@ export class LeaderboardManager {
       'guild',
       'boss_kills',
       'speed_run',
-      'hardcore',
     ];
 
     types.forEach((type) => {
@@ -79,12 +88,15 @@ export class LeaderboardManager {
     type: LeaderboardType,
     durationDays: number
   ): LeaderboardSeason {
-    const now = Date.now();
+    // Seasons line up on fixed boundaries counted from the epoch, so every
+    // client agrees on when the current one started and when it ends
+    const duration = durationDays * 24 * 60 * 60 * 1000;
+    const startTime = Math.floor(Date.now() / duration) * duration;
     const season: LeaderboardSeason = {
-      id: `season-${type}-${now}`,
+      id: `season-${type}-${startTime}`,
       type,
-      startTime: now,
-      endTime: now + durationDays * 24 * 60 * 60 * 1000,
+      startTime,
+      endTime: startTime + duration,
       status: 'active',
       totalPrizePool: this.calculatePrizePool(type),
       entries: [],
@@ -103,7 +115,6 @@ export class LeaderboardManager {
       guild: BigInt(100000),
       boss_kills: BigInt(75000),
       speed_run: BigInt(50000),
-      hardcore: BigInt(150000),
     };
 
     return basePools[type];
@@ -251,6 +262,17 @@ export class LeaderboardManager {
     const leaderboard = this.leaderboards.get(type);
     if (!leaderboard) return;
 
+    // Speed runs rank the deepest full clear first, then the fastest one
+    if (type === 'speed_run') {
+      leaderboard.sort(
+        (a, b) => b.level - a.level || (a.time ?? 0) - (b.time ?? 0)
+      );
+      leaderboard.forEach((entry, index) => {
+        entry.rank = index + 1;
+      });
+      return;
+    }
+
     // Sort by score descending
     leaderboard.sort((a, b) => {
       if (a.score > b.score) return -1;
@@ -264,6 +286,177 @@ export class LeaderboardManager {
     });
   }
 
+  // Rebuild the boards from the local event index. Score boards keep each
+  // player's best run and seasonal boards only count runs inside the season.
+  // boss_kills adds up the bosses each completed session recorded
+  async loadFromIndex(): Promise<void> {
+    this.endExpiredSeasons();
+
+    const games = await eventIndexer.getCompletedGames();
+    const achievements = await eventIndexer.getAchievements();
+
+    const types: LeaderboardType[] = [
+      'global',
+      'weekly',
+      'monthly',
+      'guild',
+      'boss_kills',
+    ];
+
+    types.forEach((type) => {
+      const since = this.getActiveSeason(type)?.startTime ?? 0;
+      const byPlayer = new Map<string, IndexedGame[]>();
+      games
+        .filter((game) => game.timestamp >= since)
+        .forEach((game) => {
+          const played = byPlayer.get(game.player) ?? [];
+          played.push(game);
+          byPlayer.set(game.player, played);
+        });
+
+      let entries = Array.from(byPlayer.entries()).map(([address, played]) =>
+        this.buildEntry(address, played, achievements)
+      );
+      if (type === 'guild') {
+        entries = entries.filter((entry) => entry.guildId);
+      }
+      if (type === 'boss_kills') {
+        entries.forEach((entry) => {
+          entry.score = BigInt(entry.bossesDefeated);
+        });
+      }
+
+      this.setBoard(type, entries);
+    });
+
+    this.speedRuns = await eventIndexer.getSplits();
+    const speedRunEntries: LeaderboardEntry[] = [];
+    this.groupSpeedRuns().forEach((runs, address) => {
+      const { through } = getPersonalBest(runs);
+      if (through.size === 0) return;
+      const level = Math.max(...through.keys());
+      speedRunEntries.push(
+        this.speedRunEntry(address, level, through.get(level)!, runs)
+      );
+    });
+    this.setBoard('speed_run', speedRunEntries);
+  }
+
+  private setBoard(type: LeaderboardType, entries: LeaderboardEntry[]) {
+    this.leaderboards.set(type, entries);
+    this.recalculateRanks(type);
+    entries.forEach((entry) => {
+      const userEntries = this.userEntries.get(entry.address) || new Map();
+      userEntries.set(type, entry);
+      this.userEntries.set(entry.address, userEntries);
+    });
+  }
+
+  private groupSpeedRuns(): Map<string, IndexedSplits[]> {
+    const byPlayer = new Map<string, IndexedSplits[]>();
+    this.speedRuns.forEach((run) => {
+      const runs = byPlayer.get(run.player) ?? [];
+      runs.push(run);
+      byPlayer.set(run.player, runs);
+    });
+    return byPlayer;
+  }
+
+  private speedRunEntry(
+    address: string,
+    level: number,
+    time: number,
+    runs: IndexedSplits[]
+  ): LeaderboardEntry {
+    return {
+      rank: 0,
+      address,
+      name: `${address.slice(0, 6)}...${address.slice(-4)}`,
+      score: BigInt(0),
+      level,
+      bossesDefeated: 0,
+      dungeonsCleared: runs.length,
+      lastUpdated: Math.max(...runs.map((run) => run.timestamp)),
+      streak: 0,
+      achievements: [],
+      time,
+    };
+  }
+
+  // Fastest clear of a single level, or of levels 1 through it, per player
+  getSpeedRunBoard(
+    level: number,
+    scope: 'level' | 'through',
+    limit: number = 100
+  ): LeaderboardEntry[] {
+    const entries: LeaderboardEntry[] = [];
+    this.groupSpeedRuns().forEach((runs, address) => {
+      const best = getPersonalBest(runs);
+      const time = (scope === 'level' ? best.segments : best.through).get(
+        level
+      );
+      if (time !== undefined) {
+        entries.push(this.speedRunEntry(address, level, time, runs));
+      }
+    });
+
+    entries.sort((a, b) => a.time! - b.time!);
+    entries.forEach((entry, index) => {
+      entry.rank = index + 1;
+    });
+    return entries.slice(0, limit);
+  }
+
+  // Deepest level anyone has a recorded clear of
+  getSpeedRunDepth(): number {
+    return this.speedRuns.reduce(
+      (depth, run) => Math.max(depth, run.startLevel + run.splits.length - 1),
+      0
+    );
+  }
+
+  private buildEntry(
+    address: string,
+    games: IndexedGame[],
+    achievements: IndexedAchievement[]
+  ): LeaderboardEntry {
+    const best = games.reduce((a, b) => (b.score > a.score ? b : a));
+    const guild = guildManager.getUserGuild(address);
+    const bossesDefeated = games.reduce(
+      (total, game) => total + game.bossesDefeated,
+      0
+    );
+
+    return {
+      rank: 0,
+      address,
+      name: `${address.slice(0, 6)}...${address.slice(-4)}`,
+      score: BigInt(best.score),
+      level: best.level,
+      bossesDefeated,
+      dungeonsCleared: games.length,
+      guildId: guild?.id,
+      guildName: guild?.name,
+      lastUpdated: Math.max(...games.map((game) => game.timestamp)),
+      streak: this.calculateStreak(games),
+      achievements: achievements
+        .filter((achievement) => achievement.player === address)
+        .map((achievement) => achievement.name),
+    };
+  }
+
+  // Consecutive days played, counting back from the most recent game
+  private calculateStreak(games: IndexedGame[]): number {
+    const day = 24 * 60 * 60 * 1000;
+    const days = new Set(
+      games.map((game) => Math.floor(game.timestamp / day))
+    );
+    const latest = Math.max(...days);
+    let streak = 0;
+    while (days.has(latest - streak)) streak++;
+    return streak;
+  }
+
   // Get leaderboard
   getLeaderboard(
     type: LeaderboardType,
@@ -363,6 +556,26 @@ export class LeaderboardManager {
     return Array.from(this.seasons.values()).filter((s) => s.status === 'active');
   }
 
+  // Close seasons whose time is up, endSeason opens the next one
+  endExpiredSeasons() {
+    const now = Date.now();
+    this.getActiveSeasons()
+      .filter((season) => season.endTime <= now)
+      .forEach((season) => {
+        this.endSeason(season.id);
+      });
+  }
+
+  // Get the running season for a leaderboard type, if it has seasons
+  getActiveSeason(type: LeaderboardType): LeaderboardSeason | undefined {
+    return this.getActiveSeasons().find((s) => s.type === type);
+  }
+
+  // Reward tiers for a leaderboard, from its season when it has one
+  getRewardTiers(type: LeaderboardType): LeaderboardReward[] {
+    return this.getActiveSeason(type)?.rewards ?? this.generateRewards(type);
+  }
+
   // Get season by ID
   getSeason(seasonId: string): LeaderboardSeason | undefined {
     return this.seasons.get(seasonId);
@@ -164,8 +164,46 @@ export const loreEntries: LoreEntry[] = [
     unlockCondition: { type: 'level', value: 4 },
     discovered: false,
   },
+  {
+    id: 'ruby-lore',
+    title: 'Blood of the Guard',
+    content:
+      'Rubies only form where a Realm Guard fell defending the Veil. Miners once refused to touch them. Now they\'re the first thing a Shadow-Walker reaches for—a sliver of a soldier\'s resolve, still warm.',
+    type: 'item',
+    unlockCondition: { type: 'item_found', value: 'ruby' },
+    discovered: false,
+  },
+  {
+    id: 'diamond-lore',
+    title: 'Tears of the Veil',
+    content:
+      'Diamonds are the rarest essence of all: shards of the Veil itself, frozen the moment it shattered. Hold one up to the light and you can almost see the realms as they were, whole and unbroken.',
+    type: 'item',
+    unlockCondition: { type: 'item_found', value: 'diamond' },
+    discovered: false,
+  },
 ];
 
+const storageKey = (address: string) => `shadow_stake_saga_lore_${address}`;
+
+// Discoveries are kept per wallet so the codex survives across sessions
+export const loadLoreDiscoveries = (address: string): string[] => {
+  const stored = localStorage.getItem(storageKey(address));
+  if (!stored) return [];
+  try {
+    const ids = JSON.parse(stored) as unknown;
+    return Array.isArray(ids)
+      ? ids.filter((id): id is string => typeof id === 'string')
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveLoreDiscoveries = (address: string, ids: string[]) => {
+  localStorage.setItem(storageKey(address), JSON.stringify(ids));
+};
+
 export class LoreManager {
   private entries: Map<string, LoreEntry>;
   private newDiscoveries: LoreEntry[];
@@ -199,6 +237,19 @@ export class LoreManager {
     return unlocked;
   }
 
+  // Add a wallet's earlier discoveries, keeping anything found before it
+  // connected
+  restoreDiscoveries(ids: string[]) {
+    this.entries.forEach((entry) => {
+      if (ids.includes(entry.id)) entry.discovered = true;
+    });
+    this.newDiscoveries = [];
+  }
+
+  getDiscoveredIds(): string[] {
+    return this.getDiscoveredEntries().map((e) => e.id);
+  }
+
   getDiscoveredEntries(): LoreEntry[] {
     return Array.from(this.entries.values()).filter((e) => e.discovered);
   }
@@ -1,23 +1,84 @@
-// Trading and Marketplace System
+// Trading and Marketplace System, a client over the marketplace Move module.
+// Listings, auctions and offers live on chain, this keeps an index of the
+// module's events so listings can be searched and ranked without a query per
+// item
+
+import type { EventId, SuiClient, SuiEvent } from '@mysten/sui/client';
+import { Transaction } from '@mysten/sui/transactions';
+import { normalizeStructTag, normalizeSuiAddress } from '@mysten/sui/utils';
+import { checkRateLimit } from '@repo/security/rate-limiter';
+
+import { CONTRACTS, onechainClient } from '~/lib/onechain/client';
+import {
+  MARKET_MODULE,
+  type MarketCurrency,
+  type MarketItemKind,
+  addAcceptOfferCall,
+  addBidCall,
+  addBuyDutchCall,
+  addBuyItemCall,
+  addCancelAuctionCall,
+  addCancelListingCall,
+  addCoinPayment,
+  addCreateDutchAuctionCall,
+  addCreateEnglishAuctionCall,
+  addDgnPayment,
+  addListItemCall,
+  addMakeOfferCall,
+  addRejectOfferCall,
+  addSettleAuctionCall,
+  addWithdrawOfferCall,
+  marketCoins,
+  marketCurrencies,
+  marketItemStructs,
+  marketItemType,
+  offerOutcomes,
+} from '~/lib/onechain/marketplace';
 
-import type { Relic } from './nft-relics';
-import type { Weapon } from './weapons';
 import { tokenBurnManager } from './tokenomics';
 
 export interface MarketplaceListing {
-  id: string;
+  id: string; // Listing object
   seller: string;
-  itemType: 'relic' | 'weapon' | 'material' | 'consumable';
+  itemType: MarketItemKind;
+  moveType: string; // Type argument for the Move calls
   itemId: string;
-  itemData: Relic | Weapon | MarketplaceItem;
-  price: bigint;
-  currency: 'DGN' | 'STT' | 'USDO';
+  itemData: MarketplaceItem | null; // Null until read from the chain
+  mode: ListingMode;
+  price: bigint; // Highest bid or opening price for English auctions
+  currency: MarketCurrency; // Always DGN for auctions
   listedAt: number;
   expiresAt?: number;
   status: 'active' | 'sold' | 'cancelled' | 'expired';
   views: number;
 }
 
+export interface Bid {
+  bidder: string;
+  amount: bigint;
+  timestamp: number;
+  refunded: boolean; // Outbid, or the auction closed below reserve
+}
+
+// How a listing sells: at a fixed price, to the highest bidder, or at a
+// price that falls until someone buys
+export type ListingMode =
+  | { kind: 'fixed' }
+  | {
+      kind: 'english';
+      startPrice: bigint;
+      reservePrice: bigint;
+      minIncrement: bigint;
+      extensionMs: number; // Late bids push the end back by this much
+      bids: Bid[];
+    }
+  | {
+      kind: 'dutch';
+      startPrice: bigint;
+      endPrice: bigint;
+      startsAt: number;
+    };
+
 export interface MarketplaceItem {
   id: string;
   name: string;
@@ -32,95 +93,599 @@ export interface Trade {
   seller: string;
   listingId: string;
   price: bigint;
-  currency: string;
-  fee: bigint;
+  currency: MarketCurrency;
+  fee: bigint; // Burned when in DGN
   timestamp: number;
   txHash?: string;
 }
 
 export interface Offer {
-  id: string;
+  id: string; // Offer object
   listingId: string;
   buyer: string;
   amount: bigint;
-  currency: 'DGN' | 'STT' | 'USDO';
+  currency: MarketCurrency; // The listing's
   message?: string;
-  status: 'pending' | 'accepted' | 'rejected' | 'expired';
+  status: 'pending' | 'accepted' | 'rejected' | 'withdrawn' | 'expired';
   createdAt: number;
   expiresAt: number;
 }
 
+// A transaction ready for the wallet to sign, or why one couldn't be built
+export interface MarketplaceAction {
+  success: boolean;
+  message: string;
+  transaction?: Transaction;
+}
+
+const PAGE_SIZE = 50;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const MAX_EXTENSION_MINUTES = 60; // MAX_EXTENSION_MS in marketplace.move
+const SWEEP_INTERVAL_MS = 30000;
+
+const unitOf = (currency: MarketCurrency) =>
+  BigInt(10) ** BigInt(marketCoins[currency].decimals);
+
+// Base units to a display amount, e.g. 1500000000n -> '1.5' DGN
+export const formatPrice = (
+  amount: bigint,
+  currency: MarketCurrency = 'DGN'
+): string => {
+  const { decimals } = marketCoins[currency];
+  const unit = unitOf(currency);
+  const fraction = (amount % unit)
+    .toString()
+    .padStart(decimals, '0')
+    .replace(/0+$/, '');
+  return `${(amount / unit).toLocaleString()}${fraction ? `.${fraction}` : ''}`;
+};
+
+// A display amount back to base units, null if it isn't a number
+export const parsePrice = (
+  value: string,
+  currency: MarketCurrency = 'DGN'
+): bigint | null => {
+  const { decimals } = marketCoins[currency];
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(value.trim());
+  if (!match || (!match[1] && !match[2])) return null;
+  const fraction = (match[2] ?? '').slice(0, decimals);
+  return (
+    BigInt(match[1] || '0') * unitOf(currency) +
+    BigInt(fraction.padEnd(decimals, '0'))
+  );
+};
+
+// Currencies the marketplace can trade in here, the ones with a coin type
+export const tradedCurrencies = marketCurrencies.filter(
+  (currency) => marketCoins[currency].coinType
+);
+
+// Only listings in a traded currency are indexed, so this is always set
+const coinTypeOf = (currency: MarketCurrency) =>
+  marketCoins[currency].coinType!;
+
+// Mirrors dutch_price in marketplace.move
+const dutchPrice = (
+  startPrice: bigint,
+  endPrice: bigint,
+  startsAt: number,
+  endsAt: number,
+  now: number
+): bigint => {
+  if (now >= endsAt) return endPrice;
+  const elapsed = BigInt(Math.max(0, now - startsAt));
+  const duration = BigInt(endsAt - startsAt);
+  return startPrice - ((startPrice - endPrice) * elapsed) / duration;
+};
+
+const rarities: MarketplaceItem['rarity'][] = [
+  'common',
+  'rare',
+  'epic',
+  'legendary',
+  'mythic',
+];
+
+const asRarity = (value: unknown): MarketplaceItem['rarity'] => {
+  const rarity = String(value ?? '').toLowerCase();
+  return rarities.find((r) => r === rarity) ?? 'common';
+};
+
+// Struct fields of a Move object as returned with showContent
+const moveFields = (value: unknown): Record<string, unknown> | null => {
+  const content = value as { fields?: unknown } | null | undefined;
+  return content?.fields && typeof content.fields === 'object'
+    ? (content.fields as Record<string, unknown>)
+    : null;
+};
+
+// The item wrapped in a Listing, described the same way for every kind
+const describeItem = (
+  kind: MarketItemKind,
+  itemId: string,
+  fields: Record<string, unknown>
+): MarketplaceItem => {
+  const image = String(fields.image_url ?? '');
+  switch (kind) {
+    case 'weapon':
+      return {
+        id: itemId,
+        name: String(fields.name ?? 'Weapon'),
+        description: `${String(fields.weapon_type)}, ${String(fields.damage)} damage`,
+        rarity: asRarity(fields.rarity),
+        image,
+      };
+    case 'armor':
+      return {
+        id: itemId,
+        name: String(fields.name ?? 'Armor'),
+        description: `${String(fields.armor_type)}, ${String(fields.defense)} defense`,
+        rarity: asRarity(fields.rarity),
+        image,
+      };
+    case 'relic':
+      return {
+        id: itemId,
+        name: String(fields.name ?? 'Relic'),
+        description: String(fields.description ?? ''),
+        rarity: asRarity(fields.rarity),
+        image,
+      };
+    case 'trophy':
+      return {
+        id: itemId,
+        name: `${String(fields.boss_name)} Trophy`,
+        description: `Defeated on difficulty ${String(fields.difficulty)}`,
+        rarity: 'legendary',
+        image,
+      };
+  }
+};
+
 export class MarketplaceManager {
+  private client: SuiClient;
   private listings: Map<string, MarketplaceListing>;
   private trades: Trade[];
-  private offers: Map<string, Offer[]>;
+  private offers: Map<string, Offer[]>; // listingId -> offers
   private userListings: Map<string, string[]>; // userAddress -> listingIds
-  private marketplaceFeePercent = 5; // 5% fee
+  private marketplaceFeePercent = 5; // 5% fee, burned on chain when in DGN
+  private cursor: EventId | null;
+  private syncing: Promise<void> | null;
 
-  constructor() {
+  constructor(client: SuiClient = onechainClient) {
+    this.client = client;
     this.listings = new Map();
     this.trades = [];
     this.offers = new Map();
     this.userListings = new Map();
+    this.cursor = null;
+    this.syncing = null;
   }
 
-  // Create a new listing
-  createListing(
-    seller: string,
-    itemType: MarketplaceListing['itemType'],
-    itemId: string,
-    itemData: MarketplaceListing['itemData'],
-    price: bigint,
-    currency: 'DGN' | 'STT' | 'USDO' = 'DGN',
-    durationDays: number = 7
-  ): {
-    success: boolean;
-    message: string;
-    listing?: MarketplaceListing;
-  } {
-    if (price <= BigInt(0)) {
-      return { success: false, message: 'Price must be greater than 0' };
+  // Item kind for a type name from an ItemListed event, null for anything
+  // that isn't one of our NFTs
+  private kindOf(typeName: string): MarketItemKind | null {
+    const [address, module, struct] = typeName.split('::');
+    if (
+      !address ||
+      module !== 'nft_items' ||
+      normalizeSuiAddress(address) !==
+        normalizeSuiAddress(CONTRACTS.GAME_PACKAGE)
+    ) {
+      return null;
     }
+    const entry = Object.entries(marketItemStructs).find(
+      ([, name]) => name === struct
+    );
+    return entry ? (entry[0] as MarketItemKind) : null;
+  }
+
+  // Currency for a coin type name from an event, null for coins we don't
+  // trade in
+  private currencyOf(typeName: string): MarketCurrency | null {
+    const coinType = normalizeStructTag(typeName);
+    return (
+      tradedCurrencies.find(
+        (currency) => normalizeStructTag(coinTypeOf(currency)) === coinType
+      ) ?? null
+    );
+  }
+
+  private findOffer(offerId: string): Offer | undefined {
+    for (const offers of this.offers.values()) {
+      const offer = offers.find((o) => o.id === offerId);
+      if (offer) return offer;
+    }
+    return undefined;
+  }
+
+  // Index a listing or auction from its creation event
+  private addListing(
+    id: string,
+    json: Record<string, unknown>,
+    mode: ListingMode,
+    price: bigint,
+    expiresAt: number,
+    timestamp: number
+  ) {
+    const itemType = this.kindOf(String(json.item_type ?? ''));
+    // Auction events carry no currency, auctions are in DGN
+    const currency =
+      json.currency === undefined
+        ? 'DGN'
+        : this.currencyOf(String(json.currency));
+    if (!itemType || !currency) return;
 
     const listing: MarketplaceListing = {
-      id: `listing-${Date.now()}-${Math.random()}`,
-      seller,
+      id,
+      seller: String(json.seller),
       itemType,
-      itemId,
-      itemData,
+      moveType: marketItemType(itemType),
+      itemId: String(json.item_id),
+      itemData: null,
+      mode,
       price,
       currency,
-      listedAt: Date.now(),
-      expiresAt: Date.now() + durationDays * 24 * 60 * 60 * 1000,
+      listedAt: timestamp,
+      expiresAt,
       status: 'active',
       views: 0,
     };
-
     this.listings.set(listing.id, listing);
 
-    // Track user listings
-    const userListingIds = this.userListings.get(seller) || [];
+    const userListingIds = this.userListings.get(listing.seller) || [];
     userListingIds.push(listing.id);
-    this.userListings.set(seller, userListingIds);
+    this.userListings.set(listing.seller, userListingIds);
+  }
+
+  private applyEvent(event: SuiEvent) {
+    const json = (event.parsedJson ?? {}) as Record<string, unknown>;
+    const name = event.type.split('::').pop();
+    const timestamp = Number(json.timestamp ?? event.timestampMs ?? 0);
+    const amount = (value: unknown) => BigInt(String(value ?? 0));
+
+    switch (name) {
+      case 'ItemListed': {
+        this.addListing(
+          String(json.listing_id),
+          json,
+          { kind: 'fixed' },
+          amount(json.price),
+          Number(json.expires_at),
+          timestamp
+        );
+        return;
+      }
+
+      case 'EnglishAuctionCreated': {
+        const startPrice = amount(json.start_price);
+        this.addListing(
+          String(json.auction_id),
+          json,
+          {
+            kind: 'english',
+            startPrice,
+            reservePrice: amount(json.reserve_price),
+            minIncrement: amount(json.min_increment),
+            extensionMs: Number(json.extension_ms),
+            bids: [],
+          },
+          startPrice,
+          Number(json.ends_at),
+          timestamp
+        );
+        return;
+      }
+
+      case 'DutchAuctionCreated': {
+        const startPrice = amount(json.start_price);
+        this.addListing(
+          String(json.auction_id),
+          json,
+          {
+            kind: 'dutch',
+            startPrice,
+            endPrice: amount(json.end_price),
+            startsAt: Number(json.starts_at),
+          },
+          startPrice,
+          Number(json.ends_at),
+          timestamp
+        );
+        return;
+      }
+
+      case 'BidPlaced': {
+        const listing = this.listings.get(String(json.auction_id));
+        if (listing?.mode.kind !== 'english') return;
+
+        listing.mode.bids.push({
+          bidder: String(json.bidder),
+          amount: amount(json.amount),
+          timestamp,
+          refunded: false,
+        });
+        listing.price = amount(json.amount);
+        listing.expiresAt = Number(json.ends_at);
+        // A late bid can reopen an auction the sweep already saw end
+        if (listing.status === 'expired') listing.status = 'active';
+        return;
+      }
+
+      case 'BidRefunded': {
+        const listing = this.listings.get(String(json.auction_id));
+        if (listing?.mode.kind !== 'english') return;
+
+        const bid = listing.mode.bids.find(
+          (b) =>
+            !b.refunded &&
+            b.bidder === String(json.bidder) &&
+            b.amount === amount(json.amount)
+        );
+        if (bid) bid.refunded = true;
+        return;
+      }
+
+      case 'AuctionClosed': {
+        // Sales also emit ItemSold, which records the trade
+        const listing = this.listings.get(String(json.auction_id));
+        if (listing && !json.sold) listing.status = 'cancelled';
+        return;
+      }
+
+      case 'ItemSold': {
+        const listing = this.listings.get(String(json.listing_id));
+        if (listing) listing.status = 'sold';
+        const currency = this.currencyOf(String(json.currency ?? ''));
+        if (!currency) return;
+
+        const trade: Trade = {
+          id: `${event.id.txDigest}:${event.id.eventSeq}`,
+          buyer: String(json.buyer),
+          seller: String(json.seller),
+          listingId: String(json.listing_id),
+          price: BigInt(String(json.price ?? 0)),
+          currency,
+          fee: BigInt(String(json.fee ?? 0)),
+          timestamp,
+          txHash: event.id.txDigest,
+        };
+        this.trades.push(trade);
+        // Fees in other currencies are kept by the marketplace
+        if (currency === 'DGN') {
+          tokenBurnManager.recordBurn(
+            'marketplace_fee',
+            trade.fee,
+            trade.txHash
+          );
+        }
+        return;
+      }
+
+      case 'ListingCancelled': {
+        const listing = this.listings.get(String(json.listing_id));
+        if (listing) listing.status = 'cancelled';
+        return;
+      }
+
+      case 'OfferMade': {
+        // Offers are made in the listing's currency
+        const listing = this.listings.get(String(json.listing_id));
+        if (!listing) return;
+
+        const offer: Offer = {
+          id: String(json.offer_id),
+          listingId: String(json.listing_id),
+          buyer: String(json.buyer),
+          amount: BigInt(String(json.amount ?? 0)),
+          currency: listing.currency,
+          message: json.message ? String(json.message) : undefined,
+          status: 'pending',
+          createdAt: timestamp,
+          expiresAt: Number(json.expires_at),
+        };
+        const listingOffers = this.offers.get(offer.listingId) || [];
+        listingOffers.push(offer);
+        this.offers.set(offer.listingId, listingOffers);
+        return;
+      }
+
+      case 'OfferClosed': {
+        const offer = this.findOffer(String(json.offer_id));
+        const outcome = offerOutcomes[Number(json.outcome)];
+        if (offer && outcome) offer.status = outcome;
+        return;
+      }
+    }
+  }
+
+  // Fill in what the events don't carry from the Listing objects themselves
+  private async readListings(listings: MarketplaceListing[]) {
+    for (let i = 0; i < listings.length; i += PAGE_SIZE) {
+      const page = listings.slice(i, i + PAGE_SIZE);
+      const objects = await this.client.multiGetObjects({
+        ids: page.map((listing) => listing.id),
+        options: { showContent: true },
+      });
+
+      objects.forEach((object, index) => {
+        const listing = page[index]!;
+        const fields = moveFields(object.data?.content);
+        const item = moveFields(fields?.item);
+        if (!fields || !item) return;
+
+        if (listing.mode.kind === 'fixed') {
+          listing.price = BigInt(String(fields.price ?? listing.price));
+        }
+        listing.expiresAt = Number(
+          fields.expires_at ?? fields.ends_at ?? listing.expiresAt
+        );
+        listing.itemData = describeItem(listing.itemType, listing.itemId, item);
+      });
+    }
+  }
+
+  // Pull the marketplace events emitted since the last sync. Concurrent
+  // callers share one run
+  sync(): Promise<void> {
+    if (!this.syncing) {
+      this.syncing = (async () => {
+        let hasNextPage = true;
+        while (hasNextPage) {
+          const page = await this.client.queryEvents({
+            query: {
+              MoveEventModule: {
+                package: CONTRACTS.GAME_PACKAGE,
+                module: MARKET_MODULE,
+              },
+            },
+            cursor: this.cursor,
+            limit: PAGE_SIZE,
+            order: 'ascending',
+          });
+
+          page.data.forEach((event) => {
+            this.applyEvent(event);
+          });
+          this.cursor = page.nextCursor ?? this.cursor;
+          hasNextPage = page.hasNextPage;
+        }
+
+        await this.readListings(
+          Array.from(this.listings.values()).filter(
+            (listing) => listing.status === 'active' && !listing.itemData
+          )
+        );
+      })().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  // NFTs the wallet holds that could be listed
+  async getOwnedItems(
+    owner: string
+  ): Promise<{ itemType: MarketItemKind; item: MarketplaceItem }[]> {
+    const kinds = Object.keys(marketItemStructs) as MarketItemKind[];
+    const items: { itemType: MarketItemKind; item: MarketplaceItem }[] = [];
+    let cursor: string | null | undefined = null;
+
+    do {
+      const page = await this.client.getOwnedObjects({
+        owner,
+        filter: {
+          MatchAny: kinds.map((kind) => ({ StructType: marketItemType(kind) })),
+        },
+        options: { showContent: true, showType: true },
+        cursor,
+      });
+
+      page.data.forEach(({ data }) => {
+        const itemType = kinds.find((kind) =>
+          data?.type?.endsWith(`::nft_items::${marketItemStructs[kind]}`)
+        );
+        const fields = moveFields(data?.content);
+        if (data && itemType && fields) {
+          items.push({
+            itemType,
+            item: describeItem(itemType, data.objectId, fields),
+          });
+        }
+      });
+      cursor = page.hasNextPage ? page.nextCursor : null;
+    } while (cursor);
+
+    return items;
+  }
+
+  // Re-read a listing from the chain before acting on it. Sold and cancelled
+  // listings and auctions are deleted, so a missing object means it's gone
+  async refreshListing(
+    listingId: string
+  ): Promise<MarketplaceListing | undefined> {
+    const listing = this.listings.get(listingId);
+    // Expired ones still hold the item until cancelled or settled
+    if (
+      !listing ||
+      (listing.status !== 'active' && listing.status !== 'expired')
+    ) {
+      return listing;
+    }
+
+    const object = await this.client.getObject({
+      id: listingId,
+      options: { showContent: true },
+    });
+    if (!object.data) {
+      await this.sync();
+      return this.listings.get(listingId);
+    }
+
+    await this.readListings([listing]);
+    return listing;
+  }
+
+  private isExpired(listing: MarketplaceListing): boolean {
+    if (listing.expiresAt && Date.now() >= listing.expiresAt) {
+      if (listing.status === 'active') listing.status = 'expired';
+      return true;
+    }
+    return false;
+  }
+
+  // Escrow an owned NFT for sale in any traded currency. The fee is burned
+  // for DGN and kept by the marketplace otherwise
+  async createListing(
+    seller: string,
+    itemType: MarketItemKind,
+    itemId: string,
+    price: bigint,
+    currency: MarketCurrency = 'DGN',
+    durationDays: number = 7
+  ): Promise<MarketplaceAction> {
+    const limit = await checkRateLimit(seller, 'marketplace');
+    if (!limit.proceed) return { success: false, message: limit.error! };
+
+    if (!tradedCurrencies.includes(currency)) {
+      return { success: false, message: `${currency} isn't traded here` };
+    }
+
+    if (price <= BigInt(0)) {
+      return { success: false, message: 'Price must be greater than 0' };
+    }
+
+    if (durationDays <= 0 || durationDays > 30) {
+      return { success: false, message: 'Duration must be 1 to 30 days' };
+    }
+
+    const transaction = new Transaction();
+    addListItemCall(
+      transaction,
+      marketItemType(itemType),
+      coinTypeOf(currency),
+      itemId,
+      price,
+      durationDays * DAY_MS
+    );
 
     return {
       success: true,
-      message: 'Item listed successfully',
-      listing,
+      message: 'Listing ready to sign',
+      transaction,
     };
   }
 
-  // Buy an item
-  buyItem(
+  // Buy an item at its listed price, or a Dutch auction at its current one
+  async buyItem(
     buyer: string,
     listingId: string
-  ): {
-    success: boolean;
-    message: string;
-    trade?: Trade;
-    fee?: bigint;
-  } {
-    const listing = this.listings.get(listingId);
+  ): Promise<MarketplaceAction & { fee?: bigint }> {
+    const limit = await checkRateLimit(buyer, 'marketplace');
+    if (!limit.proceed) return { success: false, message: limit.error! };
+
+    const listing = await this.refreshListing(listingId);
     if (!listing) {
       return { success: false, message: 'Listing not found' };
     }
@@ -129,8 +694,7 @@ export class MarketplaceManager {
       return { success: false, message: 'Listing is not active' };
     }
 
-    if (listing.expiresAt && Date.now() > listing.expiresAt) {
-      listing.status = 'expired';
+    if (this.isExpired(listing)) {
       return { success: false, message: 'Listing has expired' };
     }
 
@@ -138,48 +702,57 @@ export class MarketplaceManager {
       return { success: false, message: 'Cannot buy your own listing' };
     }
 
-    // Calculate marketplace fee
-    const fee = (listing.price * BigInt(this.marketplaceFeePercent)) / BigInt(100);
-    const sellerReceives = listing.price - fee;
+    if (listing.mode.kind === 'english') {
+      return { success: false, message: 'Auctions are won by bidding' };
+    }
 
-    // Record trade
-    const trade: Trade = {
-      id: `trade-${Date.now()}-${Math.random()}`,
+    // The Dutch price only falls, so paying today's covers it when the
+    // transaction lands. Any difference is refunded on chain
+    const price = this.currentPrice(listing);
+    const transaction = new Transaction();
+    const payment = await addCoinPayment(
+      transaction,
       buyer,
-      seller: listing.seller,
-      listingId,
-      price: listing.price,
-      currency: listing.currency,
-      fee,
-      timestamp: Date.now(),
-      txHash: `0x${Math.random().toString(16).substring(2)}`,
-    };
-
-    this.trades.push(trade);
-
-    // Update listing status
-    listing.status = 'sold';
+      coinTypeOf(listing.currency),
+      price,
+      this.client
+    );
+    if (!payment) {
+      return { success: false, message: `Not enough ${listing.currency}` };
+    }
+    if (listing.mode.kind === 'dutch') {
+      addBuyDutchCall(transaction, listing.moveType, listing.id, payment);
+    } else {
+      addBuyItemCall(
+        transaction,
+        listing.moveType,
+        coinTypeOf(listing.currency),
+        listing.id,
+        payment
+      );
+    }
 
-    // Burn the marketplace fee
-    tokenBurnManager.recordBurn('marketplace_fee', fee, trade.txHash);
+    // Taken on chain when the purchase goes through
+    const fee = (price * BigInt(this.marketplaceFeePercent)) / BigInt(100);
+    const sellerReceives = price - fee;
 
     return {
       success: true,
-      message: `Item purchased! Seller receives ${sellerReceives} ${listing.currency}`,
-      trade,
+      message: `Seller receives ${formatPrice(sellerReceives, listing.currency)} ${listing.currency}`,
+      transaction,
       fee,
     };
   }
 
-  // Cancel a listing
-  cancelListing(
+  // Cancel a listing, the item goes back to the seller
+  async cancelListing(
     seller: string,
     listingId: string
-  ): {
-    success: boolean;
-    message: string;
-  } {
-    const listing = this.listings.get(listingId);
+  ): Promise<MarketplaceAction> {
+    const limit = await checkRateLimit(seller, 'marketplace');
+    if (!limit.proceed) return { success: false, message: limit.error! };
+
+    const listing = await this.refreshListing(listingId);
     if (!listing) {
       return { success: false, message: 'Listing not found' };
     }
@@ -188,37 +761,72 @@ export class MarketplaceManager {
       return { success: false, message: 'Only seller can cancel listing' };
     }
 
-    if (listing.status !== 'active') {
+    // Expired listings still hold the item until cancelled
+    if (listing.status !== 'active' && listing.status !== 'expired') {
       return { success: false, message: 'Listing is not active' };
     }
 
-    listing.status = 'cancelled';
+    const transaction = new Transaction();
+    switch (listing.mode.kind) {
+      case 'fixed':
+        addCancelListingCall(
+          transaction,
+          listing.moveType,
+          coinTypeOf(listing.currency),
+          listing.id
+        );
+        break;
+      case 'english':
+        // Once bid on, it can only be settled
+        if (listing.mode.bids.length > 0) {
+          return {
+            success: false,
+            message: 'Auctions with bids can only be settled',
+          };
+        }
+        addCancelAuctionCall(
+          transaction,
+          'english',
+          listing.moveType,
+          listing.id
+        );
+        break;
+      case 'dutch':
+        addCancelAuctionCall(
+          transaction,
+          'dutch',
+          listing.moveType,
+          listing.id
+        );
+        break;
+    }
 
     return {
       success: true,
-      message: 'Listing cancelled successfully',
+      message: 'Cancellation ready to sign',
+      transaction,
     };
   }
 
-  // Make an offer on a listing
-  makeOffer(
+  // Make an offer on a listing in its currency, held on chain until it's
+  // closed
+  async makeOffer(
     buyer: string,
     listingId: string,
     amount: bigint,
-    currency: 'DGN' | 'STT' | 'USDO',
+    currency: MarketCurrency,
     message?: string,
     durationHours: number = 24
-  ): {
-    success: boolean;
-    message: string;
-    offer?: Offer;
-  } {
-    const listing = this.listings.get(listingId);
+  ): Promise<MarketplaceAction> {
+    const limit = await checkRateLimit(buyer, 'marketplace');
+    if (!limit.proceed) return { success: false, message: limit.error! };
+
+    const listing = await this.refreshListing(listingId);
     if (!listing) {
       return { success: false, message: 'Listing not found' };
     }
 
-    if (listing.status !== 'active') {
+    if (listing.status !== 'active' || this.isExpired(listing)) {
       return { success: false, message: 'Listing is not active' };
     }
 
@@ -226,139 +834,427 @@ export class MarketplaceManager {
       return { success: false, message: 'Cannot make offer on your own listing' };
     }
 
+    if (listing.mode.kind !== 'fixed') {
+      return { success: false, message: 'Offers are for fixed-price listings' };
+    }
+
+    if (currency !== listing.currency) {
+      return {
+        success: false,
+        message: `Offers on this listing are made in ${listing.currency}`,
+      };
+    }
+
     if (amount <= BigInt(0)) {
       return { success: false, message: 'Offer amount must be greater than 0' };
     }
 
-    const offer: Offer = {
-      id: `offer-${Date.now()}-${Math.random()}`,
-      listingId,
+    const transaction = new Transaction();
+    const payment = await addCoinPayment(
+      transaction,
       buyer,
+      coinTypeOf(currency),
       amount,
-      currency,
-      message,
-      status: 'pending',
-      createdAt: Date.now(),
-      expiresAt: Date.now() + durationHours * 60 * 60 * 1000,
+      this.client
+    );
+    if (!payment) {
+      return { success: false, message: `Not enough ${currency}` };
+    }
+    addMakeOfferCall(
+      transaction,
+      listing.moveType,
+      coinTypeOf(currency),
+      listing.id,
+      payment,
+      message ?? '',
+      durationHours * 60 * 60 * 1000
+    );
+
+    return {
+      success: true,
+      message: 'Offer ready to sign',
+      transaction,
     };
+  }
+
+  // Look up a pending offer and the listing it was made on
+  private async offerAction(
+    seller: string,
+    offerId: string,
+    action: string
+  ): Promise<
+    | { offer: Offer; listing: MarketplaceListing }
+    | { success: false; message: string }
+  > {
+    const offer = this.findOffer(offerId);
+    const listing = offer && (await this.refreshListing(offer.listingId));
+
+    if (!offer || !listing) {
+      return { success: false, message: 'Offer not found' };
+    }
+
+    if (listing.seller !== seller) {
+      return { success: false, message: `Only seller can ${action} offers` };
+    }
+
+    if (offer.status !== 'pending') {
+      return { success: false, message: 'Offer is not pending' };
+    }
 
-    const listingOffers = this.offers.get(listingId) || [];
-    listingOffers.push(offer);
-    this.offers.set(listingId, listingOffers);
+    return { offer, listing };
+  }
+
+  // Accept an offer, selling the item for the offered amount
+  async acceptOffer(
+    seller: string,
+    offerId: string
+  ): Promise<MarketplaceAction> {
+    const limit = await checkRateLimit(seller, 'marketplace');
+    if (!limit.proceed) return { success: false, message: limit.error! };
+
+    const found = await this.offerAction(seller, offerId, 'accept');
+    if (!('offer' in found)) return found;
+    const { offer, listing } = found;
+
+    if (listing.status === 'sold' || listing.status === 'cancelled') {
+      return { success: false, message: 'Listing is not active' };
+    }
+
+    if (Date.now() > offer.expiresAt) {
+      offer.status = 'expired';
+      return { success: false, message: 'Offer has expired' };
+    }
+
+    const transaction = new Transaction();
+    addAcceptOfferCall(
+      transaction,
+      listing.moveType,
+      coinTypeOf(listing.currency),
+      listing.id,
+      offer.id
+    );
 
     return {
       success: true,
-      message: 'Offer submitted successfully',
-      offer,
+      message: 'Acceptance ready to sign',
+      transaction,
     };
   }
 
-  // Accept an offer
-  acceptOffer(
+  // Reject an offer, refunding the buyer
+  async rejectOffer(
     seller: string,
     offerId: string
-  ): {
-    success: boolean;
-    message: string;
-    trade?: Trade;
-  } {
-    let targetOffer: Offer | undefined;
-    let listing: MarketplaceListing | undefined;
+  ): Promise<MarketplaceAction> {
+    const limit = await checkRateLimit(seller, 'marketplace');
+    if (!limit.proceed) return { success: false, message: limit.error! };
 
-    // Find the offer
-    this.offers.forEach((offers, listingId) => {
-      const offer = offers.find((o) => o.id === offerId);
-      if (offer) {
-        targetOffer = offer;
-        listing = this.listings.get(listingId);
-      }
-    });
+    const found = await this.offerAction(seller, offerId, 'reject');
+    if (!('offer' in found)) return found;
+    const { offer, listing } = found;
 
-    if (!targetOffer || !listing) {
-      return { success: false, message: 'Offer not found' };
+    // The chain needs the listing to prove who the seller is. Once it's gone
+    // only the buyer can take the offer back
+    if (listing.status === 'sold' || listing.status === 'cancelled') {
+      return { success: false, message: 'Listing is not active' };
     }
 
-    if (listing.seller !== seller) {
-      return { success: false, message: 'Only seller can accept offers' };
+    const transaction = new Transaction();
+    addRejectOfferCall(
+      transaction,
+      listing.moveType,
+      coinTypeOf(listing.currency),
+      listing.id,
+      offer.id
+    );
+
+    return {
+      success: true,
+      message: 'Rejection ready to sign',
+      transaction,
+    };
+  }
+
+  // Withdraw an offer, the buyer gets their coins back
+  async withdrawOffer(
+    buyer: string,
+    offerId: string
+  ): Promise<MarketplaceAction> {
+    const limit = await checkRateLimit(buyer, 'marketplace');
+    if (!limit.proceed) return { success: false, message: limit.error! };
+
+    const offer = this.findOffer(offerId);
+    if (!offer) {
+      return { success: false, message: 'Offer not found' };
     }
 
-    if (targetOffer.status !== 'pending') {
-      return { success: false, message: 'Offer is not pending' };
+    if (offer.buyer !== buyer) {
+      return { success: false, message: 'Only the buyer can withdraw offers' };
     }
 
-    if (Date.now() > targetOffer.expiresAt) {
-      targetOffer.status = 'expired';
-      return { success: false, message: 'Offer has expired' };
+    // Expired offers keep their coins until withdrawn
+    if (offer.status !== 'pending' && offer.status !== 'expired') {
+      return { success: false, message: 'Offer is already closed' };
     }
 
-    // Calculate fee
-    const fee =
-      (targetOffer.amount * BigInt(this.marketplaceFeePercent)) / BigInt(100);
+    const transaction = new Transaction();
+    addWithdrawOfferCall(transaction, coinTypeOf(offer.currency), offer.id);
 
-    // Create trade
-    const trade: Trade = {
-      id: `trade-${Date.now()}-${Math.random()}`,
-      buyer: targetOffer.buyer,
-      seller: listing.seller,
-      listingId: listing.id,
-      price: targetOffer.amount,
-      currency: targetOffer.currency,
-      fee,
-      timestamp: Date.now(),
-      txHash: `0x${Math.random().toString(16).substring(2)}`,
+    return {
+      success: true,
+      message: 'Withdrawal ready to sign',
+      transaction,
     };
+  }
 
-    this.trades.push(trade);
+  // Escrow an owned NFT for bidding. Bids open at startPrice and the item
+  // only sells if the highest bid reaches reservePrice
+  async createEnglishAuction(
+    seller: string,
+    itemType: MarketItemKind,
+    itemId: string,
+    startPrice: bigint,
+    reservePrice: bigint,
+    minIncrement: bigint,
+    durationHours: number = 24,
+    extensionMinutes: number = 10
+  ): Promise<MarketplaceAction> {
+    const limit = await checkRateLimit(seller, 'marketplace');
+    if (!limit.proceed) return { success: false, message: limit.error! };
+
+    if (startPrice <= BigInt(0) || minIncrement <= BigInt(0)) {
+      return {
+        success: false,
+        message: 'Opening price and increment must be greater than 0',
+      };
+    }
+
+    if (reservePrice < startPrice) {
+      return {
+        success: false,
+        message: 'Reserve cannot be below the opening price',
+      };
+    }
+
+    if (durationHours <= 0 || durationHours > 30 * 24) {
+      return { success: false, message: 'Duration must be up to 30 days' };
+    }
 
-    // Update statuses
-    targetOffer.status = 'accepted';
-    listing.status = 'sold';
+    if (extensionMinutes < 0 || extensionMinutes > MAX_EXTENSION_MINUTES) {
+      return {
+        success: false,
+        message: `Extension must be 0 to ${MAX_EXTENSION_MINUTES} minutes`,
+      };
+    }
 
-    // Burn marketplace fee
-    tokenBurnManager.recordBurn('marketplace_fee', fee, trade.txHash);
+    const transaction = new Transaction();
+    addCreateEnglishAuctionCall(
+      transaction,
+      marketItemType(itemType),
+      itemId,
+      startPrice,
+      reservePrice,
+      minIncrement,
+      durationHours * HOUR_MS,
+      extensionMinutes * 60 * 1000
+    );
 
     return {
       success: true,
-      message: 'Offer accepted successfully',
-      trade,
+      message: 'Auction ready to sign',
+      transaction,
     };
   }
 
-  // Reject an offer
-  rejectOffer(
+  // Escrow an owned NFT at a price falling from startPrice to endPrice
+  async createDutchAuction(
     seller: string,
-    offerId: string
-  ): {
-    success: boolean;
-    message: string;
-  } {
-    let targetOffer: Offer | undefined;
-    let listing: MarketplaceListing | undefined;
+    itemType: MarketItemKind,
+    itemId: string,
+    startPrice: bigint,
+    endPrice: bigint,
+    durationHours: number = 24
+  ): Promise<MarketplaceAction> {
+    const limit = await checkRateLimit(seller, 'marketplace');
+    if (!limit.proceed) return { success: false, message: limit.error! };
+
+    if (endPrice <= BigInt(0) || startPrice <= endPrice) {
+      return {
+        success: false,
+        message: 'Price must fall from the start to an end above 0',
+      };
+    }
 
-    this.offers.forEach((offers, listingId) => {
-      const offer = offers.find((o) => o.id === offerId);
-      if (offer) {
-        targetOffer = offer;
-        listing = this.listings.get(listingId);
-      }
-    });
+    if (durationHours <= 0 || durationHours > 30 * 24) {
+      return { success: false, message: 'Duration must be up to 30 days' };
+    }
 
-    if (!targetOffer || !listing) {
-      return { success: false, message: 'Offer not found' };
+    const transaction = new Transaction();
+    addCreateDutchAuctionCall(
+      transaction,
+      marketItemType(itemType),
+      itemId,
+      startPrice,
+      endPrice,
+      durationHours * HOUR_MS
+    );
+
+    return {
+      success: true,
+      message: 'Auction ready to sign',
+      transaction,
+    };
+  }
+
+  // Bid on an English auction. The DGN is held on chain and refunded in
+  // full if someone outbids it
+  async placeBid(
+    bidder: string,
+    auctionId: string,
+    amount: bigint
+  ): Promise<MarketplaceAction> {
+    const limit = await checkRateLimit(bidder, 'marketplace');
+    if (!limit.proceed) return { success: false, message: limit.error! };
+
+    const listing = await this.refreshListing(auctionId);
+    if (listing?.mode.kind !== 'english') {
+      return { success: false, message: 'Auction not found' };
     }
 
-    if (listing.seller !== seller) {
-      return { success: false, message: 'Only seller can reject offers' };
+    if (listing.status !== 'active' || this.isExpired(listing)) {
+      return { success: false, message: 'Auction has ended' };
     }
 
-    targetOffer.status = 'rejected';
+    if (listing.seller === bidder) {
+      return { success: false, message: 'Cannot bid on your own auction' };
+    }
+
+    const minimum = this.minimumBid(listing);
+    if (amount < minimum) {
+      return {
+        success: false,
+        message: `Bid must be at least ${formatPrice(minimum)} DGN`,
+      };
+    }
+
+    const transaction = new Transaction();
+    const payment = await addDgnPayment(
+      transaction,
+      bidder,
+      amount,
+      this.client
+    );
+    if (!payment) {
+      return { success: false, message: 'Not enough DGN' };
+    }
+    addBidCall(transaction, listing.moveType, listing.id, payment);
 
     return {
       success: true,
-      message: 'Offer rejected',
+      message: 'Bid ready to sign',
+      transaction,
     };
   }
 
+  // Close an English auction that has run out. Anyone can settle: the
+  // winner gets the item and the fee is burned, or below reserve the item
+  // goes back and the bid is refunded
+  async settleAuction(
+    caller: string,
+    auctionId: string
+  ): Promise<MarketplaceAction> {
+    const limit = await checkRateLimit(caller, 'marketplace');
+    if (!limit.proceed) return { success: false, message: limit.error! };
+
+    const listing = await this.refreshListing(auctionId);
+    if (listing?.mode.kind !== 'english') {
+      return { success: false, message: 'Auction not found' };
+    }
+
+    if (listing.status !== 'active' && listing.status !== 'expired') {
+      return { success: false, message: 'Auction is already closed' };
+    }
+
+    if (!this.isExpired(listing)) {
+      return { success: false, message: 'Auction is still running' };
+    }
+
+    const transaction = new Transaction();
+    addSettleAuctionCall(transaction, listing.moveType, listing.id);
+
+    return {
+      success: true,
+      message: 'Settlement ready to sign',
+      transaction,
+    };
+  }
+
+  // What the listing costs now: the fixed price, the leading bid, or where
+  // the Dutch schedule has fallen to
+  currentPrice(listing: MarketplaceListing, now: number = Date.now()): bigint {
+    if (listing.mode.kind !== 'dutch') return listing.price;
+    return dutchPrice(
+      listing.mode.startPrice,
+      listing.mode.endPrice,
+      listing.mode.startsAt,
+      listing.expiresAt ?? now,
+      now
+    );
+  }
+
+  // Smallest bid an English auction will take next, mirrors minimum_bid
+  minimumBid(listing: MarketplaceListing): bigint {
+    if (listing.mode.kind !== 'english') return listing.price;
+    return listing.mode.bids.length === 0
+      ? listing.mode.startPrice
+      : listing.price + listing.mode.minIncrement;
+  }
+
+  // Catch up with the chain, then apply what changes with time alone: Dutch
+  // prices fall, and listings, auctions and offers expire. Returns the
+  // English auctions that have ended and are waiting to be settled
+  async sweep(): Promise<MarketplaceListing[]> {
+    await this.sync();
+    const now = Date.now();
+
+    const ended: MarketplaceListing[] = [];
+    this.listings.forEach((listing) => {
+      if (listing.status !== 'active' && listing.status !== 'expired') return;
+      listing.price = this.currentPrice(listing, now);
+      if (this.isExpired(listing) && listing.mode.kind === 'english') {
+        ended.push(listing);
+      }
+    });
+
+    this.offers.forEach((offers) => {
+      offers.forEach((offer) => {
+        if (offer.status === 'pending' && now > offer.expiresAt) {
+          offer.status = 'expired';
+        }
+      });
+    });
+
+    return ended;
+  }
+
+  // Sweep now and then on an interval. Call the returned function to stop
+  startSweep(
+    onSweep: (ended: MarketplaceListing[]) => void,
+    intervalMs: number = SWEEP_INTERVAL_MS
+  ): () => void {
+    const run = () => {
+      this.sweep()
+        .then(onSweep)
+        .catch((error: unknown) => {
+          console.error('Marketplace sweep failed:', error);
+        });
+    };
+
+    run();
+    const interval = setInterval(run, intervalMs);
+    return () => clearInterval(interval);
+  }
+
   // Get listing by ID
   getListing(listingId: string): MarketplaceListing | undefined {
     const listing = this.listings.get(listingId);
@@ -368,36 +1264,46 @@ export class MarketplaceManager {
     return listing;
   }
 
-  // Get all active listings
+  // Get all active listings. The price range is in DGN base units and
+  // matches the same display amount in other currencies
   getActiveListings(filters?: {
     itemType?: MarketplaceListing['itemType'];
-    currency?: string;
+    mode?: ListingMode['kind'];
+    currency?: MarketCurrency;
     minPrice?: bigint;
     maxPrice?: bigint;
     rarity?: string;
   }): MarketplaceListing[] {
     let listings = Array.from(this.listings.values()).filter(
-      (l) => l.status === 'active'
+      (l) => l.status === 'active' && !this.isExpired(l)
     );
 
     if (filters) {
       if (filters.itemType) {
         listings = listings.filter((l) => l.itemType === filters.itemType);
       }
+      if (filters.mode) {
+        listings = listings.filter((l) => l.mode.kind === filters.mode);
+      }
       if (filters.currency) {
         listings = listings.filter((l) => l.currency === filters.currency);
       }
+      const inCurrency = (amount: bigint, currency: MarketCurrency) =>
+        (amount * unitOf(currency)) / unitOf('DGN');
       if (filters.minPrice) {
-        listings = listings.filter((l) => l.price >= filters.minPrice!);
+        listings = listings.filter(
+          (l) => l.price >= inCurrency(filters.minPrice!, l.currency)
+        );
       }
       if (filters.maxPrice) {
-        listings = listings.filter((l) => l.price <= filters.maxPrice!);
+        listings = listings.filter(
+          (l) => l.price <= inCurrency(filters.maxPrice!, l.currency)
+        );
       }
       if (filters.rarity) {
-        listings = listings.filter((l) => {
-          const data = l.itemData as any;
-          return data.rarity === filters.rarity;
-        });
+        listings = listings.filter(
+          (l) => l.itemData?.rarity === filters.rarity
+        );
       }
     }
 
@@ -440,26 +1346,25 @@ export class MarketplaceManager {
     return allOffers;
   }
 
-  // Get marketplace statistics
-  getMarketplaceStats(): {
+  // Get marketplace statistics, amounts in one currency
+  getMarketplaceStats(currency: MarketCurrency = 'DGN'): {
     totalListings: number;
     activeListings: number;
     totalTrades: number;
     totalVolume: bigint;
     totalFees: bigint;
     averagePrice: bigint;
+    floorPrice: bigint | null; // Cheapest active listing
   } {
     const activeListings = this.getActiveListings();
-    const totalVolume = this.trades.reduce(
+    const trades = this.trades.filter((t) => t.currency === currency);
+    const totalVolume = trades.reduce(
       (sum, trade) => sum + trade.price,
       BigInt(0)
     );
-    const totalFees = this.trades.reduce(
-      (sum, trade) => sum + trade.fee,
-      BigInt(0)
-    );
+    const totalFees = trades.reduce((sum, trade) => sum + trade.fee, BigInt(0));
     const averagePrice =
-      this.trades.length > 0 ? totalVolume / BigInt(this.trades.length) : BigInt(0);
+      trades.length > 0 ? totalVolume / BigInt(trades.length) : BigInt(0);
 
     return {
       totalListings: this.listings.size,
@@ -468,14 +1373,23 @@ export class MarketplaceManager {
       totalVolume,
       totalFees,
       averagePrice,
+      floorPrice: activeListings.reduce<bigint | null>(
+        (floor, l) =>
+          l.currency === currency && (floor === null || l.price < floor)
+            ? l.price
+            : floor,
+        null
+      ),
     };
   }
 
-  // Get trending items (most viewed/traded)
+  // Get trending items, ranked by views here plus offers from anyone
   getTrendingItems(limit: number = 10): MarketplaceListing[] {
-    return Array.from(this.listings.values())
-      .filter((l) => l.status === 'active')
-      .sort((a, b) => b.views - a.views)
+    const interest = (listing: MarketplaceListing) =>
+      listing.views + this.getListingOffers(listing.id).length * 5;
+
+    return this.getActiveListings()
+      .sort((a, b) => interest(b) - interest(a) || b.listedAt - a.listedAt)
       .slice(0, limit);
   }
 
@@ -487,14 +1401,10 @@ export class MarketplaceManager {
   // Search listings
   searchListings(query: string): MarketplaceListing[] {
     const lowerQuery = query.toLowerCase();
-    return Array.from(this.listings.values()).filter((listing) => {
-      const data = listing.itemData as any;
-      const name = data.name?.toLowerCase() || '';
-      const description = data.description?.toLowerCase() || '';
-      return (
-        listing.status === 'active' &&
-        (name.includes(lowerQuery) || description.includes(lowerQuery))
-      );
+    return this.getActiveListings().filter((listing) => {
+      const name = listing.itemData?.name.toLowerCase() || '';
+      const description = listing.itemData?.description.toLowerCase() || '';
+      return name.includes(lowerQuery) || description.includes(lowerQuery);
     });
   }
 }
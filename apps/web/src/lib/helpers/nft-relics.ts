@@ -1,255 +1,111 @@
 // NFT Relics System - Mint legendary loot as tradeable NFTs
-
-export interface Relic {
-  id: string;
-  tokenId?: bigint;
-  name: string;
-  type: RelicType;
-  rarity: 'rare' | 'epic' | 'legendary' | 'mythic';
-  stats: RelicStats;
-  origin: {
-    level: number;
-    enemyType?: string;
-    bossType?: string;
-    timestamp: number;
-  };
-  isMinted: boolean;
-  owner?: string;
-  metadata: RelicMetadata;
-}
-
-export type RelicType =
-  | 'weapon'
-  | 'armor'
-  | 'accessory'
-  | 'consumable'
-  | 'material';
-
-export interface RelicStats {
-  damage?: number;
-  defense?: number;
-  health?: number;
-  speed?: number;
-  critChance?: number;
-  specialEffect?: string;
-}
-
-export interface RelicMetadata {
-  image: string;
-  description: string;
-  attributes: Array<{
-    trait_type: string;
-    value: string | number;
-  }>;
-  external_url?: string;
-}
-
-export interface RelicDrop {
-  relic: Relic;
-  dropChance: number;
-  minLevel: number;
-}
-
-// Legendary relics that can be minted as NFTs
-export const legendaryRelics: RelicDrop[] = [
-  {
-    relic: {
-      id: 'relic-veil-shard',
-      name: 'Shard of the Veil',
-      type: 'material',
-      rarity: 'mythic',
-      stats: {
-        specialEffect: 'Grants immunity to corruption for 10 seconds',
-      },
-      origin: {
-        level: 0,
-        timestamp: 0,
-      },
-      isMinted: false,
-      metadata: {
-        image: '/relics/veil-shard.png',
-        description:
-          'A fragment of the shattered Veil, pulsing with reality-bending energy. Extremely rare.',
-        attributes: [
-          { trait_type: 'Rarity', value: 'Mythic' },
-          { trait_type: 'Type', value: 'Material' },
-          { trait_type: 'Effect', value: 'Corruption Immunity' },
-        ],
-      },
-    },
-    dropChance: 0.001, // 0.1%
-    minLevel: 20,
-  },
-  {
-    relic: {
-      id: 'relic-crown-forgotten',
-      name: 'Crown of the Forgotten King',
-      type: 'armor',
-      rarity: 'legendary',
-      stats: {
-        defense: 50,
-        health: 100,
-        specialEffect: 'Summon skeleton minions once per battle',
-      },
-      origin: {
-        level: 0,
-        bossType: 'skeleton-king',
-        timestamp: 0,
-      },
-      isMinted: false,
-      metadata: {
-        image: '/relics/forgotten-crown.png',
-        description:
-          'The rusted crown of a fallen monarch. Whispers of ancient power echo from within.',
-        attributes: [
-          { trait_type: 'Rarity', value: 'Legendary' },
-          { trait_type: 'Type', value: 'Armor' },
-          { trait_type: 'Defense', value: 50 },
-          { trait_type: 'Health Bonus', value: 100 },
-          { trait_type: 'Boss Drop', value: 'Skeleton King' },
-        ],
-      },
-    },
-    dropChance: 0.05, // 5% from Skeleton King
-    minLevel: 5,
-  },
-  {
-    relic: {
-      id: 'relic-shadow-essence',
-      name: 'Essence of Shadows',
-      type: 'consumable',
-      rarity: 'epic',
-      stats: {
-        specialEffect: 'Become invisible for 5 seconds',
-      },
-      origin: {
-        level: 0,
-        bossType: 'shadow-lord',
-        timestamp: 0,
-      },
-      isMinted: false,
-      metadata: {
-        image: '/relics/shadow-essence.png',
-        description:
-          'Concentrated darkness from the Shadow Lord. Grants temporary invisibility.',
-        attributes: [
-          { trait_type: 'Rarity', value: 'Epic' },
-          { trait_type: 'Type', value: 'Consumable' },
-          { trait_type: 'Effect', value: 'Invisibility' },
-          { trait_type: 'Boss Drop', value: 'Shadow Lord' },
-        ],
-      },
-    },
-    dropChance: 0.1, // 10% from Shadow Lord
-    minLevel: 10,
-  },
-  {
-    relic: {
-      id: 'relic-titan-heart',
-      name: 'Heart of the Titan',
-      type: 'accessory',
-      rarity: 'legendary',
-      stats: {
-        health: 200,
-        defense: 30,
-        specialEffect: 'Regenerate 5 HP per second',
-      },
-      origin: {
-        level: 0,
-        bossType: 'elemental-titan',
-        timestamp: 0,
-      },
-      isMinted: false,
-      metadata: {
-        image: '/relics/titan-heart.png',
-        description:
-          'The still-beating heart of an Elemental Titan. Pulses with primordial life force.',
-        attributes: [
-          { trait_type: 'Rarity', value: 'Legendary' },
-          { trait_type: 'Type', value: 'Accessory' },
-          { trait_type: 'Health Bonus', value: 200 },
-          { trait_type: 'Defense', value: 30 },
-          { trait_type: 'Boss Drop', value: 'Elemental Titan' },
-        ],
-      },
-    },
-    dropChance: 0.08, // 8% from Elemental Titan
-    minLevel: 15,
-  },
-  {
-    relic: {
-      id: 'relic-necro-staff',
-      name: "Necro-Overlord's Staff",
-      type: 'weapon',
-      rarity: 'mythic',
-      stats: {
-        damage: 100,
-        critChance: 25,
-        specialEffect: 'Raise defeated enemies as temporary allies',
-      },
-      origin: {
-        level: 0,
-        bossType: 'necro-overlord',
-        timestamp: 0,
-      },
-      isMinted: false,
-      metadata: {
-        image: '/relics/necro-staff.png',
-        description:
-          'The weapon that shattered the Veil. Radiates forbidden necromantic power.',
-        attributes: [
-          { trait_type: 'Rarity', value: 'Mythic' },
-          { trait_type: 'Type', value: 'Weapon' },
-          { trait_type: 'Damage', value: 100 },
-          { trait_type: 'Crit Chance', value: '25%' },
-          { trait_type: 'Boss Drop', value: 'Necro-Overlord' },
-        ],
-      },
-    },
-    dropChance: 0.03, // 3% from Necro-Overlord
-    minLevel: 20,
-  },
-];
+import {
+  type Relic,
+  type RelicStats,
+  type RelicType,
+  relicPower,
+  rollRelicDrop,
+} from '@repo/security/relics';
+
+export const relicIcons: Record<RelicType, string> = {
+  weapon: '🪄',
+  armor: '👑',
+  accessory: '💍',
+  consumable: '🧪',
+  material: '💎',
+};
+
+// One collection per wallet, like lore discoveries
+const storageKey = (address: string) => `shadow_stake_saga_relics_${address}`;
+
+// Mirror MIN_FUSION_RELICS, MAX_FUSION_RELICS and FUSION_POWER_BONUS in
+// nft.move
+export const MIN_FUSION_RELICS = 2;
+export const MAX_FUSION_RELICS = 5;
+export const FUSION_POWER_BONUS = 10;
+
+const rarityOrder: Relic['rarity'][] = ['rare', 'epic', 'legendary', 'mythic'];
+
+// The best value plus half of the others, how fuse_relics combines power
+const fuseValues = (values: number[]) => {
+  const best = Math.max(...values);
+  const total = values.reduce((sum, value) => sum + value, 0);
+  return best + (total - best) / 2;
+};
 
 export class RelicManager {
   private collectedRelics: Map<string, Relic>;
   private mintedRelics: Set<string>;
+  private owner: string | null; // Wallet the collection is stored under
 
   constructor() {
     this.collectedRelics = new Map();
     this.mintedRelics = new Set();
+    this.owner = null;
   }
 
-  // Check for relic drop
-  checkRelicDrop(level: number, bossType?: string): Relic | null {
-    const eligibleRelics = legendaryRelics.filter(
-      (drop) =>
-        level >= drop.minLevel &&
-        (!drop.relic.origin.bossType || drop.relic.origin.bossType === bossType)
-    );
+  // Switch to a wallet's collection. Relics found before any wallet
+  // connected go to the first one that does, another wallet's never carry
+  // over
+  setOwner(owner: string | null) {
+    if (owner === this.owner) return;
+    if (this.owner !== null) {
+      this.collectedRelics.clear();
+      this.mintedRelics.clear();
+    }
+    this.owner = owner;
+    this.load();
+    this.save();
+  }
 
-    for (const drop of eligibleRelics) {
-      if (Math.random() < drop.dropChance) {
-        const relic = this.createRelicInstance(drop.relic, level, bossType);
-        return relic;
-      }
+  // Relics drop mid-run but are minted from the inventory, so the
+  // collection has to outlive the page
+  private load() {
+    if (typeof window === 'undefined' || !this.owner) return;
+    try {
+      const stored = localStorage.getItem(storageKey(this.owner));
+      if (!stored) return;
+      const relics = JSON.parse(stored) as Relic[];
+      relics.forEach((relic) => {
+        this.collectedRelics.set(relic.id, relic);
+        if (relic.isMinted) this.mintedRelics.add(relic.id);
+      });
+    } catch (error) {
+      console.error('Failed to load relics:', error);
     }
+  }
 
-    return null;
+  private save() {
+    if (typeof window === 'undefined' || !this.owner) return;
+    localStorage.setItem(
+      storageKey(this.owner),
+      JSON.stringify(this.getCollectedRelics())
+    );
   }
 
-  private createRelicInstance(
-    template: Relic,
+  // Check for relic drop from the roll-th kill on a level. Seeded by the
+  // run, so a replay drops the same relics as the run it was recorded from
+  // and the validator can re-roll the drop before the relic is minted
+  checkRelicDrop(
+    seed: string,
     level: number,
-    bossType?: string
-  ): Relic {
+    roll: number,
+    bossType?: string,
+    validatorSession?: string
+  ): Relic | null {
+    const drop = rollRelicDrop(seed, level, roll, bossType);
+    if (!drop) return null;
+
     return {
-      ...template,
-      id: `${template.id}-${Date.now()}`,
+      ...drop.relic,
+      id: `${drop.relic.id}-${Date.now()}`,
       origin: {
         level,
         bossType,
         timestamp: Date.now(),
+        drop: validatorSession
+          ? { sessionId: validatorSession, seed, roll }
+          : undefined,
       },
     };
   }
@@ -257,6 +113,7 @@ export class RelicManager {
   // Add relic to collection
   collectRelic(relic: Relic) {
     this.collectedRelics.set(relic.id, relic);
+    this.save();
   }
 
   // Get all collected relics
@@ -269,14 +126,15 @@ export class RelicManager {
     return this.getCollectedRelics().filter((r) => !r.isMinted);
   }
 
-  // Mark relic as minted
-  markAsMinted(relicId: string, tokenId: bigint, owner: string) {
+  // Mark relic as minted, recording the NFT mint_relic created
+  markAsMinted(relicId: string, objectId: string, owner: string) {
     const relic = this.collectedRelics.get(relicId);
     if (relic) {
       relic.isMinted = true;
-      relic.tokenId = tokenId;
+      relic.objectId = objectId;
       relic.owner = owner;
       this.mintedRelics.add(relicId);
+      this.save();
     }
   }
 
@@ -285,7 +143,7 @@ export class RelicManager {
     return this.collectedRelics.get(relicId);
   }
 
-  // Calculate mint cost (requires DGN burn)
+  // Mint cost in whole DGN, matching relic_mint_fee in nft.move
   getMintCost(relic: Relic): bigint {
     const baseCost = BigInt(1000);
     const rarityMultiplier = {
@@ -298,62 +156,111 @@ export class RelicManager {
     return baseCost * BigInt(rarityMultiplier[relic.rarity]);
   }
 
-  // Fuse relics (burn multiple to create stronger one)
-  fuseRelics(relicIds: string[]): Relic | null {
-    if (relicIds.length < 2) return null;
+  // Single power rating for the relic's on-chain `power` field
+  getPower(relic: Relic): number {
+    return relicPower(relic);
+  }
 
+  // Fusion fee in whole DGN, matching fusion_fee in nft.move: 300 for two
+  // relics and 20% more, rounded down, for each extra one
+  getFusionCost(count: number): bigint {
+    let fee = BigInt(300);
+    for (let i = MIN_FUSION_RELICS; i < count; i++) {
+      fee = (fee * BigInt(12)) / BigInt(10);
+    }
+    return fee;
+  }
+
+  // The relic fusing these would produce, without touching the collection.
+  // Power and rarity follow fuse_relics so the preview matches the NFT, it
+  // always beats the strongest of the relics put in
+  previewFusion(relicIds: string[]): Relic | null {
     const relics = relicIds
       .map((id) => this.collectedRelics.get(id))
       .filter((r) => r !== undefined) as Relic[];
 
-    if (relics.length < 2) return null;
+    if (
+      relics.length < MIN_FUSION_RELICS ||
+      relics.length > MAX_FUSION_RELICS
+    ) {
+      return null;
+    }
 
     // Calculate fused relic stats
     const fusedStats: RelicStats = {};
-    relics.forEach((relic) => {
-      if (relic.stats.damage)
-        fusedStats.damage = (fusedStats.damage || 0) + relic.stats.damage * 0.5;
-      if (relic.stats.defense)
-        fusedStats.defense =
-          (fusedStats.defense || 0) + relic.stats.defense * 0.5;
-      if (relic.stats.health)
-        fusedStats.health = (fusedStats.health || 0) + relic.stats.health * 0.5;
+    (['damage', 'defense', 'health'] as const).forEach((stat) => {
+      const values = relics.map((relic) => relic.stats[stat] ?? 0);
+      if (values.some((value) => value > 0)) {
+        fusedStats[stat] = fuseValues(values);
+      }
     });
 
-    // Determine fused rarity
-    const rarityOrder = ['rare', 'epic', 'legendary', 'mythic'];
-    const highestRarity = relics.reduce((max, relic) => {
-      const currentIndex = rarityOrder.indexOf(relic.rarity);
-      const maxIndex = rarityOrder.indexOf(max);
-      return currentIndex > maxIndex ? relic.rarity : max;
-    }, 'rare' as Relic['rarity']);
+    // The highest rarity, one step up when two or more relics share it
+    const ranks = relics.map((relic) => rarityOrder.indexOf(relic.rarity));
+    const topRank = Math.max(...ranks);
+    const stepUp = ranks.filter((rank) => rank === topRank).length >= 2;
+    const fusedRarity =
+      rarityOrder[Math.min(topRank + Number(stepUp), rarityOrder.length - 1)]!;
 
-    const fusedRelic: Relic = {
+    // Integer division like fuse_relics
+    const powers = relics.map((relic) => this.getPower(relic));
+    const best = Math.max(...powers);
+    const rest = powers.reduce((sum, power) => sum + power, 0) - best;
+    const power =
+      best + Math.floor(rest / 2) + FUSION_POWER_BONUS * (relics.length - 1);
+
+    return {
       id: `fused-${Date.now()}`,
       name: 'Fused Relic',
       type: relics[0]!.type,
-      rarity: highestRarity,
+      rarity: fusedRarity,
       stats: fusedStats,
       origin: {
         level: Math.max(...relics.map((r) => r.origin.level)),
         timestamp: Date.now(),
       },
       isMinted: false,
+      power,
       metadata: {
         image: '/relics/fused.png',
         description: `A powerful relic created by fusing ${relics.length} relics together.`,
         attributes: [
-          { trait_type: 'Rarity', value: highestRarity },
+          { trait_type: 'Rarity', value: fusedRarity },
           { trait_type: 'Type', value: 'Fused' },
           { trait_type: 'Source Relics', value: relics.length },
         ],
       },
     };
+  }
+
+  // Fuse relics (burn multiple to create stronger one). Pass the NFT
+  // fuse_relics minted when the parents were fused on chain
+  fuseRelics(
+    relicIds: string[],
+    minted?: { objectId: string; owner: string }
+  ): Relic | null {
+    const fusedRelic = this.previewFusion(relicIds);
+    if (!fusedRelic) return null;
+
+    const parents = relicIds
+      .map((id) => this.collectedRelics.get(id)?.objectId)
+      .filter((id) => id !== undefined) as string[];
+    if (parents.length > 0) fusedRelic.lineage = parents;
+
+    if (minted) {
+      fusedRelic.isMinted = true;
+      fusedRelic.objectId = minted.objectId;
+      fusedRelic.owner = minted.owner;
+      this.mintedRelics.add(fusedRelic.id);
+    }
 
     // Remove source relics
-    relicIds.forEach((id) => this.collectedRelics.delete(id));
+    relicIds.forEach((id) => {
+      this.collectedRelics.delete(id);
+      this.mintedRelics.delete(id);
+    });
 
-    // Add fused relic
+    // Add fused relic, which also saves the removals
     this.collectRelic(fusedRelic);
 
     return fusedRelic;
@@ -0,0 +1,348 @@
+// Input-log replays - record a run tick by tick and feed it back into the scene
+
+// 2 added the upgrade and ability input bits and moved ticks onto the fixed
+// physics step, 3 the weapon swap bit, 4 the hotbar loadouts. Older logs
+// can't be mapped onto the current format, so they're rejected
+export const REPLAY_VERSION = 4;
+
+// One tick per Arcade physics step, independent of the render frame rate
+export const TICKS_PER_SECOND = 60;
+export const TICK_MS = 1000 / TICKS_PER_SECOND;
+
+export interface PlayerInput {
+  up: boolean;
+  down: boolean;
+  left: boolean;
+  right: boolean;
+  space: boolean;
+  ctrl: boolean;
+  shift: boolean;
+  ability1: boolean;
+  ability2: boolean;
+  ability3: boolean;
+  ability4: boolean;
+  swapWeapon: boolean;
+}
+
+// Subset of GameState that is tracked to spot where a replay diverges
+export interface StateSnapshot {
+  level: number;
+  score: number;
+  playerHealth: number;
+  playerMana: number;
+  totalLives: number;
+}
+
+export interface StateDelta {
+  tick: number;
+  changes: Partial<StateSnapshot>;
+}
+
+// Skill purchased on the skill tree screen before the given level started
+export interface SkillUpgrade {
+  level: number;
+  skillId: string;
+}
+
+// Hotbar chosen on the skill tree screen before the given level started
+export interface AbilityLoadout {
+  level: number;
+  abilityIds: string[];
+}
+
+export interface Replay {
+  version: typeof REPLAY_VERSION;
+  seed: string;
+  startLevel: number;
+  recordedAt: number;
+  tickCount: number;
+  inputs: [mask: number, count: number][]; // Run-length encoded input masks, one per tick
+  deltas: StateDelta[];
+  upgrades: SkillUpgrade[];
+  loadouts: AbilityLoadout[];
+  finalScore: number;
+}
+
+const INPUT_BITS: Record<keyof PlayerInput, number> = {
+  up: 1,
+  down: 2,
+  left: 4,
+  right: 8,
+  space: 16,
+  ctrl: 32,
+  shift: 64,
+  ability1: 128,
+  ability2: 256,
+  ability3: 512,
+  ability4: 1024,
+  swapWeapon: 2048,
+};
+
+const SNAPSHOT_KEYS: (keyof StateSnapshot)[] = [
+  'level',
+  'score',
+  'playerHealth',
+  'playerMana',
+  'totalLives',
+];
+
+export const emptyInput = (): PlayerInput => decodeInput(0);
+
+export const encodeInput = (input: PlayerInput): number => {
+  let mask = 0;
+  for (const key of Object.keys(INPUT_BITS) as (keyof PlayerInput)[]) {
+    if (input[key]) mask |= INPUT_BITS[key];
+  }
+  return mask;
+};
+
+export const decodeInput = (mask: number): PlayerInput => {
+  return {
+    up: (mask & INPUT_BITS.up) !== 0,
+    down: (mask & INPUT_BITS.down) !== 0,
+    left: (mask & INPUT_BITS.left) !== 0,
+    right: (mask & INPUT_BITS.right) !== 0,
+    space: (mask & INPUT_BITS.space) !== 0,
+    ctrl: (mask & INPUT_BITS.ctrl) !== 0,
+    shift: (mask & INPUT_BITS.shift) !== 0,
+    ability1: (mask & INPUT_BITS.ability1) !== 0,
+    ability2: (mask & INPUT_BITS.ability2) !== 0,
+    ability3: (mask & INPUT_BITS.ability3) !== 0,
+    ability4: (mask & INPUT_BITS.ability4) !== 0,
+    swapWeapon: (mask & INPUT_BITS.swapWeapon) !== 0,
+  };
+};
+
+export const takeSnapshot = (state: StateSnapshot): StateSnapshot => {
+  return {
+    level: state.level,
+    score: state.score,
+    playerHealth: state.playerHealth,
+    playerMana: state.playerMana,
+    totalLives: state.totalLives,
+  };
+};
+
+const diffSnapshots = (
+  prev: StateSnapshot,
+  next: StateSnapshot
+): Partial<StateSnapshot> | null => {
+  const changes: Partial<StateSnapshot> = {};
+  let changed = false;
+  for (const key of SNAPSHOT_KEYS) {
+    if (prev[key] !== next[key]) {
+      changes[key] = next[key];
+      changed = true;
+    }
+  }
+  return changed ? changes : null;
+};
+
+export const serializeReplay = (replay: Replay): string => {
+  return JSON.stringify(replay);
+};
+
+export const deserializeReplay = (json: string): Replay => {
+  const parsed = JSON.parse(json) as Partial<Replay> | null;
+  if (!parsed || typeof parsed !== 'object') {
+    throw new Error('Invalid replay data');
+  }
+  if (parsed.version !== REPLAY_VERSION) {
+    throw new Error(
+      `Replay version ${String(parsed.version)} can't be played back, ` +
+        `only version ${String(REPLAY_VERSION)} is supported`
+    );
+  }
+  if (
+    typeof parsed.seed !== 'string' ||
+    typeof parsed.startLevel !== 'number' ||
+    typeof parsed.tickCount !== 'number' ||
+    !Array.isArray(parsed.inputs) ||
+    !Array.isArray(parsed.deltas) ||
+    !Array.isArray(parsed.upgrades) ||
+    !Array.isArray(parsed.loadouts)
+  ) {
+    throw new Error('Replay is missing required fields');
+  }
+  return parsed as Replay;
+};
+
+export class ReplayRecorder {
+  private seed: string | null;
+  private startLevel: number;
+  private recordedAt: number;
+  private tick: number;
+  private inputs: [number, number][];
+  private deltas: StateDelta[];
+  private upgrades: SkillUpgrade[];
+  private loadouts: AbilityLoadout[];
+  private lastSnapshot: StateSnapshot | null;
+
+  constructor() {
+    this.seed = null;
+    this.startLevel = 1;
+    this.recordedAt = 0;
+    this.tick = 0;
+    this.inputs = [];
+    this.deltas = [];
+    this.upgrades = [];
+    this.loadouts = [];
+    this.lastSnapshot = null;
+  }
+
+  // Runs are identified by their dungeon seed, a new seed means a new run
+  isRecording(seed: string): boolean {
+    return this.seed === seed;
+  }
+
+  start(seed: string, level: number, snapshot: StateSnapshot) {
+    this.seed = seed;
+    this.startLevel = level;
+    this.recordedAt = Date.now();
+    this.tick = 0;
+    this.inputs = [];
+    this.deltas = [];
+    this.upgrades = [];
+    this.loadouts = [];
+    this.lastSnapshot = takeSnapshot(snapshot);
+  }
+
+  recordUpgrade(level: number, skillId: string) {
+    if (!this.seed) return;
+    this.upgrades.push({ level, skillId });
+  }
+
+  recordLoadout(level: number, abilityIds: string[]) {
+    if (!this.seed) return;
+    this.loadouts.push({ level, abilityIds: [...abilityIds] });
+  }
+
+  recordTick(input: PlayerInput, snapshot: StateSnapshot) {
+    if (!this.seed || !this.lastSnapshot) return;
+
+    const mask = encodeInput(input);
+    const last = this.inputs[this.inputs.length - 1];
+    if (last && last[0] === mask) {
+      last[1]++;
+    } else {
+      this.inputs.push([mask, 1]);
+    }
+
+    const next = takeSnapshot(snapshot);
+    const changes = diffSnapshots(this.lastSnapshot, next);
+    if (changes) {
+      this.deltas.push({ tick: this.tick, changes });
+    }
+    this.lastSnapshot = next;
+    this.tick++;
+  }
+
+  getReplay(): Replay | null {
+    if (!this.seed || !this.lastSnapshot) return null;
+
+    return {
+      version: REPLAY_VERSION,
+      seed: this.seed,
+      startLevel: this.startLevel,
+      recordedAt: this.recordedAt,
+      tickCount: this.tick,
+      inputs: this.inputs.map(([mask, count]) => [mask, count]),
+      deltas: this.deltas.map((delta) => ({
+        tick: delta.tick,
+        changes: { ...delta.changes },
+      })),
+      upgrades: this.upgrades.map((upgrade) => ({ ...upgrade })),
+      loadouts: this.loadouts.map((loadout) => ({
+        level: loadout.level,
+        abilityIds: [...loadout.abilityIds],
+      })),
+      finalScore: this.lastSnapshot.score,
+    };
+  }
+}
+
+export class ReplayPlayer {
+  public readonly replay: Replay;
+  private tick: number;
+  private runIndex: number;
+  private runOffset: number;
+  private deltaIndex: number;
+  private expected: Partial<StateSnapshot>;
+  public divergedAt: number | null;
+
+  constructor(replay: Replay) {
+    this.replay = replay;
+    this.tick = 0;
+    this.runIndex = 0;
+    this.runOffset = 0;
+    this.deltaIndex = 0;
+    this.expected = {};
+    this.divergedAt = null;
+  }
+
+  getTick(): number {
+    return this.tick;
+  }
+
+  isFinished(): boolean {
+    return this.tick >= this.replay.tickCount;
+  }
+
+  // Skills bought on the skill tree screen before this level
+  upgradesFor(level: number): string[] {
+    return this.replay.upgrades
+      .filter((upgrade) => upgrade.level === level)
+      .map((upgrade) => upgrade.skillId);
+  }
+
+  // Last hotbar picked on the skill tree screen before this level, if changed
+  loadoutFor(level: number): string[] | undefined {
+    const loadouts = this.replay.loadouts.filter(
+      (loadout) => loadout.level === level
+    );
+    return loadouts[loadouts.length - 1]?.abilityIds;
+  }
+
+  // Input recorded for the current tick
+  nextInput(): PlayerInput {
+    const run = this.replay.inputs[this.runIndex];
+    return run ? decodeInput(run[0]) : emptyInput();
+  }
+
+  // Advance to the next tick and return the fields that no longer match the
+  // recording, or null while the replay is still in sync
+  endTick(snapshot: StateSnapshot): Partial<StateSnapshot> | null {
+    let delta = this.replay.deltas[this.deltaIndex];
+    while (delta && delta.tick <= this.tick) {
+      Object.assign(this.expected, delta.changes);
+      this.deltaIndex++;
+      delta = this.replay.deltas[this.deltaIndex];
+    }
+
+    const run = this.replay.inputs[this.runIndex];
+    if (run) {
+      this.runOffset++;
+      if (this.runOffset >= run[1]) {
+        this.runIndex++;
+        this.runOffset = 0;
+      }
+    }
+    this.tick++;
+
+    const mismatches: Partial<StateSnapshot> = {};
+    let diverged = false;
+    for (const key of SNAPSHOT_KEYS) {
+      const expected = this.expected[key];
+      if (expected !== undefined && expected !== snapshot[key]) {
+        mismatches[key] = expected;
+        diverged = true;
+      }
+    }
+    if (diverged && this.divergedAt === null) {
+      this.divergedAt = this.tick - 1;
+    }
+    return diverged ? mismatches : null;
+  }
+}
+
+export const replayRecorder = new ReplayRecorder();
@@ -0,0 +1,122 @@
+// Player settings that outlive a run: soundtrack volume and key bindings
+import Phaser from 'phaser';
+
+export type BindableAction =
+  | 'up'
+  | 'down'
+  | 'left'
+  | 'right'
+  | 'attack'
+  | 'ability1'
+  | 'ability2'
+  | 'ability3'
+  | 'ability4'
+  | 'swapWeapon';
+
+export type KeyBindings = Record<BindableAction, number>;
+
+export interface GameSettings {
+  soundtrackVolume: number; // 0 - 1
+  bindings: KeyBindings;
+}
+
+export const bindableActions: { action: BindableAction; label: string }[] = [
+  { action: 'up', label: 'Move Up' },
+  { action: 'down', label: 'Move Down' },
+  { action: 'left', label: 'Move Left' },
+  { action: 'right', label: 'Move Right' },
+  { action: 'attack', label: 'Attack' },
+  { action: 'ability1', label: 'Ability 1' },
+  { action: 'ability2', label: 'Ability 2' },
+  { action: 'ability3', label: 'Ability 3' },
+  { action: 'ability4', label: 'Ability 4' },
+  { action: 'swapWeapon', label: 'Swap Weapon' },
+];
+
+// Browser key codes, same values as Phaser.Input.Keyboard.KeyCodes
+export const defaultBindings: KeyBindings = {
+  up: 87, // W
+  down: 83, // S
+  left: 65, // A
+  right: 68, // D
+  attack: 32, // Space
+  ability1: 49, // 1
+  ability2: 50, // 2
+  ability3: 51, // 3
+  ability4: 52, // 4
+  swapWeapon: 81, // Q
+};
+
+// Turn a key code back into a readable name, e.g. 87 -> 'W'
+export const keyName = (keyCode: number): string => {
+  const entry = Object.entries(Phaser.Input.Keyboard.KeyCodes).find(
+    ([, code]) => code === keyCode
+  );
+  return entry ? entry[0] : String(keyCode);
+};
+
+const STORAGE_KEY = 'shadow_stake_saga_settings';
+
+export class SettingsManager {
+  private settings: GameSettings;
+
+  constructor() {
+    this.settings = {
+      soundtrackVolume: 0.4,
+      bindings: { ...defaultBindings },
+    };
+    this.load();
+  }
+
+  private load() {
+    if (typeof window === 'undefined') return;
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (!stored) return;
+      const parsed = JSON.parse(stored) as Partial<GameSettings>;
+      if (typeof parsed.soundtrackVolume === 'number') {
+        this.settings.soundtrackVolume = parsed.soundtrackVolume;
+      }
+      this.settings.bindings = { ...defaultBindings, ...parsed.bindings };
+    } catch (error) {
+      console.error('Failed to load settings:', error);
+    }
+  }
+
+  private save() {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.settings));
+  }
+
+  getSoundtrackVolume(): number {
+    return this.settings.soundtrackVolume;
+  }
+
+  setSoundtrackVolume(volume: number) {
+    this.settings.soundtrackVolume = Math.min(Math.max(volume, 0), 1);
+    this.save();
+  }
+
+  getBindings(): KeyBindings {
+    return { ...this.settings.bindings };
+  }
+
+  // Binding a key that is already in use swaps the two actions
+  setBinding(action: BindableAction, keyCode: number) {
+    const bindings = this.settings.bindings;
+    const current = (Object.keys(bindings) as BindableAction[]).find(
+      (other) => bindings[other] === keyCode
+    );
+    if (current && current !== action) {
+      bindings[current] = bindings[action];
+    }
+    bindings[action] = keyCode;
+    this.save();
+  }
+
+  resetBindings() {
+    this.settings.bindings = { ...defaultBindings };
+    this.save();
+  }
+}
+
+export const settingsManager = new SettingsManager();
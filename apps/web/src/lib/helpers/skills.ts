@@ -204,7 +204,8 @@ export class SkillManager {
 
   // Calculate total effect for a skill type
   getTotalEffect(effectType: SkillEffect['type']): number {
-    let total = 0;
+    // Health bonuses are flat and add up, everything else is a multiplier
+    let total = effectType === 'health' ? 0 : 1;
     this.skills.forEach((skill) => {
       if (skill.effect.type === effectType && skill.currentLevel > 0) {
         if (effectType === 'health') {
@@ -217,6 +218,33 @@ export class SkillManager {
     return total;
   }
 
+  // Regeneration is a health skill, but heals over time instead of raising max health
+  getRegenPerSecond(): number {
+    const skill = this.skills.get('regeneration');
+    return skill ? skill.effect.value * skill.currentLevel : 0;
+  }
+
+  getMaxHealthBonus(): number {
+    return this.getTotalEffect('health') - this.getRegenPerSecond();
+  }
+
+  getSkillLevels(): Record<string, number> {
+    const levels: Record<string, number> = {};
+    this.skills.forEach((skill) => {
+      if (skill.currentLevel > 0) levels[skill.id] = skill.currentLevel;
+    });
+    return levels;
+  }
+
+  // Restore a saved tree, unknown skill ids are ignored
+  restore(levels: Record<string, number>, availablePoints: number) {
+    this.skills.forEach((skill) => {
+      const level = levels[skill.id] ?? 0;
+      skill.currentLevel = Math.min(Math.max(level, 0), skill.maxLevel);
+    });
+    this.availablePoints = availablePoints;
+  }
+
   hasSkill(skillId: string): boolean {
     const skill = this.skills.get(skillId);
     return skill ? skill.currentLevel > 0 : false;
@@ -1,5 +1,7 @@
 // Social Login Integration - Web3 + Web2 Authentication
 
+import { checkRateLimit } from '@repo/security/rate-limiter';
+
 export interface SocialProvider {
   id: string;
   name: string;
@@ -149,6 +151,9 @@ export class SocialLoginManager {
     profile?: UserProfile;
     session?: AuthSession;
   }> {
+    const limit = await checkRateLimit(address.toLowerCase(), 'login');
+    if (!limit.proceed) return { success: false, message: limit.error! };
+
     // Verify signature (simplified - in production, verify with message)
     if (!signature || signature.length < 10) {
       return { success: false, message: 'Invalid signature' };
@@ -201,6 +206,9 @@ export class SocialLoginManager {
     profile?: UserProfile;
     session?: AuthSession;
   }> {
+    const limit = await checkRateLimit(email.toLowerCase(), 'login');
+    if (!limit.proceed) return { success: false, message: limit.error! };
+
     // Verify OAuth token (simplified - in production, verify with provider)
     if (!oauthToken || oauthToken.length < 10) {
       return { success: false, message: 'Invalid OAuth token' };
@@ -248,6 +256,10 @@ export class SocialLoginManager {
     profile?: UserProfile;
     session?: AuthSession;
   }> {
+    // Failed guesses count too, that's what the limit is for
+    const limit = await checkRateLimit(email.toLowerCase(), 'login');
+    if (!limit.proceed) return { success: false, message: limit.error! };
+
     // Simplified password check (in production, use proper hashing)
     if (!password || password.length < 6) {
       return { success: false, message: 'Invalid password' };
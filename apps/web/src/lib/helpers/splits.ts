@@ -0,0 +1,71 @@
+// Speed Run Splits - per-level times, compared LiveSplit style
+
+export interface RoundTime {
+  round: number;
+  start: number;
+  end?: number;
+}
+
+export interface RunSplits {
+  startLevel: number;
+  splits: number[]; // ms spent clearing each level, from startLevel on
+}
+
+export interface PersonalBest {
+  segments: Map<number, number>; // level -> fastest clear of that level
+  through: Map<number, number>; // level N -> fastest clear of levels 1-N
+}
+
+// Levels a run has cleared, in order. The level it is on (or died on) isn't
+// cleared yet, so it is left out
+export const getRunSplits = (
+  times: RoundTime[],
+  currentLevel: number
+): RunSplits => {
+  const cleared = times
+    .filter((time) => time.round < currentLevel && time.end !== undefined)
+    .sort((a, b) => a.round - b.round);
+
+  return {
+    startLevel: cleared[0]?.round ?? currentLevel,
+    splits: cleared.map((time) => time.end! - time.start),
+  };
+};
+
+// Only runs from level 1 count towards the 1-N totals, a continued or
+// replayed run starting deeper would otherwise look impossibly fast
+export const getPersonalBest = (runs: RunSplits[]): PersonalBest => {
+  const segments = new Map<number, number>();
+  const through = new Map<number, number>();
+
+  runs.forEach((run) => {
+    let total = 0;
+    run.splits.forEach((split, index) => {
+      const level = run.startLevel + index;
+      total += split;
+      if (split < (segments.get(level) ?? Infinity)) {
+        segments.set(level, split);
+      }
+      if (run.startLevel === 1 && total < (through.get(level) ?? Infinity)) {
+        through.set(level, total);
+      }
+    });
+  });
+
+  return { segments, through };
+};
+
+// 65320 -> '1:05.32'
+export const formatSplit = (ms: number): string => {
+  const centis = Math.floor(Math.max(ms, 0) / 10);
+  const minutes = Math.floor(centis / 6000);
+  const seconds = Math.floor((centis % 6000) / 100);
+  const fraction = String(centis % 100).padStart(2, '0');
+  return `${String(minutes)}:${String(seconds).padStart(2, '0')}.${fraction}`;
+};
+
+// Ahead of the comparison is negative, e.g. -1.2
+export const formatDelta = (ms: number): string => {
+  const sign = ms < 0 ? '-' : '+';
+  return `${sign}${(Math.abs(ms) / 1000).toFixed(1)}`;
+};
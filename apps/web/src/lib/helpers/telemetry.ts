@@ -0,0 +1,181 @@
+// Gameplay telemetry for CheatDetector, collected while a run is played.
+// Events are also reported to the validator, see ValidatorClient
+import type {
+  GameData,
+  PositionSample,
+} from '@repo/security/cheat-detection';
+
+import { type RunProgress, validatorClient } from './validator';
+
+export const SAMPLE_INTERVAL_MS = 250;
+
+// Counters carried over from a resumed save, the collector only sees what
+// happens after the page loaded
+export interface TelemetryBaseline {
+  score: number;
+  kills: number;
+  itemsCollected: number;
+}
+
+export interface RunSummary {
+  sessionId: string;
+  playerAddress: string;
+  score: number;
+  duration: number; // ms actually played, see GameState.times
+}
+
+export class TelemetryCollector {
+  private seed: string | null;
+  private baseline: TelemetryBaseline;
+  private positions: PositionSample[];
+  private segment: number;
+  private kills: number;
+  private deaths: number;
+  private damageDealt: number;
+  private damageTaken: number;
+  private pickups: number;
+  private pointsEarned: number;
+  private actionTimes: number[];
+  private maxSpeed: number;
+
+  constructor() {
+    this.seed = null;
+    this.baseline = { score: 0, kills: 0, itemsCollected: 0 };
+    this.positions = [];
+    this.segment = 0;
+    this.kills = 0;
+    this.deaths = 0;
+    this.damageDealt = 0;
+    this.damageTaken = 0;
+    this.pickups = 0;
+    this.pointsEarned = 0;
+    this.actionTimes = [];
+    this.maxSpeed = 0;
+  }
+
+  // Runs are identified by their dungeon seed, like ReplayRecorder
+  isCollecting(seed: string): boolean {
+    return this.seed === seed;
+  }
+
+  start(seed: string, baseline: TelemetryBaseline) {
+    this.seed = seed;
+    this.baseline = { ...baseline };
+    this.positions = [];
+    this.segment = 0;
+    this.kills = 0;
+    this.deaths = 0;
+    this.damageDealt = 0;
+    this.damageTaken = 0;
+    this.pickups = 0;
+    this.pointsEarned = 0;
+    this.actionTimes = [];
+    this.maxSpeed = 0;
+  }
+
+  // Replays and finished runs must not add to the counters
+  stop() {
+    this.seed = null;
+  }
+
+  samplePosition(x: number, y: number, timestamp = Date.now()) {
+    if (!this.seed) return;
+
+    const previous = this.positions[this.positions.length - 1];
+    if (previous?.segment === this.segment) {
+      const seconds = (timestamp - previous.timestamp) / 1000;
+      if (seconds > 0) {
+        const distance = Math.hypot(x - previous.x, y - previous.y);
+        this.maxSpeed = Math.max(this.maxSpeed, distance / seconds);
+      }
+    }
+    this.positions.push({ x, y, timestamp, segment: this.segment });
+    validatorClient.record(
+      'move',
+      { position: { x, y }, segment: this.segment },
+      timestamp
+    );
+  }
+
+  // The player was moved by the game itself (respawn, Shadow Step, a new
+  // level), the jump to the next sample isn't movement
+  markDiscontinuity() {
+    this.segment++;
+  }
+
+  // roll numbers the kill on its level, the validator finds it by that to
+  // re-roll its relic drop
+  recordKill(points: number, roll: number, boss?: string) {
+    if (!this.seed) return;
+    this.kills++;
+    this.pointsEarned += points;
+    validatorClient.record('enemy_killed', { points, roll, boss });
+  }
+
+  recordPickup(points = 0) {
+    if (!this.seed) return;
+    this.pickups++;
+    this.pointsEarned += points;
+    validatorClient.record('item_collected', { points });
+  }
+
+  recordDamageDealt(amount: number) {
+    if (!this.seed || amount <= 0) return;
+    this.damageDealt += amount;
+  }
+
+  recordDamageTaken(amount: number) {
+    if (!this.seed || amount <= 0) return;
+    this.damageTaken += amount;
+    validatorClient.record('damage_taken', { amount });
+  }
+
+  recordDeath() {
+    if (!this.seed) return;
+    this.deaths++;
+  }
+
+  // Attacks and ability casts the player triggered
+  recordAction(timestamp = Date.now()) {
+    if (!this.seed) return;
+    this.actionTimes.push(timestamp);
+    validatorClient.record('attack', null, timestamp);
+  }
+
+  // Clearing a level scores nothing by itself, the validator gets the
+  // progress so far as a checkpoint
+  recordLevelComplete(progress: RunProgress) {
+    if (!this.seed) return;
+    validatorClient.record('level_complete', {
+      level: progress.level,
+      bonus: 0,
+    });
+    void validatorClient.checkpoint(progress);
+  }
+
+  // No actions at all isn't spam, that counts as one interval over the run
+  private getAvgActionInterval(duration: number): number {
+    if (this.actionTimes.length < 2) return duration;
+    const first = this.actionTimes[0]!;
+    const last = this.actionTimes[this.actionTimes.length - 1]!;
+    return (last - first) / (this.actionTimes.length - 1);
+  }
+
+  getGameData(run: RunSummary): GameData {
+    return {
+      ...run,
+      kills: this.baseline.kills + this.kills,
+      deaths: this.deaths,
+      damageDealt: this.damageDealt,
+      damageTaken: this.damageTaken,
+      itemsCollected: this.baseline.itemsCollected + this.pickups,
+      actions: this.actionTimes.length,
+      avgActionInterval: this.getAvgActionInterval(run.duration),
+      maxSpeed: this.maxSpeed,
+      positions: this.positions.map((position) => ({ ...position })),
+      expectedScore: this.baseline.score + this.pointsEarned,
+    };
+  }
+}
+
+export const telemetryCollector = new TelemetryCollector();
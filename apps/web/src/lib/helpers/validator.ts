@@ -0,0 +1,337 @@
+// Client for apps/validator, which checks the run's actions and checkpoints
+// with ServerValidator and signs the score reveal_score accepts
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import {
+  type ChallengeResponse,
+  type ChallengeResult,
+  type ChallengeType,
+  type ChallengeView,
+  type UserBehavior,
+  botProtection,
+} from '@repo/security/bot-protection';
+import type { GameData } from '@repo/security/cheat-detection';
+import type {
+  GameAction,
+  GameCheckpoint,
+} from '@repo/security/server-validation';
+
+import type { RunSplits } from './splits';
+
+// Unset disables the validator, runs then play on a local seed and their
+// scores are stored unverified
+const VALIDATOR_URL = import.meta.env.VITE_VALIDATOR_URL;
+
+// Actions are sent in batches, at the latest this often
+const FLUSH_INTERVAL_MS = 5000;
+const MAX_BATCH = 50;
+
+export interface ValidatorSession {
+  sessionId: string;
+  // Validator clock minus ours when the session started. Actions are stamped
+  // in validator time, it rejects anything from before the session
+  clockOffset: number;
+}
+
+// StoredResult of apps/validator
+export interface ValidatorResult {
+  sessionId: string;
+  playerAddress: string;
+  score: number;
+  valid: boolean;
+  flags: string[];
+  confidence: number;
+  severity: string;
+  startLevel: number;
+  splits: number[]; // The run's RunSplits as the validator saw them
+  issuedAt: number;
+  // Ed25519 over sessionId:playerAddress:score:startLevel:splits:issuedAt
+  signature?: string;
+}
+
+// RelicDropClaim of apps/validator, what mint_relic checks the signature of
+export interface SignedRelicDrop {
+  sessionId: string;
+  playerAddress: string;
+  seed: string;
+  level: number;
+  roll: number;
+  rarity: string;
+  power: number;
+  // Ed25519 over relic:sessionId:playerAddress:seed:level:roll:rarity:power
+  signature: string;
+}
+
+export type RunProgress = Omit<
+  GameCheckpoint,
+  'hash' | 'timestamp' | 'position'
+>;
+
+// Bot-protection challenges, see challengeService. The reaction rounds are
+// timed by whoever implements this, never by the scene showing them
+export interface ChallengeService {
+  needsChallenge(userAddress: string, behavior: UserBehavior): Promise<boolean>;
+  createChallenge(
+    userAddress: string,
+    type: ChallengeType
+  ): Promise<ChallengeView>;
+  // Resolves once the rune lights up, false when no round could start
+  armReactionRound(challengeId: string): Promise<boolean>;
+  pressReaction(challengeId: string): Promise<boolean>;
+  verifyChallenge(
+    challengeId: string,
+    response: ChallengeResponse,
+    responseTime: number
+  ): Promise<ChallengeResult>;
+}
+
+export class ValidatorClient implements ChallengeService {
+  private baseUrl: string | null;
+  private session: ValidatorSession | null;
+  private pending: Omit<GameAction, 'hash'>[];
+  private position: { x: number; y: number };
+  // Requests go out one at a time, the validator chains each action onto
+  // the one before it
+  private queue: Promise<unknown>;
+  private timer: ReturnType<typeof setInterval> | null;
+
+  constructor(baseUrl = VALIDATOR_URL) {
+    this.baseUrl = baseUrl ? baseUrl.replace(/\/+$/, '') : null;
+    this.session = null;
+    this.pending = [];
+    this.position = { x: 0, y: 0 };
+    this.queue = Promise.resolve();
+    this.timer = null;
+  }
+
+  get enabled(): boolean {
+    return this.baseUrl !== null;
+  }
+
+  private async post<T>(path: string, body: unknown): Promise<T> {
+    if (!this.baseUrl) throw new Error('Validator not configured');
+
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const payload = (await response.json()) as T & { error?: string };
+    if (!response.ok) {
+      throw new Error(
+        payload.error ?? `Validator responded ${String(response.status)}`
+      );
+    }
+    return payload;
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const next = this.queue.then(task, task);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  // Opens a session for a new run, its seed becomes the run's dungeon seed.
+  // The address is signed as reveal_score rebuilds it, full lowercase hex
+  async startSession(
+    playerAddress: string,
+    level: number
+  ): Promise<{ session: ValidatorSession; seed: string }> {
+    const requestedAt = Date.now();
+    const { sessionId, seed, startTime } = await this.post<{
+      sessionId: string;
+      seed: string;
+      startTime: number;
+    }>('/sessions', {
+      playerAddress: normalizeSuiAddress(playerAddress),
+      level,
+    });
+
+    return {
+      session: { sessionId, clockOffset: startTime - requestedAt },
+      seed,
+    };
+  }
+
+  isReporting(sessionId: string): boolean {
+    return this.session?.sessionId === sessionId;
+  }
+
+  // Report the run's actions to this session from now on
+  attach(session: ValidatorSession) {
+    if (this.isReporting(session.sessionId)) return;
+    this.detach();
+    this.session = { ...session };
+    this.timer = setInterval(() => {
+      void this.flush();
+    }, FLUSH_INTERVAL_MS);
+  }
+
+  detach() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.session = null;
+    this.pending = [];
+  }
+
+  record(type: GameAction['type'], data: unknown, timestamp = Date.now()) {
+    if (!this.session) return;
+
+    if (type === 'move') {
+      ({ position: this.position } = data as {
+        position: { x: number; y: number };
+      });
+    }
+    this.pending.push({
+      timestamp: timestamp + this.session.clockOffset,
+      type,
+      data,
+    });
+    if (this.pending.length >= MAX_BATCH) void this.flush();
+  }
+
+  flush(): Promise<void> {
+    const session = this.session;
+    const actions = this.pending;
+    this.pending = [];
+    if (!session || actions.length === 0) return this.queue.then(() => {});
+
+    return this.enqueue(async () => {
+      try {
+        await this.post(`/sessions/${session.sessionId}/actions`, {
+          actions,
+        });
+      } catch (error) {
+        // A rejected batch is a gap the validator will flag, the run goes on
+        console.warn('Failed to report actions to the validator:', error);
+      }
+    });
+  }
+
+  // The run's state at the last reported position, e.g. on clearing a level
+  checkpoint(progress: RunProgress): Promise<void> {
+    const session = this.session;
+    if (!session) return Promise.resolve();
+
+    const checkpoint = {
+      ...progress,
+      timestamp: Date.now() + session.clockOffset,
+      position: { ...this.position },
+    };
+    void this.flush();
+    return this.enqueue(async () => {
+      try {
+        await this.post(`/sessions/${session.sessionId}/checkpoints`, {
+          checkpoint,
+        });
+      } catch (error) {
+        console.warn('Failed to report a checkpoint to the validator:', error);
+      }
+    });
+  }
+
+  // Ends the run. Resolves with the validator's verdict, or null when there
+  // is no session or the validator can't be reached. The splits are signed
+  // with the score, reveal_score records no others
+  async validate(
+    progress: RunProgress,
+    gameData: GameData,
+    splits: RunSplits
+  ): Promise<ValidatorResult | null> {
+    const session = this.session;
+    if (!session) return null;
+
+    await this.checkpoint(progress);
+    this.detach();
+    try {
+      return await this.post<ValidatorResult>(
+        `/sessions/${session.sessionId}/validate`,
+        { finalScore: progress.score, gameData, ...splits }
+      );
+    } catch (error) {
+      console.error('Failed to validate the run:', error);
+      return null;
+    }
+  }
+
+  // Has the validator re-roll a relic drop from the kill it recorded and sign
+  // it for mint_relic. Reports what is still pending first, the kill may be
+  // among it
+  async signRelicDrop(
+    sessionId: string,
+    drop: { level: number; roll: number }
+  ): Promise<SignedRelicDrop> {
+    await this.flush();
+    return this.post<SignedRelicDrop>(`/sessions/${sessionId}/relics`, drop);
+  }
+
+  async needsChallenge(userAddress: string, behavior: UserBehavior) {
+    const { challengeRequired } = await this.post<{
+      challengeRequired: boolean;
+    }>(`/players/${normalizeSuiAddress(userAddress)}/behavior`, behavior);
+    return challengeRequired;
+  }
+
+  createChallenge(userAddress: string, type: ChallengeType) {
+    return this.post<ChallengeView>('/challenges', {
+      playerAddress: normalizeSuiAddress(userAddress),
+      type,
+    });
+  }
+
+  // The validator holds the request until the rune lights up
+  async armReactionRound(challengeId: string) {
+    try {
+      await this.post(`/challenges/${challengeId}/rounds`, {});
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async pressReaction(challengeId: string) {
+    try {
+      await this.post(`/challenges/${challengeId}/presses`, {});
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  verifyChallenge(
+    challengeId: string,
+    response: ChallengeResponse,
+    responseTime: number
+  ) {
+    return this.post<ChallengeResult>(`/challenges/${challengeId}/verify`, {
+      response,
+      responseTime,
+    });
+  }
+}
+
+export const validatorClient = new ValidatorClient();
+
+// Without a validator the challenges run in the page, the same way scores
+// are then stored unverified
+const localChallenges: ChallengeService = {
+  async needsChallenge(userAddress, behavior) {
+    botProtection.trackBehavior(userAddress, behavior);
+    return botProtection.needsChallenge(userAddress);
+  },
+  createChallenge: (userAddress, type) =>
+    botProtection.createChallenge(userAddress, type),
+  async armReactionRound(challengeId) {
+    const delay = botProtection.armReactionRound(challengeId);
+    if (delay === null) return false;
+    await new Promise((resolve) => setTimeout(resolve, delay));
+    return true;
+  },
+  pressReaction: async (challengeId) =>
+    botProtection.pressReaction(challengeId),
+  verifyChallenge: (challengeId, response, responseTime) =>
+    botProtection.verifyChallenge(challengeId, response, responseTime),
+};
+
+export const challengeService: ChallengeService = validatorClient.enabled
+  ? validatorClient
+  : localChallenges;
@@ -1,5 +1,7 @@
 // Weapon and ability variety system
 
+import type { RandomFn } from '@repo/security/random';
+
 export interface Weapon {
   id: string;
   name: string;
@@ -263,7 +265,7 @@ export const abilities: Ability[] = [
   {
     id: 'shadow-step',
     name: 'Shadow Step',
-    description: 'Teleport to cursor location',
+    description: 'Blink forward in the direction you are facing',
     cooldown: 8000,
     manaCost: 25,
     effect: {
@@ -308,7 +310,7 @@ export class WeaponManager {
   constructor() {
     this.currentWeapon = weapons[0]!; // Start with rusty sword
     this.unlockedWeapons = new Set(['rusty-sword']);
-    this.equippedAbilities = [];
+    this.equippedAbilities = abilities.slice(0, 4); // Default hotbar
   }
 
   equipWeapon(weaponId: string): boolean {
@@ -334,20 +336,61 @@ export class WeaponManager {
     return weapons.filter((w) => this.unlockedWeapons.has(w.id));
   }
 
+  // Equip the next unlocked weapon, wrapping around to the first
+  cycleWeapon(): Weapon {
+    const unlocked = this.getUnlockedWeapons();
+    const index = unlocked.findIndex((w) => w.id === this.currentWeapon.id);
+    this.currentWeapon = unlocked[(index + 1) % unlocked.length]!;
+    return this.currentWeapon;
+  }
+
   equipAbility(ability: Ability): boolean {
     if (this.equippedAbilities.length >= 4) return false;
+    if (this.equippedAbilities.some((a) => a.id === ability.id)) return false;
     this.equippedAbilities.push(ability);
     return true;
   }
 
+  unequipAbility(abilityId: string) {
+    this.equippedAbilities = this.equippedAbilities.filter(
+      (a) => a.id !== abilityId
+    );
+  }
+
   getEquippedAbilities(): Ability[] {
     return this.equippedAbilities;
   }
 
+  // Restore a saved loadout, unknown ids are ignored
+  restore(currentId: string, unlockedIds: string[], abilityIds: string[]) {
+    this.unlockedWeapons = new Set(['rusty-sword', ...unlockedIds]);
+    this.currentWeapon = weapons[0]!;
+    this.equipWeapon(currentId);
+    this.setAbilities(abilityIds);
+  }
+
+  // Replace the hotbar, unknown ids are ignored
+  setAbilities(abilityIds: string[]) {
+    this.equippedAbilities = abilityIds
+      .map((id) => abilities.find((a) => a.id === id))
+      .filter((a): a is Ability => a !== undefined)
+      .slice(0, 4);
+  }
+
+  // Weapons are found during a run, so a new run starts from the rusty sword
+  reset() {
+    this.currentWeapon = weapons[0]!;
+    this.unlockedWeapons = new Set(['rusty-sword']);
+    this.equippedAbilities = abilities.slice(0, 4);
+  }
+
   // Drop weapon based on rarity
-  static getRandomWeaponDrop(level: number): Weapon | null {
-    const dropChance = Math.random();
-    
+  static getRandomWeaponDrop(
+    level: number,
+    random: RandomFn = Math.random
+  ): Weapon | null {
+    const dropChance = random();
+
     // Higher levels = better drops
     const rarityThreshold = {
       legendary: 0.02 + level * 0.005,
@@ -370,6 +413,6 @@ export class WeaponManager {
     }
 
     const availableWeapons = weapons.filter((w) => w.rarity === rarity);
-    return availableWeapons[Math.floor(Math.random() * availableWeapons.length)] || null;
+    return availableWeapons[Math.floor(random() * availableWeapons.length)] || null;
   }
 }
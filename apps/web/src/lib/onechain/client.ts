@@ -1,7 +1,11 @@
 // OneChain Client Integration
-import { SuiClient } from '@mysten/sui/client';
-import { Transaction } from '@mysten/sui/transactions';
+import { SuiClient, type SuiObjectChange } from '@mysten/sui/client';
+import {
+  Transaction,
+  type TransactionObjectArgument,
+} from '@mysten/sui/transactions';
 import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { fromHex } from '@mysten/sui/utils';
 
 // OneChain Network Configuration
 export const ONECHAIN_CONFIG = {
@@ -16,9 +20,13 @@ export const ONECHAIN_CONFIG = {
 export const CONTRACTS = {
   GAME_PACKAGE: process.env.NEXT_PUBLIC_GAME_PACKAGE || '0x0',
   GAME_REGISTRY: process.env.NEXT_PUBLIC_GAME_REGISTRY || '0x0',
-  DGN_TREASURY: process.env.NEXT_PUBLIC_DGN_TREASURY || '0x0',
+  MARKETPLACE: process.env.NEXT_PUBLIC_MARKETPLACE || '0x0',
 };
 
+// DGN is the package's sss_token coin
+export const DGN_COIN_TYPE = `${CONTRACTS.GAME_PACKAGE}::sss_token::SSS_TOKEN`;
+export const DGN_DECIMALS = 9; // See sss_token.move
+
 // Initialize OneChain client
 export const onechainClient = new SuiClient({
   url: ONECHAIN_CONFIG.TESTNET,
@@ -72,16 +80,244 @@ export async function getOwnedObjects(address: string) {
   }
 }
 
+const GAME_MODULE = 'shadow_stake_saga_game';
+
+export interface SessionStats {
+  score: number;
+  level: number;
+  enemiesKilled: number;
+  bossesDefeated: number;
+  itemsCollected: number;
+}
+
+// Transaction builders, shared by the keypair wrappers below and the wallet
+// flow in useGameActions
+export function addCreateProfileCall(tx: Transaction) {
+  tx.moveCall({
+    target: `${CONTRACTS.GAME_PACKAGE}::${GAME_MODULE}::create_profile`,
+    arguments: [],
+  });
+}
+
+// validatorSessionId binds the session to the validator run that seeded it,
+// without one the score can only be stored unverified
+export function addStartGameCall(
+  tx: Transaction,
+  registryId: string,
+  validatorSessionId: string | null
+) {
+  tx.moveCall({
+    target: `${CONTRACTS.GAME_PACKAGE}::${GAME_MODULE}::start_game`,
+    arguments: [
+      tx.object(registryId),
+      tx.pure.string(validatorSessionId ?? ''),
+    ],
+  });
+}
+
+export function addUpdateSessionCall(
+  tx: Transaction,
+  sessionId: string,
+  stats: SessionStats
+) {
+  tx.moveCall({
+    target: `${CONTRACTS.GAME_PACKAGE}::${GAME_MODULE}::update_session`,
+    arguments: [
+      tx.object(sessionId),
+      tx.pure.u64(stats.level),
+      tx.pure.u64(stats.enemiesKilled),
+      tx.pure.u64(stats.bossesDefeated),
+      tx.pure.u64(stats.itemsCollected),
+    ],
+  });
+}
+
+// Phase 1 of score submission, see CommitRevealScheme
+export function addCommitScoreCall(
+  tx: Transaction,
+  sessionId: string,
+  commitHash: string
+) {
+  tx.moveCall({
+    target: `${CONTRACTS.GAME_PACKAGE}::${GAME_MODULE}::commit_score`,
+    arguments: [
+      tx.object(sessionId),
+      tx.pure.vector('u8', Array.from(fromHex(commitHash))),
+      tx.object.clock(),
+    ],
+  });
+}
+
+export interface ScoreReveal {
+  commitmentId: string; // ScoreCommitment object
+  score: number;
+  nonce: string;
+  sessionData: string;
+  // From the validator's signed result, together with the score
+  startLevel: number;
+  splits: number[];
+  issuedAt: number;
+  signature: string; // Hex Ed25519 signature of the validator
+}
+
+// Phase 2, completes the session with the score only if it matches the hash
+// and the validator signed it. The run's speed run splits are recorded with it
+export function addRevealScoreCall(
+  tx: Transaction,
+  profileId: string,
+  registryId: string,
+  sessionId: string,
+  reveal: ScoreReveal
+) {
+  tx.moveCall({
+    target: `${CONTRACTS.GAME_PACKAGE}::${GAME_MODULE}::reveal_score`,
+    arguments: [
+      tx.object(reveal.commitmentId),
+      tx.object(profileId),
+      tx.object(registryId),
+      tx.object(sessionId),
+      tx.pure.u64(reveal.score),
+      tx.pure.string(reveal.nonce),
+      tx.pure.string(reveal.sessionData),
+      tx.pure.u64(reveal.startLevel),
+      tx.pure.vector('u64', reveal.splits),
+      tx.pure.u64(reveal.issuedAt),
+      tx.pure.vector('u8', Array.from(fromHex(reveal.signature))),
+      tx.object.clock(),
+    ],
+  });
+}
+
+// A relic drop the validator re-rolled and signed, see
+// ValidatorClient.signRelicDrop
+export interface RelicDropProof {
+  sessionId: string; // Validator session of the run
+  seed: string;
+  level: number;
+  roll: number;
+  rarity: string;
+  power: number;
+  signature: string; // Hex Ed25519 signature of the validator
+}
+
+// mint_relic burns the fee, at least relic_mint_fee for the rarity, and
+// rejects more power than max_relic_power allows. Power and rarity are the
+// ones the validator signed, each drop mints once
+export function addMintRelicCall(
+  tx: Transaction,
+  registryId: string,
+  fee: TransactionObjectArgument,
+  name: string,
+  description: string,
+  imageUrl: string,
+  drop: RelicDropProof
+) {
+  tx.moveCall({
+    target: `${CONTRACTS.GAME_PACKAGE}::nft_items::mint_relic`,
+    arguments: [
+      tx.object(registryId),
+      tx.object(CONTRACTS.MARKETPLACE),
+      fee,
+      tx.pure.string(name),
+      tx.pure.string(description),
+      tx.pure.u64(drop.power),
+      tx.pure.string(drop.rarity),
+      tx.pure.string(imageUrl),
+      tx.pure.string(drop.sessionId),
+      tx.pure.string(drop.seed),
+      tx.pure.u64(drop.level),
+      tx.pure.u64(drop.roll),
+      tx.pure.vector('u8', Array.from(fromHex(drop.signature))),
+    ],
+  });
+}
+
+// Consume the relic NFTs and the DGN fee into one fused relic, see
+// fuse_relics in nft.move for how power and rarity are derived
+export function addFuseRelicsCall(
+  tx: Transaction,
+  relicIds: string[],
+  fee: TransactionObjectArgument,
+  name: string,
+  description: string,
+  imageUrl: string
+) {
+  tx.moveCall({
+    target: `${CONTRACTS.GAME_PACKAGE}::nft_items::fuse_relics`,
+    arguments: [
+      tx.object(CONTRACTS.MARKETPLACE),
+      tx.makeMoveVec({
+        type: `${CONTRACTS.GAME_PACKAGE}::nft_items::Relic`,
+        elements: relicIds.map((id) => tx.object(id)),
+      }),
+      fee,
+      tx.pure.string(name),
+      tx.pure.string(description),
+      tx.pure.string(imageUrl),
+    ],
+  });
+}
+
+// Id of an object created by a transaction, matched on its Move type name
+export function getCreatedObjectId(
+  changes: SuiObjectChange[] | null | undefined,
+  typeName: string,
+  module: string = GAME_MODULE
+): string | null {
+  const created = changes?.find(
+    (change) =>
+      change.type === 'created' &&
+      change.objectType.endsWith(`::${module}::${typeName}`)
+  );
+  return created?.type === 'created' ? created.objectId : null;
+}
+
+// Find the wallet's PlayerProfile, null until create_profile has run
+export async function findPlayerProfileId(
+  address: string,
+  client: SuiClient = onechainClient
+): Promise<string | null> {
+  const objects = await client.getOwnedObjects({
+    owner: address,
+    filter: {
+      StructType: `${CONTRACTS.GAME_PACKAGE}::${GAME_MODULE}::PlayerProfile`,
+    },
+  });
+  return objects.data[0]?.data?.objectId ?? null;
+}
+
+let registryId: string | null =
+  CONTRACTS.GAME_REGISTRY === '0x0' ? null : CONTRACTS.GAME_REGISTRY;
+
+// The registry is shared in the package's init, so when it isn't configured
+// it can be read from the publish transaction
+export async function findGameRegistryId(
+  client: SuiClient = onechainClient
+): Promise<string> {
+  if (registryId) return registryId;
+
+  const pkg = await client.getObject({
+    id: CONTRACTS.GAME_PACKAGE,
+    options: { showPreviousTransaction: true },
+  });
+  const digest = pkg.data?.previousTransaction;
+  if (!digest) throw new Error('Game package not found');
+
+  const publish = await client.getTransactionBlock({
+    digest,
+    options: { showObjectChanges: true },
+  });
+  registryId = getCreatedObjectId(publish.objectChanges, 'GameRegistry');
+  if (!registryId) throw new Error('Game registry not found');
+  return registryId;
+}
+
 // Create player profile
 export async function createPlayerProfile(
   keypair: Ed25519Keypair
 ): Promise<any> {
   const tx = new Transaction();
-
-  tx.moveCall({
-    target: `${CONTRACTS.GAME_PACKAGE}::shadow_stake_saga_game::create_profile`,
-    arguments: [],
-  });
+  addCreateProfileCall(tx);
 
   try {
     const result = await onechainClient.signAndExecuteTransaction({
@@ -102,14 +338,11 @@ export async function createPlayerProfile(
 
 // Start game session
 export async function startGameSession(
-  keypair: Ed25519Keypair
+  keypair: Ed25519Keypair,
+  validatorSessionId: string | null = null
 ): Promise<any> {
   const tx = new Transaction();
-
-  tx.moveCall({
-    target: `${CONTRACTS.GAME_PACKAGE}::shadow_stake_saga_game::start_game`,
-    arguments: [tx.object(CONTRACTS.GAME_REGISTRY)],
-  });
+  addStartGameCall(tx, await findGameRegistryId(), validatorSessionId);
 
   try {
     const result = await onechainClient.signAndExecuteTransaction({
@@ -129,22 +362,14 @@ export async function startGameSession(
   }
 }
 
-// Complete game session
-export async function completeGameSession(
+// Checkpoint game session progress
+export async function updateGameSession(
   keypair: Ed25519Keypair,
-  profileId: string,
-  sessionId: string
+  sessionId: string,
+  stats: SessionStats
 ): Promise<any> {
   const tx = new Transaction();
-
-  tx.moveCall({
-    target: `${CONTRACTS.GAME_PACKAGE}::shadow_stake_saga_game::complete_game`,
-    arguments: [
-      tx.object(profileId),
-      tx.object(CONTRACTS.GAME_REGISTRY),
-      tx.object(sessionId),
-    ],
-  });
+  addUpdateSessionCall(tx, sessionId, stats);
 
   try {
     const result = await onechainClient.signAndExecuteTransaction({
@@ -152,32 +377,33 @@ export async function completeGameSession(
       transaction: tx,
       options: {
         showEffects: true,
-        showObjectChanges: true,
-        showEvents: true,
       },
     });
 
     return result;
   } catch (error) {
-    console.error('Failed to complete game:', error);
+    console.error('Failed to update game session:', error);
     throw error;
   }
 }
 
-// Mint DGN tokens
+// Mint DGN through the treasury cap the Marketplace holds. Only the holder
+// of the MarketAdminCap can, amount is in base units (DGN_DECIMALS)
 export async function mintDGNTokens(
   keypair: Ed25519Keypair,
-  amount: number,
+  adminCapId: string,
+  amount: bigint,
   recipient: string
 ): Promise<any> {
   const tx = new Transaction();
 
   tx.moveCall({
-    target: `${CONTRACTS.GAME_PACKAGE}::dgn_token::mint`,
+    target: `${CONTRACTS.GAME_PACKAGE}::marketplace::mint`,
     arguments: [
-      tx.object(CONTRACTS.DGN_TREASURY),
-      tx.pure(amount),
-      tx.pure(recipient),
+      tx.object(adminCapId),
+      tx.object(CONTRACTS.MARKETPLACE),
+      tx.pure.u64(amount),
+      tx.pure.address(recipient),
     ],
   });
 
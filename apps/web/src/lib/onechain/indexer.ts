@@ -0,0 +1,333 @@
+// Local Event Index for OneChain game events
+import type { EventId, SuiClient, SuiEvent } from '@mysten/sui/client';
+
+import { CONTRACTS, onechainClient } from './client';
+
+export type IndexedEventType =
+  | 'GameCompleted'
+  | 'GameStarted'
+  | 'AchievementEarned'
+  | 'SplitsRecorded';
+
+export interface IndexedGame {
+  id: string; // txDigest:eventSeq
+  type: 'GameCompleted';
+  txDigest: string;
+  player: string;
+  sessionId: string;
+  score: number;
+  level: number;
+  enemiesKilled: number;
+  bossesDefeated: number;
+  timestamp: number; // ms
+}
+
+export interface IndexedGameStart {
+  id: string;
+  type: 'GameStarted';
+  txDigest: string;
+  player: string;
+  sessionId: string;
+  timestamp: number;
+}
+
+export interface IndexedAchievement {
+  id: string;
+  type: 'AchievementEarned';
+  txDigest: string;
+  player: string;
+  name: string;
+  timestamp: number;
+}
+
+export interface IndexedSplits {
+  id: string;
+  type: 'SplitsRecorded';
+  txDigest: string;
+  player: string;
+  sessionId: string; // Matches the GameCompleted of the same session
+  startLevel: number;
+  splits: number[]; // ms per cleared level
+  timestamp: number;
+}
+
+export type IndexedEvent =
+  | IndexedGame
+  | IndexedGameStart
+  | IndexedAchievement
+  | IndexedSplits;
+
+interface IndexCursor {
+  type: IndexedEventType;
+  cursor: EventId | null;
+  syncedAt: number;
+}
+
+// One database per deployed package, so events and cursors from an older
+// deployment never mix with the current one
+const DB_NAME = `ShadowStakeSagaIndex:${CONTRACTS.GAME_PACKAGE}`;
+const DB_VERSION = 1;
+const PAGE_SIZE = 50;
+
+const eventTypes: IndexedEventType[] = [
+  'GameCompleted',
+  'GameStarted',
+  'AchievementEarned',
+  'SplitsRecorded',
+];
+
+// vector<u8> fields come back as byte arrays
+const decodeBytes = (value: unknown): string =>
+  Array.isArray(value)
+    ? new TextDecoder().decode(new Uint8Array(value as number[]))
+    : String(value ?? '');
+
+export class EventIndexer {
+  private client: SuiClient;
+  private syncing: Promise<void> | null = null;
+  private database: Promise<IDBDatabase | null> | null = null;
+  // Used when IndexedDB isn't available, the index then lasts one page load
+  private memoryEvents = new Map<string, IndexedEvent>();
+  private memoryCursors = new Map<IndexedEventType, IndexCursor>();
+
+  constructor(client: SuiClient = onechainClient) {
+    this.client = client;
+  }
+
+  // Opened once and shared by every read and write
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (typeof window === 'undefined' || !('indexedDB' in window)) {
+      return Promise.resolve(null);
+    }
+
+    this.database ??= new Promise((resolve) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onerror = () => {
+        this.database = null;
+        resolve(null);
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Reopen on next use if the browser closes it or another tab
+        // upgrades the schema
+        db.onclose = () => {
+          this.database = null;
+        };
+        db.onversionchange = () => {
+          db.close();
+          this.database = null;
+        };
+        resolve(db);
+      };
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains('events')) {
+          const events = db.createObjectStore('events', { keyPath: 'id' });
+          events.createIndex('type', 'type');
+        }
+        if (!db.objectStoreNames.contains('cursors')) {
+          db.createObjectStore('cursors', { keyPath: 'type' });
+        }
+      };
+    });
+    return this.database;
+  }
+
+  private async getCursor(
+    type: IndexedEventType
+  ): Promise<IndexCursor | null> {
+    const db = await this.openDatabase();
+    if (!db) return this.memoryCursors.get(type) ?? null;
+
+    return new Promise((resolve) => {
+      const request = db
+        .transaction(['cursors'], 'readonly')
+        .objectStore('cursors')
+        .get(type);
+
+      request.onsuccess = () => {
+        resolve((request.result as IndexCursor | undefined) ?? null);
+      };
+      request.onerror = () => resolve(null);
+    });
+  }
+
+  // Events and the cursor past them are written together, so an interrupted
+  // sync resumes from the last page that was stored
+  private async storePage(events: IndexedEvent[], cursor: IndexCursor) {
+    const db = await this.openDatabase();
+    if (!db) {
+      events.forEach((event) => {
+        this.memoryEvents.set(event.id, event);
+      });
+      this.memoryCursors.set(cursor.type, cursor);
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(['events', 'cursors'], 'readwrite');
+      const store = transaction.objectStore('events');
+      events.forEach((event) => {
+        store.put(event);
+      });
+      transaction.objectStore('cursors').put(cursor);
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  private parseEvent(
+    type: IndexedEventType,
+    event: SuiEvent
+  ): IndexedEvent | null {
+    const json = event.parsedJson as Record<string, unknown> | undefined;
+    const player = json?.player;
+    if (typeof player !== 'string') return null;
+
+    const base = {
+      id: `${event.id.txDigest}:${event.id.eventSeq}`,
+      txDigest: event.id.txDigest,
+      player,
+      timestamp: Number(event.timestampMs ?? 0),
+    };
+
+    switch (type) {
+      case 'GameCompleted':
+        return {
+          ...base,
+          type,
+          sessionId: String(json?.session_id ?? ''),
+          score: Number(json?.score ?? 0),
+          level: Number(json?.level ?? 0),
+          enemiesKilled: Number(json?.enemies_killed ?? 0),
+          bossesDefeated: Number(json?.bosses_defeated ?? 0),
+        };
+      case 'GameStarted':
+        return { ...base, type, sessionId: String(json?.session_id ?? '') };
+      case 'AchievementEarned':
+        return { ...base, type, name: decodeBytes(json?.achievement_name) };
+      case 'SplitsRecorded':
+        return {
+          ...base,
+          type,
+          sessionId: String(json?.session_id ?? ''),
+          startLevel: Number(json?.start_level ?? 1),
+          splits: Array.isArray(json?.splits)
+            ? (json.splits as unknown[]).map(Number)
+            : [],
+        };
+    }
+  }
+
+  private async syncType(type: IndexedEventType) {
+    let cursor = (await this.getCursor(type))?.cursor ?? null;
+    let hasNextPage = true;
+
+    while (hasNextPage) {
+      const page = await this.client.queryEvents({
+        query: {
+          MoveEventType: `${CONTRACTS.GAME_PACKAGE}::shadow_stake_saga_game::${type}`,
+        },
+        cursor,
+        limit: PAGE_SIZE,
+        order: 'ascending',
+      });
+
+      const events = page.data
+        .map((event) => this.parseEvent(type, event))
+        .filter((event): event is IndexedEvent => event !== null);
+
+      cursor = page.nextCursor ?? cursor;
+      hasNextPage = page.hasNextPage;
+      await this.storePage(events, { type, cursor, syncedAt: Date.now() });
+    }
+  }
+
+  // Pull everything emitted since the last sync. Concurrent callers share one
+  // run instead of paging the same events twice
+  sync(): Promise<void> {
+    if (!this.syncing) {
+      this.syncing = (async () => {
+        for (const type of eventTypes) {
+          await this.syncType(type);
+        }
+      })().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  private async getEvents<T extends IndexedEvent>(
+    type: T['type']
+  ): Promise<T[]> {
+    const db = await this.openDatabase();
+    if (!db) {
+      return Array.from(this.memoryEvents.values()).filter(
+        (event): event is T => event.type === type
+      );
+    }
+
+    return new Promise((resolve) => {
+      const request = db
+        .transaction(['events'], 'readonly')
+        .objectStore('events')
+        .index('type')
+        .getAll(type);
+
+      request.onsuccess = () => resolve(request.result as T[]);
+      request.onerror = () => resolve([]);
+    });
+  }
+
+  // Completed games, newest first, optionally for a single player
+  async getCompletedGames(player?: string): Promise<IndexedGame[]> {
+    const games = await this.getEvents<IndexedGame>('GameCompleted');
+    return games
+      .filter((game) => !player || game.player === player)
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  async getStartedGames(player?: string): Promise<IndexedGameStart[]> {
+    const starts = await this.getEvents<IndexedGameStart>('GameStarted');
+    return starts
+      .filter((start) => !player || start.player === player)
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  async getAchievements(player?: string): Promise<IndexedAchievement[]> {
+    const achievements =
+      await this.getEvents<IndexedAchievement>('AchievementEarned');
+    return achievements.filter(
+      (achievement) => !player || achievement.player === player
+    );
+  }
+
+  // Only splits of a completed session are ranked, anything else was never
+  // checked against a revealed score
+  async getSplits(player?: string): Promise<IndexedSplits[]> {
+    const [splits, games] = await Promise.all([
+      this.getEvents<IndexedSplits>('SplitsRecorded'),
+      this.getEvents<IndexedGame>('GameCompleted'),
+    ]);
+    const completed = new Set(games.map((game) => game.sessionId));
+    return splits.filter(
+      (run) =>
+        completed.has(run.sessionId) && (!player || run.player === player)
+    );
+  }
+
+  // When the index was last brought up to date, 0 if never
+  async getLastSynced(): Promise<number> {
+    const cursors = await Promise.all(
+      eventTypes.map((type) => this.getCursor(type))
+    );
+    return Math.min(...cursors.map((cursor) => cursor?.syncedAt ?? 0));
+  }
+}
+
+// Singleton instance
+export const eventIndexer = new EventIndexer();
@@ -0,0 +1,342 @@
+// Transaction builders for the marketplace Move module
+import type { SuiClient } from '@mysten/sui/client';
+import type {
+  Transaction,
+  TransactionObjectArgument,
+} from '@mysten/sui/transactions';
+
+import {
+  CONTRACTS,
+  DGN_COIN_TYPE,
+  DGN_DECIMALS,
+  onechainClient,
+} from './client';
+
+export const MARKET_MODULE = 'marketplace';
+
+// Move struct names of the items nft.move mints
+export const marketItemStructs = {
+  weapon: 'Weapon',
+  armor: 'Armor',
+  relic: 'Relic',
+  trophy: 'BossTrophy',
+} as const;
+
+export type MarketItemKind = keyof typeof marketItemStructs;
+
+export const marketItemType = (kind: MarketItemKind) =>
+  `${CONTRACTS.GAME_PACKAGE}::nft_items::${marketItemStructs[kind]}`;
+
+// Coins fixed-price listings and offers can be in. Auctions are DGN only.
+// STT and USDO are set per deployment, a currency without a coin type can't
+// be listed in or paid with
+export const marketCurrencies = ['DGN', 'STT', 'USDO'] as const;
+
+export type MarketCurrency = (typeof marketCurrencies)[number];
+
+export const marketCoins: Record<
+  MarketCurrency,
+  { coinType?: string; decimals: number }
+> = {
+  DGN: { coinType: DGN_COIN_TYPE, decimals: DGN_DECIMALS },
+  STT: {
+    coinType: process.env.NEXT_PUBLIC_STT_COIN_TYPE,
+    decimals: Number(process.env.NEXT_PUBLIC_STT_DECIMALS || 9),
+  },
+  USDO: {
+    coinType: process.env.NEXT_PUBLIC_USDO_COIN_TYPE,
+    decimals: Number(process.env.NEXT_PUBLIC_USDO_DECIMALS || 6),
+  },
+};
+
+// Mirrors OFFER_* in marketplace.move
+export const offerOutcomes = ['accepted', 'rejected', 'withdrawn'] as const;
+
+const target = (fn: string) =>
+  `${CONTRACTS.GAME_PACKAGE}::${MARKET_MODULE}::${fn}`;
+
+// Merge the owner's DGN coins and split off exactly `amount`, null if they
+// don't hold that much
+export function addDgnPayment(
+  tx: Transaction,
+  owner: string,
+  amount: bigint,
+  client: SuiClient = onechainClient
+): Promise<TransactionObjectArgument | null> {
+  return addCoinPayment(tx, owner, DGN_COIN_TYPE, amount, client);
+}
+
+// The same for any coin type
+export async function addCoinPayment(
+  tx: Transaction,
+  owner: string,
+  coinType: string,
+  amount: bigint,
+  client: SuiClient = onechainClient
+): Promise<TransactionObjectArgument | null> {
+  const coins = [];
+  let total = BigInt(0);
+  let cursor: string | null | undefined = null;
+
+  do {
+    const page = await client.getCoins({
+      owner,
+      coinType,
+      cursor,
+    });
+    for (const coin of page.data) {
+      coins.push(coin.coinObjectId);
+      total += BigInt(coin.balance);
+    }
+    cursor = page.hasNextPage ? page.nextCursor : null;
+  } while (cursor && total < amount);
+
+  const [primary, ...rest] = coins;
+  if (!primary || total < amount) return null;
+
+  if (rest.length > 0) {
+    tx.mergeCoins(
+      tx.object(primary),
+      rest.map((id) => tx.object(id))
+    );
+  }
+  const [payment] = tx.splitCoins(tx.object(primary), [amount]);
+  return payment!;
+}
+
+// Burn DGN paid for something in game
+export function addBurnDgnCall(
+  tx: Transaction,
+  payment: TransactionObjectArgument
+) {
+  tx.moveCall({
+    target: target('burn'),
+    arguments: [tx.object(CONTRACTS.MARKETPLACE), payment],
+  });
+}
+
+export function addListItemCall(
+  tx: Transaction,
+  itemType: string,
+  coinType: string,
+  itemId: string,
+  price: bigint,
+  durationMs: number
+) {
+  tx.moveCall({
+    target: target('list'),
+    typeArguments: [itemType, coinType],
+    arguments: [
+      tx.object(itemId),
+      tx.pure.u64(price),
+      tx.pure.u64(durationMs),
+      tx.object.clock(),
+    ],
+  });
+}
+
+export function addBuyItemCall(
+  tx: Transaction,
+  itemType: string,
+  coinType: string,
+  listingId: string,
+  payment: TransactionObjectArgument
+) {
+  tx.moveCall({
+    target: target('buy'),
+    typeArguments: [itemType, coinType],
+    arguments: [
+      tx.object(CONTRACTS.MARKETPLACE),
+      tx.object(listingId),
+      payment,
+      tx.object.clock(),
+    ],
+  });
+}
+
+export function addCancelListingCall(
+  tx: Transaction,
+  itemType: string,
+  coinType: string,
+  listingId: string
+) {
+  tx.moveCall({
+    target: target('cancel_listing'),
+    typeArguments: [itemType, coinType],
+    arguments: [tx.object(listingId), tx.object.clock()],
+  });
+}
+
+export function addMakeOfferCall(
+  tx: Transaction,
+  itemType: string,
+  coinType: string,
+  listingId: string,
+  payment: TransactionObjectArgument,
+  message: string,
+  durationMs: number
+) {
+  tx.moveCall({
+    target: target('make_offer'),
+    typeArguments: [itemType, coinType],
+    arguments: [
+      tx.object(listingId),
+      payment,
+      tx.pure.vector('u8', Array.from(new TextEncoder().encode(message))),
+      tx.pure.u64(durationMs),
+      tx.object.clock(),
+    ],
+  });
+}
+
+export function addAcceptOfferCall(
+  tx: Transaction,
+  itemType: string,
+  coinType: string,
+  listingId: string,
+  offerId: string
+) {
+  tx.moveCall({
+    target: target('accept_offer'),
+    typeArguments: [itemType, coinType],
+    arguments: [
+      tx.object(CONTRACTS.MARKETPLACE),
+      tx.object(listingId),
+      tx.object(offerId),
+      tx.object.clock(),
+    ],
+  });
+}
+
+export function addRejectOfferCall(
+  tx: Transaction,
+  itemType: string,
+  coinType: string,
+  listingId: string,
+  offerId: string
+) {
+  tx.moveCall({
+    target: target('reject_offer'),
+    typeArguments: [itemType, coinType],
+    arguments: [tx.object(listingId), tx.object(offerId), tx.object.clock()],
+  });
+}
+
+export function addWithdrawOfferCall(
+  tx: Transaction,
+  coinType: string,
+  offerId: string
+) {
+  tx.moveCall({
+    target: target('withdraw_offer'),
+    typeArguments: [coinType],
+    arguments: [tx.object(offerId), tx.object.clock()],
+  });
+}
+
+export function addCreateEnglishAuctionCall(
+  tx: Transaction,
+  itemType: string,
+  itemId: string,
+  startPrice: bigint,
+  reservePrice: bigint,
+  minIncrement: bigint,
+  durationMs: number,
+  extensionMs: number
+) {
+  tx.moveCall({
+    target: target('create_english_auction'),
+    typeArguments: [itemType],
+    arguments: [
+      tx.object(itemId),
+      tx.pure.u64(startPrice),
+      tx.pure.u64(reservePrice),
+      tx.pure.u64(minIncrement),
+      tx.pure.u64(durationMs),
+      tx.pure.u64(extensionMs),
+      tx.object.clock(),
+    ],
+  });
+}
+
+export function addBidCall(
+  tx: Transaction,
+  itemType: string,
+  auctionId: string,
+  payment: TransactionObjectArgument
+) {
+  tx.moveCall({
+    target: target('bid'),
+    typeArguments: [itemType],
+    arguments: [tx.object(auctionId), payment, tx.object.clock()],
+  });
+}
+
+export function addSettleAuctionCall(
+  tx: Transaction,
+  itemType: string,
+  auctionId: string
+) {
+  tx.moveCall({
+    target: target('settle_auction'),
+    typeArguments: [itemType],
+    arguments: [
+      tx.object(CONTRACTS.MARKETPLACE),
+      tx.object(auctionId),
+      tx.object.clock(),
+    ],
+  });
+}
+
+export function addCreateDutchAuctionCall(
+  tx: Transaction,
+  itemType: string,
+  itemId: string,
+  startPrice: bigint,
+  endPrice: bigint,
+  durationMs: number
+) {
+  tx.moveCall({
+    target: target('create_dutch_auction'),
+    typeArguments: [itemType],
+    arguments: [
+      tx.object(itemId),
+      tx.pure.u64(startPrice),
+      tx.pure.u64(endPrice),
+      tx.pure.u64(durationMs),
+      tx.object.clock(),
+    ],
+  });
+}
+
+export function addBuyDutchCall(
+  tx: Transaction,
+  itemType: string,
+  auctionId: string,
+  payment: TransactionObjectArgument
+) {
+  tx.moveCall({
+    target: target('buy_dutch'),
+    typeArguments: [itemType],
+    arguments: [
+      tx.object(CONTRACTS.MARKETPLACE),
+      tx.object(auctionId),
+      payment,
+      tx.object.clock(),
+    ],
+  });
+}
+
+// Either kind of auction, `kind` picks the Move function
+export function addCancelAuctionCall(
+  tx: Transaction,
+  kind: 'english' | 'dutch',
+  itemType: string,
+  auctionId: string
+) {
+  tx.moveCall({
+    target: target(`cancel_${kind}_auction`),
+    typeArguments: [itemType],
+    arguments: [tx.object(auctionId), tx.object.clock()],
+  });
+}
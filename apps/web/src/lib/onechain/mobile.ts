@@ -357,22 +357,13 @@ export class MobileOptimizationManager {
     }
   }
 
-  // Save to IndexedDB
-  private async saveToIndexedDB(state: any): Promise<boolean> {
+  // Open the save database, creating the store on first use
+  private openDatabase(): Promise<IDBDatabase | null> {
     return new Promise((resolve) => {
       const request = indexedDB.open('ShadowStakeSaga', 1);
 
-      request.onerror = () => resolve(false);
-
-      request.onsuccess = () => {
-        const db = request.result;
-        const transaction = db.transaction(['gameState'], 'readwrite');
-        const store = transaction.objectStore('gameState');
-        store.put({ id: 'current', data: state });
-
-        transaction.oncomplete = () => resolve(true);
-        transaction.onerror = () => resolve(false);
-      };
+      request.onerror = () => resolve(null);
+      request.onsuccess = () => resolve(request.result);
 
       request.onupgradeneeded = (event: any) => {
         const db = event.target.result;
@@ -383,6 +374,21 @@ export class MobileOptimizationManager {
     });
   }
 
+  // Save to IndexedDB
+  private async saveToIndexedDB(state: any): Promise<boolean> {
+    const db = await this.openDatabase();
+    if (!db) return false;
+
+    return new Promise((resolve) => {
+      const transaction = db.transaction(['gameState'], 'readwrite');
+      const store = transaction.objectStore('gameState');
+      store.put({ id: 'current', data: state });
+
+      transaction.oncomplete = () => resolve(true);
+      transaction.onerror = () => resolve(false);
+    });
+  }
+
   // Load game state
   async loadGameState(): Promise<any | null> {
     try {
@@ -400,24 +406,44 @@ export class MobileOptimizationManager {
 
   // Load from IndexedDB
   private async loadFromIndexedDB(): Promise<any | null> {
+    const db = await this.openDatabase();
+    if (!db) return null;
+
     return new Promise((resolve) => {
-      const request = indexedDB.open('ShadowStakeSaga', 1);
+      const transaction = db.transaction(['gameState'], 'readonly');
+      const store = transaction.objectStore('gameState');
+      const getRequest = store.get('current');
 
-      request.onerror = () => resolve(null);
+      getRequest.onsuccess = () => {
+        resolve(getRequest.result?.data || null);
+      };
 
-      request.onsuccess = () => {
-        const db = request.result;
-        const transaction = db.transaction(['gameState'], 'readonly');
-        const store = transaction.objectStore('gameState');
-        const getRequest = store.get('current');
+      getRequest.onerror = () => resolve(null);
+    });
+  }
 
-        getRequest.onsuccess = () => {
-          resolve(getRequest.result?.data || null);
-        };
+  // Drop the saved run, e.g. once it has ended
+  async clearGameState(): Promise<boolean> {
+    try {
+      if ('indexedDB' in window) {
+        const db = await this.openDatabase();
+        if (!db) return false;
 
-        getRequest.onerror = () => resolve(null);
-      };
-    });
+        return await new Promise((resolve) => {
+          const transaction = db.transaction(['gameState'], 'readwrite');
+          transaction.objectStore('gameState').delete('current');
+
+          transaction.oncomplete = () => resolve(true);
+          transaction.onerror = () => resolve(false);
+        });
+      }
+
+      localStorage.removeItem('shadow_stake_saga_save');
+      return true;
+    } catch (error) {
+      console.error('Failed to clear game state:', error);
+      return false;
+    }
   }
 }
 
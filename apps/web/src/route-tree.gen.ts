@@ -14,9 +14,12 @@
 
 import { Route as rootRouteImport } from './app/__root';
 import { Route as StakeRouteImport } from './app/stake';
+import { Route as RelicsRouteImport } from './app/relics';
 import { Route as ProfileRouteImport } from './app/profile';
+import { Route as MarketRouteImport } from './app/market';
 import { Route as LeaderboardRouteImport } from './app/leaderboard';
 import { Route as GameRouteImport } from './app/game';
+import { Route as CodexRouteImport } from './app/codex';
 import { Route as IndexRouteImport } from './app/index';
 
 const StakeRoute = StakeRouteImport.update({
@@ -24,11 +27,21 @@ const StakeRoute = StakeRouteImport.update({
   path: '/stake',
   getParentRoute: () => rootRouteImport,
 } as any);
+const RelicsRoute = RelicsRouteImport.update({
+  id: '/relics',
+  path: '/relics',
+  getParentRoute: () => rootRouteImport,
+} as any);
 const ProfileRoute = ProfileRouteImport.update({
   id: '/profile',
   path: '/profile',
   getParentRoute: () => rootRouteImport,
 } as any);
+const MarketRoute = MarketRouteImport.update({
+  id: '/market',
+  path: '/market',
+  getParentRoute: () => rootRouteImport,
+} as any);
 const LeaderboardRoute = LeaderboardRouteImport.update({
   id: '/leaderboard',
   path: '/leaderboard',
@@ -39,6 +52,11 @@ const GameRoute = GameRouteImport.update({
   path: '/game',
   getParentRoute: () => rootRouteImport,
 } as any);
+const CodexRoute = CodexRouteImport.update({
+  id: '/codex',
+  path: '/codex',
+  getParentRoute: () => rootRouteImport,
+} as any);
 const IndexRoute = IndexRouteImport.update({
   id: '/',
   path: '/',
@@ -47,39 +65,76 @@ const IndexRoute = IndexRouteImport.update({
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute;
+  '/codex': typeof CodexRoute;
   '/game': typeof GameRoute;
   '/leaderboard': typeof LeaderboardRoute;
+  '/market': typeof MarketRoute;
   '/profile': typeof ProfileRoute;
+  '/relics': typeof RelicsRoute;
   '/stake': typeof StakeRoute;
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute;
+  '/codex': typeof CodexRoute;
   '/game': typeof GameRoute;
   '/leaderboard': typeof LeaderboardRoute;
+  '/market': typeof MarketRoute;
   '/profile': typeof ProfileRoute;
+  '/relics': typeof RelicsRoute;
   '/stake': typeof StakeRoute;
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport;
   '/': typeof IndexRoute;
+  '/codex': typeof CodexRoute;
   '/game': typeof GameRoute;
   '/leaderboard': typeof LeaderboardRoute;
+  '/market': typeof MarketRoute;
   '/profile': typeof ProfileRoute;
+  '/relics': typeof RelicsRoute;
   '/stake': typeof StakeRoute;
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath;
-  fullPaths: '/' | '/game' | '/leaderboard' | '/profile' | '/stake';
+  fullPaths:
+    | '/'
+    | '/codex'
+    | '/game'
+    | '/leaderboard'
+    | '/market'
+    | '/profile'
+    | '/relics'
+    | '/stake';
   fileRoutesByTo: FileRoutesByTo;
-  to: '/' | '/game' | '/leaderboard' | '/profile' | '/stake';
-  id: '__root__' | '/' | '/game' | '/leaderboard' | '/profile' | '/stake';
+  to:
+    | '/'
+    | '/codex'
+    | '/game'
+    | '/leaderboard'
+    | '/market'
+    | '/profile'
+    | '/relics'
+    | '/stake';
+  id:
+    | '__root__'
+    | '/'
+    | '/codex'
+    | '/game'
+    | '/leaderboard'
+    | '/market'
+    | '/profile'
+    | '/relics'
+    | '/stake';
   fileRoutesById: FileRoutesById;
 }
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute;
+  CodexRoute: typeof CodexRoute;
   GameRoute: typeof GameRoute;
   LeaderboardRoute: typeof LeaderboardRoute;
+  MarketRoute: typeof MarketRoute;
   ProfileRoute: typeof ProfileRoute;
+  RelicsRoute: typeof RelicsRoute;
   StakeRoute: typeof StakeRoute;
 }
 
@@ -92,6 +147,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof StakeRouteImport;
       parentRoute: typeof rootRouteImport;
     };
+    '/relics': {
+      id: '/relics';
+      path: '/relics';
+      fullPath: '/relics';
+      preLoaderRoute: typeof RelicsRouteImport;
+      parentRoute: typeof rootRouteImport;
+    };
     '/profile': {
       id: '/profile';
       path: '/profile';
@@ -99,6 +161,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ProfileRouteImport;
       parentRoute: typeof rootRouteImport;
     };
+    '/market': {
+      id: '/market';
+      path: '/market';
+      fullPath: '/market';
+      preLoaderRoute: typeof MarketRouteImport;
+      parentRoute: typeof rootRouteImport;
+    };
     '/leaderboard': {
       id: '/leaderboard';
       path: '/leaderboard';
@@ -113,6 +182,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof GameRouteImport;
       parentRoute: typeof rootRouteImport;
     };
+    '/codex': {
+      id: '/codex';
+      path: '/codex';
+      fullPath: '/codex';
+      preLoaderRoute: typeof CodexRouteImport;
+      parentRoute: typeof rootRouteImport;
+    };
     '/': {
       id: '/';
       path: '/';
@@ -125,9 +201,12 @@ declare module '@tanstack/react-router' {
 
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
+  CodexRoute: CodexRoute,
   GameRoute: GameRoute,
   LeaderboardRoute: LeaderboardRoute,
+  MarketRoute: MarketRoute,
   ProfileRoute: ProfileRoute,
+  RelicsRoute: RelicsRoute,
   StakeRoute: StakeRoute,
 };
 export const routeTree = rootRouteImport
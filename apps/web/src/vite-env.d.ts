@@ -4,6 +4,7 @@ interface ImportMetaEnv {
   readonly VITE_ALCHEMY_API_KEY: string;
   readonly VITE_WALLET_CONNECT_ID: string;
   readonly VITE_GAS_SPONSORSHIP_ID: string;
+  readonly VITE_VALIDATOR_URL?: string; // apps/validator, e.g. http://localhost:8787
 }
 
 interface ImportMeta {
@@ -47,7 +47,8 @@ echo "📝 Next steps:"
 echo "1. Copy the Package ID from the output above"
 echo "2. Update CONTRACTS.GAME_PACKAGE in apps/web/src/lib/onechain/client.ts"
 echo "3. Copy the GameRegistry object ID and update CONTRACTS.GAME_REGISTRY"
-echo "4. Copy the TreasuryCap object ID and update CONTRACTS.DGN_TREASURY"
-echo "5. Update your .env file with these values"
+echo "4. Update your .env file with these values"
+echo "5. Call marketplace::open_marketplace with the TreasuryCap object ID and set NEXT_PUBLIC_MARKETPLACE"
+echo "6. Keep the MarketAdminCap it gives you, DGN is minted through marketplace::mint with it"
 echo ""
 echo "🎮 Your game is now on OneChain!"
@@ -6,12 +6,28 @@ module game::shadow_stake_saga_game {
     use one::oct::OCT;
     use one::event;
     use one::table::{Self, Table};
+    use one::clock::{Self, Clock};
+    use one::address;
+    use one::ed25519;
+    use std::hash;
+    use std::string;
 
     // ==================== Errors ====================
     const ENotOwner: u64 = 0;
     const EInvalidScore: u64 = 1;
     const EGameNotActive: u64 = 2;
     const EInsufficientPayment: u64 = 3;
+    const EInvalidSplits: u64 = 4;
+    const ERevealExpired: u64 = 5;
+    const EHashMismatch: u64 = 6;
+    const ESessionMismatch: u64 = 7;
+    const EInvalidSignature: u64 = 8;
+    const EInvalidValidatorKey: u64 = 9;
+    const EValidatorSessionUsed: u64 = 10;
+    const ERelicDropClaimed: u64 = 11;
+
+    /// Time allowed between committing a score and revealing it
+    const REVEAL_WINDOW_MS: u64 = 300000; // 5 minutes
 
     // ==================== Structs ====================
     
@@ -34,9 +50,13 @@ module game::shadow_stake_saga_game {
         score: u64,
         level: u64,
         enemies_killed: u64,
+        bosses_defeated: u64,
         items_collected: u64,
         start_time: u64,
         is_active: bool,
+        /// Validator session that seeded the run, its signed result is the
+        /// only score reveal_score accepts. Empty when played without one
+        validator_session: vector<u8>,
     }
 
     /// Game registry to track all players
@@ -45,6 +65,43 @@ module game::shadow_stake_saga_game {
         total_players: u64,
         total_games: u64,
         leaderboard: Table<address, u64>, // address -> highest score
+        /// Raw Ed25519 public key of the validator service, see set_validator_key
+        validator_key: vector<u8>,
+        /// Validator session and player -> the GameSession it was bound
+        /// to, so one signed result can't complete two sessions. Keyed by
+        /// player too, so nobody can claim another player's session first
+        validator_sessions: Table<ValidatorSessionKey, address>,
+        /// Relic drops already minted, so one kill mints one relic
+        relic_drops: Table<RelicDropKey, bool>,
+    }
+
+    /// A validator session as started by one player
+    public struct ValidatorSessionKey has copy, drop, store {
+        validator_session: vector<u8>,
+        player: address,
+    }
+
+    /// A player's roll-th kill on a level of a validator session
+    public struct RelicDropKey has copy, drop, store {
+        validator_session: vector<u8>,
+        player: address,
+        level: u64,
+        roll: u64,
+    }
+
+    /// Lets the deployer register the validator's signing key
+    public struct GameAdminCap has key, store {
+        id: UID,
+    }
+
+    /// sha256 of "score:nonce:session_data", committed when a run ends and
+    /// consumed by reveal_score for the same session
+    public struct ScoreCommitment has key {
+        id: UID,
+        player: address,
+        session_id: address,
+        commit_hash: vector<u8>,
+        created_at: u64,
     }
 
     /// NFT Achievement
@@ -67,9 +124,11 @@ module game::shadow_stake_saga_game {
 
     public struct GameCompleted has copy, drop {
         player: address,
+        session_id: address,
         score: u64,
         level: u64,
         enemies_killed: u64,
+        bosses_defeated: u64,
         timestamp: u64,
     }
 
@@ -84,6 +143,33 @@ module game::shadow_stake_saga_game {
         timestamp: u64,
     }
 
+    public struct ScoreCommitted has copy, drop {
+        player: address,
+        session_id: address,
+        commitment_id: address,
+        timestamp: u64,
+    }
+
+    /// Score of a run played without a session. Unverified, so it is kept
+    /// apart from GameCompleted and never reaches the leaderboard
+    public struct ScoreStored has copy, drop {
+        player: address,
+        game_id: vector<u8>,
+        score: u64,
+        rounds: u64,
+        timestamp: u64,
+    }
+
+    /// Emitted with the GameCompleted of the same session, so only revealed
+    /// runs have splits
+    public struct SplitsRecorded has copy, drop {
+        player: address,
+        session_id: address,
+        start_level: u64,
+        splits: vector<u64>, // ms spent clearing each level from start_level
+        timestamp: u64,
+    }
+
     // ==================== Init ====================
     
     fun init(ctx: &mut TxContext) {
@@ -92,9 +178,27 @@ module game::shadow_stake_saga_game {
             total_players: 0,
             total_games: 0,
             leaderboard: table::new(ctx),
+            validator_key: vector[],
+            validator_sessions: table::new(ctx),
+            relic_drops: table::new(ctx),
         };
         
         transfer::share_object(registry);
+        transfer::transfer(
+            GameAdminCap { id: object::new(ctx) },
+            tx_context::sender(ctx)
+        );
+    }
+
+    /// Register the key the validator signs results with, the hex
+    /// publicKey from its /public-key route
+    public fun set_validator_key(
+        _: &GameAdminCap,
+        registry: &mut GameRegistry,
+        key: vector<u8>
+    ) {
+        assert!(vector::length(&key) == 32, EInvalidValidatorKey);
+        registry.validator_key = key;
     }
 
     // ==================== Player Profile Functions ====================
@@ -127,9 +231,11 @@ module game::shadow_stake_saga_game {
 
     // ==================== Game Session Functions ====================
     
-    /// Start a new game session
+    /// Start a new game session, bound to the validator session that seeded
+    /// the run if there is one
     public fun start_game(
         registry: &mut GameRegistry,
+        validator_session: vector<u8>,
         ctx: &mut TxContext
     ) {
         let session = GameSession {
@@ -138,12 +244,25 @@ module game::shadow_stake_saga_game {
             score: 0,
             level: 1,
             enemies_killed: 0,
+            bosses_defeated: 0,
             items_collected: 0,
             start_time: tx_context::epoch_timestamp_ms(ctx),
             is_active: true,
+            validator_session,
         };
 
         let session_addr = object::uid_to_address(&session.id);
+        if (!vector::is_empty(&session.validator_session)) {
+            let key = ValidatorSessionKey {
+                validator_session: session.validator_session,
+                player: session.player,
+            };
+            assert!(
+                !table::contains(&registry.validator_sessions, key),
+                EValidatorSessionUsed
+            );
+            table::add(&mut registry.validator_sessions, key, session_addr);
+        };
 
         registry.total_games = registry.total_games + 1;
 
@@ -156,34 +275,135 @@ module game::shadow_stake_saga_game {
         transfer::share_object(session);
     }
 
-    /// Update game session during play
+    /// Update game session during play. The score is only ever set by
+    /// reveal_score
     public fun update_session(
         session: &mut GameSession,
-        score: u64,
         level: u64,
         enemies_killed: u64,
+        bosses_defeated: u64,
         items_collected: u64,
         ctx: &TxContext
     ) {
         assert!(session.player == tx_context::sender(ctx), ENotOwner);
         assert!(session.is_active, EGameNotActive);
 
-        session.score = score;
         session.level = level;
         session.enemies_killed = enemies_killed;
+        session.bosses_defeated = bosses_defeated;
         session.items_collected = items_collected;
     }
 
-    /// Complete game and update profile
-    public fun complete_game(
+    // ==================== Commit-Reveal Functions ====================
+
+    /// Phase 1: lock in the hash of the final score when the run ends
+    public fun commit_score(
+        session: &GameSession,
+        commit_hash: vector<u8>,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        assert!(session.player == tx_context::sender(ctx), ENotOwner);
+        assert!(session.is_active, EGameNotActive);
+        assert!(vector::length(&commit_hash) == 32, EInvalidScore);
+
+        let session_id = object::uid_to_address(&session.id);
+        let commitment = ScoreCommitment {
+            id: object::new(ctx),
+            player: tx_context::sender(ctx),
+            session_id,
+            commit_hash,
+            created_at: clock::timestamp_ms(clock),
+        };
+
+        event::emit(ScoreCommitted {
+            player: tx_context::sender(ctx),
+            session_id,
+            commitment_id: object::uid_to_address(&commitment.id),
+            timestamp: clock::timestamp_ms(clock),
+        });
+
+        transfer::transfer(commitment, tx_context::sender(ctx));
+    }
+
+    /// Phase 2: reveal the committed score within the window. Only a score
+    /// matching the commitment and signed by the validator for this run,
+    /// together with its splits, reaches the session, profile and registry,
+    /// and this is the only way a session is completed
+    public fun reveal_score(
+        commitment: ScoreCommitment,
         profile: &mut PlayerProfile,
         registry: &mut GameRegistry,
         session: &mut GameSession,
+        score: u64,
+        nonce: vector<u8>,
+        session_data: vector<u8>,
+        start_level: u64,
+        splits: vector<u64>,
+        issued_at: u64,
+        signature: vector<u8>,
+        clock: &Clock,
         ctx: &TxContext
     ) {
-        assert!(session.player == tx_context::sender(ctx), ENotOwner);
+        let ScoreCommitment {
+            id,
+            player,
+            session_id,
+            commit_hash,
+            created_at,
+        } = commitment;
+        object::delete(id);
+
+        assert!(player == tx_context::sender(ctx), ENotOwner);
+        assert!(session.player == player, ENotOwner);
+        assert!(
+            object::uid_to_address(&session.id) == session_id,
+            ESessionMismatch
+        );
         assert!(session.is_active, EGameNotActive);
+        assert!(
+            clock::timestamp_ms(clock) <= created_at + REVEAL_WINDOW_MS,
+            ERevealExpired
+        );
+
+        let mut preimage = u64_to_ascii(score);
+        vector::push_back(&mut preimage, 58); // ':'
+        vector::append(&mut preimage, nonce);
+        vector::push_back(&mut preimage, 58);
+        vector::append(&mut preimage, session_data);
+        assert!(hash::sha2_256(preimage) == commit_hash, EHashMismatch);
+
+        let message = result_message(
+            session.validator_session,
+            player,
+            score,
+            start_level,
+            &splits,
+            issued_at
+        );
+        assert!(
+            ed25519::ed25519_verify(
+                &signature,
+                &registry.validator_key,
+                &message
+            ),
+            EInvalidSignature
+        );
 
+        session.score = score;
+        finish_session(profile, registry, session, start_level, splits, ctx);
+    }
+
+    /// splits are the ms spent clearing each level from start_level, empty
+    /// when the run never cleared one
+    fun finish_session(
+        profile: &mut PlayerProfile,
+        registry: &mut GameRegistry,
+        session: &mut GameSession,
+        start_level: u64,
+        splits: vector<u64>,
+        ctx: &TxContext
+    ) {
         // Update profile
         profile.total_score = profile.total_score + session.score;
         profile.games_played = profile.games_played + 1;
@@ -204,14 +424,145 @@ module game::shadow_stake_saga_game {
         };
 
         session.is_active = false;
+        let session_id = object::uid_to_address(&session.id);
 
         event::emit(GameCompleted {
             player: session.player,
+            session_id,
             score: session.score,
             level: session.level,
             enemies_killed: session.enemies_killed,
+            bosses_defeated: session.bosses_defeated,
             timestamp: tx_context::epoch_timestamp_ms(ctx),
         });
+
+        if (!vector::is_empty(&splits)) {
+            assert!(start_level > 0, EInvalidSplits);
+            event::emit(SplitsRecorded {
+                player: session.player,
+                session_id,
+                start_level,
+                splits,
+                timestamp: tx_context::epoch_timestamp_ms(ctx),
+            });
+        };
+    }
+
+    /// What the validator signs,
+    /// "sessionId:playerAddress:score:startLevel:splits:issuedAt" with the
+    /// address as 0x-prefixed lowercase hex and the splits comma separated
+    fun result_message(
+        validator_session: vector<u8>,
+        player: address,
+        score: u64,
+        start_level: u64,
+        splits: &vector<u64>,
+        issued_at: u64
+    ): vector<u8> {
+        let mut message = validator_session;
+        vector::append(&mut message, b":0x");
+        vector::append(
+            &mut message,
+            *string::bytes(&address::to_string(player))
+        );
+        vector::push_back(&mut message, 58); // ':'
+        vector::append(&mut message, u64_to_ascii(score));
+        vector::push_back(&mut message, 58);
+        vector::append(&mut message, u64_to_ascii(start_level));
+        vector::push_back(&mut message, 58);
+        let mut i = 0;
+        while (i < vector::length(splits)) {
+            if (i > 0) vector::push_back(&mut message, 44); // ','
+            vector::append(&mut message, u64_to_ascii(*vector::borrow(splits, i)));
+            i = i + 1;
+        };
+        vector::push_back(&mut message, 58);
+        vector::append(&mut message, u64_to_ascii(issued_at));
+        message
+    }
+
+    /// Check the validator signed this relic drop for `player` and mark it
+    /// minted, see nft_items::mint_relic
+    public(package) fun claim_relic_drop(
+        registry: &mut GameRegistry,
+        validator_session: vector<u8>,
+        player: address,
+        seed: vector<u8>,
+        level: u64,
+        roll: u64,
+        rarity: vector<u8>,
+        power: u64,
+        signature: vector<u8>
+    ) {
+        let message = relic_message(
+            validator_session,
+            player,
+            seed,
+            level,
+            roll,
+            rarity,
+            power
+        );
+        assert!(
+            ed25519::ed25519_verify(
+                &signature,
+                &registry.validator_key,
+                &message
+            ),
+            EInvalidSignature
+        );
+
+        let key = RelicDropKey { validator_session, player, level, roll };
+        assert!(
+            !table::contains(&registry.relic_drops, key),
+            ERelicDropClaimed
+        );
+        table::add(&mut registry.relic_drops, key, true);
+    }
+
+    /// What the validator signs for a relic drop,
+    /// "relic:sessionId:playerAddress:seed:level:roll:rarity:power" with the
+    /// address written as in result_message
+    fun relic_message(
+        validator_session: vector<u8>,
+        player: address,
+        seed: vector<u8>,
+        level: u64,
+        roll: u64,
+        rarity: vector<u8>,
+        power: u64
+    ): vector<u8> {
+        let mut message = b"relic:";
+        vector::append(&mut message, validator_session);
+        vector::append(&mut message, b":0x");
+        vector::append(
+            &mut message,
+            *string::bytes(&address::to_string(player))
+        );
+        vector::push_back(&mut message, 58); // ':'
+        vector::append(&mut message, seed);
+        vector::push_back(&mut message, 58);
+        vector::append(&mut message, u64_to_ascii(level));
+        vector::push_back(&mut message, 58);
+        vector::append(&mut message, u64_to_ascii(roll));
+        vector::push_back(&mut message, 58);
+        vector::append(&mut message, rarity);
+        vector::push_back(&mut message, 58);
+        vector::append(&mut message, u64_to_ascii(power));
+        message
+    }
+
+    /// Decimal digits of a u64, matching the client's String(score)
+    fun u64_to_ascii(mut value: u64): vector<u8> {
+        if (value == 0) return b"0";
+
+        let mut digits = vector[];
+        while (value > 0) {
+            vector::push_back(&mut digits, ((value % 10) as u8) + 48);
+            value = value / 10;
+        };
+        vector::reverse(&mut digits);
+        digits
     }
 
     // ==================== Achievement Functions ====================
@@ -259,19 +610,18 @@ module game::shadow_stake_saga_game {
     
     /// Simple score storage for game over
     public fun store_score(
-        _game_id: vector<u8>,
+        game_id: vector<u8>,
         score: u64,
         rounds: u64,
-        _timestamp: u64,
-        _ctx: &TxContext
+        timestamp: u64,
+        ctx: &TxContext
     ) {
-        // Emit event for score storage
-        event::emit(GameCompleted {
-            player: tx_context::sender(_ctx),
-            score: score,
-            level: rounds,
-            enemies_killed: 0,
-            timestamp: _timestamp,
+        event::emit(ScoreStored {
+            player: tx_context::sender(ctx),
+            game_id,
+            score,
+            rounds,
+            timestamp,
         });
     }
 
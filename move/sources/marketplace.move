@@ -0,0 +1,848 @@
+module game::marketplace {
+    use one::object::{Self, ID, UID};
+    use one::transfer;
+    use one::tx_context::{Self, TxContext};
+    use one::coin::{Self, Coin, TreasuryCap};
+    use one::balance::{Self, Balance};
+    use one::clock::{Self, Clock};
+    use one::event;
+    use one::dynamic_field;
+    use std::string::{Self, String};
+    use std::type_name;
+    use game::sss_token::{Self, SSS_TOKEN};
+
+    // ==================== Errors ====================
+    const ENotSeller: u64 = 0;
+    const ENotBuyer: u64 = 1;
+    const EInvalidPrice: u64 = 2;
+    const EWrongPayment: u64 = 3;
+    const EListingExpired: u64 = 4;
+    const EOfferExpired: u64 = 5;
+    const EOfferMismatch: u64 = 6;
+    const EOwnListing: u64 = 7;
+    const EInvalidDuration: u64 = 8;
+    const EBidTooLow: u64 = 9;
+    const EAuctionEnded: u64 = 10;
+    const EAuctionLive: u64 = 11;
+    const EHasBids: u64 = 12;
+    const EInvalidSchedule: u64 = 13;
+
+    /// 5% of every sale. Burned for DGN, kept for other currencies
+    const FEE_BPS: u64 = 500;
+    const BPS_DENOMINATOR: u64 = 10000;
+    const MAX_DURATION_MS: u64 = 2592000000; // 30 days
+    const MAX_EXTENSION_MS: u64 = 3600000; // 1 hour
+
+    /// How an offer was closed, see OfferClosed
+    const OFFER_ACCEPTED: u8 = 0;
+    const OFFER_REJECTED: u8 = 1;
+    const OFFER_WITHDRAWN: u8 = 2;
+
+    // ==================== Structs ====================
+
+    /// Shared. Holds the DGN treasury cap so sale fees can be burned, and
+    /// the fees taken in other currencies under FeeKey<C>
+    public struct Marketplace has key {
+        id: UID,
+        treasury: TreasuryCap<SSS_TOKEN>,
+        total_sales: u64,
+        total_volume: u64, // DGN sales only
+        total_burned: u64,
+    }
+
+    /// Dynamic field key for the Balance<C> of fees taken in currency C
+    public struct FeeKey<phantom C> has copy, drop, store {}
+
+    /// Lets the holder keep minting DGN once the treasury cap is in the
+    /// marketplace
+    public struct MarketAdminCap has key, store {
+        id: UID,
+    }
+
+    /// Shared escrow for one item (Weapon, Armor, Relic, BossTrophy), priced
+    /// in coin C (DGN, STT or USDO). Deleted when the item is sold or the
+    /// listing cancelled
+    public struct Listing<T: key + store, phantom C> has key {
+        id: UID,
+        seller: address,
+        item_id: ID,
+        item: T,
+        price: u64,
+        listed_at: u64,
+        expires_at: u64,
+    }
+
+    /// Shared. The offered coins, in the listing's currency, are held here
+    /// until the seller accepts or rejects them, or the buyer withdraws them
+    public struct Offer<phantom C> has key {
+        id: UID,
+        listing_id: ID,
+        buyer: address,
+        payment: Balance<C>,
+        message: String,
+        created_at: u64,
+        expires_at: u64,
+    }
+
+    /// Shared English auction, in DGN. The highest bid is held here, an
+    /// outbid bidder is refunded as soon as they are outbid
+    public struct EnglishAuction<T: key + store> has key {
+        id: UID,
+        seller: address,
+        item_id: ID,
+        item: T,
+        start_price: u64,
+        reserve_price: u64, // Unsold below this, the bid is refunded
+        min_increment: u64,
+        extension_ms: u64, // Bids this close to the end push it back
+        highest_bidder: address,
+        highest_bid: Balance<SSS_TOKEN>,
+        bid_count: u64,
+        ends_at: u64,
+    }
+
+    /// Shared Dutch auction, in DGN. The price falls linearly from
+    /// start_price to end_price between starts_at and ends_at
+    public struct DutchAuction<T: key + store> has key {
+        id: UID,
+        seller: address,
+        item_id: ID,
+        item: T,
+        start_price: u64,
+        end_price: u64,
+        starts_at: u64,
+        ends_at: u64,
+    }
+
+    // ==================== Events ====================
+
+    public struct ItemListed has copy, drop {
+        listing_id: address,
+        item_id: address,
+        item_type: String, // Full Move type of the item
+        currency: String, // Full Move type of the coin it's priced in
+        seller: address,
+        price: u64,
+        expires_at: u64,
+        timestamp: u64,
+    }
+
+    public struct ItemSold has copy, drop {
+        listing_id: address,
+        seller: address,
+        buyer: address,
+        currency: String,
+        price: u64,
+        fee: u64, // Burned when the currency is DGN
+        timestamp: u64,
+    }
+
+    public struct ListingCancelled has copy, drop {
+        listing_id: address,
+        seller: address,
+        timestamp: u64,
+    }
+
+    public struct OfferMade has copy, drop {
+        offer_id: address,
+        listing_id: address,
+        buyer: address,
+        amount: u64,
+        message: String,
+        expires_at: u64,
+        timestamp: u64,
+    }
+
+    public struct OfferClosed has copy, drop {
+        offer_id: address,
+        listing_id: address,
+        buyer: address,
+        outcome: u8, // OFFER_ACCEPTED, OFFER_REJECTED or OFFER_WITHDRAWN
+        timestamp: u64,
+    }
+
+    public struct EnglishAuctionCreated has copy, drop {
+        auction_id: address,
+        item_id: address,
+        item_type: String,
+        seller: address,
+        start_price: u64,
+        reserve_price: u64,
+        min_increment: u64,
+        extension_ms: u64,
+        ends_at: u64,
+        timestamp: u64,
+    }
+
+    public struct DutchAuctionCreated has copy, drop {
+        auction_id: address,
+        item_id: address,
+        item_type: String,
+        seller: address,
+        start_price: u64,
+        end_price: u64,
+        starts_at: u64,
+        ends_at: u64,
+        timestamp: u64,
+    }
+
+    public struct BidPlaced has copy, drop {
+        auction_id: address,
+        bidder: address,
+        amount: u64,
+        ends_at: u64, // After any anti-sniping extension
+        timestamp: u64,
+    }
+
+    public struct BidRefunded has copy, drop {
+        auction_id: address,
+        bidder: address,
+        amount: u64,
+        timestamp: u64,
+    }
+
+    /// DGN paid into a game sink, such as minting a relic
+    public struct DgnBurned has copy, drop {
+        burner: address,
+        amount: u64,
+    }
+
+    /// Emitted for either kind of auction. A sale also emits ItemSold
+    public struct AuctionClosed has copy, drop {
+        auction_id: address,
+        seller: address,
+        winner: address, // @0x0 when unsold
+        amount: u64,
+        sold: bool,
+        timestamp: u64,
+    }
+
+    // ==================== Setup ====================
+
+    /// Move the DGN treasury cap into a new shared marketplace
+    public fun open_marketplace(
+        treasury: TreasuryCap<SSS_TOKEN>,
+        ctx: &mut TxContext
+    ) {
+        transfer::share_object(Marketplace {
+            id: object::new(ctx),
+            treasury,
+            total_sales: 0,
+            total_volume: 0,
+            total_burned: 0,
+        });
+
+        transfer::transfer(
+            MarketAdminCap { id: object::new(ctx) },
+            tx_context::sender(ctx)
+        );
+    }
+
+    /// Mint DGN through the treasury cap the marketplace holds
+    public fun mint(
+        _: &MarketAdminCap,
+        market: &mut Marketplace,
+        amount: u64,
+        recipient: address,
+        ctx: &mut TxContext
+    ) {
+        sss_token::mint(&mut market.treasury, amount, recipient, ctx);
+    }
+
+    /// Burn DGN paid for something in game. The treasury cap lives here, so
+    /// every burn goes through the marketplace
+    public fun burn(
+        market: &mut Marketplace,
+        payment: Coin<SSS_TOKEN>,
+        ctx: &TxContext
+    ) {
+        let amount = sss_token::burn(&mut market.treasury, payment);
+        event::emit(DgnBurned { burner: tx_context::sender(ctx), amount });
+    }
+
+    // ==================== Listings ====================
+
+    /// Put an item in escrow for `price` of coin C
+    public fun list<T: key + store, C>(
+        item: T,
+        price: u64,
+        duration_ms: u64,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        assert!(price > 0, EInvalidPrice);
+        assert!(duration_ms > 0 && duration_ms <= MAX_DURATION_MS, EInvalidDuration);
+
+        let now = clock::timestamp_ms(clock);
+        let item_id = object::id(&item);
+        let listing = Listing<T, C> {
+            id: object::new(ctx),
+            seller: tx_context::sender(ctx),
+            item_id,
+            item,
+            price,
+            listed_at: now,
+            expires_at: now + duration_ms,
+        };
+
+        event::emit(ItemListed {
+            listing_id: object::uid_to_address(&listing.id),
+            item_id: object::id_to_address(&item_id),
+            item_type: string::from_ascii(type_name::into_string(type_name::get<T>())),
+            currency: string::from_ascii(type_name::into_string(type_name::get<C>())),
+            seller: listing.seller,
+            price,
+            expires_at: listing.expires_at,
+            timestamp: now,
+        });
+
+        transfer::share_object(listing);
+    }
+
+    /// Pay exactly the listed price, the item goes to the sender
+    public fun buy<T: key + store, C>(
+        market: &mut Marketplace,
+        listing: Listing<T, C>,
+        payment: Coin<C>,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        let buyer = tx_context::sender(ctx);
+        assert!(buyer != listing.seller, EOwnListing);
+        assert!(clock::timestamp_ms(clock) < listing.expires_at, EListingExpired);
+        assert!(coin::value(&payment) == listing.price, EWrongPayment);
+
+        let item = settle(market, listing, payment, buyer, clock, ctx);
+        transfer::public_transfer(item, buyer);
+    }
+
+    /// Take the item back out of escrow. Also how an expired listing is
+    /// cleared
+    public fun cancel_listing<T: key + store, C>(
+        listing: Listing<T, C>,
+        clock: &Clock,
+        ctx: &TxContext
+    ) {
+        assert!(listing.seller == tx_context::sender(ctx), ENotSeller);
+
+        let Listing { id, seller, item_id: _, item, price: _, listed_at: _, expires_at: _ } = listing;
+
+        event::emit(ListingCancelled {
+            listing_id: object::uid_to_address(&id),
+            seller,
+            timestamp: clock::timestamp_ms(clock),
+        });
+
+        object::delete(id);
+        transfer::public_transfer(item, seller);
+    }
+
+    /// Pay the seller and hand back the item
+    fun settle<T: key + store, C>(
+        market: &mut Marketplace,
+        listing: Listing<T, C>,
+        payment: Coin<C>,
+        buyer: address,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ): T {
+        let Listing { id, seller, item_id: _, item, price: _, listed_at: _, expires_at: _ } = listing;
+
+        pay_out(market, object::uid_to_address(&id), payment, seller, buyer, clock, ctx);
+        object::delete(id);
+        item
+    }
+
+    /// Take the fee and send the rest of the payment to the seller. Shared
+    /// by listings, offers and auctions
+    fun pay_out<C>(
+        market: &mut Marketplace,
+        sale_id: address,
+        mut payment: Coin<C>,
+        seller: address,
+        buyer: address,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        let price = coin::value(&payment);
+        let fee = fee_for(price);
+        collect_fee(market, coin::into_balance(coin::split(&mut payment, fee, ctx)));
+        let burned = burn_dgn_fees(market, ctx);
+        transfer::public_transfer(payment, seller);
+
+        market.total_sales = market.total_sales + 1;
+        if (is_dgn<C>()) {
+            market.total_volume = market.total_volume + price;
+        };
+        market.total_burned = market.total_burned + burned;
+
+        event::emit(ItemSold {
+            listing_id: sale_id,
+            seller,
+            buyer,
+            currency: string::from_ascii(type_name::into_string(type_name::get<C>())),
+            price,
+            fee,
+            timestamp: clock::timestamp_ms(clock),
+        });
+    }
+
+    fun collect_fee<C>(market: &mut Marketplace, fee: Balance<C>) {
+        let key = FeeKey<C> {};
+        if (dynamic_field::exists_(&market.id, key)) {
+            balance::join(dynamic_field::borrow_mut<FeeKey<C>, Balance<C>>(&mut market.id, key), fee);
+        } else {
+            dynamic_field::add(&mut market.id, key, fee);
+        };
+    }
+
+    /// DGN fees are burned straight away, returns how much
+    fun burn_dgn_fees(market: &mut Marketplace, ctx: &mut TxContext): u64 {
+        let key = FeeKey<SSS_TOKEN> {};
+        if (!dynamic_field::exists_(&market.id, key)) return 0;
+        let fees: Balance<SSS_TOKEN> = dynamic_field::remove(&mut market.id, key);
+        sss_token::burn(&mut market.treasury, coin::from_balance(fees, ctx))
+    }
+
+    fun is_dgn<C>(): bool {
+        type_name::get<C>() == type_name::get<SSS_TOKEN>()
+    }
+
+    /// Send out the fees taken in a currency other than DGN, which can't be
+    /// burned here
+    public fun withdraw_fees<C>(
+        _: &MarketAdminCap,
+        market: &mut Marketplace,
+        recipient: address,
+        ctx: &mut TxContext
+    ) {
+        let key = FeeKey<C> {};
+        if (!dynamic_field::exists_(&market.id, key)) return;
+        let fees: Balance<C> = dynamic_field::remove(&mut market.id, key);
+        transfer::public_transfer(coin::from_balance(fees, ctx), recipient);
+    }
+
+    // ==================== Offers ====================
+
+    /// Offer any amount of the listing's currency for the item, held until
+    /// closed
+    public fun make_offer<T: key + store, C>(
+        listing: &Listing<T, C>,
+        payment: Coin<C>,
+        message: vector<u8>,
+        duration_ms: u64,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        let buyer = tx_context::sender(ctx);
+        let now = clock::timestamp_ms(clock);
+        assert!(buyer != listing.seller, EOwnListing);
+        assert!(now < listing.expires_at, EListingExpired);
+        assert!(coin::value(&payment) > 0, EInvalidPrice);
+        assert!(duration_ms > 0 && duration_ms <= MAX_DURATION_MS, EInvalidDuration);
+
+        let offer = Offer<C> {
+            id: object::new(ctx),
+            listing_id: object::id(listing),
+            buyer,
+            payment: coin::into_balance(payment),
+            message: string::utf8(message),
+            created_at: now,
+            expires_at: now + duration_ms,
+        };
+
+        event::emit(OfferMade {
+            offer_id: object::uid_to_address(&offer.id),
+            listing_id: object::id_to_address(&offer.listing_id),
+            buyer,
+            amount: balance::value(&offer.payment),
+            message: offer.message,
+            expires_at: offer.expires_at,
+            timestamp: now,
+        });
+
+        transfer::share_object(offer);
+    }
+
+    /// Sell to the offer instead of the listed price, fee as for `buy`
+    public fun accept_offer<T: key + store, C>(
+        market: &mut Marketplace,
+        listing: Listing<T, C>,
+        offer: Offer<C>,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        assert!(listing.seller == tx_context::sender(ctx), ENotSeller);
+        assert!(offer.listing_id == object::id(&listing), EOfferMismatch);
+        assert!(clock::timestamp_ms(clock) < offer.expires_at, EOfferExpired);
+
+        let Offer { id, listing_id, buyer, payment, message: _, created_at: _, expires_at: _ } = offer;
+
+        event::emit(OfferClosed {
+            offer_id: object::uid_to_address(&id),
+            listing_id: object::id_to_address(&listing_id),
+            buyer,
+            outcome: OFFER_ACCEPTED,
+            timestamp: clock::timestamp_ms(clock),
+        });
+        object::delete(id);
+
+        let item = settle(market, listing, coin::from_balance(payment, ctx), buyer, clock, ctx);
+        transfer::public_transfer(item, buyer);
+    }
+
+    /// Seller turns an offer down, the coins go back to the buyer
+    public fun reject_offer<T: key + store, C>(
+        listing: &Listing<T, C>,
+        offer: Offer<C>,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        assert!(listing.seller == tx_context::sender(ctx), ENotSeller);
+        assert!(offer.listing_id == object::id(listing), EOfferMismatch);
+        refund(offer, OFFER_REJECTED, clock, ctx);
+    }
+
+    /// Buyer takes their coins back, allowed at any time
+    public fun withdraw_offer<C>(
+        offer: Offer<C>,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        assert!(offer.buyer == tx_context::sender(ctx), ENotBuyer);
+        refund(offer, OFFER_WITHDRAWN, clock, ctx);
+    }
+
+    fun refund<C>(offer: Offer<C>, outcome: u8, clock: &Clock, ctx: &mut TxContext) {
+        let Offer { id, listing_id, buyer, payment, message: _, created_at: _, expires_at: _ } = offer;
+
+        event::emit(OfferClosed {
+            offer_id: object::uid_to_address(&id),
+            listing_id: object::id_to_address(&listing_id),
+            buyer,
+            outcome,
+            timestamp: clock::timestamp_ms(clock),
+        });
+
+        object::delete(id);
+        transfer::public_transfer(coin::from_balance(payment, ctx), buyer);
+    }
+
+    // ==================== English Auctions ====================
+
+    /// Escrow an item for bidding. Bids open at `start_price`, each must beat
+    /// the last by `min_increment`, and the item only sells at or above
+    /// `reserve_price`
+    public fun create_english_auction<T: key + store>(
+        item: T,
+        start_price: u64,
+        reserve_price: u64,
+        min_increment: u64,
+        duration_ms: u64,
+        extension_ms: u64,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        assert!(start_price > 0 && min_increment > 0, EInvalidPrice);
+        assert!(reserve_price >= start_price, EInvalidPrice);
+        assert!(duration_ms > 0 && duration_ms <= MAX_DURATION_MS, EInvalidDuration);
+        assert!(extension_ms <= MAX_EXTENSION_MS, EInvalidDuration);
+
+        let now = clock::timestamp_ms(clock);
+        let item_id = object::id(&item);
+        let auction = EnglishAuction {
+            id: object::new(ctx),
+            seller: tx_context::sender(ctx),
+            item_id,
+            item,
+            start_price,
+            reserve_price,
+            min_increment,
+            extension_ms,
+            highest_bidder: @0x0,
+            highest_bid: balance::zero(),
+            bid_count: 0,
+            ends_at: now + duration_ms,
+        };
+
+        event::emit(EnglishAuctionCreated {
+            auction_id: object::uid_to_address(&auction.id),
+            item_id: object::id_to_address(&item_id),
+            item_type: string::from_ascii(type_name::into_string(type_name::get<T>())),
+            seller: auction.seller,
+            start_price,
+            reserve_price,
+            min_increment,
+            extension_ms,
+            ends_at: auction.ends_at,
+            timestamp: now,
+        });
+
+        transfer::share_object(auction);
+    }
+
+    /// Smallest bid the auction will take next
+    public fun minimum_bid<T: key + store>(auction: &EnglishAuction<T>): u64 {
+        if (auction.bid_count == 0) {
+            auction.start_price
+        } else {
+            balance::value(&auction.highest_bid) + auction.min_increment
+        }
+    }
+
+    /// Outbid the current leader, who gets their DGN back in the same
+    /// transaction. A bid inside the last `extension_ms` extends the auction
+    public fun bid<T: key + store>(
+        auction: &mut EnglishAuction<T>,
+        payment: Coin<SSS_TOKEN>,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        let bidder = tx_context::sender(ctx);
+        let now = clock::timestamp_ms(clock);
+        let amount = coin::value(&payment);
+        assert!(bidder != auction.seller, EOwnListing);
+        assert!(now < auction.ends_at, EAuctionEnded);
+        assert!(amount >= minimum_bid(auction), EBidTooLow);
+
+        let auction_id = object::uid_to_address(&auction.id);
+        if (auction.bid_count > 0) {
+            let refund = balance::withdraw_all(&mut auction.highest_bid);
+            event::emit(BidRefunded {
+                auction_id,
+                bidder: auction.highest_bidder,
+                amount: balance::value(&refund),
+                timestamp: now,
+            });
+            transfer::public_transfer(coin::from_balance(refund, ctx), auction.highest_bidder);
+        };
+
+        balance::join(&mut auction.highest_bid, coin::into_balance(payment));
+        auction.highest_bidder = bidder;
+        auction.bid_count = auction.bid_count + 1;
+        if (auction.ends_at - now < auction.extension_ms) {
+            auction.ends_at = now + auction.extension_ms;
+        };
+
+        event::emit(BidPlaced {
+            auction_id,
+            bidder,
+            amount,
+            ends_at: auction.ends_at,
+            timestamp: now,
+        });
+    }
+
+    /// Close an auction once it has ended. Anyone can call this: the item
+    /// goes to the winner if the reserve was met, otherwise back to the
+    /// seller with the bid refunded
+    public fun settle_auction<T: key + store>(
+        market: &mut Marketplace,
+        auction: EnglishAuction<T>,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        let now = clock::timestamp_ms(clock);
+        assert!(now >= auction.ends_at, EAuctionLive);
+
+        let EnglishAuction {
+            id, seller, item_id: _, item, start_price: _, reserve_price,
+            min_increment: _, extension_ms: _, highest_bidder, highest_bid,
+            bid_count, ends_at: _,
+        } = auction;
+        let auction_id = object::uid_to_address(&id);
+        let amount = balance::value(&highest_bid);
+        let sold = bid_count > 0 && amount >= reserve_price;
+
+        if (sold) {
+            pay_out(market, auction_id, coin::from_balance(highest_bid, ctx), seller, highest_bidder, clock, ctx);
+            transfer::public_transfer(item, highest_bidder);
+        } else {
+            if (bid_count > 0) {
+                event::emit(BidRefunded { auction_id, bidder: highest_bidder, amount, timestamp: now });
+                transfer::public_transfer(coin::from_balance(highest_bid, ctx), highest_bidder);
+            } else {
+                balance::destroy_zero(highest_bid);
+            };
+            transfer::public_transfer(item, seller);
+        };
+
+        event::emit(AuctionClosed {
+            auction_id,
+            seller,
+            winner: if (sold) highest_bidder else @0x0,
+            amount: if (sold) amount else 0,
+            sold,
+            timestamp: now,
+        });
+        object::delete(id);
+    }
+
+    /// Take the item back before anyone has bid
+    public fun cancel_english_auction<T: key + store>(
+        auction: EnglishAuction<T>,
+        clock: &Clock,
+        ctx: &TxContext
+    ) {
+        assert!(auction.seller == tx_context::sender(ctx), ENotSeller);
+        assert!(auction.bid_count == 0, EHasBids);
+
+        let EnglishAuction {
+            id, seller, item_id: _, item, start_price: _, reserve_price: _,
+            min_increment: _, extension_ms: _, highest_bidder: _, highest_bid,
+            bid_count: _, ends_at: _,
+        } = auction;
+        balance::destroy_zero(highest_bid);
+
+        event::emit(AuctionClosed {
+            auction_id: object::uid_to_address(&id),
+            seller,
+            winner: @0x0,
+            amount: 0,
+            sold: false,
+            timestamp: clock::timestamp_ms(clock),
+        });
+        object::delete(id);
+        transfer::public_transfer(item, seller);
+    }
+
+    // ==================== Dutch Auctions ====================
+
+    /// Escrow an item at a price that falls from `start_price` to
+    /// `end_price` over `duration_ms`. Unsold once it runs out
+    public fun create_dutch_auction<T: key + store>(
+        item: T,
+        start_price: u64,
+        end_price: u64,
+        duration_ms: u64,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        assert!(end_price > 0 && start_price > end_price, EInvalidSchedule);
+        assert!(duration_ms > 0 && duration_ms <= MAX_DURATION_MS, EInvalidDuration);
+
+        let now = clock::timestamp_ms(clock);
+        let item_id = object::id(&item);
+        let auction = DutchAuction {
+            id: object::new(ctx),
+            seller: tx_context::sender(ctx),
+            item_id,
+            item,
+            start_price,
+            end_price,
+            starts_at: now,
+            ends_at: now + duration_ms,
+        };
+
+        event::emit(DutchAuctionCreated {
+            auction_id: object::uid_to_address(&auction.id),
+            item_id: object::id_to_address(&item_id),
+            item_type: string::from_ascii(type_name::into_string(type_name::get<T>())),
+            seller: auction.seller,
+            start_price,
+            end_price,
+            starts_at: now,
+            ends_at: auction.ends_at,
+            timestamp: now,
+        });
+
+        transfer::share_object(auction);
+    }
+
+    /// Price of a Dutch auction right now
+    public fun dutch_price<T: key + store>(auction: &DutchAuction<T>, clock: &Clock): u64 {
+        let now = clock::timestamp_ms(clock);
+        if (now >= auction.ends_at) return auction.end_price;
+
+        let drop = ((auction.start_price - auction.end_price) as u128)
+            * ((now - auction.starts_at) as u128)
+            / ((auction.ends_at - auction.starts_at) as u128);
+        auction.start_price - (drop as u64)
+    }
+
+    /// Buy at the current price. Paying more is fine, the change is returned
+    public fun buy_dutch<T: key + store>(
+        market: &mut Marketplace,
+        auction: DutchAuction<T>,
+        mut payment: Coin<SSS_TOKEN>,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        let buyer = tx_context::sender(ctx);
+        let now = clock::timestamp_ms(clock);
+        assert!(buyer != auction.seller, EOwnListing);
+        assert!(now < auction.ends_at, EAuctionEnded);
+
+        let price = dutch_price(&auction, clock);
+        let paid = coin::value(&payment);
+        assert!(paid >= price, EWrongPayment);
+        if (paid > price) {
+            transfer::public_transfer(coin::split(&mut payment, paid - price, ctx), buyer);
+        };
+
+        let DutchAuction {
+            id, seller, item_id: _, item, start_price: _, end_price: _,
+            starts_at: _, ends_at: _,
+        } = auction;
+        let auction_id = object::uid_to_address(&id);
+        pay_out(market, auction_id, payment, seller, buyer, clock, ctx);
+
+        event::emit(AuctionClosed {
+            auction_id,
+            seller,
+            winner: buyer,
+            amount: price,
+            sold: true,
+            timestamp: now,
+        });
+        object::delete(id);
+        transfer::public_transfer(item, buyer);
+    }
+
+    /// Take the item back, at any time. How an unsold auction is cleared
+    public fun cancel_dutch_auction<T: key + store>(
+        auction: DutchAuction<T>,
+        clock: &Clock,
+        ctx: &TxContext
+    ) {
+        assert!(auction.seller == tx_context::sender(ctx), ENotSeller);
+
+        let DutchAuction {
+            id, seller, item_id: _, item, start_price: _, end_price: _,
+            starts_at: _, ends_at: _,
+        } = auction;
+
+        event::emit(AuctionClosed {
+            auction_id: object::uid_to_address(&id),
+            seller,
+            winner: @0x0,
+            amount: 0,
+            sold: false,
+            timestamp: clock::timestamp_ms(clock),
+        });
+        object::delete(id);
+        transfer::public_transfer(item, seller);
+    }
+
+    // ==================== View Functions ====================
+
+    /// Fee taken on a sale at `price`
+    public fun fee_for(price: u64): u64 {
+        (((price as u128) * (FEE_BPS as u128) / (BPS_DENOMINATOR as u128)) as u64)
+    }
+
+    /// Get listing details
+    public fun get_listing<T: key + store, C>(listing: &Listing<T, C>): (address, ID, u64, u64) {
+        (listing.seller, listing.item_id, listing.price, listing.expires_at)
+    }
+
+    /// Get offer details
+    public fun get_offer<C>(offer: &Offer<C>): (ID, address, u64, u64) {
+        (offer.listing_id, offer.buyer, balance::value(&offer.payment), offer.expires_at)
+    }
+
+    /// Get marketplace totals
+    public fun get_stats(market: &Marketplace): (u64, u64, u64) {
+        (market.total_sales, market.total_volume, market.total_burned)
+    }
+}
@@ -1,13 +1,33 @@
 module game::nft_items {
-    use one::object::{Self, UID};
+    use one::object::{Self, ID, UID};
     use one::transfer;
     use one::tx_context::{Self, TxContext};
     use one::url::{Self, Url};
+    use one::coin::{Self, Coin};
     use std::string::{Self, String};
     use one::event;
+    use game::sss_token::SSS_TOKEN;
+    use game::marketplace::{Self, Marketplace};
+    use game::shadow_stake_saga_game::{Self, GameRegistry};
 
     // ==================== Errors ====================
     const ENotOwner: u64 = 0;
+    const EFusionSize: u64 = 1;
+    const EFusionFeeTooLow: u64 = 2;
+    const EMintFeeTooLow: u64 = 3;
+    const EUnknownRarity: u64 = 4;
+    const ERelicTooPowerful: u64 = 5;
+
+    // ==================== Constants ====================
+    const MIN_FUSION_RELICS: u64 = 2;
+    const MAX_FUSION_RELICS: u64 = 5;
+    /// 300 DGN for two relics, 20% more for each extra one
+    const FUSION_BASE_FEE: u64 = 300;
+    /// 1000 DGN to mint a rare relic, times 2, 5 and 10 for the rarer ones
+    const RELIC_MINT_BASE_FEE: u64 = 1000;
+    /// Power a fused relic gains for every parent after the first
+    const FUSION_POWER_BONUS: u64 = 10;
+    const DGN_UNIT: u64 = 1_000_000_000;
 
     // ==================== NFT Structs ====================
     
@@ -45,6 +65,8 @@ module game::nft_items {
         image_url: Url,
         minted_at: u64,
         owner: address,
+        /// Relics consumed by `fuse_relics` to make this one
+        lineage: vector<ID>,
     }
 
     /// Boss Trophy NFT
@@ -80,6 +102,15 @@ module game::nft_items {
         rarity: String,
     }
 
+    public struct RelicsFused has copy, drop {
+        relic_id: address,
+        owner: address,
+        parents: vector<ID>,
+        power: u64,
+        rarity: String,
+        fee: u64,
+    }
+
     public struct BossTrophyMinted has copy, drop {
         trophy_id: address,
         owner: address,
@@ -152,24 +183,69 @@ module game::nft_items {
         transfer::transfer(armor, tx_context::sender(ctx));
     }
 
-    /// Mint a relic NFT
+    /// DGN burned to mint a relic of `rarity`, in base units
+    public fun relic_mint_fee(rarity: &String): u64 {
+        let multiplier = if (rarity_rank(rarity) == 3) 10
+            else if (rarity_rank(rarity) == 2) 5
+            else if (rarity_rank(rarity) == 1) 2
+            else 1;
+        RELIC_MINT_BASE_FEE * multiplier * DGN_UNIT
+    }
+
+    /// Most power a relic of `rarity` drops with, stronger ones only come
+    /// from `fuse_relics`
+    public fun max_relic_power(rarity: &String): u64 {
+        if (rarity_rank(rarity) == 3) 500
+        else if (rarity_rank(rarity) == 2) 250
+        else if (rarity_rank(rarity) == 1) 100
+        else 50
+    }
+
+    /// Mint a relic NFT, burning its mint fee. Only drops the validator
+    /// re-rolled from a kill in the player's run and signed, once each
     public fun mint_relic(
+        registry: &mut GameRegistry,
+        market: &mut Marketplace,
+        fee: Coin<SSS_TOKEN>,
         name: vector<u8>,
         description: vector<u8>,
         power: u64,
         rarity: vector<u8>,
         image_url: vector<u8>,
+        validator_session: vector<u8>,
+        seed: vector<u8>,
+        level: u64,
+        roll: u64,
+        signature: vector<u8>,
         ctx: &mut TxContext
     ) {
+        shadow_stake_saga_game::claim_relic_drop(
+            registry,
+            validator_session,
+            tx_context::sender(ctx),
+            seed,
+            level,
+            roll,
+            rarity,
+            power,
+            signature
+        );
+        let rarity = string::utf8(rarity);
+        assert!(is_relic_rarity(&rarity), EUnknownRarity);
+        assert!(power <= max_relic_power(&rarity), ERelicTooPowerful);
+        assert!(coin::value(&fee) >= relic_mint_fee(&rarity), EMintFeeTooLow);
+        marketplace::burn(market, fee, ctx);
+
         let relic = Relic {
             id: object::new(ctx),
             name: string::utf8(name),
             description: string::utf8(description),
             power,
-            rarity: string::utf8(rarity),
+            rarity,
             image_url: url::new_unsafe_from_bytes(image_url),
             minted_at: tx_context::epoch_timestamp_ms(ctx),
             owner: tx_context::sender(ctx),
+            lineage: vector::empty(),
         };
 
         let relic_id = object::uid_to_address(&relic.id);
@@ -184,6 +260,125 @@ module game::nft_items {
         transfer::transfer(relic, tx_context::sender(ctx));
     }
 
+    /// DGN burned to fuse `count` relics, in base units
+    public fun fusion_fee(count: u64): u64 {
+        let mut fee = FUSION_BASE_FEE;
+        let mut i = MIN_FUSION_RELICS;
+        while (i < count) {
+            fee = fee * 12 / 10;
+            i = i + 1;
+        };
+        fee * DGN_UNIT
+    }
+
+    /// Consume two to five relics and burn the fusion fee to mint one relic
+    /// that beats the best of them: its power, plus half of the others' and
+    /// FUSION_POWER_BONUS per extra parent. The rarity is the highest among
+    /// them, one step up when two or more share it. Their ids become its
+    /// lineage
+    public fun fuse_relics(
+        market: &mut Marketplace,
+        mut relics: vector<Relic>,
+        fee: Coin<SSS_TOKEN>,
+        name: vector<u8>,
+        description: vector<u8>,
+        image_url: vector<u8>,
+        ctx: &mut TxContext
+    ) {
+        let count = vector::length(&relics);
+        assert!(
+            count >= MIN_FUSION_RELICS && count <= MAX_FUSION_RELICS,
+            EFusionSize
+        );
+        let fee_amount = coin::value(&fee);
+        assert!(fee_amount >= fusion_fee(count), EFusionFeeTooLow);
+        marketplace::burn(market, fee, ctx);
+
+        let mut parents = vector::empty<ID>();
+        let mut total_power = 0;
+        let mut best_power = 0;
+        let mut top_rank = 0;
+        let mut top_count = 0;
+        while (!vector::is_empty(&relics)) {
+            let Relic {
+                id,
+                name: _,
+                description: _,
+                power,
+                rarity: parent_rarity,
+                image_url: _,
+                minted_at: _,
+                owner: _,
+                lineage: _,
+            } = vector::pop_back(&mut relics);
+            vector::push_back(&mut parents, object::uid_to_inner(&id));
+            total_power = total_power + power;
+            if (power > best_power) {
+                best_power = power;
+            };
+            let rank = rarity_rank(&parent_rarity);
+            if (rank > top_rank) {
+                top_rank = rank;
+                top_count = 1;
+            } else if (rank == top_rank) {
+                top_count = top_count + 1;
+            };
+            object::delete(id);
+        };
+        vector::destroy_empty(relics);
+
+        let power = best_power
+            + (total_power - best_power) / 2
+            + FUSION_POWER_BONUS * (count - 1);
+        // Mythic, rank 3, is as rare as it gets
+        if (top_count >= 2 && top_rank < 3) {
+            top_rank = top_rank + 1;
+        };
+
+        let relic = Relic {
+            id: object::new(ctx),
+            name: string::utf8(name),
+            description: string::utf8(description),
+            power,
+            rarity: rarity_name(top_rank),
+            image_url: url::new_unsafe_from_bytes(image_url),
+            minted_at: tx_context::epoch_timestamp_ms(ctx),
+            owner: tx_context::sender(ctx),
+            lineage: parents,
+        };
+
+        event::emit(RelicsFused {
+            relic_id: object::uid_to_address(&relic.id),
+            owner: tx_context::sender(ctx),
+            parents: relic.lineage,
+            power: relic.power,
+            rarity: relic.rarity,
+            fee: fee_amount,
+        });
+
+        transfer::transfer(relic, tx_context::sender(ctx));
+    }
+
+    fun is_relic_rarity(rarity: &String): bool {
+        rarity_rank(rarity) > 0 || *rarity == string::utf8(b"rare")
+    }
+
+    /// Order of the relic rarities the game mints, unknown ones rank lowest
+    fun rarity_rank(rarity: &String): u8 {
+        if (*rarity == string::utf8(b"mythic")) 3
+        else if (*rarity == string::utf8(b"legendary")) 2
+        else if (*rarity == string::utf8(b"epic")) 1
+        else 0
+    }
+
+    /// Rarity of a `rarity_rank`
+    fun rarity_name(rank: u8): String {
+        if (rank == 3) string::utf8(b"mythic")
+        else if (rank == 2) string::utf8(b"legendary")
+        else if (rank == 1) string::utf8(b"epic")
+        else string::utf8(b"rare")
+    }
+
     /// Mint a boss trophy NFT
     public fun mint_boss_trophy(
         boss_name: vector<u8>,
@@ -259,4 +454,9 @@ module game::nft_items {
     public fun get_relic_stats(relic: &Relic): (String, String, u64, String) {
         (relic.name, relic.description, relic.power, relic.rarity)
     }
+
+    /// Get the relics a fused relic was made from
+    public fun get_relic_lineage(relic: &Relic): vector<ID> {
+        relic.lineage
+    }
 }
@@ -0,0 +1,676 @@
+// Bot Protection System
+
+import { hashesEqual, randomHex, sha256 } from './hash';
+
+export interface BotDetectionResult {
+  isBot: boolean;
+  confidence: number;
+  reasons: string[];
+  score: number;
+}
+
+export interface UserBehavior {
+  mouseMovements: number;
+  keyPresses: number;
+  clickPatterns: number[];
+  sessionDuration: number;
+  actionsPerMinute: number;
+  pauseFrequency: number;
+  errorRate: number;
+}
+
+export type ChallengeType = 'captcha' | 'puzzle' | 'timing';
+
+// What the player is shown. Answers never appear here
+export type ChallengeData =
+  | { kind: 'arithmetic'; question: string }
+  | { kind: 'image_grid'; target: string; targetName: string; cells: string[] }
+  | { kind: 'sliding_tile'; size: number; tiles: number[] } // 0 is the gap
+  | { kind: 'reaction'; rounds: number }; // Timed by BotProtection itself
+
+// The typed answer, the selected cells or the cells moved into the gap.
+// Reaction challenges are answered through armReactionRound and
+// pressReaction, their response is ignored
+export type ChallengeResponse = string | number[];
+
+export interface ChallengeView {
+  id: string;
+  type: ChallengeType;
+  expiresAt: number;
+  maxAttempts: number;
+  data: ChallengeData;
+}
+
+export interface ChallengeResult {
+  challengeId: string;
+  passed: boolean;
+  responseTime: number;
+  attempts: number;
+}
+
+export class BotProtection {
+  private userBehaviors: Map<string, UserBehavior>;
+  private challenges: Map<string, Challenge>;
+  private botScores: Map<string, number>;
+  private passedAt: Map<string, number>; // userAddress -> last solved challenge
+
+  // Bot detection thresholds
+  private readonly BOT_SCORE_THRESHOLD = 70;
+  private readonly MIN_MOUSE_MOVEMENTS = 10;
+  private readonly MAX_ACTIONS_PER_MINUTE = 300;
+  private readonly MIN_SESSION_DURATION = 10000; // 10 seconds
+  private readonly CHALLENGE_PASS_DURATION = 1800000; // 30 minutes
+  private readonly SHUFFLE_MOVES = 24;
+  private readonly REACTION_ROUNDS = 3;
+  private readonly MIN_REACTION_MS = 120; // Faster than people can react
+  private readonly MAX_REACTION_MS = 1500;
+
+  constructor() {
+    this.userBehaviors = new Map();
+    this.challenges = new Map();
+    this.botScores = new Map();
+    this.passedAt = new Map();
+  }
+
+  // Track user behavior
+  trackBehavior(
+    userAddress: string,
+    behavior: Partial<UserBehavior>
+  ): void {
+    const existing = this.userBehaviors.get(userAddress) || {
+      mouseMovements: 0,
+      keyPresses: 0,
+      clickPatterns: [],
+      sessionDuration: 0,
+      actionsPerMinute: 0,
+      pauseFrequency: 0,
+      errorRate: 0,
+    };
+
+    this.userBehaviors.set(userAddress, {
+      ...existing,
+      ...behavior,
+    });
+  }
+
+  getBehavior(userAddress: string): UserBehavior | undefined {
+    const behavior = this.userBehaviors.get(userAddress);
+    return behavior
+      ? { ...behavior, clickPatterns: [...behavior.clickPatterns] }
+      : undefined;
+  }
+
+  // Analyze user for bot behavior
+  analyzeBotBehavior(userAddress: string): BotDetectionResult {
+    const behavior = this.userBehaviors.get(userAddress);
+
+    if (!behavior) {
+      return {
+        isBot: false,
+        confidence: 0.5,
+        reasons: ['No behavior data'],
+        score: 50,
+      };
+    }
+
+    const reasons: string[] = [];
+    let score = 0;
+
+    // Check 1: Mouse movements
+    if (behavior.mouseMovements < this.MIN_MOUSE_MOVEMENTS) {
+      reasons.push('Insufficient mouse movements');
+      score += 20;
+    }
+
+    // Check 2: Actions per minute
+    if (behavior.actionsPerMinute > this.MAX_ACTIONS_PER_MINUTE) {
+      reasons.push('Too many actions per minute');
+      score += 25;
+    }
+
+    // Check 3: Session duration
+    if (behavior.sessionDuration < this.MIN_SESSION_DURATION) {
+      reasons.push('Session too short');
+      score += 15;
+    }
+
+    // Check 4: Click patterns (too consistent)
+    if (this.isClickPatternSuspicious(behavior.clickPatterns)) {
+      reasons.push('Suspicious click patterns');
+      score += 20;
+    }
+
+    // Check 5: No pauses (bots don't pause)
+    if (behavior.pauseFrequency === 0 && behavior.sessionDuration > 60000) {
+      reasons.push('No pauses detected');
+      score += 15;
+    }
+
+    // Check 6: Error rate (humans make mistakes)
+    if (behavior.errorRate < 0.01 && behavior.actionsPerMinute > 100) {
+      reasons.push('Unusually low error rate');
+      score += 15;
+    }
+
+    // Check 7: Key presses (bots may not use keyboard naturally)
+    if (behavior.keyPresses === 0 && behavior.sessionDuration > 30000) {
+      reasons.push('No keyboard input');
+      score += 10;
+    }
+
+    // Store bot score
+    this.botScores.set(userAddress, score);
+
+    const isBot = score >= this.BOT_SCORE_THRESHOLD;
+    const confidence = Math.min(1.0, score / 100);
+
+    return {
+      isBot,
+      confidence,
+      reasons,
+      score,
+    };
+  }
+
+  // Check if click pattern is suspicious
+  private isClickPatternSuspicious(patterns: number[]): boolean {
+    if (patterns.length < 5) return false;
+
+    // Calculate variance in click intervals
+    const avg = patterns.reduce((sum, p) => sum + p, 0) / patterns.length;
+    const variance =
+      patterns.reduce((sum, p) => sum + Math.pow(p - avg, 2), 0) / patterns.length;
+    const stdDev = Math.sqrt(variance);
+
+    // Too consistent (low variance) is suspicious
+    return stdDev < 10 && patterns.length > 10;
+  }
+
+  // Create challenge for suspicious users. Only the salted hash of the
+  // answer is kept, so it can be checked without being stored
+  async createChallenge(
+    userAddress: string,
+    type: ChallengeType
+  ): Promise<ChallengeView> {
+    const challengeId = `challenge-${Date.now()}-${randomHex(8)}`;
+    const { data, answer } = this.generateChallengeData(type);
+    const salt = randomHex(16);
+
+    const challenge: Challenge = {
+      id: challengeId,
+      userAddress,
+      type,
+      createdAt: Date.now(),
+      expiresAt: Date.now() + 300000, // 5 minutes
+      attempts: 0,
+      maxAttempts: 3,
+      solved: false,
+      data,
+      salt,
+      answerHash: answer ? await this.hashAnswer(salt, answer) : undefined,
+      reaction: data.kind === 'reaction' ? this.newReaction() : undefined,
+    };
+
+    this.challenges.set(challengeId, challenge);
+
+    return {
+      id: challenge.id,
+      type: challenge.type,
+      expiresAt: challenge.expiresAt,
+      maxAttempts: challenge.maxAttempts,
+      data: challenge.data,
+    };
+  }
+
+  private hashAnswer(salt: string, answer: string): Promise<string> {
+    return sha256(`${salt}:${answer}`);
+  }
+
+  // Generate challenge data, with the answer in its canonical form
+  private generateChallengeData(type: ChallengeType): {
+    data: ChallengeData;
+    answer?: string;
+  } {
+    switch (type) {
+      case 'captcha':
+        return randomInt(2) === 0
+          ? this.generateArithmetic()
+          : this.generateImageGrid();
+
+      case 'puzzle':
+        return this.generateSlidingTile();
+
+      case 'timing':
+        // Checked against human reaction times rather than a single answer
+        return { data: { kind: 'reaction', rounds: this.REACTION_ROUNDS } };
+    }
+  }
+
+  private generateArithmetic(): { data: ChallengeData; answer: string } {
+    const a = 2 + randomInt(11);
+    const b = 2 + randomInt(11);
+    const c = 1 + randomInt(9);
+    const operators = [
+      { symbol: '+', apply: (x: number, y: number) => x + y },
+      { symbol: '−', apply: (x: number, y: number) => x - y },
+      { symbol: '×', apply: (x: number, y: number) => x * y },
+    ];
+    const operator = operators[randomInt(operators.length)]!;
+
+    return {
+      data: {
+        kind: 'arithmetic',
+        question: `What is ${a} ${operator.symbol} ${b} + ${c}?`,
+      },
+      answer: String(operator.apply(a, b) + c),
+    };
+  }
+
+  // 3x3 grid of dungeon symbols, two to four of them the target
+  private generateImageGrid(): { data: ChallengeData; answer: string } {
+    const target = gridSymbols[randomInt(gridSymbols.length)]!;
+    const others = gridSymbols.filter((symbol) => symbol !== target);
+    const cells = Array.from(
+      { length: 9 },
+      () => others[randomInt(others.length)]!.symbol
+    );
+
+    const targetCount = 2 + randomInt(3);
+    const positions = shuffle(cells.map((_, index) => index)).slice(
+      0,
+      targetCount
+    );
+    positions.forEach((position) => {
+      cells[position] = target.symbol;
+    });
+
+    return {
+      data: {
+        kind: 'image_grid',
+        target: target.symbol,
+        targetName: target.name,
+        cells,
+      },
+      answer: canonicalCells(positions),
+    };
+  }
+
+  // Shuffled by random moves from the solved board, so it is always solvable
+  private generateSlidingTile(): { data: ChallengeData; answer: string } {
+    const size = 3;
+    const solved = solvedBoard(size);
+    let tiles = solved;
+    let previousGap = -1;
+
+    for (let i = 0; i < this.SHUFFLE_MOVES || isSolved(tiles); i++) {
+      const gap = tiles.indexOf(0);
+      // Never slide straight back, that would undo the last move
+      const moves = neighbours(gap, size).filter(
+        (cell) => cell !== previousGap
+      );
+      previousGap = gap;
+      tiles = slide(tiles, moves[randomInt(moves.length)]!, size)!;
+    }
+
+    return {
+      data: { kind: 'sliding_tile', size, tiles },
+      answer: solved.join(','),
+    };
+  }
+
+  // Work out what the response amounts to, in the same form as the answer
+  private canonicalResponse(
+    data: ChallengeData,
+    response: ChallengeResponse
+  ): string | null {
+    switch (data.kind) {
+      case 'arithmetic':
+        return typeof response === 'string' ? response.trim() : null;
+
+      case 'image_grid':
+        return Array.isArray(response) ? canonicalCells(response) : null;
+
+      case 'sliding_tile': {
+        if (!Array.isArray(response)) return null;
+        let tiles: number[] | null = data.tiles;
+        for (const cell of response) {
+          tiles = slide(tiles, cell, data.size);
+          if (!tiles) return null;
+        }
+        return tiles.join(',');
+      }
+
+      case 'reaction':
+        return null;
+    }
+  }
+
+  // The delays never leave this object, so the player can't know when a
+  // rune lights up before it does
+  private newReaction(): ReactionTiming {
+    return {
+      delays: Array.from(
+        { length: this.REACTION_ROUNDS },
+        () => 1000 + randomInt(2500)
+      ),
+      litAt: [],
+      presses: [],
+    };
+  }
+
+  private openReaction(challengeId: string): ReactionTiming | null {
+    const challenge = this.challenges.get(challengeId);
+    if (
+      !challenge?.reaction ||
+      challenge.solved ||
+      Date.now() > challenge.expiresAt ||
+      challenge.attempts >= challenge.maxAttempts
+    ) {
+      return null;
+    }
+    return challenge.reaction;
+  }
+
+  // Starts the next round. The rune lights up after the returned ms, the
+  // caller waits that long before telling the player. Null when there is no
+  // round to start, e.g. the last one hasn't been pressed yet
+  armReactionRound(challengeId: string): number | null {
+    const reaction = this.openReaction(challengeId);
+    const round = reaction?.litAt.length ?? 0;
+    if (
+      !reaction ||
+      reaction.presses.length !== round ||
+      round >= reaction.delays.length
+    ) {
+      return null;
+    }
+
+    const delay = reaction.delays[round]!;
+    reaction.litAt.push(Date.now() + delay);
+    return delay;
+  }
+
+  // The player pressed, timed by our clock. A press before the rune lit up
+  // still counts, it fails the round
+  pressReaction(challengeId: string): boolean {
+    const reaction = this.openReaction(challengeId);
+    if (!reaction || reaction.presses.length >= reaction.litAt.length) {
+      return false;
+    }
+    reaction.presses.push(Date.now());
+    return true;
+  }
+
+  // Each press has to come a human reaction time after its rune lit up
+  private verifyReaction(reaction: ReactionTiming) {
+    if (reaction.presses.length !== reaction.delays.length) return false;
+
+    return reaction.presses.every((pressedAt, round) => {
+      const delay = pressedAt - reaction.litAt[round]!;
+      return delay >= this.MIN_REACTION_MS && delay <= this.MAX_REACTION_MS;
+    });
+  }
+
+  // Verify challenge response
+  async verifyChallenge(
+    challengeId: string,
+    response: ChallengeResponse,
+    responseTime: number
+  ): Promise<ChallengeResult> {
+    const challenge = this.challenges.get(challengeId);
+
+    if (!challenge) {
+      return {
+        challengeId,
+        passed: false,
+        responseTime: 0,
+        attempts: 0,
+      };
+    }
+
+    if (challenge.solved) {
+      return {
+        challengeId,
+        passed: true,
+        responseTime: 0,
+        attempts: challenge.attempts,
+      };
+    }
+
+    if (
+      Date.now() > challenge.expiresAt ||
+      challenge.attempts >= challenge.maxAttempts
+    ) {
+      return {
+        challengeId,
+        passed: false,
+        responseTime: 0,
+        attempts: challenge.attempts,
+      };
+    }
+
+    challenge.attempts++;
+
+    let passed = false;
+
+    if (challenge.reaction) {
+      passed = this.verifyReaction(challenge.reaction);
+      // Another attempt plays new rounds
+      if (!passed) challenge.reaction = this.newReaction();
+    } else {
+      const canonical = this.canonicalResponse(challenge.data, response);
+      passed =
+        canonical !== null &&
+        !!challenge.answerHash &&
+        hashesEqual(
+          await this.hashAnswer(challenge.salt, canonical),
+          challenge.answerHash
+        );
+    }
+
+    if (passed) {
+      challenge.solved = true;
+      this.passedAt.set(challenge.userAddress, Date.now());
+      // Reduce bot score on successful challenge
+      const currentScore = this.botScores.get(challenge.userAddress) || 0;
+      this.botScores.set(challenge.userAddress, Math.max(0, currentScore - 30));
+    } else if (challenge.attempts >= challenge.maxAttempts) {
+      // Failed too many times, increase bot score
+      const currentScore = this.botScores.get(challenge.userAddress) || 0;
+      this.botScores.set(challenge.userAddress, currentScore + 20);
+    }
+
+    return {
+      challengeId,
+      passed,
+      responseTime,
+      attempts: challenge.attempts,
+    };
+  }
+
+  // Check if user needs challenge
+  needsChallenge(userAddress: string): boolean {
+    // A solved challenge covers the user for a while
+    const passedAt = this.passedAt.get(userAddress);
+    if (passedAt && Date.now() - passedAt < this.CHALLENGE_PASS_DURATION) {
+      return false;
+    }
+
+    const botAnalysis = this.analyzeBotBehavior(userAddress);
+    return botAnalysis.score >= 50; // Require challenge if score >= 50
+  }
+
+  // Get user bot score
+  getUserBotScore(userAddress: string): number {
+    return this.botScores.get(userAddress) || 0;
+  }
+
+  // Reset user bot score
+  resetBotScore(userAddress: string): void {
+    this.botScores.set(userAddress, 0);
+  }
+
+  // Get statistics
+  getStats(): {
+    totalUsers: number;
+    suspiciousUsers: number;
+    confirmedBots: number;
+    challengesIssued: number;
+    challengesPassed: number;
+  } {
+    const users = Array.from(this.botScores.entries());
+    const suspicious = users.filter(([_, score]) => score >= 50 && score < 70).length;
+    const confirmedBots = users.filter(([_, score]) => score >= 70).length;
+
+    const challenges = Array.from(this.challenges.values());
+    const challengesPassed = challenges.filter((c) => c.solved).length;
+
+    return {
+      totalUsers: users.length,
+      suspiciousUsers: suspicious,
+      confirmedBots,
+      challengesIssued: challenges.length,
+      challengesPassed,
+    };
+  }
+
+  // Clean up expired challenges
+  cleanupChallenges(): number {
+    const now = Date.now();
+    let cleaned = 0;
+
+    this.challenges.forEach((challenge, id) => {
+      if (now > challenge.expiresAt) {
+        this.challenges.delete(id);
+        cleaned++;
+      }
+    });
+
+    return cleaned;
+  }
+}
+
+interface Challenge {
+  id: string;
+  userAddress: string;
+  type: ChallengeType;
+  createdAt: number;
+  expiresAt: number;
+  attempts: number;
+  maxAttempts: number;
+  solved: boolean;
+  data: ChallengeData;
+  salt: string;
+  answerHash?: string; // sha256 of salt:answer, unset for reaction challenges
+  reaction?: ReactionTiming;
+}
+
+// Times in our clock, the player never sees them
+interface ReactionTiming {
+  delays: number[];
+  litAt: number[];
+  presses: number[];
+}
+
+const gridSymbols = [
+  { symbol: '💀', name: 'skull' },
+  { symbol: '🗡️', name: 'dagger' },
+  { symbol: '🛡️', name: 'shield' },
+  { symbol: '💎', name: 'gem' },
+  { symbol: '🔥', name: 'flame' },
+  { symbol: '🗝️', name: 'key' },
+];
+
+// Uniform integer in [0, max) from the CSPRNG, Math.random is predictable
+function randomInt(max: number): number {
+  const limit = Math.floor(0x100000000 / max) * max;
+  const buffer = new Uint32Array(1);
+  do {
+    crypto.getRandomValues(buffer);
+  } while (buffer[0]! >= limit);
+  return buffer[0]! % max;
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1);
+    [result[i], result[j]] = [result[j]!, result[i]!];
+  }
+  return result;
+}
+
+const canonicalCells = (cells: number[]) =>
+  [...new Set(cells)].sort((a, b) => a - b).join(',');
+
+// 1..n-1 in reading order with the gap last
+const solvedBoard = (size: number) =>
+  Array.from({ length: size * size }, (_, index) =>
+    index === size * size - 1 ? 0 : index + 1
+  );
+
+const isSolved = (tiles: number[]) =>
+  tiles.every((tile, index) =>
+    index === tiles.length - 1 ? tile === 0 : tile === index + 1
+  );
+
+// Cells next to the given one, no diagonals
+export function neighbours(cell: number, size: number): number[] {
+  const row = Math.floor(cell / size);
+  const column = cell % size;
+  return [
+    row > 0 ? cell - size : -1,
+    row < size - 1 ? cell + size : -1,
+    column > 0 ? cell - 1 : -1,
+    column < size - 1 ? cell + 1 : -1,
+  ].filter((neighbour) => neighbour >= 0);
+}
+
+// Moves the tile at `cell` into the gap, null if it isn't next to the gap
+export function slide(
+  tiles: number[],
+  cell: number,
+  size: number
+): number[] | null {
+  const gap = tiles.indexOf(0);
+  if (!neighbours(gap, size).includes(cell)) return null;
+
+  const next = [...tiles];
+  next[gap] = next[cell]!;
+  next[cell] = 0;
+  return next;
+}
+
+export const botProtection = new BotProtection();
+
+// Helper function to track mouse movement
+export function trackMouseMovement(userAddress: string): void {
+  const behavior = botProtection['userBehaviors'].get(userAddress) || {
+    mouseMovements: 0,
+    keyPresses: 0,
+    clickPatterns: [],
+    sessionDuration: 0,
+    actionsPerMinute: 0,
+    pauseFrequency: 0,
+    errorRate: 0,
+  };
+
+  behavior.mouseMovements++;
+  botProtection.trackBehavior(userAddress, behavior);
+}
+
+// Helper function to track key press
+export function trackKeyPress(userAddress: string): void {
+  const behavior = botProtection['userBehaviors'].get(userAddress) || {
+    mouseMovements: 0,
+    keyPresses: 0,
+    clickPatterns: [],
+    sessionDuration: 0,
+    actionsPerMinute: 0,
+    pauseFrequency: 0,
+    errorRate: 0,
+  };
+
+  behavior.keyPresses++;
+  botProtection.trackBehavior(userAddress, behavior);
+}
@@ -9,6 +9,13 @@ export interface CheatPattern {
   confidence: number;
 }
 
+export interface PositionSample {
+  x: number;
+  y: number;
+  timestamp: number;
+  segment?: number; // Samples from different segments are never compared
+}
+
 export interface GameData {
   sessionId: string;
   playerAddress: string;
@@ -22,7 +29,8 @@ export interface GameData {
   actions: number;
   avgActionInterval: number;
   maxSpeed: number;
-  positions: Array<{ x: number; y: number; timestamp: number }>;
+  positions: PositionSample[];
+  expectedScore?: number; // Points from the kills and pickups that were seen
 }
 
 export interface CheatDetection {
@@ -167,7 +175,8 @@ export class CheatDetector {
       severity: 'critical',
       detectionMethod: (data) => {
         // Check if score/kills don't match actions
-        const expectedScore = data.kills * 100 + data.itemsCollected * 10;
+        const expectedScore =
+          data.expectedScore ?? data.kills * 100 + data.itemsCollected * 10;
         const scoreDiff = Math.abs(data.score - expectedScore);
         return scoreDiff > expectedScore * 0.5;
       },
@@ -229,9 +238,7 @@ export class CheatDetector {
   }
 
   // Detect teleportation
-  private detectTeleportation(
-    positions: Array<{ x: number; y: number; timestamp: number }>
-  ): boolean {
+  private detectTeleportation(positions: PositionSample[]): boolean {
     if (positions.length < 2) return false;
 
     const maxSpeed = 500;
@@ -239,6 +246,7 @@ export class CheatDetector {
     for (let i = 1; i < positions.length; i++) {
       const prev = positions[i - 1]!;
       const curr = positions[i]!;
+      if (prev.segment !== curr.segment) continue;
 
       const distance = Math.sqrt(
         Math.pow(curr.x - prev.x, 2) + Math.pow(curr.y - prev.y, 2)
@@ -315,7 +323,7 @@ export class CheatDetector {
     let totalAnalyses = 0;
     let cheatsDetected = 0;
     const byPattern: Record<string, number> = {};
-    const bySeverity: Record<string, number> = {
+    const bySeverity: Record<CheatDetection['severity'], number> = {
       clean: 0,
       suspicious: 0,
       likely_cheating: 0,
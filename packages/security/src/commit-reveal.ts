@@ -1,5 +1,7 @@
 // Commit-Reveal Scheme for Score Submission
 
+import { hashesEqual, randomHex, sha256 } from './hash';
+
 export interface Commitment {
   commitmentId: string;
   playerAddress: string;
@@ -70,12 +72,12 @@ export class CommitRevealScheme {
   }
 
   // Phase 2: Reveal score
-  reveal(
+  async reveal(
     commitmentId: string,
     score: number,
     nonce: string,
     sessionData: string
-  ): CommitRevealResult {
+  ): Promise<CommitRevealResult> {
     const commitment = this.commitments.get(commitmentId);
 
     if (!commitment) {
@@ -104,9 +106,9 @@ export class CommitRevealScheme {
     }
 
     // Verify commitment
-    const computedHash = this.hashCommitment(score, nonce, sessionData);
+    const computedHash = await this.hashCommitment(score, nonce, sessionData);
 
-    if (computedHash !== commitment.commitHash) {
+    if (!hashesEqual(computedHash, commitment.commitHash.toLowerCase())) {
       return {
         valid: false,
         score: 0,
@@ -137,7 +139,7 @@ export class CommitRevealScheme {
     score: number,
     nonce: string,
     sessionData: string
-  ): string {
+  ): Promise<string> {
     return this.hashCommitment(score, nonce, sessionData);
   }
 
@@ -146,25 +148,9 @@ export class CommitRevealScheme {
     score: number,
     nonce: string,
     sessionData: string
-  ): string {
+  ): Promise<string> {
     const data = `${score}:${nonce}:${sessionData}`;
-    return this.sha256(data);
-  }
-
-  // Simple SHA-256 implementation (in production, use crypto library)
-  private sha256(input: string): string {
-    // Simplified hash for demo
-    // In production, use: crypto.createHash('sha256').update(input).digest('hex')
-    let hash = 0;
-    for (let i = 0; i < input.length; i++) {
-      const char = input.charCodeAt(i);
-      hash = (hash << 5) - hash + char;
-      hash = hash & hash;
-    }
-
-    // Convert to hex and pad
-    const hex = Math.abs(hash).toString(16);
-    return hex.padStart(64, '0').substring(0, 64);
+    return sha256(data);
   }
 
   // Validate hash format
@@ -177,11 +163,10 @@ export class CommitRevealScheme {
     return `commit-${Date.now()}-${Math.random().toString(36).substring(2)}`;
   }
 
-  // Generate random nonce
+  // Generate random nonce, unguessable so the hash can't be brute-forced
+  // back to the score before the reveal
   generateNonce(): string {
-    return Math.random().toString(36).substring(2) +
-           Math.random().toString(36).substring(2) +
-           Date.now().toString(36);
+    return randomHex(32);
   }
 
   // Get commitment
@@ -249,15 +234,15 @@ export class CommitRevealScheme {
 export const commitRevealScheme = new CommitRevealScheme();
 
 // Helper function for client-side usage
-export function prepareScoreCommitment(
+export async function prepareScoreCommitment(
   score: number,
   sessionData: string
-): {
+): Promise<{
   commitHash: string;
   nonce: string;
-} {
+}> {
   const nonce = commitRevealScheme.generateNonce();
-  const commitHash = commitRevealScheme.generateCommitmentHash(
+  const commitHash = await commitRevealScheme.generateCommitmentHash(
     score,
     nonce,
     sessionData
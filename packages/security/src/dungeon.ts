@@ -0,0 +1,25 @@
+// Dungeon layout generation, shared so the validator can rebuild what the
+// client played
+
+import Dungeon from '@mikewesthad/dungeon';
+
+const mapWidth = (level: number) => 50 + level ** 2 + 10 * level; // 50 61 74 89 106 125
+const mapHeight = (level: number) => 50 + level ** 2 + 10 * level; // 50 61 74 89 106 125
+const doorPadding = 4;
+const roomConfig = () => {
+  return {
+    width: { min: 7, max: 15, onlyOdd: true },
+    height: { min: 7, max: 15, onlyOdd: true },
+  };
+};
+
+// The same (seed, level) pair always produces the same room layout
+export const generateDungeon = (level: number, seed: string): Dungeon => {
+  return new Dungeon({
+    width: mapWidth(level),
+    height: mapHeight(level),
+    doorPadding,
+    rooms: roomConfig(),
+    randomSeed: `${seed}:${String(level)}`,
+  });
+};
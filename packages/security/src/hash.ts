@@ -0,0 +1,46 @@
+// SHA-256 and HMAC on WebCrypto, which browsers and Node (globalThis.crypto)
+// both provide
+
+const encoder = new TextEncoder();
+
+const toHex = (bytes: ArrayBuffer | Uint8Array): string =>
+  Array.from(new Uint8Array(bytes), (byte) =>
+    byte.toString(16).padStart(2, '0')
+  ).join('');
+
+export async function sha256(input: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(input));
+  return toHex(digest);
+}
+
+export async function hmacSha256(key: string, input: string): Promise<string> {
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(key),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    cryptoKey,
+    encoder.encode(input)
+  );
+  return toHex(signature);
+}
+
+// Cryptographically random hex string, e.g. for nonces and session keys
+export function randomHex(bytes: number = 32): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(bytes)));
+}
+
+// Compares every character, so timing doesn't reveal how much of a forged
+// hash was right
+export function hashesEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
@@ -0,0 +1,80 @@
+// Seeded random number generation so a run can be rebuilt from its seed
+
+export type RandomFn = () => number;
+
+export type RandomStream =
+  | 'layout'
+  | 'coins'
+  | 'enemies'
+  | 'hazards'
+  | 'loot'
+  | 'boss'
+  | `relics:${number}`; // One per kill, see rollRelicDrop
+
+// FNV-1a hash to turn a string seed into a 32-bit state
+const hashSeed = (seed: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: string) {
+    this.state = hashSeed(seed);
+  }
+
+  // Mulberry32, returns a float in [0, 1) like Math.random
+  next: RandomFn = () => {
+    this.state = (this.state + 0x6d2b79f5) | 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  // Integer between min and max (inclusive), same semantics as Phaser.Math.Between
+  between(min: number, max: number): number {
+    return Math.floor(this.next() * (max - min + 1) + min);
+  }
+
+  pick<T>(items: T[]): T | undefined {
+    return items[Math.floor(this.next() * items.length)];
+  }
+
+  // Removes and returns a random element, like Phaser.Utils.Array.RemoveRandomElement
+  removeRandom<T>(items: T[]): T | undefined {
+    if (items.length === 0) return undefined;
+    const index = Math.floor(this.next() * items.length);
+    return items.splice(index, 1)[0];
+  }
+
+  // Fisher-Yates shuffle in place
+  shuffle<T>(items: T[]): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = Math.floor(this.next() * (i + 1));
+      const tmp = items[i]!;
+      items[i] = items[j]!;
+      items[j] = tmp;
+    }
+    return items;
+  }
+}
+
+export const createSeed = (): string => {
+  return Math.random().toString(36).substring(2) + Date.now().toString(36);
+};
+
+// Each level and concern gets its own stream, so e.g. changing how coins are
+// placed doesn't shift where enemies end up
+export const createLevelRandom = (
+  seed: string,
+  level: number,
+  stream: RandomStream
+): SeededRandom => {
+  return new SeededRandom(`${seed}:${String(level)}:${stream}`);
+};
@@ -0,0 +1,289 @@
+// Storage adapters for RateLimiter entries
+
+import type { RateLimitEntry } from './rate-limiter';
+
+export interface RateLimitStore {
+  get(key: string): Promise<RateLimitEntry | undefined>;
+  // Read-modify-write of a single key. Returning null deletes the entry
+  update(
+    key: string,
+    fn: (entry: RateLimitEntry | undefined) => RateLimitEntry | null
+  ): Promise<void>;
+  delete(key: string): Promise<void>;
+  entries(): Promise<[string, RateLimitEntry][]>;
+}
+
+// An entry can be dropped once its window and any block have run out
+export const entryExpiresAt = (entry: RateLimitEntry): number =>
+  Math.max(entry.resetTime, entry.blockUntil ?? 0);
+
+const cloneEntry = (entry: RateLimitEntry): RateLimitEntry => ({
+  ...entry,
+  log: entry.log ? [...entry.log] : undefined,
+});
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private items = new Map<string, RateLimitEntry>();
+
+  async get(key: string) {
+    const entry = this.items.get(key);
+    return entry ? cloneEntry(entry) : undefined;
+  }
+
+  // Synchronous inside, so updates can't interleave
+  async update(
+    key: string,
+    fn: (entry: RateLimitEntry | undefined) => RateLimitEntry | null
+  ) {
+    const current = this.items.get(key);
+    const next = fn(current ? cloneEntry(current) : undefined);
+    if (next) {
+      this.items.set(key, next);
+    } else {
+      this.items.delete(key);
+    }
+  }
+
+  async delete(key: string) {
+    this.items.delete(key);
+  }
+
+  async entries() {
+    return Array.from(this.items.entries()).map(
+      ([key, entry]): [string, RateLimitEntry] => [key, cloneEntry(entry)]
+    );
+  }
+}
+
+const DB_NAME = 'ShadowStakeSagaRateLimits';
+const DB_VERSION = 1;
+const STORE_NAME = 'limits';
+
+interface StoredLimit {
+  key: string;
+  entry: RateLimitEntry;
+}
+
+// Survives page reloads. Falls back to memory where IndexedDB isn't available
+export class IndexedDBRateLimitStore implements RateLimitStore {
+  private db: Promise<IDBDatabase | null> | null = null;
+  private fallback = new MemoryRateLimitStore();
+
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (typeof window === 'undefined' || !('indexedDB' in window)) {
+      return Promise.resolve(null);
+    }
+
+    this.db ??= new Promise((resolve) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onerror = () => resolve(null);
+      request.onsuccess = () => resolve(request.result);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        }
+      };
+    });
+    return this.db;
+  }
+
+  async get(key: string) {
+    const db = await this.openDatabase();
+    if (!db) return this.fallback.get(key);
+
+    return new Promise<RateLimitEntry | undefined>((resolve) => {
+      const request = db
+        .transaction([STORE_NAME], 'readonly')
+        .objectStore(STORE_NAME)
+        .get(key);
+
+      request.onsuccess = () => {
+        resolve((request.result as StoredLimit | undefined)?.entry);
+      };
+      request.onerror = () => resolve(undefined);
+    });
+  }
+
+  // The read and the write share one transaction, so two tabs can't both
+  // take the last request
+  async update(
+    key: string,
+    fn: (entry: RateLimitEntry | undefined) => RateLimitEntry | null
+  ) {
+    const db = await this.openDatabase();
+    if (!db) return this.fallback.update(key, fn);
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      const request = store.get(key);
+
+      request.onsuccess = () => {
+        const current = request.result as StoredLimit | undefined;
+        const next = fn(current?.entry);
+        if (next) {
+          store.put({ key, entry: next } satisfies StoredLimit);
+        } else {
+          store.delete(key);
+        }
+      };
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async delete(key: string) {
+    await this.update(key, () => null);
+  }
+
+  async entries() {
+    const db = await this.openDatabase();
+    if (!db) return this.fallback.entries();
+
+    return new Promise<[string, RateLimitEntry][]>((resolve) => {
+      const request = db
+        .transaction([STORE_NAME], 'readonly')
+        .objectStore(STORE_NAME)
+        .getAll();
+
+      request.onsuccess = () => {
+        resolve(
+          (request.result as StoredLimit[]).map(({ key, entry }) => [
+            key,
+            entry,
+          ])
+        );
+      };
+      request.onerror = () => resolve([]);
+    });
+  }
+}
+
+// The few commands the Redis adapter needs, in node-redis v4 form
+export interface RedisCommands {
+  get(key: string): Promise<string | null>;
+  eval(
+    script: string,
+    options: { keys: string[]; arguments: string[] }
+  ): Promise<unknown>;
+  scan(
+    cursor: number,
+    options: { MATCH: string; COUNT: number }
+  ): Promise<{ cursor: number; keys: string[] }>;
+}
+
+// Sets KEYS[1] to ARGV[2] for ARGV[3] ms, or deletes it when ARGV[2] is
+// empty, but only while it still holds ARGV[1] ('' when missing). Returns 0
+// when another process changed the key first
+export const COMPARE_AND_SET_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if (current or '') ~= ARGV[1] then
+  return 0
+end
+if ARGV[2] == '' then
+  redis.call('DEL', KEYS[1])
+else
+  redis.call('SET', KEYS[1], ARGV[2], 'PX', ARGV[3])
+end
+return 1
+`;
+
+// Conflicting writers each get this many tries before the update fails
+const MAX_UPDATE_ATTEMPTS = 10;
+
+// Shares limits between processes through Redis. Entries expire with their
+// window. An update only lands if nobody wrote the entry since it was read,
+// otherwise it is recomputed from the new value, so processes can't both
+// take the last request
+export class RedisRateLimitStore implements RateLimitStore {
+  private client: RedisCommands;
+  private prefix: string;
+  private queues = new Map<string, Promise<unknown>>();
+
+  constructor(client: RedisCommands, prefix = 'ratelimit:') {
+    this.client = client;
+    this.prefix = prefix;
+  }
+
+  // Updates from this process queue up instead of retrying on each other
+  private enqueue<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(key) ?? Promise.resolve();
+    const next = previous.then(task, task);
+    this.queues.set(key, next);
+    const done = () => {
+      if (this.queues.get(key) === next) this.queues.delete(key);
+    };
+    next.then(done, done);
+    return next;
+  }
+
+  async get(key: string) {
+    const raw = await this.client.get(this.prefix + key);
+    return raw ? (JSON.parse(raw) as RateLimitEntry) : undefined;
+  }
+
+  // fn runs again for every conflicting write, so it must not have effects
+  // beyond its return value that a rerun can't overwrite
+  update(
+    key: string,
+    fn: (entry: RateLimitEntry | undefined) => RateLimitEntry | null
+  ) {
+    return this.enqueue(key, async () => {
+      const name = this.prefix + key;
+
+      for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+        const raw = await this.client.get(name);
+        const next = fn(raw ? (JSON.parse(raw) as RateLimitEntry) : undefined);
+        const ttl = next ? Math.ceil(entryExpiresAt(next) - Date.now()) : 0;
+
+        const written = await this.client.eval(COMPARE_AND_SET_SCRIPT, {
+          keys: [name],
+          arguments: [
+            raw ?? '',
+            next && ttl > 0 ? JSON.stringify(next) : '',
+            String(ttl),
+          ],
+        });
+        if (Number(written) === 1) return;
+      }
+
+      throw new Error(`Rate limit entry ${key} kept changing, update dropped`);
+    });
+  }
+
+  async delete(key: string) {
+    await this.update(key, () => null);
+  }
+
+  // SCAN walks the keyspace in batches instead of blocking Redis like KEYS
+  async entries() {
+    const keys = new Set<string>();
+    let cursor = 0;
+    do {
+      const reply = await this.client.scan(cursor, {
+        MATCH: `${this.prefix}*`,
+        COUNT: 100,
+      });
+      cursor = reply.cursor;
+      // A key can come back more than once while the keyspace changes
+      reply.keys.forEach((key) => keys.add(key));
+    } while (cursor !== 0);
+
+    const entries = await Promise.all(
+      Array.from(
+        keys,
+        async (key): Promise<[string, RateLimitEntry | undefined]> => {
+          const name = key.slice(this.prefix.length);
+          return [name, await this.get(name)];
+        }
+      )
+    );
+    return entries.filter(
+      (pair): pair is [string, RateLimitEntry] => pair[1] !== undefined
+    );
+  }
+}
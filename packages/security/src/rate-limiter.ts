@@ -0,0 +1,480 @@
+// Rate Limiting System
+
+import {
+  entryExpiresAt,
+  IndexedDBRateLimitStore,
+  MemoryRateLimitStore,
+  type RateLimitStore,
+} from './rate-limit-stores';
+
+// fixed_window resets the count every windowMs, sliding_log counts requests
+// in the last windowMs, token_bucket allows bursts of maxRequests refilled
+// evenly over windowMs
+export type RateLimitAlgorithm = 'fixed_window' | 'sliding_log' | 'token_bucket';
+
+export interface RateLimitConfig {
+  maxRequests: number;
+  windowMs: number;
+  blockDurationMs?: number;
+  algorithm?: RateLimitAlgorithm; // fixed_window if unset
+}
+
+export interface RateLimitEntry {
+  count: number;
+  resetTime: number;
+  blocked: boolean;
+  blockUntil?: number;
+  log?: number[]; // sliding_log: request times inside the window
+  tokens?: number; // token_bucket: requests left in the bucket
+  refilledAt?: number; // token_bucket: when tokens was last topped up
+}
+
+export type RateLimitType =
+  | 'game_start'
+  | 'score_submit'
+  | 'transaction'
+  | 'api_call'
+  | 'login'
+  | 'marketplace';
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  remaining: number;
+  resetTime: number;
+  retryAfter?: number;
+}
+
+const algorithmOf = (config: RateLimitConfig): RateLimitAlgorithm =>
+  config.algorithm ?? 'fixed_window';
+
+// Tokens gained per ms
+const refillRate = (config: RateLimitConfig) =>
+  config.maxRequests / config.windowMs;
+
+const freshEntry = (config: RateLimitConfig, now: number): RateLimitEntry => ({
+  count: 0,
+  resetTime: now + config.windowMs,
+  blocked: false,
+  ...(algorithmOf(config) === 'token_bucket'
+    ? { tokens: config.maxRequests, refilledAt: now }
+    : {}),
+});
+
+// Bring an entry up to now, e.g. start a new window or refill the bucket
+const refresh = (
+  entry: RateLimitEntry,
+  config: RateLimitConfig,
+  now: number
+): RateLimitEntry => {
+  switch (algorithmOf(config)) {
+    case 'fixed_window':
+      return now >= entry.resetTime
+        ? { ...entry, count: 0, resetTime: now + config.windowMs }
+        : entry;
+    case 'sliding_log': {
+      const log = (entry.log ?? []).filter(
+        (time) => time > now - config.windowMs
+      );
+      const newest = log[log.length - 1] ?? now;
+      return {
+        ...entry,
+        log,
+        count: log.length,
+        resetTime: newest + config.windowMs,
+      };
+    }
+    case 'token_bucket': {
+      const rate = refillRate(config);
+      const elapsed = now - (entry.refilledAt ?? now);
+      const tokens = Math.min(
+        config.maxRequests,
+        (entry.tokens ?? config.maxRequests) + elapsed * rate
+      );
+      return {
+        ...entry,
+        tokens,
+        refilledAt: now,
+        count: config.maxRequests - Math.floor(tokens),
+        resetTime: now + (config.maxRequests - tokens) / rate,
+      };
+    }
+  }
+};
+
+const remainingOf = (entry: RateLimitEntry, config: RateLimitConfig) =>
+  algorithmOf(config) === 'token_bucket'
+    ? Math.floor(entry.tokens ?? 0)
+    : config.maxRequests - entry.count;
+
+// When a refreshed entry that is out of requests gets its next one
+const nextAllowedAt = (
+  entry: RateLimitEntry,
+  config: RateLimitConfig,
+  now: number
+): number => {
+  switch (algorithmOf(config)) {
+    case 'fixed_window':
+      return entry.resetTime;
+    case 'sliding_log': {
+      const log = entry.log ?? [];
+      const oldest = log[log.length - config.maxRequests] ?? now;
+      return oldest + config.windowMs;
+    }
+    case 'token_bucket':
+      return now + (1 - (entry.tokens ?? 0)) / refillRate(config);
+  }
+};
+
+const record = (
+  entry: RateLimitEntry,
+  config: RateLimitConfig,
+  now: number
+): RateLimitEntry => {
+  switch (algorithmOf(config)) {
+    case 'fixed_window':
+      return { ...entry, count: entry.count + 1 };
+    case 'sliding_log':
+      return {
+        ...entry,
+        log: [...(entry.log ?? []), now],
+        count: entry.count + 1,
+        resetTime: now + config.windowMs,
+      };
+    case 'token_bucket':
+      return refresh(
+        { ...entry, tokens: (entry.tokens ?? config.maxRequests) - 1 },
+        config,
+        now
+      );
+  }
+};
+
+export class RateLimiter {
+  private store: RateLimitStore;
+  private configs: Map<RateLimitType, RateLimitConfig>;
+
+  constructor(store: RateLimitStore = new MemoryRateLimitStore()) {
+    this.store = store;
+    this.configs = new Map();
+    this.initializeConfigs();
+  }
+
+  private initializeConfigs() {
+    // Game start: 10 games per hour
+    this.configs.set('game_start', {
+      maxRequests: 10,
+      windowMs: 60 * 60 * 1000, // 1 hour
+      blockDurationMs: 30 * 60 * 1000, // 30 minutes
+    });
+
+    // Score submit: 20 submissions in any hour
+    this.configs.set('score_submit', {
+      maxRequests: 20,
+      windowMs: 60 * 60 * 1000,
+      blockDurationMs: 60 * 60 * 1000, // 1 hour
+      algorithm: 'sliding_log',
+    });
+
+    // Transactions: 50 per hour
+    this.configs.set('transaction', {
+      maxRequests: 50,
+      windowMs: 60 * 60 * 1000,
+      blockDurationMs: 15 * 60 * 1000, // 15 minutes
+    });
+
+    // API calls: bursts of 100, refilled over a minute
+    this.configs.set('api_call', {
+      maxRequests: 100,
+      windowMs: 60 * 1000, // 1 minute
+      blockDurationMs: 5 * 60 * 1000, // 5 minutes
+      algorithm: 'token_bucket',
+    });
+
+    // Login attempts: 5 in any 15 minutes, a fixed window would allow 10
+    // across its boundary
+    this.configs.set('login', {
+      maxRequests: 5,
+      windowMs: 15 * 60 * 1000,
+      blockDurationMs: 60 * 60 * 1000, // 1 hour
+      algorithm: 'sliding_log',
+    });
+
+    // Marketplace: bursts of 30 actions, refilled over an hour
+    this.configs.set('marketplace', {
+      maxRequests: 30,
+      windowMs: 60 * 60 * 1000,
+      blockDurationMs: 30 * 60 * 1000,
+      algorithm: 'token_bucket',
+    });
+  }
+
+  private key(identifier: string, type: RateLimitType) {
+    return `${type}:${identifier}`;
+  }
+
+  // Runs the algorithm for one request. Running out of requests starts a
+  // block when the type has one
+  private decide(
+    current: RateLimitEntry | undefined,
+    config: RateLimitConfig,
+    now: number,
+    consume: boolean
+  ): { entry: RateLimitEntry; decision: RateLimitDecision } {
+    let entry = current ?? freshEntry(config, now);
+
+    // Check if blocked
+    if (entry.blocked && entry.blockUntil) {
+      if (now < entry.blockUntil) {
+        return {
+          entry,
+          decision: {
+            allowed: false,
+            remaining: 0,
+            resetTime: entry.blockUntil,
+            retryAfter: Math.ceil((entry.blockUntil - now) / 1000),
+          },
+        };
+      }
+      // Unblock
+      entry = { ...entry, blocked: false, blockUntil: undefined };
+    }
+
+    entry = refresh(entry, config, now);
+    const remaining = remainingOf(entry, config);
+
+    if (remaining <= 0) {
+      const retryAt = nextAllowedAt(entry, config, now);
+      // Block if configured
+      if (config.blockDurationMs) {
+        entry = {
+          ...entry,
+          blocked: true,
+          blockUntil: now + config.blockDurationMs,
+        };
+      }
+      return {
+        entry,
+        decision: {
+          allowed: false,
+          remaining: 0,
+          resetTime: retryAt,
+          retryAfter: Math.ceil((retryAt - now) / 1000),
+        },
+      };
+    }
+
+    if (consume) entry = record(entry, config, now);
+
+    return {
+      entry,
+      decision: {
+        allowed: true,
+        remaining: consume ? remaining - 1 : remaining,
+        resetTime: entry.resetTime,
+      },
+    };
+  }
+
+  private async run(
+    identifier: string,
+    type: RateLimitType,
+    consume: boolean
+  ): Promise<RateLimitDecision> {
+    const config = this.configs.get(type);
+    if (!config) {
+      return {
+        allowed: true,
+        remaining: 999,
+        resetTime: Date.now() + 60000,
+      };
+    }
+
+    let decision!: RateLimitDecision;
+    await this.store.update(this.key(identifier, type), (current) => {
+      const result = this.decide(current, config, Date.now(), consume);
+      decision = result.decision;
+      return result.entry;
+    });
+    return decision;
+  }
+
+  // Check if request is allowed, without counting it
+  checkLimit(
+    identifier: string,
+    type: RateLimitType
+  ): Promise<RateLimitDecision> {
+    return this.run(identifier, type, false);
+  }
+
+  // Check and count a request in one step, so concurrent callers can't all
+  // take the last one
+  consume(
+    identifier: string,
+    type: RateLimitType
+  ): Promise<RateLimitDecision> {
+    return this.run(identifier, type, true);
+  }
+
+  // Record request
+  async recordRequest(identifier: string, type: RateLimitType): Promise<void> {
+    const config = this.configs.get(type);
+    if (!config) return;
+
+    await this.store.update(this.key(identifier, type), (current) => {
+      if (current?.blocked) return current;
+      const now = Date.now();
+      return record(
+        refresh(current ?? freshEntry(config, now), config, now),
+        config,
+        now
+      );
+    });
+  }
+
+  // Reset limit for identifier
+  async resetLimit(identifier: string, type: RateLimitType): Promise<void> {
+    await this.store.delete(this.key(identifier, type));
+  }
+
+  // Get current usage
+  async getUsage(
+    identifier: string,
+    type: RateLimitType
+  ): Promise<{
+    count: number;
+    limit: number;
+    resetTime: number;
+    blocked: boolean;
+  }> {
+    const config = this.configs.get(type);
+
+    if (!config) {
+      return {
+        count: 0,
+        limit: 999,
+        resetTime: Date.now() + 60000,
+        blocked: false,
+      };
+    }
+
+    const now = Date.now();
+    const stored = await this.store.get(this.key(identifier, type));
+    const entry = refresh(stored ?? freshEntry(config, now), config, now);
+
+    return {
+      count: config.maxRequests - remainingOf(entry, config),
+      limit: config.maxRequests,
+      resetTime: entry.resetTime,
+      blocked: !!entry.blocked && (entry.blockUntil ?? Infinity) > now,
+    };
+  }
+
+  // Update config
+  updateConfig(type: RateLimitType, config: Partial<RateLimitConfig>): void {
+    const existing = this.configs.get(type);
+    if (existing) {
+      this.configs.set(type, { ...existing, ...config });
+    }
+  }
+
+  // Clean up expired entries
+  async cleanup(): Promise<number> {
+    const now = Date.now();
+    const expired = (await this.store.entries()).filter(
+      ([, entry]) => now >= entryExpiresAt(entry)
+    );
+
+    await Promise.all(expired.map(([key]) => this.store.delete(key)));
+    return expired.length;
+  }
+
+  // Get statistics
+  async getStats(): Promise<{
+    totalEntries: number;
+    blockedEntries: number;
+    activeEntries: number;
+    byType: Record<string, number>;
+  }> {
+    const entries = await this.store.entries();
+    const blocked = entries.filter(([_, entry]) => entry.blocked).length;
+    const now = Date.now();
+    const active = entries.filter(([_, entry]) => now < entry.resetTime).length;
+
+    const byType: Record<string, number> = {};
+    entries.forEach(([key]) => {
+      const type = key.split(':')[0]!;
+      byType[type] = (byType[type] || 0) + 1;
+    });
+
+    return {
+      totalEntries: entries.length,
+      blockedEntries: blocked,
+      activeEntries: active,
+      byType,
+    };
+  }
+
+  // Check if identifier is blocked
+  async isBlocked(identifier: string, type: RateLimitType): Promise<boolean> {
+    const entry = await this.store.get(this.key(identifier, type));
+
+    if (!entry?.blocked) return false;
+
+    return !entry.blockUntil || Date.now() < entry.blockUntil;
+  }
+
+  // Manually block identifier
+  async blockIdentifier(
+    identifier: string,
+    type: RateLimitType,
+    durationMs: number
+  ): Promise<void> {
+    const config = this.configs.get(type);
+
+    if (!config) return;
+
+    const now = Date.now();
+    await this.store.update(this.key(identifier, type), (current) => ({
+      ...(current ?? freshEntry(config, now)),
+      blocked: true,
+      blockUntil: now + durationMs,
+    }));
+  }
+
+  // Unblock identifier
+  async unblockIdentifier(
+    identifier: string,
+    type: RateLimitType
+  ): Promise<void> {
+    await this.store.update(this.key(identifier, type), (current) =>
+      current ? { ...current, blocked: false, blockUntil: undefined } : null
+    );
+  }
+}
+
+// Kept in IndexedDB, so reloading the page doesn't reset the limits
+export const rateLimiter = new RateLimiter(new IndexedDBRateLimitStore());
+
+// Middleware-style helper
+export async function checkRateLimit(
+  identifier: string,
+  type: RateLimitType
+): Promise<{
+  proceed: boolean;
+  error?: string;
+  retryAfter?: number;
+}> {
+  const result = await rateLimiter.consume(identifier, type);
+
+  if (!result.allowed) {
+    return {
+      proceed: false,
+      error: `Rate limit exceeded. Try again in ${result.retryAfter} seconds.`,
+      retryAfter: result.retryAfter,
+    };
+  }
+
+  return {
+    proceed: true,
+  };
+}
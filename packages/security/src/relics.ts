@@ -0,0 +1,256 @@
+// Relic drop table and rolls, shared so the validator can re-roll a drop
+// before signing it for mint_relic
+import { createLevelRandom } from './random';
+
+export interface Relic {
+  id: string;
+  objectId?: string; // The Relic NFT once minted
+  name: string;
+  type: RelicType;
+  rarity: 'rare' | 'epic' | 'legendary' | 'mythic';
+  stats: RelicStats;
+  origin: {
+    level: number;
+    enemyType?: string;
+    bossType?: string;
+    timestamp: number;
+    // The kill that dropped it, which the validator re-rolls before signing
+    // the mint. Unset for fused relics and runs without a validator session
+    drop?: RelicDropRef;
+  };
+  isMinted: boolean;
+  owner?: string;
+  power?: number; // Set by fuse_relics, which derives it on chain
+  lineage?: string[]; // Parent relic NFTs fused into this one
+  metadata: RelicMetadata;
+}
+
+export interface RelicDropRef {
+  sessionId: string; // Validator session of the run
+  seed: string;
+  roll: number; // The kill's place on its level, see rollRelicDrop
+}
+
+export type RelicType =
+  | 'weapon'
+  | 'armor'
+  | 'accessory'
+  | 'consumable'
+  | 'material';
+
+export interface RelicStats {
+  damage?: number;
+  defense?: number;
+  health?: number;
+  speed?: number;
+  critChance?: number;
+  specialEffect?: string;
+}
+
+export interface RelicMetadata {
+  image: string;
+  description: string;
+  attributes: Array<{
+    trait_type: string;
+    value: string | number;
+  }>;
+  external_url?: string;
+}
+
+export interface RelicDrop {
+  relic: Relic;
+  dropChance: number;
+  minLevel: number;
+}
+
+// Legendary relics that can be minted as NFTs
+export const legendaryRelics: RelicDrop[] = [
+  {
+    relic: {
+      id: 'relic-veil-shard',
+      name: 'Shard of the Veil',
+      type: 'material',
+      rarity: 'mythic',
+      stats: {
+        specialEffect: 'Grants immunity to corruption for 10 seconds',
+      },
+      origin: {
+        level: 0,
+        timestamp: 0,
+      },
+      isMinted: false,
+      metadata: {
+        image: '/relics/veil-shard.png',
+        description:
+          'A fragment of the shattered Veil, pulsing with reality-bending energy. Extremely rare.',
+        attributes: [
+          { trait_type: 'Rarity', value: 'Mythic' },
+          { trait_type: 'Type', value: 'Material' },
+          { trait_type: 'Effect', value: 'Corruption Immunity' },
+        ],
+      },
+    },
+    dropChance: 0.001, // 0.1%
+    minLevel: 20,
+  },
+  {
+    relic: {
+      id: 'relic-crown-forgotten',
+      name: 'Crown of the Forgotten King',
+      type: 'armor',
+      rarity: 'legendary',
+      stats: {
+        defense: 50,
+        health: 100,
+        specialEffect: 'Summon skeleton minions once per battle',
+      },
+      origin: {
+        level: 0,
+        bossType: 'skeleton-king',
+        timestamp: 0,
+      },
+      isMinted: false,
+      metadata: {
+        image: '/relics/forgotten-crown.png',
+        description:
+          'The rusted crown of a fallen monarch. Whispers of ancient power echo from within.',
+        attributes: [
+          { trait_type: 'Rarity', value: 'Legendary' },
+          { trait_type: 'Type', value: 'Armor' },
+          { trait_type: 'Defense', value: 50 },
+          { trait_type: 'Health Bonus', value: 100 },
+          { trait_type: 'Boss Drop', value: 'Skeleton King' },
+        ],
+      },
+    },
+    dropChance: 0.05, // 5% from Skeleton King
+    minLevel: 5,
+  },
+  {
+    relic: {
+      id: 'relic-shadow-essence',
+      name: 'Essence of Shadows',
+      type: 'consumable',
+      rarity: 'epic',
+      stats: {
+        specialEffect: 'Become invisible for 5 seconds',
+      },
+      origin: {
+        level: 0,
+        bossType: 'shadow-lord',
+        timestamp: 0,
+      },
+      isMinted: false,
+      metadata: {
+        image: '/relics/shadow-essence.png',
+        description:
+          'Concentrated darkness from the Shadow Lord. Grants temporary invisibility.',
+        attributes: [
+          { trait_type: 'Rarity', value: 'Epic' },
+          { trait_type: 'Type', value: 'Consumable' },
+          { trait_type: 'Effect', value: 'Invisibility' },
+          { trait_type: 'Boss Drop', value: 'Shadow Lord' },
+        ],
+      },
+    },
+    dropChance: 0.1, // 10% from Shadow Lord
+    minLevel: 10,
+  },
+  {
+    relic: {
+      id: 'relic-titan-heart',
+      name: 'Heart of the Titan',
+      type: 'accessory',
+      rarity: 'legendary',
+      stats: {
+        health: 200,
+        defense: 30,
+        specialEffect: 'Regenerate 5 HP per second',
+      },
+      origin: {
+        level: 0,
+        bossType: 'elemental-titan',
+        timestamp: 0,
+      },
+      isMinted: false,
+      metadata: {
+        image: '/relics/titan-heart.png',
+        description:
+          'The still-beating heart of an Elemental Titan. Pulses with primordial life force.',
+        attributes: [
+          { trait_type: 'Rarity', value: 'Legendary' },
+          { trait_type: 'Type', value: 'Accessory' },
+          { trait_type: 'Health Bonus', value: 200 },
+          { trait_type: 'Defense', value: 30 },
+          { trait_type: 'Boss Drop', value: 'Elemental Titan' },
+        ],
+      },
+    },
+    dropChance: 0.08, // 8% from Elemental Titan
+    minLevel: 15,
+  },
+  {
+    relic: {
+      id: 'relic-necro-staff',
+      name: "Necro-Overlord's Staff",
+      type: 'weapon',
+      rarity: 'mythic',
+      stats: {
+        damage: 100,
+        critChance: 25,
+        specialEffect: 'Raise defeated enemies as temporary allies',
+      },
+      origin: {
+        level: 0,
+        bossType: 'necro-overlord',
+        timestamp: 0,
+      },
+      isMinted: false,
+      metadata: {
+        image: '/relics/necro-staff.png',
+        description:
+          'The weapon that shattered the Veil. Radiates forbidden necromantic power.',
+        attributes: [
+          { trait_type: 'Rarity', value: 'Mythic' },
+          { trait_type: 'Type', value: 'Weapon' },
+          { trait_type: 'Damage', value: 100 },
+          { trait_type: 'Crit Chance', value: '25%' },
+          { trait_type: 'Boss Drop', value: 'Necro-Overlord' },
+        ],
+      },
+    },
+    dropChance: 0.03, // 3% from Necro-Overlord
+    minLevel: 20,
+  },
+];
+
+// Power a dropped relic mints with, its stats summed. Fused relics keep the
+// power fuse_relics gave them
+export const relicPower = (relic: Relic): number => {
+  if (relic.power !== undefined) return relic.power;
+  const {
+    damage = 0,
+    defense = 0,
+    health = 0,
+    speed = 0,
+    critChance = 0,
+  } = relic.stats;
+  return Math.round(damage + defense + health + speed + critChance);
+};
+
+// The drop of the roll-th kill on a level, if any. Every kill rolls on its
+// own stream, so one drop can be checked without replaying the whole level
+export const rollRelicDrop = (
+  seed: string,
+  level: number,
+  roll: number,
+  bossType?: string
+): RelicDrop | null => {
+  const random = createLevelRandom(seed, level, `relics:${roll}`).next;
+  const eligibleRelics = legendaryRelics.filter(
+    (drop) =>
+      level >= drop.minLevel &&
+      (!drop.relic.origin.bossType || drop.relic.origin.bossType === bossType)
+  );
+  return eligibleRelics.find((drop) => random() < drop.dropChance) ?? null;
+};
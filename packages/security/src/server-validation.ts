@@ -1,5 +1,11 @@
 // Server-Side Validation System
 
+import type Dungeon from '@mikewesthad/dungeon';
+
+import { generateDungeon } from './dungeon';
+import { hashesEqual, hmacSha256, randomHex } from './hash';
+import { type RelicDrop, rollRelicDrop } from './relics';
+
 export interface GameSession {
   sessionId: string;
   playerAddress: string;
@@ -16,7 +22,7 @@ export interface GameAction {
   timestamp: number;
   type: 'move' | 'attack' | 'damage_taken' | 'enemy_killed' | 'item_collected' | 'level_complete';
   data: any;
-  hash: string; // Hash of action for verification
+  hash: string; // HMAC of the previous action's hash and this action
 }
 
 export interface GameCheckpoint {
@@ -27,7 +33,7 @@ export interface GameCheckpoint {
   position: { x: number; y: number };
   enemiesKilled: number;
   itemsCollected: number;
-  hash: string; // Hash of checkpoint state
+  hash: string; // HMAC of the previous checkpoint's hash and this state
 }
 
 export interface ValidationResult {
@@ -41,6 +47,11 @@ export interface ValidationResult {
 export class ServerValidator {
   private sessions: Map<string, GameSession>;
   private suspiciousPlayers: Map<string, number>; // playerAddress -> suspicion score
+  // Per-session HMAC keys. They never leave the validator, so a client can't
+  // rebuild the chain after editing its history
+  private sessionKeys: Map<string, string>;
+  // Appends wait for the previous one, each hash needs the one before it
+  private sessionQueues: Map<string, Promise<unknown>>;
 
   // Validation thresholds
   private readonly MAX_SCORE_PER_SECOND = 100;
@@ -52,6 +63,8 @@ export class ServerValidator {
   constructor() {
     this.sessions = new Map();
     this.suspiciousPlayers = new Map();
+    this.sessionKeys = new Map();
+    this.sessionQueues = new Map();
   }
 
   // Start new game session
@@ -77,72 +90,113 @@ export class ServerValidator {
     };
 
     this.sessions.set(sessionId, session);
+    this.sessionKeys.set(sessionId, randomHex());
 
     return { sessionId, seed };
   }
 
+  private enqueue<T>(sessionId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.sessionQueues.get(sessionId) ?? Promise.resolve();
+    const next = previous.then(task, task);
+    this.sessionQueues.set(sessionId, next);
+    return next;
+  }
+
   // Record game action
   recordAction(
     sessionId: string,
     action: Omit<GameAction, 'hash'>
-  ): {
+  ): Promise<{
     success: boolean;
     message?: string;
-  } {
-    const session = this.sessions.get(sessionId);
-    if (!session) {
-      return { success: false, message: 'Session not found' };
-    }
+  }> {
+    return this.enqueue(sessionId, async () => {
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        return { success: false, message: 'Session not found' };
+      }
 
-    if (session.status !== 'active') {
-      return { success: false, message: 'Session not active' };
-    }
+      if (session.status !== 'active') {
+        return { success: false, message: 'Session not active' };
+      }
 
-    // Validate timestamp
-    if (action.timestamp < session.startTime) {
-      return { success: false, message: 'Invalid timestamp' };
-    }
+      // Validate timestamp
+      if (action.timestamp < session.startTime) {
+        return { success: false, message: 'Invalid timestamp' };
+      }
 
-    // Generate hash
-    const hash = this.hashAction(action);
+      // Chain onto the previous action's hash
+      const previous = session.actions[session.actions.length - 1];
+      const hash = await this.hashAction(
+        sessionId,
+        previous?.hash ?? sessionId,
+        action
+      );
 
-    session.actions.push({
-      ...action,
-      hash,
-    });
+      session.actions.push({
+        ...action,
+        hash,
+      });
 
-    return { success: true };
+      return { success: true };
+    });
   }
 
   // Record checkpoint
   recordCheckpoint(
     sessionId: string,
     checkpoint: Omit<GameCheckpoint, 'hash'>
-  ): {
+  ): Promise<{
     success: boolean;
     message?: string;
-  } {
-    const session = this.sessions.get(sessionId);
-    if (!session) {
-      return { success: false, message: 'Session not found' };
-    }
+  }> {
+    return this.enqueue(sessionId, async () => {
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        return { success: false, message: 'Session not found' };
+      }
 
-    // Generate hash
-    const hash = this.hashCheckpoint(checkpoint);
+      if (session.status !== 'active') {
+        return { success: false, message: 'Session not active' };
+      }
 
-    session.checkpoints.push({
-      ...checkpoint,
-      hash,
-    });
+      // Chain onto the previous checkpoint's hash
+      const previous = session.checkpoints[session.checkpoints.length - 1];
+      const hash = await this.hashCheckpoint(
+        sessionId,
+        previous?.hash ?? sessionId,
+        checkpoint
+      );
 
-    return { success: true };
+      session.checkpoints.push({
+        ...checkpoint,
+        hash,
+      });
+
+      return { success: true };
+    });
   }
 
-  // Validate and complete session
+  // Validate and complete session. Runs after any pending appends, then drops
+  // the session's key and queue since nothing can be appended anymore
   validateSession(
     sessionId: string,
     finalScore: number
-  ): ValidationResult {
+  ): Promise<ValidationResult> {
+    return this.enqueue(sessionId, async () => {
+      try {
+        return await this.checkSession(sessionId, finalScore);
+      } finally {
+        this.sessionKeys.delete(sessionId);
+        this.sessionQueues.delete(sessionId);
+      }
+    });
+  }
+
+  private async checkSession(
+    sessionId: string,
+    finalScore: number
+  ): Promise<ValidationResult> {
     const session = this.sessions.get(sessionId);
     if (!session) {
       return {
@@ -154,6 +208,16 @@ export class ServerValidator {
       };
     }
 
+    if (session.status !== 'active') {
+      return {
+        valid: false,
+        score: 0,
+        reason: 'Session not active',
+        flags: ['session_not_active'],
+        confidence: 0,
+      };
+    }
+
     session.endTime = Date.now();
     const duration = session.endTime - session.startTime;
 
@@ -164,8 +228,8 @@ export class ServerValidator {
     const checks = [
       this.validateDuration(session, duration),
       this.validateScore(session, finalScore, duration),
-      this.validateActions(session),
-      this.validateCheckpoints(session),
+      await this.validateActions(session),
+      await this.validateCheckpoints(session),
       this.validateProgression(session),
       this.validateSpeed(session),
     ];
@@ -259,9 +323,9 @@ export class ServerValidator {
   }
 
   // Validate actions
-  private validateActions(
+  private async validateActions(
     session: GameSession
-  ): { valid: boolean; flag: string; confidence: number } {
+  ): Promise<{ valid: boolean; flag: string; confidence: number }> {
     if (session.actions.length === 0) {
       return {
         valid: false,
@@ -285,13 +349,16 @@ export class ServerValidator {
       };
     }
 
-    // Verify action hashes
-    const invalidHashes = session.actions.filter((action) => {
-      const expectedHash = this.hashAction(action);
-      return expectedHash !== action.hash;
-    });
+    // Verify the action chain, editing, dropping or reordering any action
+    // breaks every hash after it
+    const chainValid = await this.verifyChain(
+      session.sessionId,
+      session.actions,
+      (previousHash, action) =>
+        this.hashAction(session.sessionId, previousHash, action)
+    );
 
-    if (invalidHashes.length > 0) {
+    if (!chainValid) {
       return {
         valid: false,
         flag: 'invalid_action_hash',
@@ -303,9 +370,9 @@ export class ServerValidator {
   }
 
   // Validate checkpoints
-  private validateCheckpoints(
+  private async validateCheckpoints(
     session: GameSession
-  ): { valid: boolean; flag: string; confidence: number } {
+  ): Promise<{ valid: boolean; flag: string; confidence: number }> {
     if (session.checkpoints.length === 0) {
       return {
         valid: false,
@@ -336,16 +403,22 @@ export class ServerValidator {
           confidence: 0.2,
         };
       }
+    }
 
-      // Verify checkpoint hash
-      const expectedHash = this.hashCheckpoint(curr);
-      if (expectedHash !== curr.hash) {
-        return {
-          valid: false,
-          flag: 'invalid_checkpoint_hash',
-          confidence: 0.1,
-        };
-      }
+    // Verify the checkpoint chain
+    const chainValid = await this.verifyChain(
+      session.sessionId,
+      session.checkpoints,
+      (previousHash, checkpoint) =>
+        this.hashCheckpoint(session.sessionId, previousHash, checkpoint)
+    );
+
+    if (!chainValid) {
+      return {
+        valid: false,
+        flag: 'invalid_checkpoint_hash',
+        confidence: 0.1,
+      };
     }
 
     return { valid: true, flag: '', confidence: 1.0 };
@@ -380,6 +453,11 @@ export class ServerValidator {
       const prev = moveActions[i - 1]!;
       const curr = moveActions[i]!;
 
+      // The game moved the player itself (respawn, dash, a new level), the
+      // client starts a new segment there
+      if (prev.data?.segment !== curr.data?.segment) continue;
+      if (!prev.data?.position || !curr.data?.position) continue;
+
       const timeDiff = (curr.timestamp - prev.timestamp) / 1000; // seconds
       if (timeDiff === 0) continue;
 
@@ -401,20 +479,21 @@ export class ServerValidator {
     return { valid: true, flag: '', confidence: 1.0 };
   }
 
-  // Calculate expected score from actions
+  // Calculate expected score from actions. Explicit zero points count as
+  // zero, only missing ones fall back to the defaults
   private calculateExpectedScore(session: GameSession): number {
     let score = 0;
 
     session.actions.forEach((action) => {
       switch (action.type) {
         case 'enemy_killed':
-          score += action.data.points || 100;
+          score += action.data?.points ?? 100;
           break;
         case 'item_collected':
-          score += action.data.points || 10;
+          score += action.data?.points ?? 10;
           break;
         case 'level_complete':
-          score += action.data.bonus || 500;
+          score += action.data?.bonus ?? 500;
           break;
       }
     });
@@ -467,17 +546,40 @@ export class ServerValidator {
     return { score, level };
   }
 
-  // Hash functions
-  private hashAction(action: Omit<GameAction, 'hash'>): string {
+  // Recompute a hash chain from the session id onwards
+  private async verifyChain<T extends { hash: string }>(
+    sessionId: string,
+    items: T[],
+    hashItem: (previousHash: string, item: T) => Promise<string>
+  ): Promise<boolean> {
+    let previousHash = sessionId;
+    for (const item of items) {
+      const expectedHash = await hashItem(previousHash, item);
+      if (!hashesEqual(expectedHash, item.hash)) return false;
+      previousHash = item.hash;
+    }
+    return true;
+  }
+
+  // Hash functions, HMAC keyed per session over the previous hash
+  private hashAction(
+    sessionId: string,
+    previousHash: string,
+    action: Omit<GameAction, 'hash'>
+  ): Promise<string> {
     const data = JSON.stringify({
       timestamp: action.timestamp,
       type: action.type,
       data: action.data,
     });
-    return this.simpleHash(data);
+    return this.hmac(sessionId, `${previousHash}:${data}`);
   }
 
-  private hashCheckpoint(checkpoint: Omit<GameCheckpoint, 'hash'>): string {
+  private hashCheckpoint(
+    sessionId: string,
+    previousHash: string,
+    checkpoint: Omit<GameCheckpoint, 'hash'>
+  ): Promise<string> {
     const data = JSON.stringify({
       timestamp: checkpoint.timestamp,
       level: checkpoint.level,
@@ -487,17 +589,13 @@ export class ServerValidator {
       enemiesKilled: checkpoint.enemiesKilled,
       itemsCollected: checkpoint.itemsCollected,
     });
-    return this.simpleHash(data);
+    return this.hmac(sessionId, `${previousHash}:${data}`);
   }
 
-  private simpleHash(input: string): string {
-    let hash = 0;
-    for (let i = 0; i < input.length; i++) {
-      const char = input.charCodeAt(i);
-      hash = (hash << 5) - hash + char;
-      hash = hash & hash;
-    }
-    return Math.abs(hash).toString(16).padStart(16, '0');
+  private hmac(sessionId: string, input: string): Promise<string> {
+    const key = this.sessionKeys.get(sessionId);
+    if (!key) throw new Error('Session key not found');
+    return hmacSha256(key, input);
   }
 
   private calculateDistance(
@@ -511,8 +609,9 @@ export class ServerValidator {
     return `session-${Date.now()}-${Math.random().toString(36).substring(2)}`;
   }
 
+  // Any string seeds generateDungeon, the client adopts it as the run seed
   private generateSeed(): string {
-    return Math.random().toString(36).substring(2) + Date.now().toString(36);
+    return randomHex(16);
   }
 
   // Get session
@@ -520,6 +619,39 @@ export class ServerValidator {
     return this.sessions.get(sessionId);
   }
 
+  // Rebuild the dungeon the player saw on a given level from the session seed
+  rebuildDungeon(sessionId: string, level: number): Dungeon | undefined {
+    const session = this.sessions.get(sessionId);
+    if (!session) return undefined;
+    return generateDungeon(level, session.seed);
+  }
+
+  // Re-roll the relic drop of a recorded kill, null when that kill isn't
+  // recorded or dropped nothing. Levels are counted from the session's start
+  // level, each level_complete moving on to the next one
+  rerollRelicDrop(
+    sessionId: string,
+    level: number,
+    roll: number
+  ): RelicDrop | null | undefined {
+    const session = this.sessions.get(sessionId);
+    if (!session) return undefined;
+
+    let current = session.level;
+    for (const action of session.actions) {
+      if (action.type === 'level_complete') {
+        current = (action.data?.level ?? current) + 1;
+      } else if (
+        action.type === 'enemy_killed' &&
+        current === level &&
+        action.data?.roll === roll
+      ) {
+        return rollRelicDrop(session.seed, level, roll, action.data.boss);
+      }
+    }
+    return null;
+  }
+
   // Get validation statistics
   getValidationStats(): {
     totalSessions: number;
@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { BotProtection } from '../src/bot-protection';
+
+describe('BotProtection reaction challenges', () => {
+  let bots: BotProtection;
+  let challengeId: string;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(0);
+    bots = new BotProtection();
+    ({ id: challengeId } = await bots.createChallenge('0xplayer', 'timing'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Presses every round this long after its rune lit up
+  const play = (reactionMs: number) => {
+    for (;;) {
+      const delay = bots.armReactionRound(challengeId);
+      if (delay === null) return;
+      vi.advanceTimersByTime(delay + reactionMs);
+      bots.pressReaction(challengeId);
+    }
+  };
+
+  const verify = async () =>
+    (await bots.verifyChallenge(challengeId, [], 0)).passed;
+
+  it('hands out no timings', async () => {
+    const view = await bots.createChallenge('0xplayer', 'timing');
+    expect(view.data).toEqual({ kind: 'reaction', rounds: 3 });
+  });
+
+  it('passes presses a human reaction time after the rune lit up', async () => {
+    play(300);
+    expect(await verify()).toBe(true);
+    expect(bots.needsChallenge('0xplayer')).toBe(false);
+  });
+
+  it('fails presses faster than people react', async () => {
+    play(20);
+    expect(await verify()).toBe(false);
+  });
+
+  it('fails presses before the rune lit up', async () => {
+    const delay = bots.armReactionRound(challengeId)!;
+    vi.advanceTimersByTime(delay - 200);
+    expect(bots.pressReaction(challengeId)).toBe(true);
+    expect(await verify()).toBe(false);
+  });
+
+  it('ignores the press times the client reports', async () => {
+    expect(
+      (await bots.verifyChallenge(challengeId, [1500, 3300, 5200], 0)).passed
+    ).toBe(false);
+  });
+
+  it('plays one round at a time', () => {
+    expect(bots.pressReaction(challengeId)).toBe(false);
+    expect(bots.armReactionRound(challengeId)).not.toBeNull();
+    expect(bots.armReactionRound(challengeId)).toBeNull();
+  });
+
+  it('starts new rounds after a failed attempt', async () => {
+    play(20);
+    expect(await verify()).toBe(false);
+
+    play(300);
+    expect(await verify()).toBe(true);
+  });
+});
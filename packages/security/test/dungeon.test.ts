@@ -0,0 +1,40 @@
+import type Dungeon from '@mikewesthad/dungeon';
+import { describe, expect, it } from 'vitest';
+
+import { generateDungeon } from '../src/dungeon';
+import { ServerValidator } from '../src/server-validation';
+
+// Room bounds and tiles, everything the scene builds its tilemap from
+const layout = (dungeon: Dungeon) => ({
+  rooms: dungeon.rooms.map(({ x, y, width, height }) => ({
+    x,
+    y,
+    width,
+    height,
+  })),
+  tiles: dungeon.getMappedTiles(),
+});
+
+describe('ServerValidator.rebuildDungeon', () => {
+  it('rebuilds the layout the client generated from the session seed', () => {
+    const validator = new ServerValidator();
+    const { sessionId, seed } = validator.startSession('0xplayer', 1);
+
+    for (const level of [1, 2, 5]) {
+      // DungeonGameScene generates each level like this from the run seed
+      const client = generateDungeon(level, seed);
+      const server = validator.rebuildDungeon(sessionId, level)!;
+      expect(layout(server)).toEqual(layout(client));
+    }
+  });
+
+  it('lays out other seeds differently', () => {
+    expect(layout(generateDungeon(1, 'a'))).not.toEqual(
+      layout(generateDungeon(1, 'b'))
+    );
+  });
+
+  it('knows nothing about unknown sessions', () => {
+    expect(new ServerValidator().rebuildDungeon('missing', 1)).toBeUndefined();
+  });
+});
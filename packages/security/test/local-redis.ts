@@ -0,0 +1,63 @@
+// In-process stand-in for a Redis server, for testing RedisRateLimitStore.
+// Only supports what RedisCommands needs: eval only runs
+// COMPARE_AND_SET_SCRIPT and scan only understands a trailing '*'
+import {
+  COMPARE_AND_SET_SCRIPT,
+  type RedisCommands,
+} from '../src/rate-limit-stores';
+
+export class LocalRedis implements RedisCommands {
+  private data = new Map<string, { value: string; expiresAt?: number }>();
+
+  private read(key: string) {
+    const item = this.data.get(key);
+    if (item?.expiresAt !== undefined && Date.now() >= item.expiresAt) {
+      this.data.delete(key);
+      return undefined;
+    }
+    return item;
+  }
+
+  async get(key: string) {
+    return this.read(key)?.value ?? null;
+  }
+
+  // Runs in one go like a script on the server, nothing can interleave
+  async eval(script: string, options: { keys: string[]; arguments: string[] }) {
+    if (script !== COMPARE_AND_SET_SCRIPT) {
+      throw new Error('LocalRedis only runs COMPARE_AND_SET_SCRIPT');
+    }
+    const [key] = options.keys as [string];
+    const [expected, value, ttl] = options.arguments as [
+      string,
+      string,
+      string,
+    ];
+
+    if ((this.read(key)?.value ?? '') !== expected) return 0;
+    if (value === '') {
+      this.data.delete(key);
+    } else {
+      this.data.set(key, { value, expiresAt: Date.now() + Number(ttl) });
+    }
+    return 1;
+  }
+
+  // Hands out COUNT keys per call, the cursor is the offset of the next one
+  async scan(cursor: number, options: { MATCH: string; COUNT: number }) {
+    const { MATCH: pattern, COUNT: count } = options;
+    const prefix = pattern.endsWith('*') ? pattern.slice(0, -1) : pattern;
+    const exact = !pattern.endsWith('*');
+    const keys = Array.from(this.data.keys());
+    const batch = keys.slice(cursor, cursor + count);
+    const next = cursor + count >= keys.length ? 0 : cursor + count;
+
+    return {
+      cursor: next,
+      keys: batch.filter(
+        (key) =>
+          (exact ? key === prefix : key.startsWith(prefix)) && this.read(key)
+      ),
+    };
+  }
+}
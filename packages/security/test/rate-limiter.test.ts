@@ -0,0 +1,186 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  IndexedDBRateLimitStore,
+  MemoryRateLimitStore,
+  type RateLimitStore,
+  RedisRateLimitStore,
+} from '../src/rate-limit-stores';
+import { RateLimiter } from '../src/rate-limiter';
+import { LocalRedis } from './local-redis';
+
+const MINUTE = 60 * 1000;
+
+// Three requests a minute and no block, so only the algorithm decides
+const limiterWith = (
+  store: RateLimitStore,
+  algorithm: 'fixed_window' | 'sliding_log' | 'token_bucket'
+) => {
+  const limiter = new RateLimiter(store);
+  limiter.updateConfig('api_call', {
+    maxRequests: 3,
+    windowMs: MINUTE,
+    blockDurationMs: undefined,
+    algorithm,
+  });
+  return limiter;
+};
+
+const storeSuite = (name: string, open: () => RateLimitStore) =>
+  describe(`RateLimiter on ${name}`, () => {
+    let store: RateLimitStore;
+
+    beforeEach(() => {
+      // Only Date is faked, fake-indexeddb still needs real timers
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(0);
+      // A fresh database for every test, IndexedDBRateLimitStore checks
+      // window.indexedDB like in a browser
+      vi.stubGlobal('indexedDB', new IDBFactory());
+      vi.stubGlobal('window', globalThis);
+      store = open();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.unstubAllGlobals();
+    });
+
+    const consume = async (limiter: RateLimiter, count: number) => {
+      const decisions = [];
+      for (let i = 0; i < count; i++) {
+        decisions.push(await limiter.consume('0xplayer', 'api_call'));
+      }
+      return decisions;
+    };
+
+    it('resets a fixed window once it ends', async () => {
+      const limiter = limiterWith(store, 'fixed_window');
+
+      vi.setSystemTime(10_000);
+      const decisions = await consume(limiter, 4);
+      expect(decisions.map((decision) => decision.allowed)).toEqual([
+        true,
+        true,
+        true,
+        false,
+      ]);
+      expect(decisions[3]!.retryAfter).toBe(60);
+
+      vi.setSystemTime(MINUTE);
+      expect((await limiter.consume('0xplayer', 'api_call')).allowed).toBe(
+        false
+      );
+      vi.setSystemTime(10_000 + MINUTE);
+      expect((await limiter.consume('0xplayer', 'api_call')).allowed).toBe(
+        true
+      );
+    });
+
+    it('counts the last window of a sliding log', async () => {
+      const limiter = limiterWith(store, 'sliding_log');
+
+      for (const time of [0, 20_000, 40_000]) {
+        vi.setSystemTime(time);
+        expect((await limiter.consume('0xplayer', 'api_call')).allowed).toBe(
+          true
+        );
+      }
+
+      vi.setSystemTime(50_000);
+      const denied = await limiter.consume('0xplayer', 'api_call');
+      expect(denied.allowed).toBe(false);
+      expect(denied.retryAfter).toBe(10);
+
+      // The request from 0 has left the window, the other two haven't
+      vi.setSystemTime(MINUTE);
+      expect((await consume(limiter, 2)).map((d) => d.allowed)).toEqual([
+        true,
+        false,
+      ]);
+    });
+
+    it('refills a token bucket evenly', async () => {
+      const limiter = limiterWith(store, 'token_bucket');
+
+      const burst = await consume(limiter, 4);
+      expect(burst.map((decision) => decision.allowed)).toEqual([
+        true,
+        true,
+        true,
+        false,
+      ]);
+      expect(burst[3]!.retryAfter).toBe(20);
+
+      // One token every 20 seconds
+      vi.setSystemTime(20_000);
+      expect((await consume(limiter, 2)).map((d) => d.allowed)).toEqual([
+        true,
+        false,
+      ]);
+    });
+
+    it('keeps identifiers apart', async () => {
+      const limiter = limiterWith(store, 'fixed_window');
+
+      await consume(limiter, 3);
+      expect((await limiter.consume('0xother', 'api_call')).allowed).toBe(true);
+      expect(await limiter.getUsage('0xplayer', 'api_call')).toMatchObject({
+        count: 3,
+        limit: 3,
+      });
+    });
+
+    it('cleans up expired entries', async () => {
+      const limiter = limiterWith(store, 'fixed_window');
+
+      await limiter.consume('0xplayer', 'api_call');
+      vi.setSystemTime(30_000);
+      await limiter.consume('0xother', 'api_call');
+      expect((await limiter.getStats()).totalEntries).toBe(2);
+
+      // Redis expires the entry itself, cleanup then finds nothing to do
+      vi.setSystemTime(MINUTE);
+      await limiter.cleanup();
+      expect((await store.entries()).map(([key]) => key)).toEqual([
+        'api_call:0xother',
+      ]);
+    });
+  });
+
+storeSuite('MemoryRateLimitStore', () => new MemoryRateLimitStore());
+
+storeSuite('IndexedDBRateLimitStore', () => new IndexedDBRateLimitStore());
+
+storeSuite(
+  'RedisRateLimitStore',
+  () => new RedisRateLimitStore(new LocalRedis())
+);
+
+describe('RedisRateLimitStore across processes', () => {
+  it('never lets two processes take the same request', async () => {
+    const redis = new LocalRedis();
+    const limiters = [0, 1].map(() =>
+      limiterWith(new RedisRateLimitStore(redis), 'fixed_window')
+    );
+
+    // Each process reads before the other writes, only one write may land
+    const decisions = await Promise.all(
+      limiters.flatMap((limiter) =>
+        [0, 1, 2].map(() => limiter.consume('0xplayer', 'api_call'))
+      )
+    );
+    expect(decisions.filter((decision) => decision.allowed)).toHaveLength(3);
+  });
+
+  it('lists entries past one scan batch', async () => {
+    const store = new RedisRateLimitStore(new LocalRedis());
+    const entry = { count: 1, resetTime: Date.now() + MINUTE, blocked: false };
+
+    for (let i = 0; i < 250; i++) {
+      await store.update(`key${String(i)}`, () => entry);
+    }
+    expect(await store.entries()).toHaveLength(250);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+
+import { rollRelicDrop } from '../src/relics';
+import { ServerValidator } from '../src/server-validation';
+
+// The first of a level's kills that drops a relic from the Shadow Lord
+const droppingRoll = (seed: string, level: number) =>
+  Array.from({ length: 500 }, (_, roll) => roll).find(
+    (roll) => rollRelicDrop(seed, level, roll, 'shadow-lord') !== null
+  )!;
+
+describe('rollRelicDrop', () => {
+  it('rolls the same drop for the same kill', () => {
+    const roll = droppingRoll('seed', 10);
+
+    const drop = rollRelicDrop('seed', 10, roll, 'shadow-lord');
+    expect(drop?.relic.name).toBe('Essence of Shadows');
+    expect(rollRelicDrop('seed', 10, roll, 'shadow-lord')).toEqual(drop);
+  });
+
+  it('only drops boss relics from their boss and level', () => {
+    const roll = droppingRoll('seed', 10);
+
+    expect(rollRelicDrop('seed', 10, roll)).toBeNull();
+    expect(rollRelicDrop('seed', 10, roll, 'skeleton-king')).toBeNull();
+    expect(rollRelicDrop('seed', 9, roll, 'shadow-lord')).toBeNull();
+  });
+});
+
+describe('ServerValidator.rerollRelicDrop', () => {
+  // A run started on level 9 that clears it and then kills the Shadow Lord,
+  // with a roll that drops its relic unless boss says otherwise
+  const play = async (boss?: string) => {
+    const validator = new ServerValidator();
+    const { sessionId, seed } = validator.startSession('0xplayer', 9);
+    const roll = droppingRoll(seed, 10);
+    await validator.recordAction(sessionId, {
+      timestamp: Date.now(),
+      type: 'level_complete',
+      data: { level: 9, bonus: 0 },
+    });
+    await validator.recordAction(sessionId, {
+      timestamp: Date.now() + 1000,
+      type: 'enemy_killed',
+      data: { points: 500, roll, boss },
+    });
+    return { validator, sessionId, roll };
+  };
+
+  it('re-rolls the drop of a recorded kill', async () => {
+    const { validator, sessionId, roll } = await play('shadow-lord');
+
+    const drop = validator.rerollRelicDrop(sessionId, 10, roll);
+    expect(drop?.relic.name).toBe('Essence of Shadows');
+  });
+
+  it('finds nothing for kills that were never recorded', async () => {
+    const { validator, sessionId, roll } = await play('shadow-lord');
+
+    expect(validator.rerollRelicDrop(sessionId, 9, roll)).toBeNull();
+    expect(validator.rerollRelicDrop(sessionId, 10, roll + 1)).toBeNull();
+    expect(validator.rerollRelicDrop('missing', 10, roll)).toBeUndefined();
+  });
+
+  it('takes the boss from the recorded kill', async () => {
+    const { validator, sessionId, roll } = await play();
+
+    expect(validator.rerollRelicDrop(sessionId, 10, roll)).toBeNull();
+  });
+});
@@ -0,0 +1,159 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { type GameAction, ServerValidator } from '../src/server-validation';
+
+// Same level and score throughout, so progression checks pass for any order
+// and only the hash chain tells checkpoints apart
+const checkpoint = (step: number) => ({
+  timestamp: Date.now(),
+  level: 1,
+  score: 0,
+  health: 100,
+  position: { x: step * 10, y: 0 },
+  enemiesKilled: 0,
+  itemsCollected: 0,
+});
+
+describe('ServerValidator hash chains', () => {
+  let validator: ServerValidator;
+  let sessionId: string;
+
+  beforeEach(async () => {
+    validator = new ServerValidator();
+    ({ sessionId } = validator.startSession('0xplayer', 1));
+
+    const types: GameAction['type'][] = [
+      'enemy_killed',
+      'item_collected',
+      'level_complete',
+    ];
+    for (const [index, type] of types.entries()) {
+      await validator.recordAction(sessionId, {
+        timestamp: Date.now() + index * 1000,
+        type,
+        data: { points: 100 },
+      });
+    }
+    for (const step of [0, 1, 2]) {
+      await validator.recordCheckpoint(sessionId, checkpoint(step));
+    }
+  });
+
+  const actions = () => validator.getSession(sessionId)!.actions;
+  const checkpoints = () => validator.getSession(sessionId)!.checkpoints;
+
+  const flags = async () =>
+    (await validator.validateSession(sessionId, 300)).flags;
+
+  it('accepts an untouched history', async () => {
+    const result = await flags();
+    expect(result).not.toContain('invalid_action_hash');
+    expect(result).not.toContain('invalid_checkpoint_hash');
+  });
+
+  it('flags an edited action', async () => {
+    actions()[1]!.data = { points: 5000 };
+    expect(await flags()).toContain('invalid_action_hash');
+  });
+
+  it('flags a dropped action', async () => {
+    actions().splice(1, 1);
+    expect(await flags()).toContain('invalid_action_hash');
+  });
+
+  it('flags reordered actions', async () => {
+    const [first, second] = actions();
+    actions().splice(0, 2, second!, first!);
+    expect(await flags()).toContain('invalid_action_hash');
+  });
+
+  it('flags an edited checkpoint', async () => {
+    checkpoints()[1]!.health = 999;
+    expect(await flags()).toContain('invalid_checkpoint_hash');
+  });
+
+  it('flags a dropped checkpoint', async () => {
+    checkpoints().splice(1, 1);
+    expect(await flags()).toContain('invalid_checkpoint_hash');
+  });
+
+  it('flags reordered checkpoints', async () => {
+    const [first, second] = checkpoints();
+    checkpoints().splice(0, 2, second!, first!);
+    expect(await flags()).toContain('invalid_checkpoint_hash');
+  });
+
+  it('closes the session once validated', async () => {
+    await validator.validateSession(sessionId, 300);
+
+    const action = await validator.recordAction(sessionId, {
+      timestamp: Date.now(),
+      type: 'move',
+      data: { position: { x: 0, y: 0 } },
+    });
+    expect(action.success).toBe(false);
+    expect(
+      (await validator.recordCheckpoint(sessionId, checkpoint(3))).success
+    ).toBe(false);
+    expect((await validator.validateSession(sessionId, 300)).flags).toEqual([
+      'session_not_active',
+    ]);
+  });
+});
+
+describe('ServerValidator move and score checks', () => {
+  // Built before the session starts, so stamped a little into its future
+  const at = (offset: number) => Date.now() + 1000 + offset;
+
+  const move = (x: number, segment: number, offset: number) => ({
+    timestamp: at(offset),
+    type: 'move' as const,
+    data: { position: { x, y: 0 }, segment },
+  });
+
+  const validate = async (
+    actions: Omit<GameAction, 'hash'>[],
+    finalScore: number
+  ) => {
+    const validator = new ServerValidator();
+    const { sessionId } = validator.startSession('0xplayer', 1);
+    for (const action of actions) {
+      await validator.recordAction(sessionId, action);
+    }
+    return (await validator.validateSession(sessionId, finalScore)).flags;
+  };
+
+  it('flags movement faster than the limit within a segment', async () => {
+    const flags = await validate([move(0, 0, 0), move(1000, 0, 1000)], 0);
+    expect(flags).toContain('speed_too_high');
+  });
+
+  it('ignores jumps between segments', async () => {
+    const flags = await validate([move(0, 0, 0), move(1000, 1, 1000)], 0);
+    expect(flags).not.toContain('speed_too_high');
+  });
+
+  it('counts explicit zero points as zero', async () => {
+    const flags = await validate(
+      [
+        {
+          timestamp: at(0),
+          type: 'enemy_killed',
+          data: { points: 100 },
+        },
+        {
+          timestamp: at(1000),
+          type: 'item_collected',
+          data: { points: 0 },
+        },
+        {
+          timestamp: at(2000),
+          type: 'level_complete',
+          data: { level: 1, bonus: 0 },
+        },
+      ],
+      100
+    );
+    expect(flags).not.toContain('score_mismatch');
+  });
+});